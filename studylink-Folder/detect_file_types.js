@@ -0,0 +1,118 @@
+// detect_file_types.js
+// Re-detects the stored type of files uploaded before types were detected from their contents.
+// Those rows still hold the MIME type the uploading browser claimed, which could be anything
+// (text/html, image/svg+xml, ...); the preview only trusts it as far as its inline list, but
+// listings, the viewer and version restores keep using it.
+//
+// Usage: npm run types:backfill [-- --dry-run]
+//   --dry-run  report which types would change without touching anything
+//
+// Every file and every stored version is checked, one at a time, so the script can be stopped
+// and re-run safely: rows whose type already matches their contents are left alone.
+require('dotenv').config();
+const db = require('./db.mysql.js');
+const storage = require('./storage');
+const uploadPolicy = require('./upload_policy');
+
+const dryRun = process.argv.includes('--dry-run');
+
+// The first bytes of a stored object, or of a legacy BLOB row when there is no key
+async function readHead(storageKey, fileId) {
+  if (!storageKey) {
+    const rows = await db.all(
+      'SELECT SUBSTRING(image_data, 1, ?) AS head FROM image_store WHERE id = ?',
+      [uploadPolicy.SNIFF_BYTES, Number(fileId)]
+    );
+    return rows[0] && rows[0].head ? Buffer.from(rows[0].head) : null;
+  }
+  if (!(await storage.stat(storageKey))) {
+    return null;
+  }
+  const stream = await storage.createReadStream(storageKey, { start: 0, end: uploadPolicy.SNIFF_BYTES - 1 });
+  const chunks = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Walks one table row by row, detecting each row's type from its bytes.
+ *
+ * @param {Object} options
+ * @param {string} options.label - What a row is, for the log
+ * @param {string} options.select - Query for the row after the given id; must select id,
+ *   fileId, name, storageKey and fileType
+ * @param {string} options.update - Statement setting fileType (first parameter) by id (second)
+ * @returns {Promise<Object>} { checked, changed, failed }
+ */
+async function detectAll({ label, select, update }) {
+  let lastId = 0;
+  let checked = 0;
+  let changed = 0;
+  let failed = 0;
+  for (;;) {
+    const rows = await db.all(select, [lastId]);
+    if (rows.length === 0) break;
+
+    const row = rows[0];
+    lastId = row.id;
+    try {
+      const head = await readHead(row.storageKey, row.fileId);
+      if (!head) {
+        failed += 1;
+        console.error(`  ⚠️  ${label} ${row.id}: stored bytes not found`);
+        continue;
+      }
+      checked += 1;
+      const detectedType = await uploadPolicy.detectMimeType(head, row.name);
+      if (detectedType === row.fileType) continue;
+
+      changed += 1;
+      console.log(`  ${label} ${row.id}: ${row.fileType || '(none)'} -> ${detectedType}`);
+      if (!dryRun) {
+        await db.run(update, [detectedType, row.id]);
+      }
+    } catch (err) {
+      // A single unreadable object shouldn't stop the rest; it is checked again next run
+      failed += 1;
+      console.error(`  ⚠️  ${label} ${row.id} failed:`, err.message);
+    }
+  }
+  return { checked, changed, failed };
+}
+
+async function main() {
+  const files = await detectAll({
+    label: 'file',
+    select: `SELECT i.id, i.id AS fileId, i.image_name AS name, i.storage_key AS storageKey, nf.fileType
+             FROM image_store i
+             INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+             WHERE i.id > ?
+             ORDER BY i.id
+             LIMIT 1`,
+    update: 'UPDATE Note_Files SET fileType = ? WHERE fileID = CAST(? AS CHAR)',
+  });
+  const versions = await detectAll({
+    label: 'version',
+    select: `SELECT id, fileId, originalName AS name, storage_key AS storageKey, fileType
+             FROM file_versions
+             WHERE id > ?
+             ORDER BY id
+             LIMIT 1`,
+    update: 'UPDATE file_versions SET fileType = ? WHERE id = ?',
+  });
+
+  const verb = dryRun ? 'would change' : 'changed';
+  console.log(`✅ Checked ${files.checked} file(s) and ${versions.checked} version(s); ${verb} ${files.changed} and ${versions.changed}`);
+  if (files.failed + versions.failed > 0) {
+    console.log(`   ${files.failed + versions.failed} could not be read; run again once they are fixed.`);
+  }
+}
+
+main()
+  .catch(err => {
+    console.error('❌ File type detection failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => db.pool.end());
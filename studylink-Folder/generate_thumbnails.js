@@ -0,0 +1,76 @@
+// generate_thumbnails.js
+// Renders grid thumbnails for files uploaded before thumbnails existed.
+//
+// Usage: npm run thumbnails:backfill [-- --dry-run] [-- --regenerate]
+//   --dry-run     report how many files have no thumbnail without touching anything
+//   --regenerate  re-render every file, e.g. after changing the thumbnail size
+//
+// Files are processed one at a time and the script can be stopped and re-run safely:
+// files with a thumbnail_key are skipped. Formats without a thumbnail (e.g. ZIP) are
+// looked at again on each run, which is cheap since nothing is rendered for them.
+require('dotenv').config();
+const db = require('./db.mysql.js');
+const { generateThumbnail } = require('./thumbnails');
+
+const dryRun = process.argv.includes('--dry-run');
+const regenerate = process.argv.includes('--regenerate');
+
+const PENDING = regenerate ? '1 = 1' : 'i.thumbnail_key IS NULL';
+
+async function main() {
+  const [{ pending }] = await db.all(
+    `SELECT COUNT(*) AS pending
+     FROM image_store i
+     INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+     WHERE ${PENDING}`
+  );
+  console.log(`Found ${pending} file(s) without a thumbnail`);
+  if (dryRun || pending === 0) return;
+
+  let lastId = 0;
+  let rendered = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (;;) {
+    const rows = await db.all(
+      `SELECT i.id, i.image_name, i.storage_key, nf.fileType
+       FROM image_store i
+       INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+       WHERE i.id > ? AND ${PENDING}
+       ORDER BY i.id
+       LIMIT 1`,
+      [lastId]
+    );
+    if (rows.length === 0) break;
+
+    const row = rows[0];
+    lastId = row.id;
+    try {
+      const stored = await generateThumbnail({
+        id: row.id,
+        storageKey: row.storage_key,
+        fileType: row.fileType,
+        fileName: row.image_name,
+      });
+      if (stored) {
+        rendered += 1;
+        console.log(`  rendered thumbnail for file ${row.id}`);
+      } else {
+        skipped += 1;
+      }
+    } catch (err) {
+      // A corrupt file shouldn't stop the rest; it stays pending for the next run
+      failed += 1;
+      console.error(`  ⚠️  file ${row.id} failed:`, err.message);
+    }
+  }
+
+  console.log(`✅ Rendered ${rendered} thumbnail(s), ${skipped} file(s) have no previewable format${failed > 0 ? `, ${failed} failed` : ''}`);
+}
+
+main()
+  .catch(err => {
+    console.error('❌ Thumbnail backfill failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => db.pool.end());
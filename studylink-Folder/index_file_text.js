@@ -0,0 +1,72 @@
+// index_file_text.js
+// Extracts searchable text for files that were uploaded before full-text search existed.
+//
+// Usage: npm run index:text [-- --dry-run] [-- --reindex]
+//   --dry-run  report how many files would be indexed without touching anything
+//   --reindex  re-extract every file, e.g. after adding support for a new format
+//
+// Files are processed one at a time and the script can be stopped and re-run safely:
+// indexed files have a file_text row.
+require('dotenv').config();
+const db = require('./db.mysql.js');
+const { indexFileText } = require('./search_index');
+
+const dryRun = process.argv.includes('--dry-run');
+const reindex = process.argv.includes('--reindex');
+
+const PENDING = reindex ? '1 = 1' : 'ft.fileId IS NULL';
+
+async function main() {
+  const [{ pending }] = await db.all(
+    `SELECT COUNT(*) AS pending
+     FROM image_store i
+     INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+     LEFT JOIN file_text ft ON ft.fileId = nf.fileID
+     WHERE ${PENDING}`
+  );
+  console.log(`Found ${pending} file(s) to index`);
+  if (dryRun || pending === 0) return;
+
+  let lastId = 0;
+  let indexed = 0;
+  let failed = 0;
+  for (;;) {
+    const rows = await db.all(
+      `SELECT i.id, i.image_name, i.storage_key, nf.fileType
+       FROM image_store i
+       INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+       LEFT JOIN file_text ft ON ft.fileId = nf.fileID
+       WHERE i.id > ? AND ${PENDING}
+       ORDER BY i.id
+       LIMIT 1`,
+      [lastId]
+    );
+    if (rows.length === 0) break;
+
+    const row = rows[0];
+    lastId = row.id;
+    try {
+      const chars = await indexFileText({
+        id: row.id,
+        storageKey: row.storage_key,
+        fileType: row.fileType,
+        fileName: row.image_name,
+      });
+      indexed += 1;
+      console.log(`  indexed file ${row.id} (${chars} characters)`);
+    } catch (err) {
+      // One unreadable document shouldn't stop the rest; it stays pending for the next run
+      failed += 1;
+      console.error(`  ⚠️  file ${row.id} failed:`, err.message);
+    }
+  }
+
+  console.log(`✅ Indexed ${indexed} file(s)${failed > 0 ? `, ${failed} failed` : ''}`);
+}
+
+main()
+  .catch(err => {
+    console.error('❌ Text indexing failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => db.pool.end());
@@ -0,0 +1,58 @@
+const fsp = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const nodemailer = require('nodemailer');
+
+// Picks how outgoing mail (account verification, ...) is delivered. Every driver exposes:
+//   send({ to, subject, text }) -> void
+// "console" prints messages to the server log and "file" writes .eml files under MAIL_DIR,
+// so development and tests never need a real mail server; "smtp" relays through SMTP_HOST.
+// Verification and reset links are as good as a password, so production has to name a driver
+// instead of falling back to the log, and the console driver never logs bodies there.
+const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+if (IS_PRODUCTION && !process.env.MAIL_DRIVER) {
+  throw new Error('MAIL_DRIVER must be set when NODE_ENV is "production" (usually "smtp")');
+}
+const MAIL_DRIVER = (process.env.MAIL_DRIVER || 'console').toLowerCase();
+const MAIL_FROM = process.env.MAIL_FROM || 'StudyLink <no-reply@studylink.local>';
+const MAIL_DIR = path.resolve(__dirname, process.env.MAIL_DIR || 'mail');
+
+let transport;
+if (MAIL_DRIVER === 'smtp') {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('MAIL_DRIVER "smtp" requires SMTP_HOST');
+  }
+  const port = Number(process.env.SMTP_PORT) || 587;
+  transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    // Port 465 speaks TLS from the start; others upgrade with STARTTLS when the server offers it
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+} else if (MAIL_DRIVER === 'file') {
+  transport = nodemailer.createTransport({ streamTransport: true, buffer: true });
+} else if (MAIL_DRIVER === 'console') {
+  transport = nodemailer.createTransport({ jsonTransport: true });
+} else {
+  throw new Error(`Unknown MAIL_DRIVER "${MAIL_DRIVER}" (expected "console", "file" or "smtp")`);
+}
+
+async function send({ to, subject, text }) {
+  const info = await transport.sendMail({ from: MAIL_FROM, to, subject, text });
+
+  if (MAIL_DRIVER === 'file') {
+    // Timestamp first so a directory listing reads in send order
+    const name = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fsp.mkdir(MAIL_DIR, { recursive: true });
+    await fsp.writeFile(path.join(MAIL_DIR, name), info.message);
+  } else if (MAIL_DRIVER === 'console') {
+    console.log(IS_PRODUCTION
+      ? `✉️  Mail to ${to}: ${subject} (body not logged in production)`
+      : `✉️  Mail to ${to}: ${subject}\n${text}`);
+  }
+}
+
+module.exports = { send, driver: MAIL_DRIVER };
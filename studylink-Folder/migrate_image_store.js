@@ -0,0 +1,81 @@
+// migrate_image_store.js
+// Moves file bytes out of image_store.image_data BLOBs into the configured storage backend.
+//
+// Usage: npm run migrate:storage [-- --dry-run] [-- --keep-blobs]
+//   --dry-run     report how many rows would be moved without touching anything
+//   --keep-blobs  copy bytes to storage but leave image_data in place (for a cautious first pass)
+//
+// Rows are processed one at a time so only a single BLOB is ever held in memory,
+// and the script can be stopped and re-run safely: migrated rows have a storage_key.
+// Version history rows copied from a BLOB (see update_database_schema.sql, STEP 11) have no
+// storage_key either; they are pointed at the same stored object.
+require('dotenv').config();
+const crypto = require('crypto');
+const { Readable } = require('stream');
+const db = require('./db.mysql.js');
+const storage = require('./storage');
+
+const dryRun = process.argv.includes('--dry-run');
+const keepBlobs = process.argv.includes('--keep-blobs');
+
+async function main() {
+  const [{ pending }] = await db.all(
+    'SELECT COUNT(*) AS pending FROM image_store WHERE storage_key IS NULL AND image_data IS NOT NULL'
+  );
+  console.log(`Found ${pending} image_store row(s) still stored as BLOBs (driver: ${storage.driver})`);
+  if (dryRun || pending === 0) return;
+
+  let lastId = 0;
+  let moved = 0;
+  for (;;) {
+    const rows = await db.all(
+      `SELECT i.id, i.image_data, nf.fileType
+       FROM image_store i
+       LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+       WHERE i.id > ? AND i.storage_key IS NULL AND i.image_data IS NOT NULL
+       ORDER BY i.id
+       LIMIT 1`,
+      [lastId]
+    );
+    if (rows.length === 0) break;
+
+    const row = rows[0];
+    lastId = row.id;
+    const storageKey = storage.generateKey();
+    const { size } = await storage.put(storageKey, Readable.from([row.image_data]), {
+      contentType: row.fileType || 'application/octet-stream',
+    });
+
+    if (size !== row.image_data.length) {
+      await storage.remove(storageKey);
+      throw new Error(`size mismatch for image_store ${row.id}: wrote ${size}, expected ${row.image_data.length}`);
+    }
+
+    const contentHash = crypto.createHash('sha256').update(row.image_data).digest('hex');
+    // Versions first: if the script stops in between, the re-run still finds the BLOB row
+    await db.run(
+      'UPDATE file_versions SET storage_key = ?, content_hash = ? WHERE fileId = ? AND storage_key IS NULL',
+      [storageKey, contentHash, row.id.toString()]
+    );
+    await db.run(
+      keepBlobs
+        ? 'UPDATE image_store SET storage_key = ?, content_hash = ? WHERE id = ?'
+        : 'UPDATE image_store SET storage_key = ?, content_hash = ?, image_data = NULL WHERE id = ?',
+      [storageKey, contentHash, row.id]
+    );
+    moved += 1;
+    console.log(`  moved image_store ${row.id} (${size} bytes) -> ${storageKey}`);
+  }
+
+  console.log(`✅ Moved ${moved} file(s) to ${storage.driver} storage`);
+  if (!keepBlobs && moved > 0) {
+    console.log('   Run OPTIMIZE TABLE image_store; to reclaim the freed BLOB space in MySQL.');
+  }
+}
+
+main()
+  .catch(err => {
+    console.error('❌ image_store migration failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => db.pool.end());
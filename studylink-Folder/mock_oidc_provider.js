@@ -0,0 +1,122 @@
+// mock_oidc_provider.js
+// A stand-in OpenID Connect identity provider for trying single sign-on locally and for
+// test_oidc.sh. It signs everyone in without asking for a password.
+//
+// Usage: npm run mock:oidc
+//   then start the API with OIDC_ISSUER=http://localhost:8299 OIDC_CLIENT_ID=studylink
+//
+// Environment:
+//   MOCK_OIDC_PORT           port to listen on (default 8299)
+//   MOCK_OIDC_CLIENT_ID      the only client accepted (default "studylink")
+//   MOCK_OIDC_CLIENT_SECRET  when set, the token endpoint requires it (client_secret_basic)
+//   MOCK_OIDC_EMAIL          who signs in (default "student@university.edu")
+//
+// /authorize also takes login_hint=<email> to sign in as someone else, and
+// mock_email_verified=false to claim the address is unverified.
+const crypto = require('crypto');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 8299;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'studylink';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || '';
+const DEFAULT_EMAIL = process.env.MOCK_OIDC_EMAIL || 'student@university.edu';
+const CODE_TTL_MS = 60 * 1000;
+
+// A new signing key every run; the API fetches it from /jwks
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+// Authorization codes waiting to be exchanged, each usable once
+const codes = new Map();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: CLIENT_SECRET ? ['client_secret_basic'] : ['none'],
+    scopes_supported: ['openid', 'email', 'profile']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+app.get('/authorize', (req, res) => {
+  const { response_type, client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query;
+  if (client_id !== CLIENT_ID || typeof redirect_uri !== 'string') {
+    return res.status(400).send('unknown client or missing redirect_uri');
+  }
+  const back = new URL(redirect_uri);
+  if (response_type !== 'code' || code_challenge_method !== 'S256' || !code_challenge || !nonce) {
+    back.searchParams.set('error', 'invalid_request');
+  } else {
+    const email = typeof req.query.login_hint === 'string' ? req.query.login_hint : DEFAULT_EMAIL;
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      redirectUri: redirect_uri,
+      codeChallenge: code_challenge,
+      nonce,
+      email,
+      emailVerified: req.query.mock_email_verified !== 'false',
+      expiresAt: Date.now() + CODE_TTL_MS
+    });
+    back.searchParams.set('code', code);
+  }
+  if (state) back.searchParams.set('state', state);
+  console.log(`authorize: ${back.searchParams.get('error') || `signed in as ${req.query.login_hint || DEFAULT_EMAIL}`}`);
+  return res.redirect(302, back.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  if (CLIENT_SECRET) {
+    const expected = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+  } else if (req.body.client_id !== CLIENT_ID) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+
+  const grant = codes.get(code);
+  codes.delete(code);
+  const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+  if (grant_type !== 'authorization_code' || !grant || grant.expiresAt < Date.now() ||
+      grant.redirectUri !== redirect_uri || grant.codeChallenge !== challenge) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  const idToken = jwt.sign(
+    {
+      // Stable per email, like a real provider's user id
+      sub: crypto.createHash('sha256').update(grant.email).digest('hex').slice(0, 24),
+      email: grant.email,
+      email_verified: grant.emailVerified,
+      name: grant.email.split('@')[0],
+      nonce: grant.nonce
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+  );
+  return res.json({
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`✅ Mock OIDC provider at ${ISSUER} (client "${CLIENT_ID}", signs in as ${DEFAULT_EMAIL})`);
+});
@@ -0,0 +1,154 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+// Signing in through an OpenID Connect identity provider (the university's Shibboleth, Azure AD,
+// Okta, Keycloak, ...) with the authorization code flow and PKCE (RFC 7636). Everything about
+// the provider comes from its discovery document, so only the issuer URL and client are
+// configured. createClient({ issuer, clientId, clientSecret }) returns:
+//   authorizationUrl({ redirectUri, state, nonce, codeChallenge }) -> URL to send the browser to
+//   exchangeCode({ code, redirectUri, codeVerifier, nonce })       -> verified ID token claims
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// ID tokens must be signed with the provider's keys; symmetric and unsigned tokens are refused
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+// Signing keys are fetched again for an unknown key id (the provider rotated them), but not more
+// often than this, so tokens with made-up key ids can't make us hammer the provider
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+// Providers' clocks drift a little from ours
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+function randomToken(bytes = 32) {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+// The S256 code challenge sent with the authorization request for a code verifier
+function pkceChallenge(codeVerifier) {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+async function fetchJson(url, init = {}) {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const text = await res.text();
+  let body;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error(`${url} answered ${res.status} with a non-JSON body`);
+  }
+  if (!res.ok) {
+    const reason = body.error_description || body.error || res.statusText;
+    throw new Error(`${url} answered ${res.status}: ${reason}`);
+  }
+  return body;
+}
+
+function createClient({ issuer, clientId, clientSecret }) {
+  const issuerUrl = issuer.replace(/\/+$/, '');
+  let discovery = null;
+  let keys = new Map();
+  let keysFetchedAt = 0;
+
+  // Fetched on first use and kept; a failed fetch is retried on the next sign-in
+  function getProvider() {
+    if (!discovery) {
+      discovery = fetchJson(`${issuerUrl}/.well-known/openid-configuration`)
+        .then(config => {
+          // The issuer in tokens must be the configured one, so the document has to agree
+          if (config.issuer.replace(/\/+$/, '') !== issuerUrl) {
+            throw new Error(`discovery document is for issuer "${config.issuer}", expected "${issuer}"`);
+          }
+          return config;
+        })
+        .catch(err => {
+          discovery = null;
+          throw err;
+        });
+    }
+    return discovery;
+  }
+
+  async function getSigningKey(kid) {
+    if (!keys.has(kid) && Date.now() - keysFetchedAt > JWKS_MIN_REFRESH_MS) {
+      const provider = await getProvider();
+      const jwks = await fetchJson(provider.jwks_uri);
+      keys = new Map();
+      for (const jwk of jwks.keys || []) {
+        if (jwk.use && jwk.use !== 'sig') continue;
+        keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+      keysFetchedAt = Date.now();
+    }
+    const key = keys.get(kid);
+    if (!key) {
+      throw new Error(`no signing key "${kid}" published by the provider`);
+    }
+    return key;
+  }
+
+  async function verifyIdToken(idToken, nonce) {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) {
+      throw new Error('ID token is not a JWT');
+    }
+    const key = await getSigningKey(decoded.header.kid);
+    const claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: (await getProvider()).issuer,
+      audience: clientId,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS
+    });
+    // A token issued to several clients names the one it was meant for
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== clientId) {
+      throw new Error('ID token was issued to another client');
+    }
+    if (!claims.nonce || claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match');
+    }
+    if (!claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+    return claims;
+  }
+
+  async function authorizationUrl({ redirectUri, state, nonce, codeChallenge }) {
+    const provider = await getProvider();
+    const url = new URL(provider.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope: 'openid email profile',
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
+    }).toString();
+    return url.toString();
+  }
+
+  async function exchangeCode({ code, redirectUri, codeVerifier, nonce }) {
+    const provider = await getProvider();
+    const headers = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+    const form = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+      client_id: clientId
+    });
+    // Confidential clients authenticate with HTTP Basic (client_secret_basic); public ones
+    // rely on PKCE alone
+    if (clientSecret) {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+    const tokens = await fetchJson(provider.token_endpoint, { method: 'POST', headers, body: form.toString() });
+    if (typeof tokens.id_token !== 'string') {
+      throw new Error('token response has no ID token');
+    }
+    return verifyIdToken(tokens.id_token, nonce);
+  }
+
+  return { authorizationUrl, exchangeCode };
+}
+
+module.exports = { createClient, randomToken, pkceChallenge };
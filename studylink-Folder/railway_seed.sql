@@ -29,7 +29,7 @@ CREATE TABLE `User` (
 DROP TABLE IF EXISTS `Note_Files`;
 CREATE TABLE `Note_Files` (
   `ownerID`     VARCHAR(16)  NOT NULL,
-  `fileType`    VARCHAR(16),
+  `fileType`    VARCHAR(255),
   `size`        VARCHAR(16),
   `LastUpdated` VARCHAR(32),
   PRIMARY KEY (`ownerID`)
@@ -1794,8 +1794,8 @@ VALUES
 ('WGS','500','Seminar in Feminist Theory and Research in Social Sciences','',3,3,25,3);
 
 -- --- image_store table (needed for file uploads/downloads) ---
--- This table is NOT modified by update_database_schema.sql; the app
--- expects this shape for storing file blobs.
+-- update_database_schema.sql adds storage_key and makes image_data
+-- nullable once file bytes move to the storage backend.
 DROP TABLE IF EXISTS `image_store`;
 CREATE TABLE `image_store` (
   `id`         INT AUTO_INCREMENT PRIMARY KEY,
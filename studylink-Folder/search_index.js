@@ -0,0 +1,62 @@
+const db = require('./db.mysql.js');
+const storage = require('./storage');
+const { extractText } = require('./text_extract');
+
+// Uploads are capped at 50MB, so reading one file into memory for extraction is bounded.
+const MAX_EXTRACT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Reads a stored file into memory for processing (text extraction, thumbnails).
+ *
+ * @param {Object} file
+ * @param {number} file.id - image_store ID
+ * @param {string|null} file.storageKey - Storage key, or null for legacy BLOB rows
+ * @returns {Promise<Buffer|null>} File bytes, or null if missing or over MAX_EXTRACT_BYTES
+ */
+async function readStoredBytes(file) {
+  if (!file.storageKey) {
+    // Legacy row that still keeps its bytes in image_store
+    const rows = await db.all('SELECT image_data FROM image_store WHERE id = ?', [file.id]);
+    return rows.length > 0 ? rows[0].image_data : null;
+  }
+
+  const stream = await storage.createReadStream(file.storageKey);
+  const chunks = [];
+  let total = 0;
+  for await (const chunk of stream) {
+    total += chunk.length;
+    if (total > MAX_EXTRACT_BYTES) {
+      stream.destroy();
+      return null;
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Extracts a file's text and stores it in file_text for full-text search.
+ *
+ * Files in formats we cannot read still get a row (with NULL content) so the
+ * backfill knows they have been looked at.
+ *
+ * @param {Object} file
+ * @param {number} file.id - image_store ID
+ * @param {string|null} file.storageKey - Storage key, or null for legacy BLOB rows
+ * @param {string} [file.fileType] - MIME type
+ * @param {string} [file.fileName] - Original file name
+ * @returns {Promise<number>} Number of characters indexed (0 when nothing was extracted)
+ */
+async function indexFileText(file) {
+  const buffer = await readStoredBytes(file);
+  const text = buffer ? await extractText(buffer, file) : null;
+
+  await db.run(
+    `INSERT INTO file_text (fileId, content, extractedAt) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE content = VALUES(content), extractedAt = VALUES(extractedAt)`,
+    [file.id.toString(), text, new Date()]
+  );
+  return text ? text.length : 0;
+}
+
+module.exports = { indexFileText, readStoredBytes };
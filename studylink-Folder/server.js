@@ -1,9 +1,15 @@
 const express = require('express');
 const cors = require('cors');
+const cookieParser = require('cookie-parser');
+const contentDisposition = require('content-disposition');
 const path = require('path');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
 const multer = require('multer');
+const QRCode = require('qrcode');
+const crypto = require('crypto');
+const { Readable } = require('stream');
+const { pipeline } = require('stream/promises');
 require('dotenv').config();
 
 // Use MySQL database (production) - DO NOT use db.js (SQLite)
@@ -23,12 +29,47 @@ try {
   process.exit(1);
 }
 
+// File bytes live in the configured storage backend (local directory or S3-compatible bucket).
+let storage;
+try {
+  storage = require('./storage');
+  console.log(`✅ Loaded ${storage.driver} file storage`);
+} catch (err) {
+  console.error('❌ ERROR: Failed to load file storage');
+  console.error('   Error:', err.message);
+  console.error('   Set STORAGE_DRIVER=local (with optional STORAGE_DIR) or STORAGE_DRIVER=s3 (with S3_BUCKET, S3_ENDPOINT, ...)');
+  process.exit(1);
+}
+
+// Text extraction for full-text search and thumbnail rendering; both run after an upload has been stored.
+const { indexFileText } = require('./search_index');
+const { generateThumbnail, renderAvatar, THUMBNAIL_TYPE } = require('./thumbnails');
+// Allowed types, blocked extensions and size limits for uploads (see upload_policy.js).
+const uploadPolicy = require('./upload_policy');
+// Outgoing mail (console, file or SMTP; see mailer.js).
+const mailer = require('./mailer');
+// One-time codes from authenticator apps, for two-factor sign-in (see totp.js).
+const totp = require('./totp');
+// Sign-in through the university's identity provider (see oidc.js).
+const oidc = require('./oidc');
+
 const app = express();
 const PORT = process.env.PORT || 8199;
 const distDir = path.join(__dirname, 'studylink-frontend', 'dist');
 
+// Public address of the app, used in emailed links and SSO redirects. It never comes from the
+// request's Host header: whoever sends the request controls that, and a forged one would get
+// a real password reset link mailed out pointing at their own site.
+if (process.env.NODE_ENV === 'production' && !process.env.APP_URL) {
+  console.error('❌ ERROR: APP_URL environment variable is required when NODE_ENV is "production"');
+  console.error('   Set it to the address users open the app at, e.g. APP_URL=https://studylink.university.edu');
+  process.exit(1);
+}
+const APP_URL = (process.env.APP_URL || `http://localhost:${PORT}`).replace(/\/+$/, '');
+
 app.use(cors());
 app.use(express.json({ limit: '50mb' })); // Increased for file uploads
+app.use(cookieParser());
 app.use(express.static(distDir));
 
 // JWT configuration
@@ -39,31 +80,336 @@ if (!process.env.JWT_SECRET) {
   process.exit(1);
 }
 const JWT_SECRET = process.env.JWT_SECRET;
-const JWT_EXPIRES_IN = '7d'; // 7 days
+// Access tokens are short-lived; clients keep a session going with a refresh token
+// (see POST /api/auth/refresh), which can be revoked server-side.
+const ACCESS_TOKEN_EXPIRES_IN_SECONDS = 15 * 60; // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
-// Guards protected routes by requiring a valid bearer token.
-function authenticateToken(req, res, next) {
+// How sessions reach the client (SESSION_MODE):
+//   "token"  - the access and refresh tokens are returned in the response body; the app stores
+//              them and sends the access token as a bearer header (the default)
+//   "cookie" - both are set as HttpOnly cookies that page scripts (or an XSS) can't read.
+//              Browsers attach cookies on their own, so requests that change something must
+//              also copy the readable CSRF cookie into the X-CSRF-Token header (double-submit).
+// Bearer tokens are accepted in both modes, for scripts and API clients.
+const SESSION_MODE = (process.env.SESSION_MODE || 'token').toLowerCase();
+if (!['token', 'cookie'].includes(SESSION_MODE)) {
+  console.error(`❌ ERROR: Unknown SESSION_MODE "${SESSION_MODE}" (expected "token" or "cookie")`);
+  process.exit(1);
+}
+const COOKIE_SAME_SITE = (process.env.COOKIE_SAME_SITE || 'strict').toLowerCase();
+if (!['strict', 'lax', 'none'].includes(COOKIE_SAME_SITE)) {
+  console.error(`❌ ERROR: Unknown COOKIE_SAME_SITE "${COOKIE_SAME_SITE}" (expected "strict", "lax" or "none")`);
+  process.exit(1);
+}
+// Secure cookies are only sent over HTTPS (browsers make an exception for localhost);
+// COOKIE_SECURE=false allows trying cookie mode over plain HTTP on another host.
+const COOKIE_SECURE = process.env.COOKIE_SECURE !== 'false';
+const ACCESS_COOKIE = 'sl_access';
+const REFRESH_COOKIE = 'sl_refresh';
+const CSRF_COOKIE = 'sl_csrf';
+const CSRF_HEADER = 'x-csrf-token';
+const CSRF_TOKEN_BYTES = 32;
+const CSRF_SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// The access token from the bearer header, or in cookie mode from the access cookie
+function accessTokenFromRequest(req) {
   const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  if (authHeader) {
+    return authHeader.split(' ')[1]; // Bearer TOKEN
+  }
+  return SESSION_MODE === 'cookie' ? req.cookies[ACCESS_COOKIE] : undefined;
+}
+
+// Requests that change something and carry session cookies must echo the CSRF cookie in a
+// header. Another site can make the browser send our cookies, but it can't read them.
+function csrfProtection(req, res, next) {
+  if (SESSION_MODE !== 'cookie' || CSRF_SAFE_METHODS.includes(req.method)) {
+    return next();
+  }
+  if (!req.cookies[ACCESS_COOKIE] && !req.cookies[REFRESH_COOKIE]) {
+    return next();
+  }
+  const expected = req.cookies[CSRF_COOKIE];
+  const sent = req.headers[CSRF_HEADER];
+  if (typeof expected !== 'string' || !expected || typeof sent !== 'string') {
+    return res.status(403).json({ error: 'invalid csrf token' });
+  }
+  // Compare byte lengths: a header with multi-byte characters can match in string length only,
+  // and timingSafeEqual throws on buffers of different sizes
+  const sentBytes = Buffer.from(sent);
+  const expectedBytes = Buffer.from(expected);
+  if (sentBytes.length !== expectedBytes.length || !crypto.timingSafeEqual(sentBytes, expectedBytes)) {
+    return res.status(403).json({ error: 'invalid csrf token' });
+  }
+  next();
+}
+app.use(csrfProtection);
+
+// Guards protected routes by requiring a valid access token (bearer header or session cookie).
+// The token's role is only a hint for the client: the stored role, ban and email verification
+// are read on every request, so they take effect without waiting for the token to expire.
+// So is the token version: bumping it (password change, "log out all devices") revokes every
+// access token issued before, and a deleted account's tokens stop working.
+function authenticateToken(req, res, next) {
+  const token = accessTokenFromRequest(req);
   
   if (!token) {
     return res.status(401).json({ error: 'authentication required' });
   }
   
+  // 401 (not 403) so clients know to refresh the token and retry
   jwt.verify(token, JWT_SECRET, (err, user) => {
     if (err) {
-      return res.status(403).json({ error: 'invalid or expired token' });
+      return res.status(401).json({ error: 'invalid or expired token' });
     }
-    req.user = user; // Attach user info to request
-    next();
+    findAccountState(user.id).then(account => {
+      if (!account || user.tv !== account.tokenVersion) {
+        return res.status(401).json({ error: 'invalid or expired token' });
+      }
+      if (account.bannedAt) {
+        return res.status(403).json({ error: 'account is banned' });
+      }
+      req.user = { ...user, ...accountFlags(account) }; // Attach user info to request
+      next();
+    }, lookupErr => {
+      console.error(`${req.method} ${req.originalUrl} failed:`, lookupErr);
+      res.status(500).json({ error: 'internal server error' });
+    });
+  });
+}
+
+// Attaches req.user when a valid access token is sent, but lets anonymous requests through.
+function optionalAuth(req, res, next) {
+  const token = accessTokenFromRequest(req);
+  if (!token) return next();
+
+  jwt.verify(token, JWT_SECRET, (err, user) => {
+    // A stale token on a public route just means "not signed in"
+    if (err) return next();
+    findAccountState(user.id).then(account => {
+      // So does a revoked token or a banned account's
+      if (account && user.tv === account.tokenVersion && !account.bannedAt) {
+        req.user = { ...user, ...accountFlags(account) };
+      }
+      next();
+    }, lookupErr => {
+      console.error(`${req.method} ${req.originalUrl} failed:`, lookupErr);
+      res.status(500).json({ error: 'internal server error' });
+    });
   });
 }
 
+// Roles from least to most privileged. Moderators can list and ban students and remove any
+// file; admins can also change roles and edit the class catalogue and terms.
+const USER_ROLES = ['student', 'moderator', 'admin'];
+const DEFAULT_ROLE = 'student';
+
+/**
+ * Lets through accounts with one of the given roles. Use after authenticateToken.
+ * 
+ * @param {...string} roles - Allowed roles, least privileged first (it names the 403 error)
+ * @returns {Function} Express middleware
+ */
+function requireRole(...roles) {
+  return (req, res, next) => {
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ error: `${roles[0]} access required` });
+    }
+    next();
+  };
+}
+
+const requireModerator = requireRole('moderator', 'admin');
+const requireAdmin = requireRole('admin');
+
+// Uploading needs a verified inbox; browsing and downloading don't. Use after authenticateToken.
+function requireVerifiedEmail(req, res, next) {
+  if (!req.user.emailVerified) {
+    return res.status(403).json({ error: 'email not verified' });
+  }
+  next();
+}
+
+// Moderators and admins can open any file, including hidden ones, to review reports
+function isStaff(user) {
+  return Boolean(user && (user.role === 'moderator' || user.role === 'admin'));
+}
+
 // User table configuration
 const USER_TABLE = 'User';
 const EMAIL_COL = 'email'; // email is now the primary key
 const PASSWORD_COL = 'passwordhash';
 
+async function findAccountState(userId) {
+  const rows = await db.all(
+    `SELECT role, bannedAt, emailVerifiedAt, tokenVersion, totpEnabledAt FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+    [userId]
+  );
+  return rows[0] || null;
+}
+
+function accountFlags(account) {
+  return {
+    role: account ? account.role : DEFAULT_ROLE,
+    emailVerified: Boolean(account && account.emailVerifiedAt),
+    twoFactorEnabled: Boolean(account && account.totpEnabledAt)
+  };
+}
+
+// Tokens carry the role so the app can show staff tools without another request, and the
+// account's token version (tv) so they can be revoked.
+function signUserToken(email, role, tokenVersion) {
+  return jwt.sign(
+    { id: email, email, role, tv: tokenVersion },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS }
+  );
+}
+
+// Refresh tokens are random and only their SHA-256 is stored. Each one is used once: a
+// refresh returns a new token in the same family. Seeing a used token again means it was
+// copied, so the whole family is revoked (unless it was only just used, which is two tabs
+// refreshing at the same moment).
+const REFRESH_TOKEN_BYTES = 32;
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+function hashRefreshToken(token) {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
+}
+
+/**
+ * Starts a session (or continues one, given its family): signs an access token and stores
+ * a new refresh token.
+ * 
+ * @param {string} email - Account email
+ * @param {string} role - Current role, copied into the access token
+ * @param {number} tokenVersion - Current token version, copied into the access token
+ * @param {string} [familyId] - Refresh token family to continue; a new one by default
+ * @returns {Promise<Object>} { token, refreshToken, expiresIn } for the response body
+ */
+async function createSession(email, role, tokenVersion, familyId = crypto.randomUUID()) {
+  const refreshToken = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+  const now = new Date();
+  // Expired rows are of no use to anyone; clear the account's out while we're here
+  await db.run('DELETE FROM refresh_tokens WHERE userId = ? AND expiresAt < ?', [email, now]);
+  await db.run(
+    'INSERT INTO refresh_tokens (userId, familyId, tokenHash, createdAt, expiresAt) VALUES (?, ?, ?, ?, ?)',
+    [email, familyId, hashRefreshToken(refreshToken), now, new Date(now.getTime() + REFRESH_TOKEN_TTL_MS)]
+  );
+  return {
+    token: signUserToken(email, role, tokenVersion),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS
+  };
+}
+
+function sessionCookieOptions(cookiePath, maxAge) {
+  return { httpOnly: true, secure: COOKIE_SECURE, sameSite: COOKIE_SAME_SITE, path: cookiePath, maxAge };
+}
+
+/**
+ * Hands a session from createSession to the client. In token mode the tokens go in the
+ * response body. In cookie mode they are set as HttpOnly cookies, along with the CSRF cookie
+ * the page echoes back, and the body only says when the access token expires.
+ * 
+ * @param {Object} res - Express response
+ * @param {Object} session - { token, refreshToken, expiresIn } from createSession
+ * @param {string} [csrfToken] - CSRF token to keep (a refresh); a new one by default
+ * @returns {Object} Session fields for the response body
+ */
+function sessionResponse(res, session, csrfToken = crypto.randomBytes(CSRF_TOKEN_BYTES).toString('base64url')) {
+  if (SESSION_MODE !== 'cookie') {
+    return session;
+  }
+  res.cookie(ACCESS_COOKIE, session.token, sessionCookieOptions('/api', session.expiresIn * 1000));
+  // Only the routes that refresh or end a session ever see the refresh token
+  res.cookie(REFRESH_COOKIE, session.refreshToken, sessionCookieOptions('/api/auth', REFRESH_TOKEN_TTL_MS));
+  res.cookie(CSRF_COOKIE, csrfToken, {
+    ...sessionCookieOptions('/', REFRESH_TOKEN_TTL_MS),
+    httpOnly: false // the page reads it to send the header
+  });
+  return { expiresIn: session.expiresIn };
+}
+
+// The refresh token from the request body, or in cookie mode from the refresh cookie
+function refreshTokenFromRequest(req) {
+  const { refreshToken } = req.body || {};
+  if (typeof refreshToken === 'string' && refreshToken) {
+    return refreshToken;
+  }
+  return SESSION_MODE === 'cookie' ? req.cookies[REFRESH_COOKIE] : undefined;
+}
+
+function clearSessionCookies(res) {
+  if (SESSION_MODE !== 'cookie') return;
+  // Cookies are only cleared with the path (and flags) they were set with
+  res.clearCookie(ACCESS_COOKIE, sessionCookieOptions('/api'));
+  res.clearCookie(REFRESH_COOKIE, sessionCookieOptions('/api/auth'));
+  res.clearCookie(CSRF_COOKIE, { ...sessionCookieOptions('/'), httpOnly: false });
+}
+
+// Ends every session of an account: access tokens fail the version check and refresh tokens
+// are revoked. Returns the new token version.
+async function revokeAllSessions(email) {
+  await db.run(
+    `UPDATE \`${USER_TABLE}\` SET tokenVersion = tokenVersion + 1 WHERE ${EMAIL_COL} = ?`,
+    [email]
+  );
+  await db.run(
+    'UPDATE refresh_tokens SET revokedAt = ? WHERE userId = ? AND revokedAt IS NULL',
+    [new Date(), email]
+  );
+  const account = await findAccountState(email);
+  return account ? account.tokenVersion : 0;
+}
+
+// Verification links carry a token signed with their own key, so a session token can never
+// stand in for one (or the other way round).
+const EMAIL_VERIFY_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('email-verify').digest();
+const EMAIL_VERIFY_EXPIRES_IN = '24h';
+// Minimum wait between verification emails to the same account
+const VERIFY_RESEND_INTERVAL_MS = 60 * 1000;
+
+function signVerifyToken(email) {
+  return jwt.sign({ email }, EMAIL_VERIFY_SECRET, { expiresIn: EMAIL_VERIFY_EXPIRES_IN });
+}
+
+// Returns the email the token was issued for, or null when it is invalid or expired.
+function readVerifyToken(token) {
+  try {
+    return jwt.verify(String(token), EMAIL_VERIFY_SECRET).email || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Emails a verification link and records when it was sent (for the resend throttle).
+ * The link points at the app, which confirms it with GET /api/auth/verify.
+ * 
+ * @param {string} email - Account to verify
+ */
+async function sendVerificationEmail(email) {
+  const link = `${APP_URL}/?verify=${encodeURIComponent(signVerifyToken(email))}`;
+  await db.run(
+    `UPDATE \`${USER_TABLE}\` SET verificationSentAt = ? WHERE ${EMAIL_COL} = ?`,
+    [new Date(), email]
+  );
+  await mailer.send({
+    to: email,
+    subject: 'Verify your StudyLink account',
+    text: [
+      'Welcome to StudyLink!',
+      '',
+      'Confirm that this is your school email address by opening the link below:',
+      link,
+      '',
+      'The link expires in 24 hours. If you did not create an account, you can ignore this email.'
+    ].join('\n')
+  });
+}
+
 /**
  * Health check endpoint to verify API and database connectivity.
  * 
@@ -125,7 +471,13 @@ function isEduEmail(email) {
  * 
  * Creates a new user account after validating email format (.edu only),
  * password requirements (minimum 8 characters), and checking for duplicates.
- * Password is hashed using bcrypt before storage. Returns JWT token for immediate authentication.
+ * Password is hashed using bcrypt before storage. Returns an access token and a refresh token
+ * for immediate authentication (see POST /api/auth/refresh).
+ * A default public profile is created too (see GET /api/users/me).
+ * 
+ * The account starts unverified: a verification link is emailed to the address, and uploads
+ * are refused until it is opened (see GET /api/auth/verify). If the email can't be sent the
+ * account is still created and verificationSent is false; the user can ask for another one.
  * 
  * @route POST /api/auth/register
  * @access Public
@@ -133,10 +485,15 @@ function isEduEmail(email) {
  * @param {string} req.body.email - User's .edu email address
  * @param {string} req.body.password - User's password (minimum 8 characters)
  * @returns {Object} 201 - User created successfully
- * @returns {string} 201.token - JWT authentication token
+ * @returns {string} 201.token - JWT access token (expires in 15 minutes; token mode only, cookie mode sets it as a cookie)
+ * @returns {string} 201.refreshToken - Refresh token for POST /api/auth/refresh (token mode only)
+ * @returns {number} 201.expiresIn - Seconds until the access token expires
  * @returns {Object} 201.user - User information
  * @returns {string} 201.user.id - User ID (email address)
  * @returns {string} 201.user.email - User's email address
+ * @returns {string} 201.user.role - Always "student" for new accounts
+ * @returns {boolean} 201.user.emailVerified - Always false for new accounts
+ * @returns {boolean} 201.verificationSent - Whether the verification email went out
  * @returns {Object} 400 - Invalid input (email format, password length)
  * @returns {Object} 409 - Account already exists
  * @returns {Object} 500 - Internal server error
@@ -152,10 +509,15 @@ function isEduEmail(email) {
  * // Response (201)
  * {
  *   "token": "eyJhbGc...",
+ *   "refreshToken": "Vb1x9Qk...",
+ *   "expiresIn": 900,
  *   "user": {
  *     "id": "student@univer",
- *     "email": "student@university.edu"
- *   }
+ *     "email": "student@university.edu",
+ *     "role": "student",
+ *     "emailVerified": false
+ *   },
+ *   "verificationSent": true
  * }
  * 
  * @since 1.0.0
@@ -198,20 +560,28 @@ app.post('/api/auth/register', async (req, res) => {
     
     const user = rows[0];
     const userEmail = user.email;
+    await ensureProfile(userEmail);
     
-    // Create JWT token (email is now the id)
-    const token = jwt.sign(
-      { id: userEmail, email: userEmail },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN }
-    );
+    let verificationSent = true;
+    try {
+      await sendVerificationEmail(userEmail);
+    } catch (mailErr) {
+      console.error('Verification email failed:', mailErr);
+      verificationSent = false;
+    }
+    
+    // New accounts start at token version 0
+    const session = await createSession(userEmail, DEFAULT_ROLE, 0);
     
     return res.status(201).json({ 
-      token,
+      ...sessionResponse(res, session),
       user: {
         id: userEmail,
-        email: userEmail
-      }
+        email: userEmail,
+        role: DEFAULT_ROLE,
+        emailVerified: false
+      },
+      verificationSent
     });
   } catch (err) {
     console.error('POST /api/auth/register failed:', err);
@@ -228,7 +598,8 @@ app.post('/api/auth/register', async (req, res) => {
  * Authenticate an existing user and return JWT token.
  * 
  * Validates user credentials by comparing provided password with stored bcrypt hash.
- * Returns JWT token for authenticated session management. Token expires in 7 days.
+ * Returns a 15-minute access token and a refresh token that keeps the session going
+ * (see POST /api/auth/refresh).
  * 
  * @route POST /api/auth/login
  * @access Public
@@ -236,12 +607,19 @@ app.post('/api/auth/register', async (req, res) => {
  * @param {string} req.body.email - User's email address
  * @param {string} req.body.password - User's password
  * @returns {Object} 200 - Login successful
- * @returns {string} 200.token - JWT authentication token (expires in 7 days)
+ * @returns {string} 200.token - JWT access token (expires in 15 minutes; token mode only, cookie mode sets it as a cookie)
+ * @returns {string} 200.refreshToken - Refresh token for POST /api/auth/refresh (token mode only)
+ * @returns {number} 200.expiresIn - Seconds until the access token expires
  * @returns {Object} 200.user - User information
  * @returns {string} 200.user.id - User ID
  * @returns {string} 200.user.email - User's email address
+ * @returns {string} 200.user.role - student, moderator or admin
+ * @returns {boolean} 200.user.emailVerified - Whether the address has been verified (needed to upload)
+ * @returns {boolean} 200.twoFactorRequired - Instead of the above when the account has 2FA on
+ * @returns {string} 200.challengeToken - With twoFactorRequired: send it with a code to POST /api/auth/login/2fa
  * @returns {Object} 400 - Missing email or password
  * @returns {Object} 401 - Invalid credentials (wrong email or password)
+ * @returns {Object} 403 - Account is banned
  * @returns {Object} 500 - Internal server error
  * 
  * @example
@@ -255,9 +633,13 @@ app.post('/api/auth/register', async (req, res) => {
  * // Response (200)
  * {
  *   "token": "eyJhbGc...",
+ *   "refreshToken": "Vb1x9Qk...",
+ *   "expiresIn": 900,
  *   "user": {
  *     "id": "student@univer",
- *     "email": "student@university.edu"
+ *     "email": "student@university.edu",
+ *     "role": "student",
+ *     "emailVerified": true
  *   }
  * }
  * 
@@ -272,7 +654,7 @@ app.post('/api/auth/login', async (req, res) => {
     
     // Find user in User table
     const rows = await db.all(
-      `SELECT ${EMAIL_COL} AS email, ${PASSWORD_COL} AS passwordHash FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+      `SELECT ${EMAIL_COL} AS email, ${PASSWORD_COL} AS passwordHash, role, bannedAt, emailVerifiedAt, tokenVersion, totpEnabledAt FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
       [email.toLowerCase()]
     );
     
@@ -285,20 +667,30 @@ app.post('/api/auth/login', async (req, res) => {
     if (!ok) {
       return res.status(401).json({ error: 'invalid credentials' });
     }
+    // Only after the password matched, so a ban doesn't reveal which accounts exist
+    if (record.bannedAt) {
+      return res.status(403).json({ error: 'account is banned' });
+    }
+    // The session waits for the second factor (POST /api/auth/login/2fa)
+    if (record.totpEnabledAt) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: signLoginChallenge(record.email, record.tokenVersion)
+      });
+    }
     
     // Create JWT token (email is now the id)
     const userEmail = record.email;
-    const token = jwt.sign(
-      { id: userEmail, email: userEmail },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN }
-    );
+    const role = record.role || DEFAULT_ROLE;
+    const session = await createSession(userEmail, role, record.tokenVersion);
     
     return res.json({ 
-      token,
+      ...sessionResponse(res, session),
       user: {
         id: userEmail,
-        email: userEmail
+        email: userEmail,
+        role,
+        emailVerified: Boolean(record.emailVerifiedAt)
       }
     });
   } catch (err) {
@@ -308,30 +700,209 @@ app.post('/api/auth/login', async (req, res) => {
 });
 
 /**
- * Delete a user account after verifying credentials.
+ * Exchange a refresh token for a new access token and refresh token.
+ * 
+ * Refresh tokens rotate: the one sent is spent and must be replaced by the one returned.
+ * Sending a spent token again revokes the whole session, since it means the token was
+ * copied. The role in the new access token is the account's current one.
+ * 
+ * @route POST /api/auth/refresh
+ * @access Public (requires a refresh token)
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.refreshToken - Refresh token from login, register or an earlier refresh
+ *   (in cookie mode it may be left out; the refresh cookie is used)
+ * @returns {Object} 200 - New tokens (in cookie mode set as cookies, and only expiresIn is returned)
+ * @returns {string} 200.token - JWT access token (expires in 15 minutes)
+ * @returns {string} 200.refreshToken - Refresh token to use next time
+ * @returns {number} 200.expiresIn - Seconds until the access token expires
+ * @returns {Object} 400 - Missing refresh token
+ * @returns {Object} 401 - Unknown, expired, revoked or reused refresh token (sign in again)
+ * @returns {Object} 403 - Account is banned, or the CSRF header is missing (cookie mode)
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/refresh
+ * {
+ *   "refreshToken": "Vb1x9Qk..."
+ * }
+ * 
+ * // Response (200)
+ * {
+ *   "token": "eyJhbGc...",
+ *   "refreshToken": "p0Zr2Lw...",
+ *   "expiresIn": 900
+ * }
+ */
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    const refreshToken = refreshTokenFromRequest(req);
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'refresh token is required' });
+    }
+
+    const now = new Date();
+    const rows = await db.all(
+      'SELECT id, userId, familyId, expiresAt, usedAt, revokedAt FROM refresh_tokens WHERE tokenHash = ?',
+      [hashRefreshToken(refreshToken)]
+    );
+    const stored = rows[0];
+    if (!stored || stored.revokedAt || new Date(stored.expiresAt) <= now) {
+      clearSessionCookies(res);
+      return res.status(401).json({ error: 'invalid refresh token' });
+    }
+
+    // Spend the token; if it was already spent, someone else has (or had) a copy of it
+    const claimed = await db.run(
+      'UPDATE refresh_tokens SET usedAt = ? WHERE id = ? AND usedAt IS NULL',
+      [now, stored.id]
+    );
+    if (claimed.changes === 0) {
+      const usedAt = stored.usedAt ? new Date(stored.usedAt).getTime() : now.getTime();
+      if (now.getTime() - usedAt > REFRESH_REUSE_GRACE_MS) {
+        await db.run(
+          'UPDATE refresh_tokens SET revokedAt = ? WHERE familyId = ? AND revokedAt IS NULL',
+          [now, stored.familyId]
+        );
+      }
+      // Within the grace period the other tab's refresh already set new cookies; keep them
+      return res.status(401).json({ error: 'invalid refresh token' });
+    }
+
+    const account = await findAccountState(stored.userId);
+    if (!account) {
+      clearSessionCookies(res);
+      return res.status(401).json({ error: 'invalid refresh token' });
+    }
+    if (account.bannedAt) {
+      clearSessionCookies(res);
+      return res.status(403).json({ error: 'account is banned' });
+    }
+
+    const session = await createSession(
+      stored.userId,
+      account.role || DEFAULT_ROLE,
+      account.tokenVersion,
+      stored.familyId
+    );
+    // The page keeps its CSRF token for the rest of the session
+    return res.json(sessionResponse(res, session, req.cookies[CSRF_COOKIE]));
+  } catch (err) {
+    console.error('POST /api/auth/refresh failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Sign out this device by revoking its refresh token.
+ * 
+ * The access token keeps working until it expires (at most 15 minutes), so clients should
+ * also discard it. Unknown or already revoked tokens are accepted silently. In cookie mode
+ * the session cookies are cleared.
+ * 
+ * @route POST /api/auth/logout
+ * @access Public (requires a refresh token)
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.refreshToken - This device's refresh token (in cookie mode the
+ *   refresh cookie is used when it is left out)
+ * @returns {void} 204 - Signed out
+ * @returns {Object} 400 - Missing refresh token (token mode)
+ * @returns {Object} 403 - Missing CSRF header (cookie mode)
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/logout
+ * {
+ *   "refreshToken": "Vb1x9Qk..."
+ * }
+ */
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    const refreshToken = refreshTokenFromRequest(req);
+    clearSessionCookies(res);
+    if (!refreshToken) {
+      // Nothing left to revoke once the cookie has expired
+      if (SESSION_MODE === 'cookie') {
+        return res.status(204).end();
+      }
+      return res.status(400).json({ error: 'refresh token is required' });
+    }
+
+    const rows = await db.all(
+      'SELECT familyId FROM refresh_tokens WHERE tokenHash = ?',
+      [hashRefreshToken(refreshToken)]
+    );
+    if (rows.length > 0) {
+      await db.run(
+        'UPDATE refresh_tokens SET revokedAt = ? WHERE familyId = ? AND revokedAt IS NULL',
+        [new Date(), rows[0].familyId]
+      );
+    }
+    return res.status(204).end();
+  } catch (err) {
+    console.error('POST /api/auth/logout failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Sign out every device, including this one.
+ * 
+ * Bumps the account's token version, so every access token stops working immediately,
+ * and revokes every refresh token.
+ * 
+ * @route POST /api/auth/logout-all
+ * @access Private (requires JWT token)
+ * @returns {void} 204 - All sessions ended
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/logout-all
+ * Headers: { "Authorization": "Bearer <token>" }
+ */
+app.post('/api/auth/logout-all', authenticateToken, async (req, res) => {
+  try {
+    await revokeAllSessions(req.user.id);
+    clearSessionCookies(res);
+    return res.status(204).end();
+  } catch (err) {
+    console.error('POST /api/auth/logout-all failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Delete the signed-in user's account.
  * 
- * Permanently deletes user account from the database. Requires email and password
- * verification for security. This action cannot be undone.
+ * Permanently deletes the account from the database. Like turning off 2FA, it needs the
+ * password again, and a current code (or a recovery code) when 2FA is on, so neither a
+ * session left open nor a leaked password is enough on its own. This action cannot be undone.
  * 
  * @route DELETE /api/auth/account
- * @access Public (requires email + password verification)
+ * @access Private (requires JWT token, the account password and, with 2FA on, a code)
  * @param {Object} req.body - Request body
- * @param {string} req.body.email - User's email address
  * @param {string} req.body.password - User's password for verification
+ * @param {string} [req.body.code] - Six-digit code from the app, or a recovery code (required when 2FA is on)
  * @returns {Object} 200 - Account deleted successfully
  * @returns {string} 200.message - Success message
  * @returns {string} 200.email - Deleted user's email
- * @returns {Object} 400 - Missing email or password
- * @returns {Object} 401 - Invalid credentials
+ * @returns {Object} 400 - Missing password, or missing code while 2FA is on
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Wrong password or code
  * @returns {Object} 404 - Account not found
+ * @returns {Object} 429 - Too many wrong codes; retryAfter says when to try again
  * @returns {Object} 500 - Internal server error
  * 
  * @example
  * // Request
  * DELETE /api/auth/account
+ * Headers: { "Authorization": "Bearer <token>" }
  * {
- *   "email": "student@university.edu",
- *   "password": "password123"
+ *   "password": "password123",
+ *   "code": "492039"
  * }
  * 
  * // Response (200)
@@ -342,42 +913,59 @@ app.post('/api/auth/login', async (req, res) => {
  * 
  * @since 1.0.0
  */
-app.delete('/api/auth/account', async (req, res) => {
+app.delete('/api/auth/account', authenticateToken, async (req, res) => {
   try {
-    const { email, password } = req.body || {};
-    if (typeof email !== 'string' || typeof password !== 'string') {
-      return res.status(400).json({ error: 'email and password are required' });
+    const { password, code } = req.body || {};
+    if (typeof password !== 'string' || !password) {
+      return res.status(400).json({ error: 'password is required' });
     }
-    
-    // Find user and verify credentials
-    const rows = await db.all(
-      `SELECT ${EMAIL_COL} AS email, ${PASSWORD_COL} AS passwordHash FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
-      [email.toLowerCase()]
-    );
-    
-    if (rows.length === 0) {
-      return res.status(401).json({ error: 'invalid credentials' });
+
+    const state = await findTwoFactorState(req.user.id);
+    if (!state) {
+      return res.status(404).json({ error: 'account not found' });
     }
-    
-    const record = rows[0];
-    const ok = await bcrypt.compare(password, record.passwordHash);
-    if (!ok) {
-      return res.status(401).json({ error: 'invalid credentials' });
+    if (!(await bcrypt.compare(password, state.passwordHash))) {
+      return res.status(403).json({ error: 'invalid password' });
+    }
+    if (state.totpEnabledAt) {
+      if (typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ error: 'code is required when two-factor authentication is on' });
+      }
+      const result = await checkSecondFactor(req.user.id, state, code);
+      if (result.retryAfter) {
+        return sendTooManyAttempts(res, result.retryAfter);
+      }
+      if (!result.ok) {
+        return res.status(403).json({ error: 'invalid code' });
+      }
     }
     
     // Delete the user account
     const info = await db.run(
       `DELETE FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
-      [email.toLowerCase()]
+      [req.user.id]
     );
     
     if (info.changes === 0 && !info.affectedRows) {
       return res.status(404).json({ error: 'account not found' });
     }
+
+    // The public profile, class enrollments, reset links, sessions, recovery codes and linked sign-ins go with the account; uploaded files stay (without an owner profile)
+    const profiles = await db.all('SELECT avatarKey FROM user_profiles WHERE userId = ?', [req.user.id]);
+    await db.run('DELETE FROM user_profiles WHERE userId = ?', [req.user.id]);
+    await db.run('DELETE FROM class_enrollments WHERE userId = ?', [req.user.id]);
+    await db.run('DELETE FROM password_resets WHERE userId = ?', [req.user.id]);
+    await db.run('DELETE FROM refresh_tokens WHERE userId = ?', [req.user.id]);
+    await db.run('DELETE FROM totp_recovery_codes WHERE userId = ?', [req.user.id]);
+    await db.run('DELETE FROM user_identities WHERE userId = ?', [req.user.id]);
+    if (profiles.length > 0 && profiles[0].avatarKey) {
+      await removeStoredObject(profiles[0].avatarKey);
+    }
+    clearSessionCookies(res);
     
     return res.status(200).json({ 
       message: 'Account deleted successfully',
-      email: record.email
+      email: req.user.id
     });
   } catch (err) {
     console.error('DELETE /api/auth/account failed:', err);
@@ -391,6 +979,9 @@ app.delete('/api/auth/account', async (req, res) => {
  * Allows logged-in users to change their password by providing their current password
  * and a new password. Requires JWT authentication and current password verification.
  * 
+ * Every session is signed out, including other devices. The response carries a new token
+ * pair so this device stays signed in.
+ * 
  * @route PUT /api/auth/password
  * @access Private (requires JWT token)
  * @param {Object} req.user - User information from JWT (set by authenticateToken middleware)
@@ -400,6 +991,9 @@ app.delete('/api/auth/account', async (req, res) => {
  * @param {string} req.body.newPassword - New password (minimum 8 characters)
  * @returns {Object} 200 - Password changed successfully
  * @returns {string} 200.message - Success message
+ * @returns {string} 200.token - New access token (the old one no longer works; token mode only)
+ * @returns {string} 200.refreshToken - New refresh token (token mode only; cookie mode sets new cookies)
+ * @returns {number} 200.expiresIn - Seconds until the access token expires
  * @returns {Object} 400 - Missing current password or new password, or password too short
  * @returns {Object} 401 - Not authenticated or invalid current password
  * @returns {Object} 500 - Internal server error
@@ -415,7 +1009,10 @@ app.delete('/api/auth/account', async (req, res) => {
  * 
  * // Response (200)
  * {
- *   "message": "Password changed successfully"
+ *   "message": "Password changed successfully",
+ *   "token": "eyJhbGc...",
+ *   "refreshToken": "Vb1x9Qk...",
+ *   "expiresIn": 900
  * }
  * 
  * @since 1.0.0
@@ -458,971 +1055,7459 @@ app.put('/api/auth/password', authenticateToken, async (req, res) => {
       [newPasswordHash, userId]
     );
     
-    return res.status(200).json({ message: 'Password changed successfully' });
+    const tokenVersion = await revokeAllSessions(userId);
+    const session = await createSession(userId, req.user.role, tokenVersion);
+    
+    return res.status(200).json({ message: 'Password changed successfully', ...sessionResponse(res, session) });
   } catch (err) {
     console.error('PUT /api/auth/password failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
-// --- File Upload/Download ---
-// Configure multer for file uploads (store in memory to save to database)
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    // Accept all file types for MVP
-    cb(null, true);
-  },
-});
-
 /**
- * Upload a file to the system with optional class association.
+ * Confirm an email address with the token from a verification link.
  * 
- * Accepts file uploads via multipart/form-data. Files are stored in the database
- * as BLOBs in the image_store table. Metadata is stored in Note_Files table.
- * Maximum file size is 50MB. Requires JWT authentication.
+ * The emailed link opens the app at /?verify=<token>, which passes the token on here. No
+ * sign-in is needed, so the link works in whatever browser the mail client opens. Opening
+ * a link again after the account is verified is harmless.
  * 
- * @route POST /api/files/upload
- * @access Private (requires JWT token)
- * @param {Object} req.user - User information from JWT (set by authenticateToken middleware)
- * @param {string} req.user.id - User ID of the uploader
- * @param {Object} req.file - Uploaded file object (from multer)
- * @param {string} req.file.originalname - Original filename
- * @param {Buffer} req.file.buffer - File content as buffer
- * @param {number} req.file.size - File size in bytes
- * @param {string} req.file.mimetype - MIME type of the file
- * @param {Object} req.body - Form data
- * @param {string} [req.body.classId] - Optional class ID to associate file with
- * @returns {Object} 201 - File uploaded successfully
- * @returns {number} 201.id - File ID in database
- * @returns {string} 201.originalName - Original filename
- * @returns {number} 201.size - File size in bytes
- * @returns {string} 201.fileType - MIME type of the file
- * @returns {number|null} 201.classId - Associated class ID (if provided)
- * @returns {Object|null} 201.class - Class information (if classId provided)
- * @returns {string} 201.uploadedAt - ISO timestamp of upload
- * @returns {Object} 400 - No file uploaded, invalid classId, or class not found
- * @returns {Object} 401 - Not authenticated
+ * @route GET /api/auth/verify
+ * @access Public
+ * @param {string} req.query.token - Token from the verification link
+ * @returns {Object} 200 - Email verified
+ * @returns {string} 200.email - The verified address
+ * @returns {boolean} 200.emailVerified - Always true
+ * @returns {Object} 400 - Missing, invalid or expired token
+ * @returns {Object} 404 - Account no longer exists
  * @returns {Object} 500 - Internal server error
  * 
  * @example
- * // Request (multipart/form-data)
- * POST /api/files/upload
- * Headers: { "Authorization": "Bearer <token>" }
- * Form Data:
- *   - file: <file binary>
- *   - classId: "123" (optional)
+ * // Request
+ * GET /api/auth/verify?token=eyJhbGc...
  * 
- * // Response (201)
+ * // Response (200)
  * {
- *   "id": 456,
- *   "originalName": "assignment.pdf",
- *   "size": 524288,
- *   "fileType": "application/pdf",
- *   "classId": 123,
- *   "class": {
- *     "id": 123,
- *     "subject": "CS",
- *     "catalog": "370",
- *     "title": "Software Engineering",
- *     "csNumber": "CS370"
- *   },
- *   "uploadedAt": "2024-01-15T10:30:00.000Z"
+ *   "email": "student@university.edu",
+ *   "emailVerified": true
  * }
- * 
- * @since 1.0.0
  */
-app.post('/api/files/upload', authenticateToken, upload.single('file'), async (req, res) => {
+app.get('/api/auth/verify', async (req, res) => {
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'no file uploaded' });
+    const email = req.query.token ? readVerifyToken(req.query.token) : null;
+    if (!email) {
+      return res.status(400).json({ error: 'invalid or expired verification link' });
     }
 
-    const { classId, fileName } = req.body || {};
-    const file = req.file;
-    const userId = req.user.id;
-
-    // Use custom filename if provided, otherwise use original filename
-    const displayName = (fileName && fileName.trim()) ? fileName.trim() : file.originalname;
-
-    // Validate classId if provided
-    if (classId !== undefined && classId !== null && classId !== '') {
-      const classIdNum = Number(classId);
-      if (!Number.isInteger(classIdNum) || classIdNum <= 0) {
-        return res.status(400).json({ error: 'invalid classId' });
-      }
-      
-      // Verify class exists
-      const classRows = await db.all(
-        'SELECT id FROM classes WHERE id = ?',
-        [classIdNum]
+    const info = await db.run(
+      `UPDATE \`${USER_TABLE}\` SET emailVerifiedAt = ? WHERE ${EMAIL_COL} = ? AND emailVerifiedAt IS NULL`,
+      [new Date(), email]
+    );
+    if (info.changes === 0) {
+      // Either already verified or the account was deleted since the link was sent
+      const rows = await db.all(
+        `SELECT ${EMAIL_COL} FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+        [email]
       );
-      
-      if (classRows.length === 0) {
-        return res.status(400).json({ error: 'class not found' });
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'account not found' });
       }
     }
 
-    // Store file in image_store table (use displayName for image_name)
-    const imageResult = await db.run(
-      'INSERT INTO image_store (image_name, image_data) VALUES (?, ?)',
-      [displayName, file.buffer]
+    return res.json({ email, emailVerified: true });
+  } catch (err) {
+    console.error('GET /api/auth/verify failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Send another verification email to the signed-in account.
+ * 
+ * Earlier links keep working until they expire. Requests are throttled to one per minute
+ * per account; a 429 says how many seconds to wait.
+ * 
+ * @route POST /api/auth/verify/resend
+ * @access Private (requires JWT token)
+ * @returns {Object} 200 - Email sent
+ * @returns {string} 200.message - Success message
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 409 - Email already verified
+ * @returns {Object} 429 - Sent too recently (retryAfter is in seconds, also in the Retry-After header)
+ * @returns {Object} 500 - Internal server error (including mail delivery failures)
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/verify/resend
+ * Headers: { "Authorization": "Bearer <token>" }
+ * 
+ * // Response (429)
+ * {
+ *   "error": "verification email sent recently",
+ *   "retryAfter": 42
+ * }
+ */
+app.post('/api/auth/verify/resend', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.emailVerified) {
+      return res.status(409).json({ error: 'email already verified' });
+    }
+
+    const rows = await db.all(
+      `SELECT verificationSentAt FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+      [req.user.id]
     );
+    if (rows.length === 0) {
+      return res.status(401).json({ error: 'user not found' });
+    }
+    const sentAt = rows[0].verificationSentAt;
+    if (sentAt) {
+      const waitMs = new Date(sentAt).getTime() + VERIFY_RESEND_INTERVAL_MS - Date.now();
+      if (waitMs > 0) {
+        const retryAfter = Math.ceil(waitMs / 1000);
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ error: 'verification email sent recently', retryAfter });
+      }
+    }
 
-    const fileId = imageResult.insertId || imageResult.lastInsertRowid;
+    await sendVerificationEmail(req.user.id);
+    return res.json({ message: 'Verification email sent' });
+  } catch (err) {
+    console.error('POST /api/auth/verify/resend failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
 
-    // Get file size in bytes
-    const fileSize = file.size.toString();
-    const fileType = file.mimetype || 'application/octet-stream';
-    const lastUpdated = new Date().toISOString();
+// Reset tokens are random and only their SHA-256 is stored, like share links: a leaked
+// database row can't be turned back into a working link.
+const RESET_TOKEN_BYTES = 32;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+// Minimum wait between reset emails to the same account
+const RESET_REQUEST_INTERVAL_MS = 60 * 1000;
 
-    // Store metadata in Note_Files table
-    // ownerID = userId, fileID = image_store.id, classId = classes.id (optional)
-    const classIdValue = classId && classId !== '' ? classId.toString() : null;
-    await db.run(
-      'INSERT INTO Note_Files (ownerID, fileID, fileType, size, LastUpdated, classId) VALUES (?, ?, ?, ?, ?, ?)',
-      [userId, fileId.toString(), fileType.substring(0, 16), fileSize.substring(0, 16), lastUpdated, classIdValue]
+function hashResetToken(token) {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
+}
+
+/**
+ * Request a password reset link by email.
+ * 
+ * Always answers 200 with the same message, whether or not an account exists, so the
+ * form can't be used to find out who is registered. When the account exists (and isn't
+ * banned) a single-use link to /?reset=<token> is emailed; it expires after an hour.
+ * Requests for the same account within a minute of the last one send nothing.
+ * 
+ * @route POST /api/auth/forgot-password
+ * @access Public
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.email - Account email address
+ * @returns {Object} 200 - Request accepted
+ * @returns {string} 200.message - Generic confirmation
+ * @returns {Object} 400 - Missing email
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/forgot-password
+ * {
+ *   "email": "student@university.edu"
+ * }
+ * 
+ * // Response (200)
+ * {
+ *   "message": "If an account exists for that email, a reset link has been sent"
+ * }
+ */
+app.post('/api/auth/forgot-password', async (req, res) => {
+  try {
+    const { email } = req.body || {};
+    if (typeof email !== 'string' || !email.trim()) {
+      return res.status(400).json({ error: 'email is required' });
+    }
+    const reply = { message: 'If an account exists for that email, a reset link has been sent' };
+
+    const users = await db.all(
+      `SELECT ${EMAIL_COL} AS email, bannedAt FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+      [email.trim().toLowerCase()]
+    );
+    if (users.length === 0 || users[0].bannedAt) {
+      return res.json(reply);
+    }
+    const userEmail = users[0].email;
+
+    const now = new Date();
+    const recent = await db.all(
+      'SELECT id FROM password_resets WHERE userId = ? AND createdAt > ?',
+      [userEmail, new Date(now.getTime() - RESET_REQUEST_INTERVAL_MS)]
     );
+    if (recent.length > 0) {
+      return res.json(reply);
+    }
 
-    // Fetch the created file metadata with class info
-    const fileRows = await db.all(
-      `SELECT 
-        i.id,
-        i.image_name,
-        c.id AS classId,
-        c.Subject1 AS subject,
-        c.Catalog1 AS catalog,
-        c.Long_Title AS classTitle,
-        c.CS_Number AS csNumber
-      FROM image_store i
-      LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
-      LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
-      WHERE i.id = ?`,
-      [fileId]
+    const token = crypto.randomBytes(RESET_TOKEN_BYTES).toString('base64url');
+    await db.run(
+      'INSERT INTO password_resets (userId, tokenHash, createdAt, expiresAt) VALUES (?, ?, ?, ?)',
+      [userEmail, hashResetToken(token), now, new Date(now.getTime() + RESET_TOKEN_TTL_MS)]
     );
 
-    const fileData = fileRows[0] || { id: fileId, image_name: displayName };
+    try {
+      await mailer.send({
+        to: userEmail,
+        subject: 'Reset your StudyLink password',
+        text: [
+          'Someone asked to reset the password for your StudyLink account.',
+          '',
+          'Choose a new password by opening the link below:',
+          `${APP_URL}/?reset=${encodeURIComponent(token)}`,
+          '',
+          'The link works once and expires in 1 hour. If you did not ask for this, you can ignore this email;',
+          'your password has not been changed.'
+        ].join('\n')
+      });
+    } catch (mailErr) {
+      // Still the generic reply: an error here would confirm the account exists
+      console.error('Password reset email failed:', mailErr);
+    }
 
-    return res.status(201).json({
-      id: fileId,
-      originalName: displayName,
-      size: file.size,
-      fileType: fileType,
-      classId: fileData.classId ? Number(fileData.classId) : null,
-      class: fileData.classId ? {
-        id: Number(fileData.classId),
-        subject: fileData.subject,
-        catalog: fileData.catalog,
-        title: fileData.classTitle,
-        csNumber: fileData.csNumber
-      } : null,
-      uploadedAt: lastUpdated,
-    });
+    return res.json(reply);
   } catch (err) {
-    console.error('POST /api/files/upload failed:', err);
-    console.error('Error details:', err.message, err.code, err.sqlMessage);
-    return res.status(500).json({ 
-      error: 'internal server error',
-      details: err.message || err.sqlMessage || 'Unknown error'
-    });
+    console.error('POST /api/auth/forgot-password failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * List all uploaded files with optional search and class filtering.
+ * Set a new password with the token from a reset link.
  * 
- * Returns a paginated list of all files in the system. Supports searching by filename
- * and filtering by class ID. This endpoint is publicly accessible (no authentication required).
- * Files are returned with their metadata including class information if associated.
+ * The token is spent even if another request races it, and every other outstanding reset
+ * link for the account stops working too, as does every session. Because the link arrived
+ * by email, the reset also counts as verifying the address.
  * 
- * @route GET /api/files
+ * @route POST /api/auth/reset-password
  * @access Public
- * @param {Object} req.query - Query parameters
- * @param {string} [req.query.search] - Search term to filter files by filename (case-insensitive partial match)
- * @param {string} [req.query.classId] - Filter files by class ID (must be valid integer)
- * @returns {Array<Object>} 200 - Array of file objects
- * @returns {number} 200[].id - File ID
- * @returns {string} 200[].originalName - Original filename
- * @returns {string} 200[].size - File size as string
- * @returns {string} 200[].fileType - MIME type
- * @returns {string} 200[].uploadedAt - ISO timestamp of upload
- * @returns {Object|null} 200[].class - Class information if file is associated with a class
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.token - Token from the reset link
+ * @param {string} req.body.newPassword - New password (minimum 8 characters)
+ * @returns {Object} 200 - Password reset
+ * @returns {string} 200.message - Success message
+ * @returns {Object} 400 - Missing fields, password too short, or an invalid, used or expired token
  * @returns {Object} 500 - Internal server error
  * 
  * @example
  * // Request
- * GET /api/files?search=assignment&classId=123
+ * POST /api/auth/reset-password
+ * {
+ *   "token": "q3ZlVn0...",
+ *   "newPassword": "newpassword456"
+ * }
  * 
  * // Response (200)
- * [
- *   {
- *     "id": 456,
- *     "originalName": "assignment1.pdf",
- *     "size": "524288",
- *     "fileType": "application/pdf",
- *     "uploadedAt": "2024-01-15T10:30:00.000Z",
- *     "class": {
- *       "id": 123,
- *       "subject": "CS",
- *       "catalog": "370",
- *       "title": "Software Engineering",
- *       "csNumber": "CS370"
- *     }
- *   }
- * ]
+ * {
+ *   "message": "Password reset successfully"
+ * }
+ */
+app.post('/api/auth/reset-password', async (req, res) => {
+  try {
+    const { token, newPassword } = req.body || {};
+    if (typeof token !== 'string' || typeof newPassword !== 'string') {
+      return res.status(400).json({ error: 'token and new password are required' });
+    }
+    if (newPassword.length < 8) {
+      return res.status(400).json({ error: 'new password must be at least 8 characters' });
+    }
+
+    const now = new Date();
+    const rows = await db.all(
+      'SELECT id, userId FROM password_resets WHERE tokenHash = ? AND usedAt IS NULL AND expiresAt > ?',
+      [hashResetToken(token), now]
+    );
+    if (rows.length === 0) {
+      return res.status(400).json({ error: 'invalid or expired reset link' });
+    }
+    const { id, userId } = rows[0];
+
+    // Claim the token first so two requests with the same link can't both succeed
+    const claimed = await db.run(
+      'UPDATE password_resets SET usedAt = ? WHERE id = ? AND usedAt IS NULL',
+      [now, id]
+    );
+    if (claimed.changes === 0) {
+      return res.status(400).json({ error: 'invalid or expired reset link' });
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, 10);
+    await db.run(
+      `UPDATE \`${USER_TABLE}\` SET ${PASSWORD_COL} = ?, emailVerifiedAt = COALESCE(emailVerifiedAt, ?) WHERE ${EMAIL_COL} = ?`,
+      [passwordHash, now, userId]
+    );
+    await db.run(
+      'UPDATE password_resets SET usedAt = ? WHERE userId = ? AND usedAt IS NULL',
+      [now, userId]
+    );
+    await revokeAllSessions(userId);
+
+    return res.json({ message: 'Password reset successfully' });
+  } catch (err) {
+    console.error('POST /api/auth/reset-password failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- Two-Factor Authentication ---
+// With 2FA on, POST /api/auth/login answers a correct password with a login challenge instead
+// of a session. POST /api/auth/login/2fa trades the challenge and a code from the authenticator
+// app (or a recovery code) for the session. Challenges are signed with their own key and carry
+// the token version, so a password change voids the ones still pending.
+const LOGIN_CHALLENGE_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('login-2fa').digest();
+const LOGIN_CHALLENGE_EXPIRES_IN = '5m';
+const TOTP_ISSUER = 'StudyLink';
+// Single-use codes for when the phone is lost, shown once and stored as SHA-256
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_BYTES = 5;
+// Six digits are quick to guess by trying them all, so wrong codes in a row lock the
+// second step for a while
+const TOTP_MAX_FAILURES = 5;
+const TOTP_LOCKOUT_MS = 15 * 60 * 1000;
+
+function signLoginChallenge(email, tokenVersion) {
+  return jwt.sign({ email, tv: tokenVersion }, LOGIN_CHALLENGE_SECRET, { expiresIn: LOGIN_CHALLENGE_EXPIRES_IN });
+}
+
+// Returns { email, tv } from a valid challenge, or null when it is invalid or expired.
+function readLoginChallenge(token) {
+  try {
+    const { email, tv } = jwt.verify(String(token), LOGIN_CHALLENGE_SECRET);
+    return email ? { email, tv } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Recovery codes are typed by hand, so case, spaces and dashes don't matter
+function normalizeRecoveryCode(code) {
+  return String(code).toLowerCase().replace(/[\s-]/g, '');
+}
+
+function hashRecoveryCode(code) {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// Replaces the account's recovery codes with a new set and returns them (e.g. "3f9a1-c07be")
+async function issueRecoveryCodes(email) {
+  await db.run('DELETE FROM totp_recovery_codes WHERE userId = ?', [email]);
+  const now = new Date();
+  const codes = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const hex = crypto.randomBytes(RECOVERY_CODE_BYTES).toString('hex');
+    const code = `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    await db.run(
+      'INSERT INTO totp_recovery_codes (userId, codeHash, createdAt) VALUES (?, ?, ?)',
+      [email, hashRecoveryCode(code), now]
+    );
+    codes.push(code);
+  }
+  return codes;
+}
+
+async function findTwoFactorState(email) {
+  const rows = await db.all(
+    `SELECT ${PASSWORD_COL} AS passwordHash, totpSecret, totpEnabledAt, totpLastStep, totpFailedAttempts, totpLockedUntil FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+    [email]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Checks the second factor of an account with 2FA on: a six-digit code from the app (each
+ * one works once) or a recovery code (spent on use). Wrong codes count towards the lockout,
+ * and the wrong code that reaches the limit already gets the retryAfter.
  * 
- * @since 1.0.0
+ * @param {string} email - Account email
+ * @param {Object} state - Row from findTwoFactorState
+ * @param {string} code - Code typed by the user
+ * @returns {Promise<Object>} { ok: true, usedRecoveryCode } or { ok: false, retryAfter }
+ *   (retryAfter is set, in seconds, while the account is locked)
+ */
+async function checkSecondFactor(email, state, code) {
+  const now = new Date();
+  if (state.totpLockedUntil && new Date(state.totpLockedUntil) > now) {
+    return { ok: false, retryAfter: Math.ceil((new Date(state.totpLockedUntil) - now) / 1000) };
+  }
+
+  let ok = false;
+  let usedRecoveryCode = false;
+  const digits = String(code).replace(/\s/g, '');
+  if (/^\d{6}$/.test(digits)) {
+    const lastStep = state.totpLastStep === null || state.totpLastStep === undefined ? null : Number(state.totpLastStep);
+    const step = totp.verify(state.totpSecret, digits, lastStep);
+    if (step !== null) {
+      // Claim the step, so the same code can't be replayed (even by a parallel request). Not
+      // while locked: requests racing the one that set the lock read the state before it.
+      const claimed = await db.run(
+        `UPDATE \`${USER_TABLE}\` SET totpLastStep = ?, totpFailedAttempts = 0, totpLockedUntil = NULL WHERE ${EMAIL_COL} = ? AND (totpLastStep IS NULL OR totpLastStep < ?) AND (totpLockedUntil IS NULL OR totpLockedUntil <= ?)`,
+        [step, email, step, now]
+      );
+      ok = claimed.changes > 0;
+    }
+  } else {
+    const spent = await db.run(
+      'UPDATE totp_recovery_codes SET usedAt = ? WHERE userId = ? AND codeHash = ? AND usedAt IS NULL',
+      [now, email, hashRecoveryCode(code)]
+    );
+    if (spent.changes > 0) {
+      ok = true;
+      usedRecoveryCode = true;
+      await db.run(
+        `UPDATE \`${USER_TABLE}\` SET totpFailedAttempts = 0, totpLockedUntil = NULL WHERE ${EMAIL_COL} = ?`,
+        [email]
+      );
+    }
+  }
+  if (ok) {
+    return { ok: true, usedRecoveryCode };
+  }
+
+  // Counted in the database in one statement, so parallel wrong codes can't all read the same
+  // count. Both assignments see the count from before the update.
+  await db.run(
+    `UPDATE \`${USER_TABLE}\` SET totpLockedUntil = IF(totpFailedAttempts + 1 >= ?, ?, totpLockedUntil), totpFailedAttempts = IF(totpFailedAttempts + 1 >= ?, 0, totpFailedAttempts + 1) WHERE ${EMAIL_COL} = ?`,
+    [TOTP_MAX_FAILURES, new Date(now.getTime() + TOTP_LOCKOUT_MS), TOTP_MAX_FAILURES, email]
+  );
+  const rows = await db.all(
+    `SELECT totpLockedUntil FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+    [email]
+  );
+  const lockedUntil = rows[0] && rows[0].totpLockedUntil ? new Date(rows[0].totpLockedUntil) : null;
+  if (lockedUntil && lockedUntil > now) {
+    return { ok: false, retryAfter: Math.ceil((lockedUntil - now) / 1000) };
+  }
+  return { ok: false };
+}
+
+function sendTooManyAttempts(res, retryAfter) {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'too many attempts', retryAfter });
+}
+
+/**
+ * Finish signing in to an account with two-factor authentication.
+ * 
+ * Takes the challenge from POST /api/auth/login and a code from the authenticator app, or
+ * one of the recovery codes. After five wrong codes in a row the account's second step is
+ * locked for 15 minutes.
+ * 
+ * @route POST /api/auth/login/2fa
+ * @access Public (requires a login challenge)
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.challengeToken - challengeToken from POST /api/auth/login (valid for 5 minutes)
+ * @param {string} req.body.code - Six-digit code from the app, or a recovery code
+ * @returns {Object} 200 - Same as a login without 2FA (tokens or cookies, and user)
+ * @returns {number} [200.recoveryCodesRemaining] - Unused recovery codes left, when one was just used
+ * @returns {Object} 400 - Missing challenge or code
+ * @returns {Object} 401 - Invalid or expired challenge (sign in again), or wrong code
+ * @returns {Object} 403 - Account is banned
+ * @returns {Object} 429 - Too many wrong codes; retryAfter (and the Retry-After header) says when to try again
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/login/2fa
+ * {
+ *   "challengeToken": "eyJhbGc...",
+ *   "code": "492039"
+ * }
+ * 
+ * // Response (200)
+ * {
+ *   "token": "eyJhbGc...",
+ *   "refreshToken": "Vb1x9Qk...",
+ *   "expiresIn": 900,
+ *   "user": {
+ *     "id": "student@university.edu",
+ *     "email": "student@university.edu",
+ *     "role": "student",
+ *     "emailVerified": true
+ *   }
+ * }
  */
-app.get('/api/files', async (req, res) => {
+app.post('/api/auth/login/2fa', async (req, res) => {
   try {
-    const { search, classId } = req.query;
-    
-    // Join image_store with Note_Files and classes using fileID
-    const hasClassFilter = classId !== undefined && classId !== null && classId !== '';
-    let classIds = [];
-    
-    if (hasClassFilter) {
-      // Support both single classId and comma-separated multiple classIds
-      classIds = Array.isArray(classId) 
-        ? classId 
-        : typeof classId === 'string' 
-          ? classId.split(',').map(id => id.trim()).filter(id => id)
-          : [classId.toString()];
+    const { challengeToken, code } = req.body || {};
+    if (typeof challengeToken !== 'string' || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'challenge token and code are required' });
     }
-    
-    // "no-class" is a sentinel ID coming from the UI – keep track so we can include uploads without associations.
-    const hasNoClassFilter = classIds.some(id => String(id).toLowerCase() === 'no-class');
-    const numericClassIds = classIds
-      .filter(id => String(id).toLowerCase() !== 'no-class')
-      .map(id => Number(id))
-      .filter(id => Number.isInteger(id) && id > 0);
-    
-    // INNER JOIN is only safe when every requested class ID exists; once "no-class" is requested
-    // we must keep the LEFT JOIN so uploads without class metadata stay visible.
-    const useInnerJoinForClass = hasClassFilter && numericClassIds.length > 0 && !hasNoClassFilter;
-    
-    let sql = `
-      SELECT 
-        i.id,
-        i.image_name AS originalName,
-        COALESCE(nf.size, '0') AS size,
-        COALESCE(nf.fileType, 'application/octet-stream') AS fileType,
-        COALESCE(nf.LastUpdated, DATE_FORMAT(NOW(), '%Y-%m-%dT%H:%i:%s.%fZ')) AS uploadedAt,
-        nf.ownerID AS ownerId,
-        c.id AS classId,
-        c.Subject1 AS subject,
-        c.Catalog1 AS catalog,
-        c.Long_Title AS classTitle,
-        c.CS_Number AS csNumber
-      FROM image_store i
-      INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
-      ${useInnerJoinForClass ? 'INNER' : 'LEFT'} JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
-    `;
-    
-    const params = [];
-    const conditions = [];
 
-    if (search && typeof search === 'string') {
-      const normalizedSearch = search.trim().toLowerCase();
-      if (normalizedSearch) {
-        const searchLike = `%${normalizedSearch}%`;
-        // Support both "AMCS 301" and "amcs301" style inputs.
-        const compactSearch = normalizedSearch.replace(/\s+/g, '');
-        const compactLike = `%${compactSearch}%`;
-        const searchClauses = [
-          'LOWER(i.image_name) LIKE ?',
-          'LOWER(COALESCE(nf.fileType, "")) LIKE ?',
-          'LOWER(COALESCE(c.Subject1, "")) LIKE ?',
-          'LOWER(COALESCE(c.Catalog1, "")) LIKE ?',
-          'LOWER(COALESCE(c.Long_Title, "")) LIKE ?',
-          'LOWER(CONCAT_WS(" ", COALESCE(c.Subject1, ""), COALESCE(c.Catalog1, ""))) LIKE ?'
-        ];
-
-        searchClauses.forEach(() => params.push(searchLike));
-
-        if (compactSearch) {
-          searchClauses.push(`LOWER(REPLACE(CONCAT(COALESCE(c.Subject1, ''), COALESCE(c.Catalog1, '')), ' ', '')) LIKE ?`);
-          params.push(compactLike);
-        }
+    const challenge = readLoginChallenge(challengeToken);
+    const account = challenge ? await findAccountState(challenge.email) : null;
+    if (!account || account.tokenVersion !== challenge.tv || !account.totpEnabledAt) {
+      return res.status(401).json({ error: 'invalid or expired login challenge' });
+    }
+    if (account.bannedAt) {
+      return res.status(403).json({ error: 'account is banned' });
+    }
 
-        conditions.push(`(${searchClauses.join(' OR ')})`);
-      }
+    const state = await findTwoFactorState(challenge.email);
+    const result = await checkSecondFactor(challenge.email, state, code);
+    if (result.retryAfter) {
+      return sendTooManyAttempts(res, result.retryAfter);
+    }
+    if (!result.ok) {
+      return res.status(401).json({ error: 'invalid code' });
     }
 
-    if (hasClassFilter && (hasNoClassFilter || numericClassIds.length > 0)) {
-      const classConditions = [];
-      
-      // Add filter for files with no class association
-      if (hasNoClassFilter) {
-        classConditions.push('(c.id IS NULL OR nf.classId IS NULL OR nf.classId = "")');
+    const role = account.role || DEFAULT_ROLE;
+    const session = await createSession(challenge.email, role, account.tokenVersion);
+    const body = {
+      ...sessionResponse(res, session),
+      user: {
+        id: challenge.email,
+        email: challenge.email,
+        role,
+        emailVerified: Boolean(account.emailVerifiedAt)
       }
-      
-      // Add filter for files with specific class IDs
-      if (numericClassIds.length > 0) {
-        if (numericClassIds.length === 1) {
-          classConditions.push('c.id = ?');
-          params.push(numericClassIds[0]);
-        } else {
-          const placeholders = numericClassIds.map(() => '?').join(',');
-          classConditions.push(`c.id IN (${placeholders})`);
+    };
+    if (result.usedRecoveryCode) {
+      const remaining = await db.all(
+        'SELECT COUNT(*) AS count FROM totp_recovery_codes WHERE userId = ? AND usedAt IS NULL',
+        [challenge.email]
+      );
+      body.recoveryCodesRemaining = Number(remaining[0].count);
+    }
+    return res.json(body);
+  } catch (err) {
+    console.error('POST /api/auth/login/2fa failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Start turning on two-factor authentication.
+ * 
+ * Creates a new secret for the authenticator app; 2FA is only on once a code from the app
+ * is confirmed with POST /api/auth/2fa/enable. Calling this again replaces the secret.
+ * 
+ * @route POST /api/auth/2fa/setup
+ * @access Private (requires JWT token)
+ * @returns {Object} 200 - The secret to add to the app
+ * @returns {string} 200.secret - Base32 secret, for typing into the app by hand
+ * @returns {string} 200.otpauthUrl - Provisioning URI (otpauth://totp/...)
+ * @returns {string} 200.qrCode - The provisioning URI as a QR code (PNG data URL)
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 409 - Two-factor authentication is already on
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/2fa/setup
+ * Headers: { "Authorization": "Bearer <token>" }
+ * 
+ * // Response (200)
+ * {
+ *   "secret": "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+ *   "otpauthUrl": "otpauth://totp/StudyLink:student%40university.edu?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=StudyLink&algorithm=SHA1&digits=6&period=30",
+ *   "qrCode": "data:image/png;base64,iVBORw0..."
+ * }
+ */
+app.post('/api/auth/2fa/setup', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.twoFactorEnabled) {
+      return res.status(409).json({ error: 'two-factor authentication is already enabled' });
+    }
+
+    const secret = totp.generateSecret();
+    await db.run(
+      `UPDATE \`${USER_TABLE}\` SET totpSecret = ?, totpLastStep = NULL WHERE ${EMAIL_COL} = ? AND totpEnabledAt IS NULL`,
+      [secret, req.user.id]
+    );
+    const otpauthUrl = totp.provisioningUri(secret, req.user.id, TOTP_ISSUER);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+    return res.json({ secret, otpauthUrl, qrCode });
+  } catch (err) {
+    console.error('POST /api/auth/2fa/setup failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Turn on two-factor authentication by confirming a code from the app.
+ * 
+ * Returns the recovery codes. They are only shown here (and when regenerated), so the
+ * user should store them right away.
+ * 
+ * @route POST /api/auth/2fa/enable
+ * @access Private (requires JWT token)
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.code - Current six-digit code from the app
+ * @returns {Object} 200 - Two-factor authentication is on
+ * @returns {string[]} 200.recoveryCodes - Ten single-use recovery codes
+ * @returns {Object} 400 - Missing or wrong code, or setup wasn't started
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 409 - Two-factor authentication is already on
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/2fa/enable
+ * Headers: { "Authorization": "Bearer <token>" }
+ * {
+ *   "code": "492039"
+ * }
+ * 
+ * // Response (200)
+ * {
+ *   "recoveryCodes": ["3f9a1-c07be", "a81d0-5e2c4", "..."]
+ * }
+ */
+app.post('/api/auth/2fa/enable', authenticateToken, async (req, res) => {
+  try {
+    const { code } = req.body || {};
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'code is required' });
+    }
+
+    const state = await findTwoFactorState(req.user.id);
+    if (state && state.totpEnabledAt) {
+      return res.status(409).json({ error: 'two-factor authentication is already enabled' });
+    }
+    if (!state || !state.totpSecret) {
+      return res.status(400).json({ error: 'start two-factor setup first' });
+    }
+    const step = totp.verify(state.totpSecret, code);
+    if (step === null) {
+      return res.status(400).json({ error: 'invalid code' });
+    }
+
+    const enabled = await db.run(
+      `UPDATE \`${USER_TABLE}\` SET totpEnabledAt = ?, totpLastStep = ?, totpFailedAttempts = 0, totpLockedUntil = NULL WHERE ${EMAIL_COL} = ? AND totpEnabledAt IS NULL`,
+      [new Date(), step, req.user.id]
+    );
+    if (enabled.changes === 0) {
+      return res.status(409).json({ error: 'two-factor authentication is already enabled' });
+    }
+    const recoveryCodes = await issueRecoveryCodes(req.user.id);
+    return res.json({ recoveryCodes });
+  } catch (err) {
+    console.error('POST /api/auth/2fa/enable failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Replace the recovery codes with a new set (the old ones stop working).
+ * 
+ * @route POST /api/auth/2fa/recovery-codes
+ * @access Private (requires JWT token and the account password)
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.password - Account password
+ * @returns {Object} 200 - New codes
+ * @returns {string[]} 200.recoveryCodes - Ten single-use recovery codes
+ * @returns {Object} 400 - Missing password
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Wrong password
+ * @returns {Object} 409 - Two-factor authentication is off
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/2fa/recovery-codes
+ * Headers: { "Authorization": "Bearer <token>" }
+ * {
+ *   "password": "password123"
+ * }
+ */
+app.post('/api/auth/2fa/recovery-codes', authenticateToken, async (req, res) => {
+  try {
+    const { password } = req.body || {};
+    if (typeof password !== 'string' || !password) {
+      return res.status(400).json({ error: 'password is required' });
+    }
+
+    const state = await findTwoFactorState(req.user.id);
+    if (!state || !state.totpEnabledAt) {
+      return res.status(409).json({ error: 'two-factor authentication is not enabled' });
+    }
+    // 403 rather than 401: the session is fine, the re-authentication isn't
+    if (!(await bcrypt.compare(password, state.passwordHash))) {
+      return res.status(403).json({ error: 'invalid password' });
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(req.user.id);
+    return res.json({ recoveryCodes });
+  } catch (err) {
+    console.error('POST /api/auth/2fa/recovery-codes failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Turn off two-factor authentication.
+ * 
+ * Needs the password and a current code (or a recovery code), so a session left open on
+ * someone else's computer isn't enough. The secret and recovery codes are deleted.
+ * 
+ * @route POST /api/auth/2fa/disable
+ * @access Private (requires JWT token, the account password and a code)
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.password - Account password
+ * @param {string} req.body.code - Six-digit code from the app, or a recovery code
+ * @returns {Object} 200 - Two-factor authentication is off
+ * @returns {Object} 400 - Missing password or code
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Wrong password or code
+ * @returns {Object} 409 - Two-factor authentication is off already
+ * @returns {Object} 429 - Too many wrong codes; retryAfter says when to try again
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/auth/2fa/disable
+ * Headers: { "Authorization": "Bearer <token>" }
+ * {
+ *   "password": "password123",
+ *   "code": "492039"
+ * }
+ * 
+ * // Response (200)
+ * {
+ *   "message": "Two-factor authentication disabled"
+ * }
+ */
+app.post('/api/auth/2fa/disable', authenticateToken, async (req, res) => {
+  try {
+    const { password, code } = req.body || {};
+    if (typeof password !== 'string' || !password || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'password and code are required' });
+    }
+
+    const state = await findTwoFactorState(req.user.id);
+    if (!state || !state.totpEnabledAt) {
+      return res.status(409).json({ error: 'two-factor authentication is not enabled' });
+    }
+    if (!(await bcrypt.compare(password, state.passwordHash))) {
+      return res.status(403).json({ error: 'invalid password' });
+    }
+    const result = await checkSecondFactor(req.user.id, state, code);
+    if (result.retryAfter) {
+      return sendTooManyAttempts(res, result.retryAfter);
+    }
+    if (!result.ok) {
+      return res.status(403).json({ error: 'invalid code' });
+    }
+
+    await db.run(
+      `UPDATE \`${USER_TABLE}\` SET totpSecret = NULL, totpEnabledAt = NULL, totpLastStep = NULL, totpFailedAttempts = 0, totpLockedUntil = NULL WHERE ${EMAIL_COL} = ?`,
+      [req.user.id]
+    );
+    await db.run('DELETE FROM totp_recovery_codes WHERE userId = ?', [req.user.id]);
+    return res.json({ message: 'Two-factor authentication disabled' });
+  } catch (err) {
+    console.error('POST /api/auth/2fa/disable failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- Single sign-on (OpenID Connect) ---
+// Students can sign in through their university's identity provider instead of a password.
+// Off unless OIDC_ISSUER is set. The flow, all in the browser:
+//   GET /api/auth/oidc/start     - redirects to the provider with PKCE, state and nonce
+//   GET /api/auth/oidc/callback  - the provider sends the browser back with a code; the code is
+//                                  exchanged, the account found or created, and a short-lived
+//                                  sign-in ticket cookie set before redirecting to /?sso=done
+//   POST /api/auth/oidc/session  - the app trades the ticket for a session, like a login
+// The ticket step lets one callback serve both session modes and accounts with 2FA.
+const OIDC_ISSUER = process.env.OIDC_ISSUER || '';
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID || '';
+if (OIDC_ISSUER && !OIDC_CLIENT_ID) {
+  console.error('❌ ERROR: OIDC_ISSUER is set but OIDC_CLIENT_ID is not');
+  process.exit(1);
+}
+const oidcClient = OIDC_ISSUER
+  ? oidc.createClient({ issuer: OIDC_ISSUER, clientId: OIDC_CLIENT_ID, clientSecret: process.env.OIDC_CLIENT_SECRET })
+  : null;
+// Comma-separated email domains allowed to sign in (subdomains included). Without it the
+// same rule as registration applies: any .edu address.
+const OIDC_ALLOWED_DOMAINS = (process.env.OIDC_ALLOWED_DOMAINS || '')
+  .split(',')
+  .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+  .filter(Boolean);
+// State, nonce and PKCE verifier for a sign-in in progress. SameSite=Lax because the cookie has
+// to come back on the provider's redirect, which is a navigation from another site.
+const OIDC_FLOW_COOKIE = 'sl_oidc';
+const OIDC_FLOW_TTL_MS = 10 * 60 * 1000;
+// Who just signed in, until the app picks up the session
+const SSO_TICKET_COOKIE = 'sl_sso';
+const SSO_TICKET_TTL_MS = 2 * 60 * 1000;
+const OIDC_COOKIE_PATH = '/api/auth/oidc';
+const OIDC_FLOW_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('oidc-flow').digest();
+const SSO_TICKET_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('sso-ticket').digest();
+
+// Must be registered with the provider exactly; OIDC_REDIRECT_URI when the public URL differs
+function oidcRedirectUri() {
+  return process.env.OIDC_REDIRECT_URI || `${APP_URL}/api/auth/oidc/callback`;
+}
+
+// Signs a sign-in ticket for <userId>. Its jti names a sso_tickets row, so the ticket can be
+// spent once on the server instead of only by clearing the cookie.
+async function issueSsoTicket(userId, tokenVersion) {
+  const id = crypto.randomUUID();
+  const now = new Date();
+  await db.run('DELETE FROM sso_tickets WHERE expiresAt < ?', [now]);
+  await db.run(
+    'INSERT INTO sso_tickets (id, userId, createdAt, expiresAt) VALUES (?, ?, ?, ?)',
+    [id, userId, now, new Date(now.getTime() + SSO_TICKET_TTL_MS)]
+  );
+  return jwt.sign({ email: userId, tv: tokenVersion }, SSO_TICKET_SECRET, {
+    expiresIn: SSO_TICKET_TTL_MS / 1000,
+    jwtid: id,
+  });
+}
+
+// Returns the ticket's claims and marks it used, or null when it is invalid, expired or spent.
+// The claim is one conditional UPDATE, so two requests racing with the same ticket can't both win.
+async function spendSsoTicket(ticketCookie) {
+  let ticket;
+  try {
+    ticket = jwt.verify(String(ticketCookie), SSO_TICKET_SECRET);
+  } catch {
+    return null;
+  }
+  if (typeof ticket.jti !== 'string') {
+    return null;
+  }
+  const claim = await db.run(
+    'UPDATE sso_tickets SET usedAt = ? WHERE id = ? AND userId = ? AND usedAt IS NULL AND expiresAt > ?',
+    [new Date(), ticket.jti, ticket.email, new Date()]
+  );
+  return claim.changes === 1 ? ticket : null;
+}
+
+function isAllowedSsoEmail(email) {
+  if (OIDC_ALLOWED_DOMAINS.length === 0) {
+    return isEduEmail(email);
+  }
+  const domain = email.split('@')[1] || '';
+  return OIDC_ALLOWED_DOMAINS.some(allowed => domain === allowed || domain.endsWith(`.${allowed}`));
+}
+
+// The browser goes back to the app either way; the app shows what went wrong from the code
+function redirectToApp(res, result) {
+  return res.redirect(302, `${APP_URL}/?sso=${encodeURIComponent(result)}`);
+}
+
+/**
+ * Finds the account for a sign-in through the provider, linking or creating it on first use.
+ * An identity already linked keeps signing in to the same account even if its email changes
+ * at the provider. Otherwise an account with the same (provider-verified) email is linked,
+ * and when there is none a new one is created. Accounts created here get a random password,
+ * so they sign in through the provider or after a password reset.
+ *
+ * Linking an account whose email was never verified also takes it over: whoever registered it
+ * didn't prove they own the inbox, and the provider just did. Its password, 2FA and sessions
+ * are dropped so they can't keep a way in.
+ *
+ * @param {string} issuer - Provider's issuer URL
+ * @param {string} subject - Provider's stable user id (the ID token's sub)
+ * @param {string} email - Verified email from the ID token, lowercased
+ * @returns {Promise<string>} The account's user ID (email)
+ */
+async function findOrCreateSsoAccount(issuer, subject, email) {
+  const identities = await db.all(
+    'SELECT userId FROM user_identities WHERE issuer = ? AND subject = ?',
+    [issuer, subject]
+  );
+  if (identities.length > 0) {
+    await db.run(
+      'UPDATE user_identities SET email = ?, lastLoginAt = ? WHERE issuer = ? AND subject = ?',
+      [email, new Date(), issuer, subject]
+    );
+    return identities[0].userId;
+  }
+
+  const now = new Date();
+  // Nobody knows it, so only the provider (or a password reset) signs in to the account
+  const randomPasswordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+  const existing = await db.all(
+    `SELECT emailVerifiedAt FROM \`${USER_TABLE}\` WHERE ${EMAIL_COL} = ?`,
+    [email]
+  );
+  if (existing.length === 0) {
+    await db.run(
+      `INSERT INTO \`${USER_TABLE}\` (${EMAIL_COL}, ${PASSWORD_COL}, emailVerifiedAt) VALUES (?, ?, ?)`,
+      [email, randomPasswordHash, now]
+    );
+    await ensureProfile(email);
+  } else if (!existing[0].emailVerifiedAt) {
+    await db.run(
+      `UPDATE \`${USER_TABLE}\` SET ${PASSWORD_COL} = ?, emailVerifiedAt = ?, totpSecret = NULL, totpEnabledAt = NULL, totpLastStep = NULL, totpFailedAttempts = 0, totpLockedUntil = NULL WHERE ${EMAIL_COL} = ?`,
+      [randomPasswordHash, now, email]
+    );
+    await db.run('DELETE FROM totp_recovery_codes WHERE userId = ?', [email]);
+    await revokeAllSessions(email);
+  }
+  await db.run(
+    'INSERT INTO user_identities (userId, issuer, subject, email, createdAt, lastLoginAt) VALUES (?, ?, ?, ?, ?, ?)',
+    [email, issuer, subject, email, now, now]
+  );
+  return email;
+}
+
+/**
+ * Whether single sign-on is available, so the app knows to show "Sign in with your school".
+ *
+ * @route GET /api/auth/oidc
+ * @access Public
+ * @returns {Object} 200 - { enabled }
+ *
+ * @example
+ * // Response (200)
+ * { "enabled": true }
+ */
+app.get('/api/auth/oidc', (req, res) => {
+  return res.json({ enabled: Boolean(oidcClient) });
+});
+
+/**
+ * Start signing in through the identity provider.
+ *
+ * Opened by the browser (not fetch): remembers a new state, nonce and PKCE code verifier in a
+ * signed cookie for ten minutes and redirects to the provider's login page.
+ *
+ * @route GET /api/auth/oidc/start
+ * @access Public
+ * @returns 302 - Redirect to the provider, or to /?sso=unavailable when it can't be reached
+ * @returns {Object} 404 - Single sign-on is not configured
+ *
+ * @example
+ * // Response (302)
+ * Location: https://login.university.edu/authorize?response_type=code&client_id=studylink&redirect_uri=...&scope=openid+email+profile&state=...&nonce=...&code_challenge=...&code_challenge_method=S256
+ */
+app.get('/api/auth/oidc/start', async (req, res) => {
+  if (!oidcClient) {
+    return res.status(404).json({ error: 'single sign-on is not configured' });
+  }
+  try {
+    const flow = { state: oidc.randomToken(), nonce: oidc.randomToken(), verifier: oidc.randomToken() };
+    const location = await oidcClient.authorizationUrl({
+      redirectUri: oidcRedirectUri(),
+      state: flow.state,
+      nonce: flow.nonce,
+      codeChallenge: oidc.pkceChallenge(flow.verifier)
+    });
+    res.cookie(
+      OIDC_FLOW_COOKIE,
+      jwt.sign(flow, OIDC_FLOW_SECRET, { expiresIn: OIDC_FLOW_TTL_MS / 1000 }),
+      { ...sessionCookieOptions(OIDC_COOKIE_PATH, OIDC_FLOW_TTL_MS), sameSite: 'lax' }
+    );
+    return res.redirect(302, location);
+  } catch (err) {
+    console.error('GET /api/auth/oidc/start failed:', err);
+    return redirectToApp(res, 'unavailable');
+  }
+});
+
+/**
+ * Where the identity provider sends the browser back after signing in.
+ *
+ * Checks the state against the cookie from /start, exchanges the code (with the PKCE verifier)
+ * and verifies the ID token: signature, issuer, audience, expiry and nonce. The email must be
+ * verified by the provider and in an allowed domain (OIDC_ALLOWED_DOMAINS, or any .edu). The
+ * account is found or created (see findOrCreateSsoAccount), and a sign-in ticket cookie valid
+ * for two minutes is set for POST /api/auth/oidc/session.
+ *
+ * @route GET /api/auth/oidc/callback
+ * @access Public (requires the cookie from /start)
+ * @param {string} req.query.code - Authorization code
+ * @param {string} req.query.state - State from /start
+ * @param {string} [req.query.error] - Set by the provider instead when sign-in was cancelled or failed
+ * @returns 302 - Redirect to /?sso=done, or /?sso=<reason> with reason one of cancelled,
+ *   invalid_state, failed, email_not_verified, domain_not_allowed or banned
+ */
+app.get('/api/auth/oidc/callback', async (req, res) => {
+  const flowCookie = req.cookies[OIDC_FLOW_COOKIE];
+  // Each flow is answered once
+  res.clearCookie(OIDC_FLOW_COOKIE, { ...sessionCookieOptions(OIDC_COOKIE_PATH), sameSite: 'lax' });
+  if (!oidcClient) {
+    return res.status(404).json({ error: 'single sign-on is not configured' });
+  }
+  try {
+    if (req.query.error) {
+      return redirectToApp(res, 'cancelled');
+    }
+    let flow;
+    try {
+      flow = jwt.verify(String(flowCookie), OIDC_FLOW_SECRET);
+    } catch {
+      flow = null;
+    }
+    const state = typeof req.query.state === 'string' ? req.query.state : '';
+    if (!flow || typeof req.query.code !== 'string' || state.length !== flow.state.length ||
+        !crypto.timingSafeEqual(Buffer.from(state), Buffer.from(flow.state))) {
+      return redirectToApp(res, 'invalid_state');
+    }
+
+    let claims;
+    try {
+      claims = await oidcClient.exchangeCode({
+        code: req.query.code,
+        redirectUri: oidcRedirectUri(),
+        codeVerifier: flow.verifier,
+        nonce: flow.nonce
+      });
+    } catch (err) {
+      console.error('OIDC code exchange failed:', err.message);
+      return redirectToApp(res, 'failed');
+    }
+
+    const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+    if (!email || claims.email_verified !== true) {
+      return redirectToApp(res, 'email_not_verified');
+    }
+    if (!isAllowedSsoEmail(email)) {
+      return redirectToApp(res, 'domain_not_allowed');
+    }
+
+    const userId = await findOrCreateSsoAccount(claims.iss, claims.sub, email);
+    const account = await findAccountState(userId);
+    if (!account) {
+      return redirectToApp(res, 'failed');
+    }
+    if (account.bannedAt) {
+      return redirectToApp(res, 'banned');
+    }
+    res.cookie(
+      SSO_TICKET_COOKIE,
+      await issueSsoTicket(userId, account.tokenVersion),
+      sessionCookieOptions(OIDC_COOKIE_PATH, SSO_TICKET_TTL_MS)
+    );
+    return redirectToApp(res, 'done');
+  } catch (err) {
+    console.error('GET /api/auth/oidc/callback failed:', err);
+    return redirectToApp(res, 'failed');
+  }
+});
+
+/**
+ * Finish signing in through the identity provider.
+ *
+ * Called by the app after it is opened at /?sso=done. Trades the sign-in ticket cookie set by
+ * the callback for a session and answers exactly like POST /api/auth/login, including the
+ * two-factor challenge for accounts that have 2FA on. The ticket works once.
+ *
+ * @route POST /api/auth/oidc/session
+ * @access Public (requires the sign-in ticket cookie)
+ * @returns {Object} 200 - Same as POST /api/auth/login (tokens or cookies and user, or twoFactorRequired and challengeToken)
+ * @returns {Object} 401 - No ticket, or it expired or was already used
+ * @returns {Object} 403 - Account is banned
+ * @returns {Object} 500 - Internal server error
+ *
+ * @example
+ * // Response (200)
+ * {
+ *   "token": "eyJhbGc...",
+ *   "refreshToken": "Vb1x9Qk...",
+ *   "expiresIn": 900,
+ *   "user": {
+ *     "id": "student@university.edu",
+ *     "email": "student@university.edu",
+ *     "role": "student",
+ *     "emailVerified": true
+ *   }
+ * }
+ */
+app.post('/api/auth/oidc/session', async (req, res) => {
+  try {
+    const ticketCookie = req.cookies[SSO_TICKET_COOKIE];
+    res.clearCookie(SSO_TICKET_COOKIE, sessionCookieOptions(OIDC_COOKIE_PATH));
+    const ticket = ticketCookie ? await spendSsoTicket(ticketCookie) : null;
+    const account = ticket ? await findAccountState(ticket.email) : null;
+    // A password change or "log out all devices" since the callback voids the ticket
+    if (!account || account.tokenVersion !== ticket.tv) {
+      return res.status(401).json({ error: 'invalid or expired sign-in' });
+    }
+    if (account.bannedAt) {
+      return res.status(403).json({ error: 'account is banned' });
+    }
+    if (account.totpEnabledAt) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: signLoginChallenge(ticket.email, account.tokenVersion)
+      });
+    }
+
+    const role = account.role || DEFAULT_ROLE;
+    const session = await createSession(ticket.email, role, account.tokenVersion);
+    return res.json({
+      ...sessionResponse(res, session),
+      user: {
+        id: ticket.email,
+        email: ticket.email,
+        role,
+        emailVerified: Boolean(account.emailVerifiedAt)
+      }
+    });
+  } catch (err) {
+    console.error('POST /api/auth/oidc/session failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- File Upload/Download ---
+// Multer storage engine that streams each upload straight into the storage backend
+// instead of buffering it in memory. The first bytes are inspected before anything is
+// stored: the detected type (not the client's claim) decides whether the upload policy
+// accepts the file and which size limit applies.
+const streamingStorage = {
+  _handleFile(req, file, cb) {
+    receiveUpload(file).then(info => cb(null, info), cb);
+  },
+  _removeFile(req, file, cb) {
+    storage.remove(file.storageKey).then(() => cb(null), cb);
+  },
+};
+
+async function receiveUpload(file) {
+  const chunks = file.stream[Symbol.asyncIterator]();
+  let head = Buffer.alloc(0);
+  let ended = false;
+  while (head.length < uploadPolicy.SNIFF_BYTES) {
+    const next = await chunks.next();
+    if (next.done) {
+      ended = true;
+      break;
+    }
+    head = Buffer.concat([head, next.value]);
+  }
+
+  // Reads and drops the rest of a refused file, so a multipart request can move on to its next part
+  async function discardRest() {
+    while (!ended) {
+      const next = await chunks.next();
+      if (next.done) ended = true;
+    }
+  }
+
+  const detectedType = await uploadPolicy.detectMimeType(head.subarray(0, uploadPolicy.SNIFF_BYTES), file.originalname);
+  const verdict = uploadPolicy.checkFile({ fileName: file.originalname, mimeType: detectedType });
+  if (verdict.error) {
+    await discardRest();
+    throw verdict.error;
+  }
+
+  // Hash while streaming so downloads get a content-based ETag without re-reading the object
+  const hash = crypto.createHash('sha256');
+  let received = 0;
+  function accept(chunk) {
+    received += chunk.length;
+    if (received > verdict.maxSize) {
+      throw uploadPolicy.tooLargeError(detectedType, verdict.maxSize);
+    }
+    hash.update(chunk);
+    return chunk;
+  }
+  async function* body() {
+    try {
+      yield accept(head);
+      while (!ended) {
+        const next = await chunks.next();
+        if (next.done) break;
+        yield accept(next.value);
+      }
+    } catch (err) {
+      await discardRest();
+      throw err;
+    }
+  }
+
+  const storageKey = storage.generateKey();
+  const { size } = await storage.put(storageKey, Readable.from(body()), { contentType: detectedType });
+  return { storageKey, size, contentHash: hash.digest('hex'), detectedType };
+}
+
+// Best-effort removal of stored bytes; a leftover object is logged rather than failing the request.
+async function removeStoredObject(storageKey) {
+  try {
+    await storage.remove(storageKey);
+  } catch (err) {
+    console.error(`Failed to remove stored object ${storageKey}:`, err);
+  }
+}
+
+const upload = multer({
+  storage: streamingStorage,
+  limits: {
+    // Per-type limits are enforced while streaming; this is the overall cap
+    fileSize: uploadPolicy.policy.maxFileSize,
+  },
+});
+
+// Runs multer for a single "file" field and turns upload policy rejections into 413/415 responses.
+function acceptUpload(req, res, next) {
+  upload.single('file')(req, res, err => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        error: `file is too large (max ${uploadPolicy.formatLimit(uploadPolicy.policy.maxFileSize)})`
+      });
+    }
+    if (err.status === 413 || err.status === 415) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    if (err instanceof multer.MulterError) {
+      return res.status(400).json({ error: err.message.toLowerCase() });
+    }
+    console.error('POST /api/files/upload failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  });
+}
+
+/**
+ * Checks the optional class, and class offering, an upload should be filed under.
+ * An offering on its own also sets the class; given both, they must match.
+ *
+ * @param {string|number|undefined} classId - classId from the request, possibly empty
+ * @param {string|number|undefined} [offeringId] - offeringId from the request, possibly empty
+ * @returns {Promise<Object>} { error } for a malformed or unknown class or offering, otherwise
+ *   { classId, offeringId } as stored in Note_Files (null when not given)
+ */
+async function resolveUploadClass(classId, offeringId) {
+  const hasClass = classId !== undefined && classId !== null && classId !== '';
+  const hasOffering = offeringId !== undefined && offeringId !== null && offeringId !== '';
+  if (!hasClass && !hasOffering) {
+    return { classId: null, offeringId: null };
+  }
+  const classIdNum = hasClass ? Number(classId) : null;
+  if (hasClass && (!Number.isInteger(classIdNum) || classIdNum <= 0)) {
+    return { error: 'invalid classId' };
+  }
+
+  if (hasOffering) {
+    const offeringIdNum = Number(offeringId);
+    if (!Number.isInteger(offeringIdNum) || offeringIdNum <= 0) {
+      return { error: 'invalid offeringId' };
+    }
+    const offering = await findOffering(offeringIdNum);
+    if (!offering) {
+      return { error: 'class offering not found' };
+    }
+    if (hasClass && Number(offering.classId) !== classIdNum) {
+      return { error: 'offering belongs to a different class' };
+    }
+    return { classId: String(offering.classId), offeringId: offering.id };
+  }
+
+  // Verify class exists
+  const classRows = await db.all(
+    'SELECT id FROM classes WHERE id = ?',
+    [classIdNum]
+  );
+  if (classRows.length === 0) {
+    return { error: 'class not found' };
+  }
+  return { classId: classIdNum.toString(), offeringId: null };
+}
+
+// Tail of the post-upload processing chain (text indexing, then thumbnail) shared by all uploads.
+let processingQueue = Promise.resolve();
+
+// Extracting text and rendering a thumbnail from a large PDF can take a while, so callers
+// don't wait for it. Files are processed one at a time, in order, to keep memory use down
+// when a batch arrives. The original name and detected MIME type give both the best hint.
+function processStoredFile(storedFile) {
+  processingQueue = processingQueue
+    .then(() => indexFileText(storedFile))
+    .catch(err => console.error(`Indexing text for file ${storedFile.id} failed:`, err.message))
+    .then(() => generateThumbnail(storedFile))
+    .catch(err => console.error(`Thumbnail for file ${storedFile.id} failed:`, err.message));
+}
+
+/**
+ * Records an object that is already in file storage as a new file (version 1) and
+ * starts text indexing and thumbnail rendering in the background. Shared by the single-request
+ * upload and the completion of a resumable upload.
+ *
+ * If the image_store row cannot be written, the stored object is removed again.
+ *
+ * @param {Object} file
+ * @param {string} file.ownerId - Uploader's user ID
+ * @param {string} file.displayName - Name shown to users
+ * @param {string} file.originalName - Name of the file on the uploader's machine
+ * @param {string} file.storageKey - Key of the stored object
+ * @param {string} file.contentHash - SHA-256 of the contents (hex)
+ * @param {number} file.size - Size in bytes
+ * @param {string} file.fileType - MIME type detected from the contents
+ * @param {string|null} file.classId - Class ID from resolveUploadClass
+ * @param {number|null} [file.offeringId] - Class offering from resolveUploadClass
+ * @param {string} file.visibility - Visibility from resolveVisibility
+ * @returns {Promise<Object>} The upload response body (see POST /api/files/upload)
+ */
+async function recordUploadedFile(file) {
+  // Record the stored object in image_store (use displayName for image_name)
+  let imageResult;
+  try {
+    imageResult = await db.run(
+      'INSERT INTO image_store (image_name, storage_key, content_hash) VALUES (?, ?, ?)',
+      [file.displayName, file.storageKey, file.contentHash]
+    );
+  } catch (err) {
+    await removeStoredObject(file.storageKey);
+    throw err;
+  }
+
+  const fileId = imageResult.insertId || imageResult.lastInsertRowid;
+  const lastUpdated = new Date().toISOString();
+
+  // Store metadata in Note_Files table
+  // ownerID = userId, fileID = image_store.id, classId = classes.id (optional)
+  await db.run(
+    'INSERT INTO Note_Files (ownerID, fileID, fileType, size, LastUpdated, classId, offeringId, visibility) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [file.ownerId, fileId.toString(), file.fileType, file.size.toString().substring(0, 16), lastUpdated, file.classId,
+      file.offeringId ?? null, file.visibility]
+  );
+
+  // Every file starts its history at version 1
+  await db.run(
+    `INSERT INTO file_versions (fileId, version, storage_key, content_hash, size, fileType, originalName, uploadedBy, createdAt)
+     VALUES (?, 1, ?, ?, ?, ?, ?, ?, ?)`,
+    [fileId.toString(), file.storageKey, file.contentHash, file.size, file.fileType, file.originalName, file.ownerId, new Date(lastUpdated)]
+  );
+
+  // Fetch the created file metadata with class info
+  const fileRows = await db.all(
+    `SELECT 
+      i.id,
+      i.image_name,
+      c.id AS classId,
+      c.Subject1 AS subject,
+      c.Catalog1 AS catalog,
+      c.Long_Title AS classTitle,
+      c.CS_Number AS csNumber,
+      ${OFFERING_COLUMNS}
+    FROM image_store i
+    LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+    LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
+    ${OFFERING_JOIN}
+    WHERE i.id = ?`,
+    [fileId]
+  );
+
+  const fileData = fileRows[0] || { id: fileId, image_name: file.displayName };
+
+  processStoredFile({
+    id: fileId,
+    storageKey: file.storageKey,
+    fileType: file.fileType,
+    fileName: file.originalName,
+  });
+
+  return {
+    id: fileId,
+    originalName: file.displayName,
+    size: file.size,
+    fileType: file.fileType,
+    classId: fileData.classId ? Number(fileData.classId) : null,
+    class: fileData.classId ? {
+      id: Number(fileData.classId),
+      subject: fileData.subject,
+      catalog: fileData.catalog,
+      title: fileData.classTitle,
+      csNumber: fileData.csNumber
+    } : null,
+    offering: formatOffering(fileData),
+    visibility: file.visibility,
+    uploadedAt: lastUpdated,
+  };
+}
+
+/**
+ * Upload a file to the system with optional class association.
+ * 
+ * Accepts file uploads via multipart/form-data. File bytes are streamed into the
+ * configured storage backend (local directory or S3-compatible bucket) and the
+ * image_store row keeps only the storage key. Metadata is stored in Note_Files table.
+ * Requires JWT authentication.
+ * 
+ * The file type is detected from the file's bytes (magic numbers, or text detection for
+ * formats without them) and checked against the upload policy: blocked extensions and
+ * types outside the allowed list get 415, files over the overall or per-type size
+ * limit get 413 (see GET /api/files/upload-policy).
+ * 
+ * @route POST /api/files/upload
+ * @access Private (requires JWT token)
+ * @param {Object} req.user - User information from JWT (set by authenticateToken middleware)
+ * @param {string} req.user.id - User ID of the uploader
+ * @param {Object} req.file - Uploaded file object (from multer)
+ * @param {string} req.file.originalname - Original filename
+ * @param {string} req.file.storageKey - Key of the stored object in the storage backend
+ * @param {number} req.file.size - File size in bytes
+ * @param {string} req.file.detectedType - MIME type detected from the file contents
+ * @param {Object} req.body - Form data
+ * @param {string} [req.body.classId] - Optional class ID to associate file with
+ * @param {string} [req.body.offeringId] - Optional class offering (term and section); sets the
+ *   class when classId is left out
+ * @param {string} [req.body.visibility] - public (default), campus, class (needs classId) or private
+ * @returns {Object} 201 - File uploaded successfully
+ * @returns {number} 201.id - File ID in database
+ * @returns {string} 201.originalName - Original filename
+ * @returns {number} 201.size - File size in bytes
+ * @returns {string} 201.fileType - Detected MIME type of the file
+ * @returns {number|null} 201.classId - Associated class ID (if provided)
+ * @returns {Object|null} 201.class - Class information (if classId provided)
+ * @returns {Object|null} 201.offering - Term and section (if offeringId provided)
+ * @returns {string} 201.visibility - Who can see the file
+ * @returns {string} 201.uploadedAt - ISO timestamp of upload
+ * @returns {Object} 400 - No file uploaded, invalid classId, offeringId or visibility, or class or
+ *   offering not found
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Email not verified
+ * @returns {Object} 413 - File exceeds the size limit for its type
+ * @returns {Object} 415 - File type or extension not allowed
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request (multipart/form-data)
+ * POST /api/files/upload
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Form Data:
+ *   - file: <file binary>
+ *   - classId: "123" (optional)
+ * 
+ * // Response (201)
+ * {
+ *   "id": 456,
+ *   "originalName": "assignment.pdf",
+ *   "size": 524288,
+ *   "fileType": "application/pdf",
+ *   "classId": 123,
+ *   "class": {
+ *     "id": 123,
+ *     "subject": "CS",
+ *     "catalog": "370",
+ *     "title": "Software Engineering",
+ *     "csNumber": "CS370"
+ *   },
+ *   "offering": null,
+ *   "visibility": "public",
+ *   "uploadedAt": "2024-01-15T10:30:00.000Z"
+ * }
+ * 
+ * @since 1.0.0
+ */
+app.post('/api/files/upload', authenticateToken, requireVerifiedEmail, acceptUpload, async (req, res) => {
+  let recordingStarted = false;
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'no file uploaded' });
+    }
+
+    const { classId, offeringId, fileName, visibility } = req.body || {};
+    const file = req.file;
+
+    // Use custom filename if provided, otherwise use original filename
+    const displayName = (fileName && fileName.trim()) ? fileName.trim() : file.originalname;
+
+    const uploadClass = await resolveUploadClass(classId, offeringId);
+    if (uploadClass.error) {
+      await removeStoredObject(file.storageKey);
+      return res.status(400).json({ error: uploadClass.error });
+    }
+    const uploadVisibility = resolveVisibility(visibility, uploadClass.classId);
+    if (uploadVisibility.error) {
+      await removeStoredObject(file.storageKey);
+      return res.status(400).json({ error: uploadVisibility.error });
+    }
+
+    // From here on recordUploadedFile cleans up the stored object if it cannot be recorded
+    recordingStarted = true;
+    const uploaded = await recordUploadedFile({
+      ownerId: req.user.id,
+      displayName,
+      originalName: file.originalname,
+      storageKey: file.storageKey,
+      contentHash: file.contentHash,
+      size: file.size,
+      fileType: file.detectedType,
+      classId: uploadClass.classId,
+      offeringId: uploadClass.offeringId,
+      visibility: uploadVisibility.visibility,
+    });
+    return res.status(201).json(uploaded);
+  } catch (err) {
+    console.error('POST /api/files/upload failed:', err);
+    if (req.file && !recordingStarted) {
+      await removeStoredObject(req.file.storageKey);
+    }
+    console.error('Error details:', err.message, err.code, err.sqlMessage);
+    return res.status(500).json({ 
+      error: 'internal server error',
+      details: err.message || err.sqlMessage || 'Unknown error'
+    });
+  }
+});
+
+// --- Batch upload ---
+const MAX_BATCH_FILES = 20;
+
+// Like streamingStorage, but a file refused by the upload policy is skipped instead of
+// failing the whole request, so the batch route can report it next to the files that
+// were stored.
+const batchStorage = {
+  _handleFile(req, file, cb) {
+    receiveUpload(file).then(info => cb(null, info), err => {
+      // receiveUpload has already read past the refused file, so the next one can follow
+      if (err.status !== 413 && err.status !== 415) return cb(err);
+      cb(null, { rejection: err });
+    });
+  },
+  _removeFile(req, file, cb) {
+    if (!file.storageKey) return cb(null);
+    storage.remove(file.storageKey).then(() => cb(null), cb);
+  },
+};
+
+const batchUpload = multer({
+  storage: batchStorage,
+  // Size limits are enforced per file while streaming, so an oversized file is reported, not fatal
+  limits: { files: MAX_BATCH_FILES },
+});
+
+// Runs multer for the "files" field; anything that goes wrong here fails the whole batch.
+function acceptBatch(req, res, next) {
+  batchUpload.array('files', MAX_BATCH_FILES)(req, res, err => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_COUNT' || (err.code === 'LIMIT_UNEXPECTED_FILE' && err.field === 'files')) {
+        return res.status(400).json({ error: `at most ${MAX_BATCH_FILES} files can be uploaded at once` });
+      }
+      return res.status(400).json({ error: err.message.toLowerCase() });
+    }
+    console.error('POST /api/files/upload/batch failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  });
+}
+
+// Records one file of a batch and describes the outcome; never throws.
+async function recordBatchItem(ownerId, file, item, index) {
+  const result = { index, originalName: file.originalname };
+  if (file.rejection) {
+    return { ...result, status: file.rejection.status, error: file.rejection.message };
+  }
+
+  let recordingStarted = false;
+  try {
+    const uploadClass = await resolveUploadClass(item.classId, item.offeringId);
+    if (uploadClass.error) {
+      await removeStoredObject(file.storageKey);
+      return { ...result, status: 400, error: uploadClass.error };
+    }
+    const uploadVisibility = resolveVisibility(item.visibility, uploadClass.classId);
+    if (uploadVisibility.error) {
+      await removeStoredObject(file.storageKey);
+      return { ...result, status: 400, error: uploadVisibility.error };
+    }
+
+    recordingStarted = true;
+    const uploaded = await recordUploadedFile({
+      ownerId,
+      displayName: (typeof item.fileName === 'string' && item.fileName.trim()) ? item.fileName.trim() : file.originalname,
+      originalName: file.originalname,
+      storageKey: file.storageKey,
+      contentHash: file.contentHash,
+      size: file.size,
+      fileType: file.detectedType,
+      classId: uploadClass.classId,
+      offeringId: uploadClass.offeringId,
+      visibility: uploadVisibility.visibility,
+    });
+    return { ...result, status: 201, file: uploaded };
+  } catch (err) {
+    console.error(`POST /api/files/upload/batch failed for ${file.originalname}:`, err);
+    if (!recordingStarted) {
+      await removeStoredObject(file.storageKey);
+    }
+    return { ...result, status: 500, error: 'internal server error' };
+  }
+}
+
+/**
+ * Upload several files in one request.
+ * 
+ * Accepts up to 20 files in the "files" field of a multipart/form-data request. Each
+ * file gets its own display name and class from the optional "items" field, a JSON
+ * array in the same order as the files. Every file goes through the same checks as
+ * POST /api/files/upload, and one refused file does not stop the others: the response
+ * lists an outcome per file.
+ * 
+ * @route POST /api/files/upload/batch
+ * @access Private (requires JWT token)
+ * @param {Array<File>} req.files - Uploaded files (form field "files")
+ * @param {string} [req.body.items] - JSON array of { fileName?, classId?, visibility? }, one per file
+ * @returns {Object} 201 - Every file was uploaded
+ * @returns {Object} 207 - Some or all files failed; see each result's status
+ * @returns {Array<Object>} results - One entry per file, in request order
+ * @returns {number} results[].index - Position of the file in the request
+ * @returns {string} results[].originalName - Name of the uploaded file
+ * @returns {number} results[].status - 201 on success, otherwise 400/413/415/500 as for a single upload
+ * @returns {Object} [results[].file] - The uploaded file (same shape as POST /api/files/upload)
+ * @returns {string} [results[].error] - Why the file was not uploaded
+ * @returns {number} uploaded - Number of files uploaded
+ * @returns {number} failed - Number of files that failed
+ * @returns {Object} 400 - No files, more than 20 files, or malformed items
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Email not verified
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request (multipart/form-data)
+ * POST /api/files/upload/batch
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Form Data:
+ *   - items: '[{"fileName":"Week 3 slides","classId":123},{"classId":123}]'
+ *   - files: <week3.pdf>
+ *   - files: <setup.exe>
+ * 
+ * // Response (207)
+ * {
+ *   "results": [
+ *     { "index": 0, "originalName": "week3.pdf", "status": 201, "file": { "id": 456, "originalName": "Week 3 slides", ... } },
+ *     { "index": 1, "originalName": "setup.exe", "status": 415, "error": ".exe files are not allowed" }
+ *   ],
+ *   "uploaded": 1,
+ *   "failed": 1
+ * }
+ */
+app.post('/api/files/upload/batch', authenticateToken, requireVerifiedEmail, acceptBatch, async (req, res) => {
+  const files = req.files || [];
+  try {
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'no files uploaded' });
+    }
+
+    let items = [];
+    if (req.body && req.body.items) {
+      try {
+        items = JSON.parse(req.body.items);
+      } catch {
+        items = null;
+      }
+    }
+    if (!Array.isArray(items)) {
+      for (const file of files) {
+        if (file.storageKey) await removeStoredObject(file.storageKey);
+      }
+      return res.status(400).json({ error: 'items must be a JSON array' });
+    }
+
+    // One at a time, so results and file IDs follow the order of the request
+    const results = [];
+    for (let index = 0; index < files.length; index++) {
+      const item = items[index] && typeof items[index] === 'object' ? items[index] : {};
+      results.push(await recordBatchItem(req.user.id, files[index], item, index));
+    }
+
+    const uploaded = results.filter(result => result.status === 201).length;
+    const failed = results.length - uploaded;
+    return res.status(failed === 0 ? 201 : 207).json({ results, uploaded, failed });
+  } catch (err) {
+    console.error('POST /api/files/upload/batch failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Get the upload policy.
+ * 
+ * Lets the upload form reject files that would be refused before sending them. The
+ * server still checks every upload against the type detected from its contents.
+ * 
+ * @route GET /api/files/upload-policy
+ * @access Public
+ * @returns {Object} 200 - Upload policy
+ * @returns {number} 200.maxFileSize - Overall size limit in bytes
+ * @returns {Array<string>} 200.allowedTypes - Accepted MIME types ("image/*" matches a family)
+ * @returns {Array<string>} 200.blockedExtensions - Extensions refused regardless of contents
+ * @returns {Object} 200.sizeLimits - Stricter limits in bytes per type or family
+ * 
+ * @example
+ * // Response (200)
+ * {
+ *   "maxFileSize": 52428800,
+ *   "allowedTypes": ["application/pdf", "image/*", "text/*"],
+ *   "blockedExtensions": [".exe", ".bat"],
+ *   "sizeLimits": { "image/*": 15728640 }
+ * }
+ */
+app.get('/api/files/upload-policy', (_req, res) => {
+  res.json(uploadPolicy.describePolicy());
+});
+
+// --- Resumable uploads ---
+// Large files are sent in fixed-size chunks so a dropped connection or a page reload only
+// costs the chunk in flight. Each chunk is stored as its own object; completing the upload
+// streams the parts back in order through the same checks as a single-request upload.
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const MIN_CHUNK_SIZE = 256 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+// A session expires this long after its last chunk; expired sessions are purged hourly.
+const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const UPLOAD_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+
+function uploadPartKey(sessionId, index) {
+  return `upload-parts/${sessionId}-${index}`;
+}
+
+function totalChunksOf(session) {
+  return Math.ceil(Number(session.totalSize) / session.chunkSize);
+}
+
+// Every chunk is chunkSize bytes except the last, which holds the remainder.
+function expectedChunkSize(session, index) {
+  const totalSize = Number(session.totalSize);
+  return index < totalChunksOf(session) - 1
+    ? session.chunkSize
+    : totalSize - session.chunkSize * (totalChunksOf(session) - 1);
+}
+
+async function findUploadSession(id, ownerId) {
+  const rows = await db.all(
+    'SELECT * FROM upload_sessions WHERE id = ? AND ownerId = ?',
+    [id, ownerId]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
+
+async function listUploadParts(sessionId) {
+  return db.all(
+    'SELECT chunkIndex, size FROM upload_parts WHERE sessionId = ? ORDER BY chunkIndex',
+    [sessionId]
+  );
+}
+
+function formatUploadSession(session, parts) {
+  return {
+    id: session.id,
+    fileName: session.fileName,
+    displayName: session.displayName,
+    classId: session.classId ? Number(session.classId) : null,
+    offeringId: session.offeringId ? Number(session.offeringId) : null,
+    visibility: session.visibility || 'public',
+    size: Number(session.totalSize),
+    chunkSize: session.chunkSize,
+    totalChunks: totalChunksOf(session),
+    receivedChunks: parts.map(part => part.chunkIndex),
+    receivedBytes: parts.reduce((sum, part) => sum + Number(part.size), 0),
+    sha256: session.sha256 || null,
+    expiresAt: new Date(session.expiresAt).toISOString(),
+  };
+}
+
+// Removes a session's stored chunks and its rows. Chunks that never arrived are simply not found.
+async function discardUploadSession(session) {
+  for (let index = 0; index < totalChunksOf(session); index++) {
+    await removeStoredObject(uploadPartKey(session.id, index));
+  }
+  await db.run('DELETE FROM upload_parts WHERE sessionId = ?', [session.id]);
+  await db.run('DELETE FROM upload_sessions WHERE id = ?', [session.id]);
+}
+
+async function purgeExpiredUploads() {
+  const expired = await db.all(
+    'SELECT id, totalSize, chunkSize FROM upload_sessions WHERE expiresAt < ?',
+    [new Date()]
+  );
+  for (const session of expired) {
+    await discardUploadSession(session);
+  }
+  if (expired.length > 0) {
+    console.log(`Purged ${expired.length} expired upload session(s)`);
+  }
+}
+
+// unref() so the timer never keeps the process alive on its own
+setInterval(() => {
+  purgeExpiredUploads().catch(err => console.error('Purging expired uploads failed:', err));
+}, UPLOAD_PURGE_INTERVAL_MS).unref();
+
+const rawChunk = express.raw({ type: () => true, limit: MAX_CHUNK_SIZE });
+
+// Reads a chunk body into req.body, answering 413 in JSON when it is over MAX_CHUNK_SIZE.
+function acceptChunk(req, res, next) {
+  rawChunk(req, res, err => {
+    if (!err) return next();
+    if (err.type === 'entity.too.large') {
+      return res.status(413).json({ error: `chunk is too large (max ${uploadPolicy.formatLimit(MAX_CHUNK_SIZE)})` });
+    }
+    return res.status(400).json({ error: 'could not read chunk' });
+  });
+}
+
+/**
+ * Start a resumable upload.
+ * 
+ * Creates an upload session for a file that will be sent in chunks with
+ * PUT /api/uploads/:id/chunks/:index and finished with POST /api/uploads/:id/complete.
+ * The name and size are checked against the upload policy up front; the type is
+ * checked once the first chunk arrives. Sessions expire 24 hours after the last chunk.
+ * 
+ * @route POST /api/uploads
+ * @access Private (requires JWT token)
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.fileName - Original file name
+ * @param {number} req.body.size - File size in bytes
+ * @param {string} [req.body.displayName] - Name shown to users (defaults to fileName)
+ * @param {string|number} [req.body.classId] - Class to associate the file with
+ * @param {string|number} [req.body.offeringId] - Class offering (term and section) of the file
+ * @param {string} [req.body.visibility] - public (default), campus, class (needs classId) or private
+ * @param {number} [req.body.chunkSize] - Chunk size in bytes (256KB-16MB, default 5MB)
+ * @param {string} [req.body.sha256] - SHA-256 of the whole file (hex), verified on completion
+ * @returns {Object} 201 - Upload session (same shape as GET /api/uploads/:id)
+ * @returns {Object} 400 - Missing name, invalid size, chunk size, checksum, class, offering or visibility
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Email not verified
+ * @returns {Object} 413 - File exceeds the upload size limit
+ * @returns {Object} 415 - File extension not allowed
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/uploads
+ * Headers: { "Authorization": "Bearer <token>" }
+ * { "fileName": "lecture-recording.mp4", "size": 41943040, "classId": 123, "visibility": "class" }
+ * 
+ * // Response (201)
+ * {
+ *   "id": "6f1c7a52-8d0e-4d5b-9a77-0f3c2b1e9d44",
+ *   "fileName": "lecture-recording.mp4",
+ *   "displayName": "lecture-recording.mp4",
+ *   "classId": 123,
+ *   "visibility": "class",
+ *   "size": 41943040,
+ *   "chunkSize": 5242880,
+ *   "totalChunks": 8,
+ *   "receivedChunks": [],
+ *   "receivedBytes": 0,
+ *   "sha256": null,
+ *   "expiresAt": "2024-01-16T10:30:00.000Z"
+ * }
+ */
+app.post('/api/uploads', authenticateToken, requireVerifiedEmail, async (req, res) => {
+  try {
+    const { fileName, displayName, classId, offeringId, visibility, size, chunkSize, sha256 } = req.body || {};
+    if (typeof fileName !== 'string' || !fileName.trim()) {
+      return res.status(400).json({ error: 'fileName is required' });
+    }
+    if (!Number.isSafeInteger(size) || size <= 0) {
+      return res.status(400).json({ error: 'size must be a positive integer' });
+    }
+    const chunkBytes = chunkSize === undefined ? DEFAULT_CHUNK_SIZE : chunkSize;
+    if (!Number.isInteger(chunkBytes) || chunkBytes < MIN_CHUNK_SIZE || chunkBytes > MAX_CHUNK_SIZE) {
+      return res.status(400).json({
+        error: `chunkSize must be between ${uploadPolicy.formatLimit(MIN_CHUNK_SIZE)} and ${uploadPolicy.formatLimit(MAX_CHUNK_SIZE)}`
+      });
+    }
+    if (sha256 !== undefined && sha256 !== null && (typeof sha256 !== 'string' || !SHA256_PATTERN.test(sha256))) {
+      return res.status(400).json({ error: 'sha256 must be a hex SHA-256 digest' });
+    }
+
+    const nameError = uploadPolicy.checkFileName(fileName);
+    if (nameError) {
+      return res.status(nameError.status).json({ error: nameError.message });
+    }
+    if (size > uploadPolicy.policy.maxFileSize) {
+      return res.status(413).json({
+        error: `file is too large (max ${uploadPolicy.formatLimit(uploadPolicy.policy.maxFileSize)})`
+      });
+    }
+
+    const uploadClass = await resolveUploadClass(classId, offeringId);
+    if (uploadClass.error) {
+      return res.status(400).json({ error: uploadClass.error });
+    }
+    const uploadVisibility = resolveVisibility(visibility, uploadClass.classId);
+    if (uploadVisibility.error) {
+      return res.status(400).json({ error: uploadVisibility.error });
+    }
+
+    const session = {
+      id: crypto.randomUUID(),
+      ownerId: req.user.id,
+      fileName: fileName.trim(),
+      displayName: (typeof displayName === 'string' && displayName.trim()) ? displayName.trim() : fileName.trim(),
+      classId: uploadClass.classId,
+      offeringId: uploadClass.offeringId,
+      visibility: uploadVisibility.visibility,
+      totalSize: size,
+      chunkSize: chunkBytes,
+      sha256: sha256 ? sha256.toLowerCase() : null,
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+    };
+    await db.run(
+      `INSERT INTO upload_sessions (id, ownerId, fileName, displayName, classId, offeringId, visibility, totalSize, chunkSize, sha256, expiresAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [session.id, session.ownerId, session.fileName, session.displayName, session.classId, session.offeringId,
+        session.visibility, session.totalSize, session.chunkSize, session.sha256, session.expiresAt]
+    );
+
+    return res.status(201).json(formatUploadSession(session, []));
+  } catch (err) {
+    console.error('POST /api/uploads failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Get the state of a resumable upload.
+ * 
+ * Used to pick an upload back up after a reload or a dropped connection: the
+ * client sends only the chunks missing from receivedChunks, then completes it.
+ * 
+ * @route GET /api/uploads/:id
+ * @access Private (requires JWT token, own uploads only)
+ * @param {string} req.params.id - Upload session ID
+ * @returns {Object} 200 - Upload session
+ * @returns {string} 200.id - Upload session ID
+ * @returns {string} 200.fileName - Original file name
+ * @returns {string} 200.displayName - Name the file will be shown under
+ * @returns {number|null} 200.classId - Class the file will be filed under
+ * @returns {number|null} 200.offeringId - Class offering the file will be tagged with
+ * @returns {string} 200.visibility - Who will be able to see the file
+ * @returns {number} 200.size - File size in bytes
+ * @returns {number} 200.chunkSize - Size of every chunk but the last
+ * @returns {number} 200.totalChunks - Number of chunks
+ * @returns {Array<number>} 200.receivedChunks - Indexes of the chunks already stored
+ * @returns {number} 200.receivedBytes - Bytes stored so far
+ * @returns {string|null} 200.sha256 - Expected SHA-256 of the whole file
+ * @returns {string} 200.expiresAt - When the session is discarded if no more chunks arrive
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 404 - Upload not found, expired or not yours
+ * @returns {Object} 500 - Internal server error
+ */
+app.get('/api/uploads/:id', authenticateToken, async (req, res) => {
+  try {
+    const session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) {
+      return res.status(404).json({ error: 'upload not found' });
+    }
+    return res.json(formatUploadSession(session, await listUploadParts(session.id)));
+  } catch (err) {
+    console.error('GET /api/uploads/:id failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Send one chunk of a resumable upload.
+ * 
+ * The body is the raw chunk bytes. Every chunk must be exactly chunkSize bytes
+ * except the last. Sending a chunk again replaces it, so a chunk whose response
+ * was lost can simply be retried. When an X-Chunk-SHA256 header is given, the
+ * chunk is rejected with 422 unless its bytes match.
+ * 
+ * The first chunk decides the file type: if the upload policy refuses it (415) or
+ * the file is over the limit for its type (413), the whole upload is discarded.
+ * 
+ * @route PUT /api/uploads/:id/chunks/:index
+ * @access Private (requires JWT token, own uploads only)
+ * @param {string} req.params.id - Upload session ID
+ * @param {string} req.params.index - Zero-based chunk index
+ * @param {string} [req.headers.x-chunk-sha256] - SHA-256 of the chunk (hex)
+ * @returns {Object} 200 - Updated upload session (same shape as GET /api/uploads/:id)
+ * @returns {Object} 400 - Invalid chunk index or wrong chunk length
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Email not verified
+ * @returns {Object} 404 - Upload not found
+ * @returns {Object} 409 - Upload is already being completed
+ * @returns {Object} 413 - Chunk over 16MB, or file over the limit for its type
+ * @returns {Object} 415 - File type not allowed
+ * @returns {Object} 422 - Chunk does not match X-Chunk-SHA256
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * PUT /api/uploads/6f1c7a52-8d0e-4d5b-9a77-0f3c2b1e9d44/chunks/0
+ * Headers: {
+ *   "Authorization": "Bearer <token>",
+ *   "Content-Type": "application/octet-stream",
+ *   "X-Chunk-SHA256": "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+ * }
+ * <5242880 bytes>
+ */
+app.put('/api/uploads/:id/chunks/:index', authenticateToken, requireVerifiedEmail, acceptChunk, async (req, res) => {
+  try {
+    const session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) {
+      return res.status(404).json({ error: 'upload not found' });
+    }
+    if (session.status !== 'uploading') {
+      return res.status(409).json({ error: 'upload is already being completed' });
+    }
+
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0 || index >= totalChunksOf(session)) {
+      return res.status(400).json({ error: 'invalid chunk index' });
+    }
+    const chunk = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const expectedSize = expectedChunkSize(session, index);
+    if (chunk.length !== expectedSize) {
+      return res.status(400).json({ error: `chunk ${index} must be ${expectedSize} bytes` });
+    }
+
+    const chunkHash = crypto.createHash('sha256').update(chunk).digest('hex');
+    const claimedHash = req.get('x-chunk-sha256');
+    if (claimedHash && claimedHash.toLowerCase() !== chunkHash) {
+      return res.status(422).json({ error: 'chunk checksum mismatch' });
+    }
+
+    // The first chunk is all the type detection needs, so refuse disallowed files now
+    // rather than after the whole file has been sent.
+    if (index === 0) {
+      const detectedType = await uploadPolicy.detectMimeType(chunk.subarray(0, uploadPolicy.SNIFF_BYTES), session.fileName);
+      const verdict = uploadPolicy.checkFile({ fileName: session.fileName, mimeType: detectedType });
+      const rejection = verdict.error || (Number(session.totalSize) > verdict.maxSize
+        ? uploadPolicy.tooLargeError(detectedType, verdict.maxSize)
+        : null);
+      if (rejection) {
+        await discardUploadSession(session);
+        return res.status(rejection.status).json({ error: rejection.message });
+      }
+      session.detectedType = detectedType;
+    }
+
+    await storage.put(uploadPartKey(session.id, index), Readable.from([chunk]), { contentType: 'application/octet-stream' });
+    await db.run(
+      `INSERT INTO upload_parts (sessionId, chunkIndex, size, sha256, receivedAt) VALUES (?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE size = VALUES(size), sha256 = VALUES(sha256), receivedAt = VALUES(receivedAt)`,
+      [session.id, index, chunk.length, chunkHash, new Date()]
+    );
+
+    session.expiresAt = new Date(Date.now() + UPLOAD_SESSION_TTL_MS);
+    await db.run(
+      'UPDATE upload_sessions SET detectedType = ?, expiresAt = ? WHERE id = ?',
+      [session.detectedType || null, session.expiresAt, session.id]
+    );
+
+    return res.json(formatUploadSession(session, await listUploadParts(session.id)));
+  } catch (err) {
+    console.error('PUT /api/uploads/:id/chunks/:index failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Finish a resumable upload.
+ * 
+ * Streams the stored chunks back in order into a single object, re-running the
+ * upload policy checks on the assembled file, and verifies its SHA-256 against the
+ * one given when the upload was created. On success the file is recorded exactly as
+ * with POST /api/files/upload and the chunks are deleted.
+ * 
+ * @route POST /api/uploads/:id/complete
+ * @access Private (requires JWT token, own uploads only)
+ * @param {string} req.params.id - Upload session ID
+ * @returns {Object} 201 - File uploaded (same shape as POST /api/files/upload)
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Email not verified
+ * @returns {Object} 404 - Upload not found
+ * @returns {Object} 409 - Chunks are missing ({ error, missingChunks }) or the upload is already being completed
+ * @returns {Object} 413 - File exceeds the size limit for its type
+ * @returns {Object} 415 - File type not allowed
+ * @returns {Object} 422 - Assembled file does not match the expected SHA-256; the upload is discarded
+ * @returns {Object} 500 - Internal server error
+ */
+app.post('/api/uploads/:id/complete', authenticateToken, requireVerifiedEmail, async (req, res) => {
+  let session;
+  let storedKey = null;
+  let recordingStarted = false;
+  try {
+    session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) {
+      return res.status(404).json({ error: 'upload not found' });
+    }
+
+    const received = new Set((await listUploadParts(session.id)).map(part => part.chunkIndex));
+    const missingChunks = [];
+    for (let index = 0; index < totalChunksOf(session); index++) {
+      if (!received.has(index)) missingChunks.push(index);
+    }
+    if (missingChunks.length > 0) {
+      return res.status(409).json({ error: 'upload is missing chunks', missingChunks });
+    }
+
+    // Claim the session so a second complete request (e.g. a double click) can't assemble it too
+    const claim = await db.run(
+      "UPDATE upload_sessions SET status = 'completing' WHERE id = ? AND status = 'uploading'",
+      [session.id]
+    );
+    if (claim.changes === 0) {
+      return res.status(409).json({ error: 'upload is already being completed' });
+    }
+
+    const sessionId = session.id;
+    const chunkCount = totalChunksOf(session);
+    async function* assembledParts() {
+      for (let index = 0; index < chunkCount; index++) {
+        yield* await storage.createReadStream(uploadPartKey(sessionId, index));
+      }
+    }
+
+    let stored;
+    try {
+      stored = await receiveUpload({ stream: Readable.from(assembledParts()), originalname: session.fileName });
+    } catch (err) {
+      if (err.status === 413 || err.status === 415) {
+        await discardUploadSession(session);
+        return res.status(err.status).json({ error: err.message });
+      }
+      throw err;
+    }
+    storedKey = stored.storageKey;
+
+    if (stored.size !== Number(session.totalSize) || (session.sha256 && stored.contentHash !== session.sha256)) {
+      await removeStoredObject(storedKey);
+      await discardUploadSession(session);
+      return res.status(422).json({ error: 'file checksum mismatch' });
+    }
+
+    recordingStarted = true;
+    const uploaded = await recordUploadedFile({
+      ownerId: session.ownerId,
+      displayName: session.displayName,
+      originalName: session.fileName,
+      storageKey: stored.storageKey,
+      contentHash: stored.contentHash,
+      size: stored.size,
+      fileType: stored.detectedType,
+      classId: session.classId,
+      offeringId: session.offeringId ?? null,
+      visibility: session.visibility || 'public',
+    });
+
+    // The file is recorded; leftover chunks would only be purged later, so don't fail on them
+    await discardUploadSession(session).catch(err => {
+      console.error(`Removing chunks of upload ${session.id} failed:`, err);
+    });
+    return res.status(201).json(uploaded);
+  } catch (err) {
+    console.error('POST /api/uploads/:id/complete failed:', err);
+    if (storedKey && !recordingStarted) {
+      await removeStoredObject(storedKey);
+    }
+    if (session && !recordingStarted) {
+      // Let the client retry the completion
+      await db.run("UPDATE upload_sessions SET status = 'uploading' WHERE id = ?", [session.id]).catch(() => {});
+    }
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Abort a resumable upload.
+ * 
+ * Deletes the upload session and any chunks received so far.
+ * 
+ * @route DELETE /api/uploads/:id
+ * @access Private (requires JWT token, own uploads only)
+ * @param {string} req.params.id - Upload session ID
+ * @returns {void} 204 - Upload discarded
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 404 - Upload not found
+ * @returns {Object} 409 - Upload is being completed
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/uploads/:id', authenticateToken, async (req, res) => {
+  try {
+    const session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) {
+      return res.status(404).json({ error: 'upload not found' });
+    }
+    if (session.status !== 'uploading') {
+      return res.status(409).json({ error: 'upload is already being completed' });
+    }
+    await discardUploadSession(session);
+    return res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/uploads/:id failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- File visibility and share links ---
+// Who can see a file besides its owner: anyone, any signed-in user, members of its class,
+// or only holders of a share link.
+const FILE_VISIBILITIES = ['public', 'campus', 'class', 'private'];
+
+// <img>, <iframe> and <video> can't send a bearer token, so responses for a file that isn't
+// public carry a short-lived signed grant to append to its URLs instead. Grants are signed
+// with a key derived from JWT_SECRET, so one can never pass for a login token.
+const FILE_GRANT_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('file-grant').digest();
+const FILE_GRANT_EXPIRES_IN = '1h';
+
+const SHARE_TOKEN_BYTES = 32;
+const MAX_SHARE_LINK_DAYS = 365;
+
+function fileGrant(fileId) {
+  return jwt.sign({ fileId: Number(fileId) }, FILE_GRANT_SECRET, { expiresIn: FILE_GRANT_EXPIRES_IN });
+}
+
+function isValidFileGrant(grant, fileId) {
+  try {
+    return jwt.verify(String(grant), FILE_GRANT_SECRET).fileId === fileId;
+  } catch {
+    return false;
+  }
+}
+
+function hashShareToken(token) {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
+}
+
+/**
+ * Checks a requested visibility against the class the file is filed under.
+ *
+ * @param {*} visibility - visibility from the request; missing means public
+ * @param {string|null} classId - Class ID as stored in Note_Files
+ * @returns {Object} { error } for an unknown level or class visibility without a class,
+ *   otherwise { visibility }
+ */
+function resolveVisibility(visibility, classId) {
+  if (visibility === undefined || visibility === null || visibility === '') {
+    return { visibility: 'public' };
+  }
+  if (!FILE_VISIBILITIES.includes(visibility)) {
+    return { error: `visibility must be one of: ${FILE_VISIBILITIES.join(', ')}` };
+  }
+  if (visibility === 'class' && !classId) {
+    return { error: 'class visibility requires a class' };
+  }
+  return { visibility };
+}
+
+/**
+ * Builds the WHERE condition that limits a file listing to what the caller may see.
+ * Expects the listing's Note_Files alias to be nf.
+ *
+ * @param {Object|undefined} user - req.user, if signed in
+ * @returns {Object} { sql, params }
+ */
+function visibilityCondition(user) {
+  // Files hidden by a moderator are left out of every listing, even for their owner
+  if (!user) {
+    return { sql: "nf.hiddenAt IS NULL AND COALESCE(nf.visibility, 'public') = 'public'", params: [] };
+  }
+  return {
+    sql: `nf.hiddenAt IS NULL AND (COALESCE(nf.visibility, 'public') IN ('public', 'campus')
+      OR nf.ownerID = ?
+      OR (nf.visibility = 'class' AND EXISTS (
+        SELECT 1 FROM class_enrollments ce
+        WHERE ce.userId = ?
+          AND CAST(ce.classId AS CHAR) COLLATE utf8mb4_unicode_ci = nf.classId COLLATE utf8mb4_unicode_ci
+      )))`,
+    params: [user.id, user.id],
+  };
+}
+
+async function findActiveShareLink(fileId, token) {
+  const rows = await db.all(
+    `SELECT id FROM file_share_links
+     WHERE fileId = ? AND tokenHash = ? AND revokedAt IS NULL AND (expiresAt IS NULL OR expiresAt > ?)`,
+    [fileId.toString(), hashShareToken(token), new Date()]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Decides whether the caller may see a file.
+ *
+ * The owner and staff always can, and a valid grant or share link opens any file. A private
+ * file answers 404 exactly like a missing one, so its ID gives nothing away; so does a file
+ * a moderator hid.
+ *
+ * @param {number} id - File ID
+ * @param {Object|undefined} user - req.user, if signed in
+ * @param {Object} [tokens] - { grant, share } from the query string
+ * @returns {Promise<Object>} { file } with id, ownerId, visibility and classId when allowed,
+ *   otherwise { status, error }
+ */
+async function checkFileAccess(id, user, { grant, share } = {}) {
+  const rows = await db.all(
+    `SELECT i.id, nf.ownerID AS ownerId, COALESCE(nf.visibility, 'public') AS visibility, nf.classId, nf.hiddenAt
+     FROM image_store i
+     LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+     WHERE i.id = ?`,
+    [id]
+  );
+  const file = rows[0];
+  if (!file) {
+    return { status: 404, error: 'file not found' };
+  }
+  if ((user && file.ownerId === user.id) || isStaff(user)) {
+    return { file };
+  }
+  if (file.hiddenAt) {
+    return { status: 404, error: 'file not found' };
+  }
+  if (file.visibility === 'public') {
+    return { file };
+  }
+  if ((grant && isValidFileGrant(grant, id)) || (share && await findActiveShareLink(id, share))) {
+    return { file };
+  }
+  if (file.visibility === 'private') {
+    return { status: 404, error: 'file not found' };
+  }
+  if (!user) {
+    return { status: 401, error: 'authentication required' };
+  }
+  if (file.visibility === 'campus') {
+    return { file };
+  }
+
+  const enrollments = await db.all(
+    'SELECT classId FROM class_enrollments WHERE userId = ? AND classId = ?',
+    [user.id, Number(file.classId)]
+  );
+  if (enrollments.length > 0) {
+    return { file };
+  }
+  return { status: 403, error: 'only members of this class can view this file' };
+}
+
+// Checks that the caller may see the file named by :id (see checkFileAccess) and puts it in
+// req.fileAccess. Goes after optionalAuth or authenticateToken so req.user is known.
+async function requireFileAccess(req, res, next) {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const access = await checkFileAccess(id, req.user, req.query);
+    if (access.error) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    req.fileAccess = access.file;
+    return next();
+  } catch (err) {
+    console.error(`${req.method} ${req.originalUrl} failed:`, err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+}
+
+// Browsers may keep a copy of a file that isn't public, but shared caches must not.
+function restrictedCacheHeaders(access) {
+  return access.visibility === 'public' ? {} : { 'Cache-Control': 'private, no-cache' };
+}
+
+// Types the preview shows inline. The browser displays these itself and none of them runs
+// script; anything else (HTML, SVG, XML, ...) would run on the app's origin, so it is sent as
+// an attachment instead.
+const INLINE_PREVIEW_TYPES = new Set([
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'text/plain',
+]);
+const INLINE_PREVIEW_FAMILIES = ['audio/', 'video/'];
+
+/**
+ * Headers that keep a previewed file from acting as a page of the app: no type sniffing,
+ * inline display only for INLINE_PREVIEW_TYPES, and a sandbox so even a file shown inline
+ * runs without script or same-origin access.
+ * 
+ * @param {string} fileType - Stored MIME type (rows from before type detection hold the
+ *   client's claim, so this is not trusted)
+ * @returns {Object} Response headers
+ */
+function previewHeaders(fileType) {
+  const type = String(fileType || '').split(';')[0].trim().toLowerCase();
+  const inline = INLINE_PREVIEW_TYPES.has(type) || INLINE_PREVIEW_FAMILIES.some(family => type.startsWith(family));
+  return {
+    'Content-Type': inline ? type : 'application/octet-stream',
+    'Content-Disposition': inline ? 'inline' : 'attachment',
+    'X-Content-Type-Options': 'nosniff',
+    // Browsers won't run their PDF viewer inside a sandboxed document; it keeps PDF script
+    // away from the page on its own
+    ...(type !== 'application/pdf' && { 'Content-Security-Policy': 'sandbox' }),
+  };
+}
+
+// --- Academic terms and class offerings ---
+// A term is a season and year; a class offering is one catalogue class taught in a term,
+// optionally a single section of it. Uploads can be tagged with their offering, so a
+// Fall 2024 midterm can be told apart from a Spring 2026 one (GET /api/files?termId=).
+
+// Calendar order, which is also how terms of the same year sort
+const TERM_SEASONS = ['winter', 'spring', 'summer', 'fall'];
+const MIN_TERM_YEAR = 2000;
+const MAX_TERM_YEAR = 2100;
+const MAX_SECTION_LENGTH = 16;
+const MAX_INSTRUCTOR_LENGTH = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Newest term first
+const TERM_ORDER = `t.year DESC, FIELD(t.season, ${TERM_SEASONS.map(season => `'${season}'`).join(', ')}) DESC`;
+
+const TERM_COLUMNS = `
+  t.id,
+  t.season,
+  t.year,
+  DATE_FORMAT(t.startsOn, '%Y-%m-%d') AS startsOn,
+  DATE_FORMAT(t.endsOn, '%Y-%m-%d') AS endsOn
+`;
+
+// The offering a file was uploaded for, and its term; formatOffering shapes the columns.
+const OFFERING_JOIN = `
+  LEFT JOIN class_offerings co ON co.id = nf.offeringId
+  LEFT JOIN terms t ON t.id = co.termId
+`;
+const OFFERING_COLUMNS = `
+  co.id AS offeringId,
+  co.section AS offeringSection,
+  co.instructor AS offeringInstructor,
+  t.id AS termId,
+  t.season AS termSeason,
+  t.year AS termYear
+`;
+
+function termName(season, year) {
+  return `${season.charAt(0).toUpperCase()}${season.slice(1)} ${year}`;
+}
+
+function formatTerm(row) {
+  return {
+    id: row.id,
+    season: row.season,
+    year: Number(row.year),
+    name: termName(row.season, row.year),
+    startsOn: row.startsOn || null,
+    endsOn: row.endsOn || null,
+  };
+}
+
+/**
+ * Shapes the offering columns of a row (offeringId, offeringSection, offeringInstructor,
+ * termId, termSeason, termYear) for API responses.
+ * 
+ * @param {Object} row - Row selected with those columns
+ * @returns {Object|null} { id, term: { id, season, year, name }, section, instructor }, or
+ *   null for files that aren't tagged with an offering
+ */
+function formatOffering(row) {
+  if (!row.offeringId) return null;
+  return {
+    id: Number(row.offeringId),
+    term: {
+      id: Number(row.termId),
+      season: row.termSeason,
+      year: Number(row.termYear),
+      name: termName(row.termSeason, row.termYear),
+    },
+    section: row.offeringSection || null,
+    instructor: row.offeringInstructor || null,
+  };
+}
+
+async function findOffering(offeringId) {
+  const rows = await db.all(
+    'SELECT id, classId, termId, section, instructor FROM class_offerings WHERE id = ?',
+    [offeringId]
+  );
+  return rows[0] || null;
+}
+
+// Reads a positive integer ID list ("3" or "3,4") from a query parameter; null if any part is invalid.
+function parseIdList(value) {
+  const parts = (Array.isArray(value) ? value.join(',') : String(value)).split(',').map(part => part.trim()).filter(Boolean);
+  const ids = parts.map(Number);
+  return ids.length > 0 && ids.every(id => Number.isInteger(id) && id > 0) ? ids : null;
+}
+
+/**
+ * Checks the fields of a new term.
+ * 
+ * @param {Object} body - Request body with season, year and optional startsOn/endsOn
+ * @returns {Object} { error } for invalid input, otherwise { term } with the values to store
+ */
+function parseTerm(body) {
+  const { season, year, startsOn, endsOn } = body || {};
+  const normalizedSeason = typeof season === 'string' ? season.trim().toLowerCase() : '';
+  if (!TERM_SEASONS.includes(normalizedSeason)) {
+    return { error: `season must be one of: ${TERM_SEASONS.join(', ')}` };
+  }
+  const yearNum = Number(year);
+  if (!Number.isInteger(yearNum) || yearNum < MIN_TERM_YEAR || yearNum > MAX_TERM_YEAR) {
+    return { error: `year must be a whole number from ${MIN_TERM_YEAR} to ${MAX_TERM_YEAR}` };
+  }
+  for (const [field, value] of [['startsOn', startsOn], ['endsOn', endsOn]]) {
+    if (value !== undefined && value !== null && value !== ''
+      && (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      return { error: `${field} must be a date (YYYY-MM-DD)` };
+    }
+  }
+  if (startsOn && endsOn && endsOn < startsOn) {
+    return { error: 'endsOn must not be before startsOn' };
+  }
+  return {
+    term: { season: normalizedSeason, year: yearNum, startsOn: startsOn || null, endsOn: endsOn || null },
+  };
+}
+
+async function findTerm(termId) {
+  const rows = await db.all(`SELECT ${TERM_COLUMNS} FROM terms t WHERE t.id = ?`, [termId]);
+  return rows[0] || null;
+}
+
+// --- File listing: sorting and cursor pagination ---
+// Sort options shared by the file listing endpoints. Each entry lists [SQL expression, direction]
+// pairs (plus parameters when the expression has placeholders); the last one is always the
+// unique file id so keyset pagination has a strict order.
+const FILE_SORTS = {
+  newest: [['i.id', 'DESC']],
+  name: [['i.image_name', 'ASC'], ['i.id', 'ASC']],
+  size: [["CAST(COALESCE(nf.size, '0') AS UNSIGNED)", 'DESC'], ['i.id', 'DESC']],
+  class: [
+    ['(c.id IS NULL)', 'ASC'],
+    ["COALESCE(c.Subject1, '')", 'ASC'],
+    ["COALESCE(c.Catalog1, '')", 'ASC'],
+    ['i.id', 'DESC'],
+  ],
+  bookmarks: [['COALESCE(bc.bookmarkCount, 0)', 'DESC'], ['i.id', 'DESC']],
+  top: [['COALESCE(vc.rating, 0)', 'DESC'], ['COALESCE(vc.score, 0)', 'DESC'], ['i.id', 'DESC']],
+};
+
+// Sort expressions (here and in the admin sorts) whose values are text; every other sort key
+// is a number. Cursor values are checked against these before they reach the query.
+const TEXT_SORT_KEYS = new Set([
+  'i.image_name',
+  "COALESCE(c.Subject1, '')",
+  "COALESCE(c.Catalog1, '')",
+  `u.${EMAIL_COL}`,
+]);
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+// Per-file bookmark totals, joined into listings for the "most bookmarked" sort and display.
+const BOOKMARK_COUNT_JOIN = `
+  LEFT JOIN (
+    SELECT fileId, COUNT(*) AS bookmarkCount FROM bookmarks GROUP BY fileId
+  ) bc ON bc.fileId = CAST(i.id AS CHAR)
+`;
+
+// Per-file vote totals for display and the "top rated" sort. rating is the lower bound of the
+// 95% Wilson interval for the share of upvotes, so 40 up / 2 down outranks a lone upvote.
+const VOTE_COUNT_SELECT = `
+  SELECT fileId,
+    SUM(value = 1) AS upvotes,
+    SUM(value = -1) AS downvotes,
+    SUM(value) AS score,
+    ((SUM(value = 1) + 1.9208) / COUNT(*) - 1.96 * SQRT(SUM(value = 1) * SUM(value = -1) / COUNT(*) + 0.9604) / COUNT(*))
+      / (1 + 3.8416 / COUNT(*)) AS rating
+  FROM file_votes
+`;
+const VOTE_COUNT_JOIN = `
+  LEFT JOIN (${VOTE_COUNT_SELECT} GROUP BY fileId) vc ON vc.fileId = CAST(i.id AS CHAR)
+`;
+
+// The caller's own vote (1, -1 or NULL), for listings that know who is asking.
+const MY_VOTE_COLUMN = '(SELECT mv.value FROM file_votes mv WHERE mv.fileId = CAST(i.id AS CHAR) AND mv.userId = ?) AS myVote';
+// Whether the caller has bookmarked the file, so tiles don't look it up one by one.
+const MY_BOOKMARK_COLUMN = '(EXISTS (SELECT 1 FROM bookmarks mb WHERE mb.fileId = CAST(i.id AS CHAR) AND mb.userId = ?)) AS isBookmarkedByMe';
+
+// The uploader's public profile; listings show it instead of the owner's email.
+const OWNER_PROFILE_JOIN = 'LEFT JOIN user_profiles op ON op.userId = nf.ownerID';
+
+// Columns every file listing selects; formatFileRow turns them into the API shape.
+// ownerId is only used server-side (ownership checks) and never sent to clients.
+const FILE_LIST_COLUMNS = `
+  i.id,
+  i.image_name AS originalName,
+  COALESCE(nf.size, '0') AS size,
+  COALESCE(nf.fileType, 'application/octet-stream') AS fileType,
+  COALESCE(nf.LastUpdated, DATE_FORMAT(NOW(), '%Y-%m-%dT%H:%i:%s.%fZ')) AS uploadedAt,
+  nf.ownerID AS ownerId,
+  op.handle AS ownerHandle,
+  op.displayName AS ownerName,
+  op.avatarKey AS ownerAvatarKey,
+  nf.description,
+  COALESCE(nf.visibility, 'public') AS visibility,
+  (nf.hiddenAt IS NOT NULL) AS hidden,
+  COALESCE(bc.bookmarkCount, 0) AS bookmarkCount,
+  COALESCE(vc.score, 0) AS score,
+  COALESCE(vc.upvotes, 0) AS upvotes,
+  COALESCE(vc.downvotes, 0) AS downvotes,
+  (i.thumbnail_key IS NOT NULL) AS hasThumbnail,
+  c.id AS classId,
+  c.Subject1 AS subject,
+  c.Catalog1 AS catalog,
+  c.Long_Title AS classTitle,
+  c.CS_Number AS csNumber,
+  ${OFFERING_COLUMNS}
+`;
+
+/**
+ * Puts a sort key value in the form cursors carry it: text for text keys, otherwise a number
+ * (MySQL returns SUM and other DECIMAL results as strings).
+ * 
+ * @param {string} expr - Sort key SQL expression
+ * @param {*} value - Value read from the row
+ * @returns {string|number|null}
+ */
+function cursorValue(expr, value) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return TEXT_SORT_KEYS.has(expr) ? String(value) : Number(value);
+}
+
+// A cursor value must be a plain value of its key's type: objects and arrays would be expanded
+// by the driver into SQL (a column reference or a list) instead of being bound as one value.
+function isValidCursorValue(expr, value) {
+  if (value === null) {
+    return true;
+  }
+  return TEXT_SORT_KEYS.has(expr) ? typeof value === 'string' : Number.isFinite(value);
+}
+
+/**
+ * Parses limit/cursor/sort query parameters for a file listing.
+ * 
+ * Pagination is opt-in: without limit or cursor the endpoint keeps returning a plain
+ * array of every row, so older clients keep working.
+ * 
+ * @param {Object} query - req.query
+ * @param {Object} sorts - Allowed sort options (name -> sort keys)
+ * @param {string} defaultSort - Sort used when none is given
+ * @returns {Object} { error } on bad input, otherwise { paginated, limit, sort, sortKeys, after }
+ */
+function parseFilePage(query, sorts, defaultSort) {
+  const sort = typeof query.sort === 'string' && query.sort ? query.sort : defaultSort;
+  if (!Object.prototype.hasOwnProperty.call(sorts, sort)) {
+    return { error: `invalid sort (expected one of: ${Object.keys(sorts).join(', ')})` };
+  }
+  const sortKeys = sorts[sort];
+
+  const paginated = query.limit !== undefined || query.cursor !== undefined;
+  let limit = DEFAULT_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return { error: 'invalid limit' };
+    }
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  let after = null;
+  if (query.cursor !== undefined && query.cursor !== '') {
+    try {
+      const decoded = JSON.parse(Buffer.from(String(query.cursor), 'base64url').toString('utf8'));
+      if (decoded.s !== sort || !Array.isArray(decoded.k) || decoded.k.length !== sortKeys.length) {
+        throw new Error('cursor does not match sort');
+      }
+      if (!decoded.k.every((value, index) => isValidCursorValue(sortKeys[index][0], value))) {
+        throw new Error('cursor values do not match the sort keys');
+      }
+      after = decoded.k;
+    } catch (err) {
+      return { error: 'invalid cursor' };
+    }
+  }
+
+  return { paginated, limit, sort, sortKeys, after };
+}
+
+/**
+ * Builds the keyset condition "row comes after the cursor" for the given sort keys.
+ * 
+ * For keys (a DESC, id DESC) and cursor values (x, y) this produces
+ * (a < x OR (a = x AND id < y)).
+ * 
+ * @param {Array<Array>} sortKeys - [SQL expression, direction, expression params?] entries
+ * @param {Array} values - Cursor values, one per sort key
+ * @returns {Object} { sql, params }
+ */
+function keysetCondition(sortKeys, values) {
+  const alternatives = [];
+  const params = [];
+  sortKeys.forEach(([expr, dir, exprParams = []], index) => {
+    const parts = [];
+    for (let j = 0; j < index; j++) {
+      parts.push(`${sortKeys[j][0]} = ?`);
+      params.push(...(sortKeys[j][2] || []), values[j]);
+    }
+    parts.push(`${expr} ${dir === 'DESC' ? '<' : '>'} ?`);
+    params.push(...exprParams, values[index]);
+    alternatives.push(`(${parts.join(' AND ')})`);
+  });
+  return { sql: `(${alternatives.join(' OR ')})`, params };
+}
+
+/**
+ * Runs a file listing query with the requested sort and, when asked for, one page of results.
+ * 
+ * @param {Object} options
+ * @param {string} options.columns - SELECT column list
+ * @param {Array} [options.columnParams] - Parameters used inside the column list
+ * @param {string} options.from - FROM clause including joins
+ * @param {Array<string>} options.conditions - WHERE conditions (joined with AND)
+ * @param {Array} options.params - Parameters for the conditions
+ * @param {Object} options.page - Result of parseFilePage
+ * @returns {Promise<Object>} { rows } or, when paginated, { rows, nextCursor, hasMore, total }
+ */
+async function queryFilePage({ columns, columnParams = [], from, conditions, params, page }) {
+  const { sortKeys } = page;
+  // Sort expressions may carry their own parameters (e.g. a relevance score for the search term)
+  const sortParams = sortKeys.flatMap(([, , exprParams = []]) => exprParams);
+  const orderBy = sortKeys.map(([expr, dir]) => `${expr} ${dir}`).join(', ');
+  const sortColumns = sortKeys.map(([expr], index) => `${expr} AS _sortKey${index}`).join(', ');
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  if (!page.paginated) {
+    const rows = await db.all(
+      `SELECT ${columns} FROM ${from}${where} ORDER BY ${orderBy}`,
+      [...columnParams, ...params, ...sortParams]
+    );
+    return { rows };
+  }
+
+  const pageConditions = [...conditions];
+  const pageParams = [...params];
+  if (page.after) {
+    const keyset = keysetCondition(sortKeys, page.after);
+    pageConditions.push(keyset.sql);
+    pageParams.push(...keyset.params);
+  }
+  const pageWhere = pageConditions.length > 0 ? ` WHERE ${pageConditions.join(' AND ')}` : '';
+
+  // Fetch one extra row to learn whether another page exists without a second query
+  const rows = await db.all(
+    `SELECT ${columns}, ${sortColumns} FROM ${from}${pageWhere} ORDER BY ${orderBy} LIMIT ?`,
+    [...columnParams, ...sortParams, ...pageParams, ...sortParams, page.limit + 1]
+  );
+  const countRows = await db.all(`SELECT COUNT(*) AS total FROM ${from}${where}`, params);
+
+  const hasMore = rows.length > page.limit;
+  const pageRows = hasMore ? rows.slice(0, page.limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+  const nextCursor = hasMore
+    ? Buffer.from(JSON.stringify({
+      s: page.sort,
+      k: sortKeys.map(([expr], index) => cursorValue(expr, last[`_sortKey${index}`])),
+    })).toString('base64url')
+    : null;
+
+  return { rows: pageRows, nextCursor, hasMore, total: Number(countRows[0].total) };
+}
+
+// --- Full-text search ---
+// Characters of context shown before the first match in a search snippet, and the window length.
+const SNIPPET_LEAD = 80;
+const SNIPPET_LENGTH = 240;
+// A match in the file name outweighs any number of mentions in the body.
+const NAME_MATCH_BOOST = 10;
+
+/**
+ * Splits a search string into the words used to locate and highlight snippets.
+ * 
+ * @param {string} search - Normalized (trimmed, lower-cased) search string
+ * @returns {Array<string>} Unique words of two or more characters, longest first
+ */
+function searchTerms(search) {
+  const words = search.match(/[\p{L}\p{N}_]+/gu) || [];
+  return [...new Set(words.filter(word => word.length >= 2))]
+    .sort((a, b) => b.length - a.length)
+    .slice(0, 8);
+}
+
+/**
+ * Builds SQL columns selecting a window of extracted text around the first matching term.
+ * 
+ * @param {Array<string>} terms - Result of searchTerms
+ * @returns {Object} { sql, params } to append to the column list
+ */
+function snippetColumns(terms) {
+  if (terms.length === 0) {
+    return { sql: 'NULL AS snippet, 0 AS snippetPos', params: [] };
+  }
+  const position = `COALESCE(${terms.map(() => 'NULLIF(LOCATE(?, ft.content), 0)').join(', ')}, 0)`;
+  return {
+    sql: `
+      IF(${position} > 0, SUBSTRING(ft.content, GREATEST(${position} - ${SNIPPET_LEAD}, 1), ${SNIPPET_LENGTH}), NULL) AS snippet,
+      GREATEST(${position} - ${SNIPPET_LEAD}, 1) AS snippetPos
+    `,
+    params: [...terms, ...terms, ...terms],
+  };
+}
+
+/**
+ * Turns a raw text window into a snippet with highlight ranges for the search terms.
+ * 
+ * Highlights are returned as offsets rather than markup so clients never have to
+ * render user-supplied text as HTML.
+ * 
+ * @param {string|null} raw - Text window selected by snippetColumns
+ * @param {number} position - 1-based start of the window in the full text
+ * @param {Array<string>} terms - Result of searchTerms
+ * @returns {Object|null} { text, highlights: [[start, end], ...] }, or null without a match
+ */
+function buildSnippet(raw, position, terms) {
+  if (!raw) return null;
+
+  let text = raw.replace(/\s+/g, ' ').trim();
+  // Drop the partial words at either edge of the window
+  if (Number(position) > 1) {
+    text = '…' + text.replace(/^\S*\s/, '');
+  }
+  if (raw.length >= SNIPPET_LENGTH) {
+    text = text.replace(/\s\S*$/, '') + '…';
+  }
+
+  const lower = text.toLowerCase();
+  const ranges = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+  if (ranges.length === 0) return null;
+
+  // Merge overlapping ranges (e.g. "graph" inside "graphs")
+  ranges.sort((a, b) => a[0] - b[0]);
+  const highlights = [ranges[0]];
+  for (const [start, end] of ranges.slice(1)) {
+    const last = highlights[highlights.length - 1];
+    if (start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      highlights.push([start, end]);
+    }
+  }
+  return { text, highlights };
+}
+
+/**
+ * Shapes a file listing row for API responses.
+ * 
+ * Rows only reach here once the caller is known to be allowed to see them, so a file
+ * that isn't public gets a fresh grant for its preview, thumbnail and download URLs.
+ * 
+ * @param {Object} row - Row selected with the standard file listing columns
+ * @returns {Object} File object as returned by GET /api/files
+ */
+function formatFileRow(row) {
+  const visibility = row.visibility || 'public';
+  return {
+    id: row.id,
+    originalName: row.originalName,
+    size: row.size,
+    fileType: row.fileType,
+    uploadedAt: row.uploadedAt,
+    owner: publicProfile(row.ownerHandle, row.ownerName, row.ownerAvatarKey),
+    description: row.description || null,
+    visibility,
+    grant: visibility === 'public' ? null : fileGrant(row.id),
+    hidden: Boolean(Number(row.hidden)),
+    bookmarkCount: Number(row.bookmarkCount || 0),
+    score: Number(row.score || 0),
+    upvotes: Number(row.upvotes || 0),
+    downvotes: Number(row.downvotes || 0),
+    ...(row.myVote !== undefined && { myVote: Number(row.myVote || 0) }),
+    ...(row.isBookmarkedByMe !== undefined && { isBookmarkedByMe: Boolean(Number(row.isBookmarkedByMe)) }),
+    hasThumbnail: Boolean(Number(row.hasThumbnail)),
+    class: row.classId ? {
+      id: Number(row.classId),
+      subject: row.subject,
+      catalog: row.catalog,
+      title: row.classTitle,
+      csNumber: row.csNumber
+    } : null,
+    offering: formatOffering(row),
+  };
+}
+
+/**
+ * Sends a listing as a plain array, or as a page envelope when pagination was requested.
+ * 
+ * @param {Object} res - Express response
+ * @param {Object} result - Result of queryFilePage
+ * @param {Function} format - Row formatter
+ */
+function sendFilePage(res, result, format) {
+  const files = result.rows.map(format);
+  if (result.total === undefined) {
+    return res.json(files);
+  }
+  return res.json({
+    files,
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+    total: result.total,
+  });
+}
+
+/**
+ * List all uploaded files with optional search and class filtering.
+ * 
+ * Returns a list of all files in the system. Supports searching by filename, class and
+ * document contents, and filtering by class ID. This endpoint is publicly accessible (no authentication required).
+ * Only files the caller may see are listed: anonymous callers get public files, signed-in
+ * callers also get campus files, class files of classes they are enrolled in, and their own.
+ * 
+ * Searches also match text extracted from uploaded PDFs, DOCX, Markdown, plain text and
+ * source files (file_text FULLTEXT index). They are ranked by relevance unless another
+ * sort is requested, and each result carries a snippet of the matching text with
+ * highlight ranges (null when only the name or class matched).
+ * Files are returned with their metadata including class information if associated.
+ * 
+ * Passing limit or cursor switches the response to one page of results wrapped in
+ * { files, nextCursor, hasMore, total }; without them every matching file is returned
+ * as a plain array.
+ * 
+ * @route GET /api/files
+ * @access Public (JWT token optional, adds myVote, isBookmarkedByMe and files visible to signed-in users)
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.search] - Search term matched against filename, class and document text
+ * @param {string} [req.query.classId] - Filter files by class ID (must be valid integer)
+ * @param {string} [req.query.enrolled] - "true" to only list files from the caller's enrolled
+ *   classes (the "My classes" feed); requires a JWT token
+ * @param {string} [req.query.termId] - Only files tagged with an offering in this term; several
+ *   term IDs can be comma-separated
+ * @param {string} [req.query.sort] - newest (default), name, size, class, bookmarks (most bookmarked)
+ *   or top (top rated); relevance (default when searching) is only available with search
+ * @param {number} [req.query.limit] - Page size (default 24, max 100)
+ * @param {string} [req.query.cursor] - nextCursor from the previous page
+ * @returns {Array<Object>|Object} 200 - Array of file objects, or a page envelope when paginated
+ * @returns {number} 200[].id - File ID
+ * @returns {string} 200[].originalName - Original filename
+ * @returns {string} 200[].size - File size as string
+ * @returns {string} 200[].fileType - MIME type
+ * @returns {string} 200[].uploadedAt - ISO timestamp of upload (or of the last change)
+ * @returns {Object|null} 200[].owner - Uploader's public profile { handle, displayName, avatarUrl }
+ * @returns {string|null} 200[].description - Owner's description, if set
+ * @returns {string} 200[].visibility - public, campus, class or private
+ * @returns {string|null} 200[].grant - For files that aren't public, a token valid for one hour
+ *   to append as ?grant= to the file's download, preview and thumbnail URLs
+ * @returns {boolean} 200[].hidden - Hidden by a moderator; only ever true in the owner's
+ *   My Uploads and in the moderation queue, since hidden files are left out of listings
+ * @returns {number} 200[].bookmarkCount - Number of users who bookmarked the file
+ * @returns {number} 200[].score - Upvotes minus downvotes
+ * @returns {number} 200[].upvotes - Number of upvotes
+ * @returns {number} 200[].downvotes - Number of downvotes
+ * @returns {number} [200[].myVote] - Caller's vote (1, -1 or 0), only when a token is sent
+ * @returns {boolean} [200[].isBookmarkedByMe] - Whether the caller bookmarked the file, only when a token is sent
+ * @returns {Object|null} 200[].class - Class information if file is associated with a class
+ * @returns {Object|null} 200[].offering - Term and section the file was uploaded for:
+ *   { id, term: { id, season, year, name }, section, instructor }
+ * @returns {Object|null} 200[].snippet - Only when searching: { text, highlights: [[start, end], ...] }
+ * @returns {string|null} 200.nextCursor - Cursor for the next page (paginated only)
+ * @returns {boolean} 200.hasMore - Whether another page exists (paginated only)
+ * @returns {number} 200.total - Total files matching the filters (paginated only)
+ * @returns {Object} 400 - Invalid sort, limit, cursor or termId
+ * @returns {Object} 401 - enrolled=true without a token
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/files?search=assignment&classId=123&sort=name&limit=24
+ * 
+ * // Response (200)
+ * {
+ *   "files": [
+ *     {
+ *       "id": 456,
+ *       "originalName": "assignment1.pdf",
+ *       "size": "524288",
+ *       "fileType": "application/pdf",
+ *       "uploadedAt": "2024-01-15T10:30:00.000Z",
+ *       "owner": { "handle": "jdoe", "displayName": "Jane Doe", "avatarUrl": "/api/users/jdoe/avatar" },
+ *       "description": null,
+ *       "visibility": "public",
+ *       "grant": null,
+ *       "bookmarkCount": 3,
+ *       "score": 5,
+ *       "upvotes": 6,
+ *       "downvotes": 1,
+ *       "class": {
+ *         "id": 123,
+ *         "subject": "CS",
+ *         "catalog": "370",
+ *         "title": "Software Engineering",
+ *         "csNumber": "CS370"
+ *       },
+ *       "offering": {
+ *         "id": 88,
+ *         "term": { "id": 5, "season": "fall", "year": 2024, "name": "Fall 2024" },
+ *         "section": "01",
+ *         "instructor": "Dr. Rivera"
+ *       }
+ *     }
+ *   ],
+ *   "nextCursor": "eyJzIjoibmFtZSIsImsiOlsiYXNzaWdubWVudDEucGRmIiw0NTZdfQ",
+ *   "hasMore": true,
+ *   "total": 57
+ * }
+ * 
+ * @since 1.0.0
+ */
+app.get('/api/files', optionalAuth, async (req, res) => {
+  try {
+    const { search, classId, enrolled, termId } = req.query;
+    const enrolledOnly = enrolled === 'true';
+    if (enrolledOnly && !req.user) {
+      return res.status(401).json({ error: 'authentication required' });
+    }
+    const termIds = termId === undefined || termId === '' ? [] : parseIdList(termId);
+    if (!termIds) {
+      return res.status(400).json({ error: 'invalid termId' });
+    }
+    
+    // Join image_store with Note_Files and classes using fileID
+    const hasClassFilter = classId !== undefined && classId !== null && classId !== '';
+    let classIds = [];
+    
+    if (hasClassFilter) {
+      // Support both single classId and comma-separated multiple classIds
+      classIds = Array.isArray(classId) 
+        ? classId 
+        : typeof classId === 'string' 
+          ? classId.split(',').map(id => id.trim()).filter(id => id)
+          : [classId.toString()];
+    }
+    
+    // "no-class" is a sentinel ID coming from the UI – keep track so we can include uploads without associations.
+    const hasNoClassFilter = classIds.some(id => String(id).toLowerCase() === 'no-class');
+    const numericClassIds = classIds
+      .filter(id => String(id).toLowerCase() !== 'no-class')
+      .map(id => Number(id))
+      .filter(id => Number.isInteger(id) && id > 0);
+    
+    // INNER JOIN is only safe when every requested class ID exists; once "no-class" is requested
+    // we must keep the LEFT JOIN so uploads without class metadata stay visible.
+    const useInnerJoinForClass = hasClassFilter && numericClassIds.length > 0 && !hasNoClassFilter;
+    
+    const normalizedSearch = search && typeof search === 'string' ? search.trim().toLowerCase() : '';
+    const terms = normalizedSearch ? searchTerms(normalizedSearch) : [];
+
+    // Searches default to relevance: full-text score over extracted document text plus a file name bonus
+    const sorts = normalizedSearch
+      ? {
+        relevance: [
+          [
+            `(COALESCE(MATCH(ft.content) AGAINST (? IN NATURAL LANGUAGE MODE), 0) + (LOWER(i.image_name) LIKE ?) * ${NAME_MATCH_BOOST})`,
+            'DESC',
+            [normalizedSearch, `%${normalizedSearch}%`],
+          ],
+          ['i.id', 'DESC'],
+        ],
+        ...FILE_SORTS,
+      }
+      : FILE_SORTS;
+    const page = parseFilePage(req.query, sorts, normalizedSearch ? 'relevance' : 'newest');
+    if (page.error) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const snippet = snippetColumns(terms);
+    let columns = normalizedSearch ? `${FILE_LIST_COLUMNS}, ${snippet.sql}` : FILE_LIST_COLUMNS;
+    const columnParams = normalizedSearch ? [...snippet.params] : [];
+    if (req.user) {
+      columns += `, ${MY_VOTE_COLUMN}, ${MY_BOOKMARK_COLUMN}`;
+      columnParams.push(req.user.id, req.user.id);
+    }
+    const from = `
+      image_store i
+      INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+      ${useInnerJoinForClass ? 'INNER' : 'LEFT'} JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
+      ${BOOKMARK_COUNT_JOIN}
+      ${VOTE_COUNT_JOIN}
+      ${OWNER_PROFILE_JOIN}
+      ${OFFERING_JOIN}
+      ${normalizedSearch ? 'LEFT JOIN file_text ft ON ft.fileId = CAST(i.id AS CHAR)' : ''}
+    `;
+    
+    // Only files the caller is allowed to see
+    const visible = visibilityCondition(req.user);
+    const conditions = [visible.sql];
+    const params = [...visible.params];
+
+    if (normalizedSearch) {
+      const searchLike = `%${normalizedSearch}%`;
+      // Support both "AMCS 301" and "amcs301" style inputs.
+      const compactSearch = normalizedSearch.replace(/\s+/g, '');
+      const compactLike = `%${compactSearch}%`;
+      const searchClauses = [
+        'LOWER(i.image_name) LIKE ?',
+        'LOWER(COALESCE(nf.fileType, "")) LIKE ?',
+        'LOWER(COALESCE(c.Subject1, "")) LIKE ?',
+        'LOWER(COALESCE(c.Catalog1, "")) LIKE ?',
+        'LOWER(COALESCE(c.Long_Title, "")) LIKE ?',
+        'LOWER(CONCAT_WS(" ", COALESCE(c.Subject1, ""), COALESCE(c.Catalog1, ""))) LIKE ?'
+      ];
+
+      searchClauses.forEach(() => params.push(searchLike));
+
+      if (compactSearch) {
+        searchClauses.push(`LOWER(REPLACE(CONCAT(COALESCE(c.Subject1, ''), COALESCE(c.Catalog1, '')), ' ', '')) LIKE ?`);
+        params.push(compactLike);
+      }
+
+      // Document contents, via the FULLTEXT index on file_text
+      searchClauses.push('MATCH(ft.content) AGAINST (? IN NATURAL LANGUAGE MODE)');
+      params.push(normalizedSearch);
+
+      conditions.push(`(${searchClauses.join(' OR ')})`);
+    }
+
+    if (hasClassFilter && (hasNoClassFilter || numericClassIds.length > 0)) {
+      const classConditions = [];
+      
+      // Add filter for files with no class association
+      if (hasNoClassFilter) {
+        classConditions.push('(c.id IS NULL OR nf.classId IS NULL OR nf.classId = "")');
+      }
+      
+      // Add filter for files with specific class IDs
+      if (numericClassIds.length > 0) {
+        if (numericClassIds.length === 1) {
+          classConditions.push('c.id = ?');
+          params.push(numericClassIds[0]);
+        } else {
+          const placeholders = numericClassIds.map(() => '?').join(',');
+          classConditions.push(`c.id IN (${placeholders})`);
           params.push(...numericClassIds);
         }
       }
-      
-      if (classConditions.length > 0) {
-        conditions.push(`(${classConditions.join(' OR ')})`);
+      
+      if (classConditions.length > 0) {
+        conditions.push(`(${classConditions.join(' OR ')})`);
+      }
+    }
+
+    if (enrolledOnly) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM class_enrollments ce
+        WHERE ce.userId = ?
+          AND CAST(ce.classId AS CHAR) COLLATE utf8mb4_unicode_ci = nf.classId COLLATE utf8mb4_unicode_ci
+      )`);
+      params.push(req.user.id);
+    }
+
+    if (termIds.length > 0) {
+      conditions.push(`t.id IN (${termIds.map(() => '?').join(',')})`);
+      params.push(...termIds);
+    }
+
+    const result = await queryFilePage({ columns, columnParams, from, conditions, params, page });
+    if (!normalizedSearch) {
+      return sendFilePage(res, result, formatFileRow);
+    }
+    return sendFilePage(res, result, row => ({
+      ...formatFileRow(row),
+      snippet: buildSnippet(row.snippet, row.snippetPos, terms),
+    }));
+  } catch (err) {
+    console.error('GET /api/files failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+const CLASS_COLUMNS = `
+  id,
+  Subject1 AS subject,
+  Catalog1 AS catalog,
+  Long_Title AS title,
+  CS_Number AS csNumber,
+  Min_Units AS minUnits,
+  Max_Units AS maxUnits,
+  Comp_Units AS compUnits
+`;
+
+/**
+ * Get list of available classes with optional search and subject filtering.
+ * 
+ * Returns all classes from the classes table. Supports searching by class name,
+ * CS number, or subject+catalog combination. Also supports filtering by subject code.
+ * This endpoint is publicly accessible.
+ * 
+ * @route GET /api/classes
+ * @access Public
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.search] - Search term to filter classes by name, CS number, or subject+catalog
+ * @param {string} [req.query.subject] - Filter classes by subject code (e.g., "CS", "MATH")
+ * @returns {Array<Object>} 200 - Array of class objects
+ * @returns {number} 200[].id - Class ID
+ * @returns {string} 200[].subject - Subject code (e.g., "CS")
+ * @returns {string} 200[].catalog - Catalog number (e.g., "370")
+ * @returns {string} 200[].title - Full class title
+ * @returns {string} 200[].csNumber - CS course number
+ * @returns {number} 200[].minUnits - Minimum units
+ * @returns {number} 200[].maxUnits - Maximum units
+ * @returns {number} 200[].compUnits - Completion units
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/classes?search=CS370&subject=CS
+ * 
+ * // Response (200)
+ * [
+ *   {
+ *     "id": 123,
+ *     "subject": "CS",
+ *     "catalog": "370",
+ *     "title": "Software Engineering",
+ *     "csNumber": "CS370",
+ *     "minUnits": 3.0,
+ *     "maxUnits": 3.0,
+ *     "compUnits": 3.0
+ *   }
+ * ]
+ * 
+ * @since 1.0.0
+ */
+app.get('/api/classes', async (req, res) => {
+  try {
+    const { search, subject } = req.query;
+    
+    let sql = `SELECT ${CLASS_COLUMNS} FROM classes`;
+    
+    const params = [];
+    const conditions = [];
+
+    if (search && typeof search === 'string') {
+      conditions.push('(Long_Title LIKE ? OR CS_Number LIKE ? OR CONCAT(Subject1, Catalog1) LIKE ?)');
+      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+
+    if (subject && typeof subject === 'string') {
+      conditions.push('Subject1 = ?');
+      params.push(subject.toUpperCase());
+    }
+
+    if (conditions.length > 0) {
+      sql += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    sql += ' ORDER BY Subject1, Catalog1';
+
+    const rows = await db.all(sql, params);
+
+    return res.json(rows);
+  } catch (err) {
+    console.error('GET /api/classes failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * List academic terms, newest first.
+ * 
+ * @route GET /api/terms
+ * @access Public
+ * @returns {Array<Object>} 200 - Terms
+ * @returns {number} 200[].id - Term ID
+ * @returns {string} 200[].season - winter, spring, summer or fall
+ * @returns {number} 200[].year - Year
+ * @returns {string} 200[].name - Display name (e.g., "Fall 2024")
+ * @returns {string|null} 200[].startsOn - First day (YYYY-MM-DD), if known
+ * @returns {string|null} 200[].endsOn - Last day (YYYY-MM-DD), if known
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Response (200)
+ * [
+ *   { "id": 4, "season": "fall", "year": 2024, "name": "Fall 2024", "startsOn": "2024-08-21", "endsOn": "2024-12-13" }
+ * ]
+ */
+app.get('/api/terms', async (_req, res) => {
+  try {
+    const rows = await db.all(`SELECT ${TERM_COLUMNS} FROM terms t ORDER BY ${TERM_ORDER}`);
+    return res.json(rows.map(formatTerm));
+  } catch (err) {
+    console.error('GET /api/terms failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * List the offerings (term and section) of a class, newest term first.
+ * 
+ * @route GET /api/classes/:id/offerings
+ * @access Public
+ * @param {string} req.params.id - Class ID
+ * @param {string} [req.query.termId] - Only offerings in this term
+ * @returns {Array<Object>} 200 - Offerings, each { id, term, section, instructor }
+ * @returns {Object} 400 - Invalid class ID or termId
+ * @returns {Object} 404 - Class not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Response (200)
+ * [
+ *   {
+ *     "id": 31,
+ *     "term": { "id": 4, "season": "fall", "year": 2024, "name": "Fall 2024" },
+ *     "section": "001",
+ *     "instructor": "Dr. Smith"
+ *   }
+ * ]
+ */
+app.get('/api/classes/:id/offerings', async (req, res) => {
+  try {
+    const classId = Number(req.params.id);
+    if (!Number.isInteger(classId) || classId <= 0) {
+      return res.status(400).json({ error: 'invalid class id' });
+    }
+    const termId = req.query.termId === undefined ? null : Number(req.query.termId);
+    if (termId !== null && (!Number.isInteger(termId) || termId <= 0)) {
+      return res.status(400).json({ error: 'invalid termId' });
+    }
+
+    const classRows = await db.all('SELECT id FROM classes WHERE id = ?', [classId]);
+    if (classRows.length === 0) {
+      return res.status(404).json({ error: 'class not found' });
+    }
+
+    const params = [classId];
+    let sql = `
+      SELECT ${OFFERING_COLUMNS}
+      FROM class_offerings co
+      INNER JOIN terms t ON t.id = co.termId
+      WHERE co.classId = ?
+    `;
+    if (termId !== null) {
+      sql += ' AND co.termId = ?';
+      params.push(termId);
+    }
+    sql += ` ORDER BY ${TERM_ORDER}, co.section`;
+
+    const rows = await db.all(sql, params);
+    return res.json(rows.map(formatOffering));
+  } catch (err) {
+    console.error('GET /api/classes/:id/offerings failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Add an academic term.
+ * 
+ * @route POST /api/admin/terms
+ * @access Admin (requires JWT token, admin role)
+ * @param {string} req.body.season - winter, spring, summer or fall
+ * @param {number} req.body.year - Year (2000-2100)
+ * @param {string} [req.body.startsOn] - First day (YYYY-MM-DD)
+ * @param {string} [req.body.endsOn] - Last day (YYYY-MM-DD)
+ * @returns {Object} 201 - The new term (same shape as GET /api/terms items)
+ * @returns {Object} 400 - Invalid season, year or dates
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
+ * @returns {Object} 409 - A term with that season and year already exists
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/admin/terms
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "season": "spring", "year": 2025, "startsOn": "2025-01-21", "endsOn": "2025-05-16" }
+ */
+app.post('/api/admin/terms', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { term, error } = parseTerm(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const existing = await db.all('SELECT id FROM terms WHERE season = ? AND year = ?', [term.season, term.year]);
+    if (existing.length > 0) {
+      return res.status(409).json({ error: 'term already exists' });
+    }
+
+    const result = await db.run(
+      'INSERT INTO terms (season, year, startsOn, endsOn, createdAt) VALUES (?, ?, ?, ?, ?)',
+      [term.season, term.year, term.startsOn, term.endsOn, new Date()]
+    );
+    const created = await findTerm(result.insertId || result.lastInsertRowid);
+    return res.status(201).json(formatTerm(created));
+  } catch (err) {
+    console.error('POST /api/admin/terms failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Add a class offering: a catalogue class taught in a term, optionally one section of it.
+ * 
+ * @route POST /api/admin/offerings
+ * @access Admin (requires JWT token, admin role)
+ * @param {number} req.body.classId - Catalogue class
+ * @param {number} req.body.termId - Term
+ * @param {string} [req.body.section] - Section (max 16 characters, e.g., "001")
+ * @param {string} [req.body.instructor] - Instructor name (max 100 characters)
+ * @returns {Object} 201 - The new offering (same shape as GET /api/classes/:id/offerings items)
+ * @returns {Object} 400 - Invalid classId, termId, section or instructor
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
+ * @returns {Object} 404 - Class or term not found
+ * @returns {Object} 409 - The class already has that section in that term
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/admin/offerings
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "classId": 123, "termId": 4, "section": "001", "instructor": "Dr. Smith" }
+ */
+app.post('/api/admin/offerings', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { section, instructor } = req.body || {};
+    const classId = Number(req.body?.classId);
+    if (!Number.isInteger(classId) || classId <= 0) {
+      return res.status(400).json({ error: 'invalid classId' });
+    }
+    const termId = Number(req.body?.termId);
+    if (!Number.isInteger(termId) || termId <= 0) {
+      return res.status(400).json({ error: 'invalid termId' });
+    }
+    if (section !== undefined && section !== null && typeof section !== 'string') {
+      return res.status(400).json({ error: 'section must be a string' });
+    }
+    const cleanSection = section ? section.trim() : '';
+    if (cleanSection.length > MAX_SECTION_LENGTH) {
+      return res.status(400).json({ error: `section must be at most ${MAX_SECTION_LENGTH} characters` });
+    }
+    if (instructor !== undefined && instructor !== null && typeof instructor !== 'string') {
+      return res.status(400).json({ error: 'instructor must be a string' });
+    }
+    const cleanInstructor = instructor ? instructor.trim() : '';
+    if (cleanInstructor.length > MAX_INSTRUCTOR_LENGTH) {
+      return res.status(400).json({ error: `instructor must be at most ${MAX_INSTRUCTOR_LENGTH} characters` });
+    }
+
+    const classRows = await db.all('SELECT id FROM classes WHERE id = ?', [classId]);
+    if (classRows.length === 0) {
+      return res.status(404).json({ error: 'class not found' });
+    }
+    if (!(await findTerm(termId))) {
+      return res.status(404).json({ error: 'term not found' });
+    }
+
+    const existing = await db.all(
+      'SELECT id FROM class_offerings WHERE classId = ? AND termId = ? AND section = ?',
+      [classId, termId, cleanSection]
+    );
+    if (existing.length > 0) {
+      return res.status(409).json({ error: 'offering already exists' });
+    }
+
+    const result = await db.run(
+      'INSERT INTO class_offerings (classId, termId, section, instructor, createdAt) VALUES (?, ?, ?, ?, ?)',
+      [classId, termId, cleanSection, cleanInstructor || null, new Date()]
+    );
+    const rows = await db.all(
+      `SELECT ${OFFERING_COLUMNS} FROM class_offerings co INNER JOIN terms t ON t.id = co.termId WHERE co.id = ?`,
+      [result.insertId || result.lastInsertRowid]
+    );
+    return res.status(201).json(formatOffering(rows[0]));
+  } catch (err) {
+    console.error('POST /api/admin/offerings failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Roll the catalogue forward: copy every offering of an earlier term into this one.
+ * 
+ * Sections come along; instructors only when asked, since they often change between
+ * terms. Offerings the target term already has are skipped, so running it twice is safe.
+ * 
+ * @route POST /api/admin/terms/:id/roll-forward
+ * @access Admin (requires JWT token, admin role)
+ * @param {string} req.params.id - Term to fill
+ * @param {number} req.body.fromTermId - Term to copy the offerings from
+ * @param {boolean} [req.body.includeInstructors=false] - Copy the instructors too
+ * @returns {Object} 200 - { term, copied, skipped }
+ * @returns {Object} 200.term - The filled term (same shape as GET /api/terms items)
+ * @returns {number} 200.copied - Offerings added to the term
+ * @returns {number} 200.skipped - Offerings the term already had
+ * @returns {Object} 400 - Invalid term ID or fromTermId, or both are the same term
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
+ * @returns {Object} 404 - Either term not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/admin/terms/5/roll-forward
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "fromTermId": 4 }
+ * 
+ * // Response (200)
+ * {
+ *   "term": { "id": 5, "season": "spring", "year": 2025, "name": "Spring 2025", "startsOn": null, "endsOn": null },
+ *   "copied": 42,
+ *   "skipped": 0
+ * }
+ */
+app.post('/api/admin/terms/:id/roll-forward', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const termId = Number(req.params.id);
+    if (!Number.isInteger(termId) || termId <= 0) {
+      return res.status(400).json({ error: 'invalid term id' });
+    }
+    const fromTermId = Number(req.body?.fromTermId);
+    if (!Number.isInteger(fromTermId) || fromTermId <= 0) {
+      return res.status(400).json({ error: 'invalid fromTermId' });
+    }
+    if (fromTermId === termId) {
+      return res.status(400).json({ error: 'fromTermId must be a different term' });
+    }
+
+    const term = await findTerm(termId);
+    if (!term || !(await findTerm(fromTermId))) {
+      return res.status(404).json({ error: 'term not found' });
+    }
+
+    const source = await db.all('SELECT COUNT(*) AS total FROM class_offerings WHERE termId = ?', [fromTermId]);
+    // IGNORE skips offerings the term already has (unique class, term and section)
+    const result = await db.run(
+      `INSERT IGNORE INTO class_offerings (classId, termId, section, instructor, createdAt)
+       SELECT classId, ?, section, ${req.body?.includeInstructors === true ? 'instructor' : 'NULL'}, ?
+       FROM class_offerings
+       WHERE termId = ?`,
+      [termId, new Date(), fromTermId]
+    );
+    const copied = result.changes || 0;
+    return res.json({
+      term: formatTerm(term),
+      copied,
+      skipped: Number(source[0]?.total || 0) - copied,
+    });
+  } catch (err) {
+    console.error('POST /api/admin/terms/:id/roll-forward failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// Bookmarks additionally sort by when the bookmark was made (b.id follows createdAt).
+const BOOKMARK_SORTS = { bookmarked: [['b.id', 'DESC']], ...FILE_SORTS };
+
+/**
+ * Get the authenticated user's bookmarked files.
+ * 
+ * Returns bookmarked files, most recently bookmarked first, with the same metadata as
+ * GET /api/files plus bookmarkedAt. Accepts the same sort/limit/cursor parameters, with
+ * the extra default sort "bookmarked". Bookmarked files the user can no longer see (the
+ * owner restricted them or a moderator hid them) are left out until access returns.
+ * 
+ * @route GET /api/files/bookmarks
+ * @access Private (requires JWT token)
+ * @param {string} [req.query.sort] - bookmarked (default), newest, name, size, class or bookmarks
+ * @param {number} [req.query.limit] - Page size (default 24, max 100)
+ * @param {string} [req.query.cursor] - nextCursor from the previous page
+ * @returns {Array<Object>|Object} 200 - Array of file objects, or a page envelope when paginated
+ * @returns {string} 200[].bookmarkedAt - When the user bookmarked the file
+ * @returns {boolean} 200[].isBookmarkedByMe - Always true, so tiles can skip a per-file lookup
+ * @returns {Object} 400 - Invalid sort, limit or cursor
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ */
+app.get('/api/files/bookmarks', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.id;
+
+    const page = parseFilePage(req.query, BOOKMARK_SORTS, 'bookmarked');
+    if (page.error) {
+      return res.status(400).json({ error: page.error });
+    }
+    const visible = visibilityCondition(req.user);
+
+    const result = await queryFilePage({
+      columns: `${FILE_LIST_COLUMNS}, ${MY_VOTE_COLUMN}, b.createdAt AS bookmarkedAt`,
+      columnParams: [userId],
+      from: `
+        bookmarks b
+        INNER JOIN image_store i ON CAST(i.id AS CHAR) = b.fileId
+        LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+        LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
+        ${BOOKMARK_COUNT_JOIN}
+        ${VOTE_COUNT_JOIN}
+        ${OWNER_PROFILE_JOIN}
+        ${OFFERING_JOIN}
+      `,
+      // A bookmark stays, but is hidden while the file is out of the user's reach
+      conditions: ['b.userId = ?', visible.sql],
+      params: [userId, ...visible.params],
+      page,
+    });
+
+    return sendFilePage(res, result, row => ({
+      ...formatFileRow(row),
+      bookmarkedAt: row.bookmarkedAt,
+      isBookmarkedByMe: true,
+    }));
+  } catch (err) {
+    console.error('GET /api/files/bookmarks failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Get all files uploaded by the authenticated user.
+ * 
+ * Returns a list of all files uploaded by the current user. Requires JWT authentication.
+ * Files are returned with their metadata including class information if associated.
+ * Accepts the same sort/limit/cursor parameters as GET /api/files.
+ * 
+ * @route GET /api/files/my-uploads
+ * @access Private (requires JWT token)
+ * @param {string} [req.query.sort] - newest (default), name, size, class or bookmarks
+ * @param {number} [req.query.limit] - Page size (default 24, max 100)
+ * @param {string} [req.query.cursor] - nextCursor from the previous page
+ * @returns {Array<Object>|Object} 200 - Array of file objects, or a page envelope when paginated
+ * @returns {number} 200[].id - File ID
+ * @returns {string} 200[].originalName - Original filename
+ * @returns {string} 200[].size - File size as string
+ * @returns {string} 200[].fileType - MIME type
+ * @returns {string} 200[].uploadedAt - ISO timestamp of upload
+ * @returns {Object|null} 200[].class - Class information if file is associated with a class
+ * @returns {Object} 400 - Invalid sort, limit or cursor
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ */
+app.get('/api/files/my-uploads', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.id;
+
+    const page = parseFilePage(req.query, FILE_SORTS, 'newest');
+    if (page.error) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const result = await queryFilePage({
+      columns: `${FILE_LIST_COLUMNS}, ${MY_BOOKMARK_COLUMN}`,
+      columnParams: [userId],
+      from: `
+        image_store i
+        INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+        LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
+        ${BOOKMARK_COUNT_JOIN}
+        ${VOTE_COUNT_JOIN}
+        ${OWNER_PROFILE_JOIN}
+        ${OFFERING_JOIN}
+      `,
+      conditions: ['nf.ownerID = ?'],
+      params: [userId],
+      page,
+    });
+
+    return sendFilePage(res, result, formatFileRow);
+  } catch (err) {
+    console.error('GET /api/files/my-uploads failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- User profiles ---
+// Handles are the public name in profile URLs (/api/users/:handle).
+const HANDLE_PATTERN = /^[a-z0-9][a-z0-9_-]{2,31}$/;
+// Default handles ("user-" + 8 hex digits) belong to the account they were derived from.
+const DEFAULT_HANDLE_PATTERN = /^user-[0-9a-f]{8}$/;
+// Handles that would shadow other routes under /api/users
+const RESERVED_HANDLES = new Set(['me']);
+const MAX_DISPLAY_NAME_LENGTH = 60;
+const MAX_MAJOR_LENGTH = 100;
+const MAX_BIO_LENGTH = 1000;
+const MAX_AVATAR_SIZE = 5 * 1024 * 1024;
+
+const PROFILE_COLUMNS = 'userId, handle, displayName, avatarKey, major, bio, createdAt, updatedAt';
+
+// Handle and display name a new profile starts with. They come from a hash of the email
+// (the same one the schema backfill uses), so the address is not revealed.
+function defaultHandle(userId) {
+  return `user-${crypto.createHash('sha256').update(userId.toLowerCase()).digest('hex').slice(0, 8)}`;
+}
+
+/**
+ * Shapes the public part of a profile, as shown next to files, versions and comments.
+ * 
+ * @param {string|null} handle - Profile handle (null when the user has no profile)
+ * @param {string|null} displayName - Display name
+ * @param {string|null} avatarKey - Storage key of the avatar, if one was uploaded
+ * @returns {Object|null} { handle, displayName, avatarUrl }, or null without a profile
+ */
+function publicProfile(handle, displayName, avatarKey) {
+  if (!handle) return null;
+  return {
+    handle,
+    displayName,
+    avatarUrl: avatarKey ? `/api/users/${handle}/avatar` : null,
+  };
+}
+
+function formatProfile(row) {
+  return {
+    ...publicProfile(row.handle, row.displayName, row.avatarKey),
+    major: row.major || null,
+    bio: row.bio || null,
+    joinedAt: new Date(row.createdAt).toISOString(),
+  };
+}
+
+async function findProfileByHandle(handle) {
+  const rows = await db.all(
+    `SELECT ${PROFILE_COLUMNS} FROM user_profiles WHERE handle = ?`,
+    [handle.toLowerCase()]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Loads a user's profile, first creating the default one for accounts that have none.
+ * 
+ * @param {string} userId - User ID (email)
+ * @returns {Promise<Object>} user_profiles row
+ */
+async function ensureProfile(userId) {
+  const select = () => db.all(`SELECT ${PROFILE_COLUMNS} FROM user_profiles WHERE userId = ?`, [userId]);
+  let rows = await select();
+  if (rows.length === 0) {
+    const handle = defaultHandle(userId);
+    await db.run(
+      'INSERT IGNORE INTO user_profiles (userId, handle, displayName) VALUES (?, ?, ?)',
+      [userId, handle, handle]
+    );
+    rows = await select();
+  }
+  return rows[0];
+}
+
+/**
+ * Checks the fields of a profile update.
+ * 
+ * @param {Object} body - Request body
+ * @param {string} userId - User making the change
+ * @returns {Object} { error } for invalid input, otherwise { changes } with the columns to set
+ */
+function parseProfileUpdate(body, userId) {
+  const { handle, displayName, major, bio } = body || {};
+  const changes = {};
+
+  if (handle !== undefined) {
+    const normalized = typeof handle === 'string' ? handle.trim().toLowerCase() : '';
+    if (!HANDLE_PATTERN.test(normalized)) {
+      return { error: 'handle must be 3-32 characters: lowercase letters, digits, "-" or "_", starting with a letter or digit' };
+    }
+    if (RESERVED_HANDLES.has(normalized)
+      || (DEFAULT_HANDLE_PATTERN.test(normalized) && normalized !== defaultHandle(userId))) {
+      return { error: 'handle is reserved' };
+    }
+    changes.handle = normalized;
+  }
+
+  if (displayName !== undefined) {
+    const trimmed = typeof displayName === 'string' ? displayName.trim() : '';
+    if (!trimmed || trimmed.length > MAX_DISPLAY_NAME_LENGTH) {
+      return { error: `display name must be 1-${MAX_DISPLAY_NAME_LENGTH} characters` };
+    }
+    changes.displayName = trimmed;
+  }
+
+  // major and bio are optional: null or an empty string clears them
+  for (const [field, value, max] of [['major', major, MAX_MAJOR_LENGTH], ['bio', bio, MAX_BIO_LENGTH]]) {
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') {
+      return { error: `${field} must be a string` };
+    }
+    const trimmed = value === null ? '' : value.trim();
+    if (trimmed.length > max) {
+      return { error: `${field} must be at most ${max} characters` };
+    }
+    changes[field] = trimmed || null;
+  }
+
+  return { changes };
+}
+
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_AVATAR_SIZE },
+});
+
+// Runs multer for a single "avatar" field (kept in memory; avatars are small).
+function acceptAvatar(req, res, next) {
+  avatarUpload.single('avatar')(req, res, err => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ error: `avatar is too large (max ${uploadPolicy.formatLimit(MAX_AVATAR_SIZE)})` });
+    }
+    if (err instanceof multer.MulterError) {
+      return res.status(400).json({ error: err.message.toLowerCase() });
+    }
+    console.error('PUT /api/users/me/avatar failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  });
+}
+
+/**
+ * Get your own profile.
+ * 
+ * Accounts created before profiles existed get the default profile on first access.
+ * Only this endpoint includes the email address; everywhere else users are identified
+ * by handle and display name.
+ * 
+ * @route GET /api/users/me
+ * @access Private (requires JWT token)
+ * @returns {Object} 200 - Profile
+ * @returns {string} 200.handle - Public handle, used in profile URLs
+ * @returns {string} 200.displayName - Name shown next to uploads and comments
+ * @returns {string|null} 200.avatarUrl - Avatar image URL, if one was uploaded
+ * @returns {string|null} 200.major - Major
+ * @returns {string|null} 200.bio - Short bio
+ * @returns {string} 200.joinedAt - ISO timestamp the profile was created
+ * @returns {string} 200.email - Account email (private)
+ * @returns {boolean} 200.emailVerified - Whether the email has been verified (private)
+ * @returns {boolean} 200.twoFactorEnabled - Whether sign-in needs a code from an authenticator app (private)
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Response (200)
+ * {
+ *   "handle": "jdoe",
+ *   "displayName": "Jane Doe",
+ *   "avatarUrl": "/api/users/jdoe/avatar",
+ *   "major": "Computer Science",
+ *   "bio": "Junior, mostly systems courses.",
+ *   "joinedAt": "2024-01-10T08:00:00.000Z",
+ *   "email": "student@university.edu",
+ *   "emailVerified": true,
+ *   "twoFactorEnabled": false
+ * }
+ */
+app.get('/api/users/me', authenticateToken, async (req, res) => {
+  try {
+    const profile = await ensureProfile(req.user.id);
+    return res.json({
+      ...formatProfile(profile),
+      email: req.user.id,
+      emailVerified: req.user.emailVerified,
+      twoFactorEnabled: req.user.twoFactorEnabled
+    });
+  } catch (err) {
+    console.error('GET /api/users/me failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Update your own profile.
+ * 
+ * Send only the fields to change. Changing the handle changes the profile URL; the old
+ * handle becomes free for others to take.
+ * 
+ * @route PUT /api/users/me
+ * @access Private (requires JWT token)
+ * @param {string} [req.body.handle] - 3-32 characters: lowercase letters, digits, "-" or "_"
+ * @param {string} [req.body.displayName] - 1-60 characters
+ * @param {string|null} [req.body.major] - Up to 100 characters; null or "" clears it
+ * @param {string|null} [req.body.bio] - Up to 1000 characters; null or "" clears it
+ * @returns {Object} 200 - The updated profile (same shape as GET /api/users/me)
+ * @returns {Object} 400 - Invalid or reserved handle, invalid field, or nothing to update
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 409 - Handle is already taken
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * PUT /api/users/me
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "handle": "jdoe", "displayName": "Jane Doe", "major": "Computer Science" }
+ */
+app.put('/api/users/me', authenticateToken, async (req, res) => {
+  try {
+    const { error, changes } = parseProfileUpdate(req.body, req.user.id);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const fields = Object.keys(changes);
+    if (fields.length === 0) {
+      return res.status(400).json({ error: 'nothing to update' });
+    }
+
+    const profile = await ensureProfile(req.user.id);
+    if (changes.handle && changes.handle !== profile.handle) {
+      const owner = await findProfileByHandle(changes.handle);
+      if (owner) {
+        return res.status(409).json({ error: 'handle is already taken' });
+      }
+    }
+
+    try {
+      await db.run(
+        `UPDATE user_profiles SET ${fields.map(field => `${field} = ?`).join(', ')}, updatedAt = ? WHERE userId = ?`,
+        [...fields.map(field => changes[field]), new Date(), req.user.id]
+      );
+    } catch (err) {
+      // Someone else took the handle between the check and the update
+      if (err.code === 'ER_DUP_ENTRY' || err.errno === 1062) {
+        return res.status(409).json({ error: 'handle is already taken' });
+      }
+      throw err;
+    }
+
+    const updated = await ensureProfile(req.user.id);
+    return res.json({ ...formatProfile(updated), email: req.user.id });
+  } catch (err) {
+    console.error('PUT /api/users/me failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Upload or replace your avatar.
+ * 
+ * Any common image format is accepted; it is cropped to a 256x256 square and stored
+ * as WebP. The previous avatar, if any, is removed.
+ * 
+ * @route PUT /api/users/me/avatar
+ * @access Private (requires JWT token)
+ * @param {File} req.file - Image in the multipart field "avatar" (max 5 MB)
+ * @returns {Object} 200 - The updated profile (same shape as GET /api/users/me)
+ * @returns {Object} 400 - No image provided
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 413 - Image too large
+ * @returns {Object} 415 - Not a readable image
+ * @returns {Object} 500 - Internal server error
+ */
+app.put('/api/users/me/avatar', authenticateToken, acceptAvatar, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'no image provided' });
+    }
+    const detectedType = await uploadPolicy.detectMimeType(
+      req.file.buffer.subarray(0, uploadPolicy.SNIFF_BYTES),
+      req.file.originalname
+    );
+    let avatar = null;
+    if (detectedType.startsWith('image/')) {
+      avatar = await renderAvatar(req.file.buffer).catch(() => null);
+    }
+    if (!avatar) {
+      return res.status(415).json({ error: 'avatar must be an image' });
+    }
+
+    const profile = await ensureProfile(req.user.id);
+    const avatarKey = `avatars/${storage.generateKey()}.webp`;
+    await storage.put(avatarKey, Readable.from([avatar]), { contentType: THUMBNAIL_TYPE });
+    await db.run(
+      'UPDATE user_profiles SET avatarKey = ?, updatedAt = ? WHERE userId = ?',
+      [avatarKey, new Date(), req.user.id]
+    );
+    if (profile.avatarKey) {
+      await removeStoredObject(profile.avatarKey);
+    }
+
+    return res.json({ ...formatProfile({ ...profile, avatarKey }), email: req.user.id });
+  } catch (err) {
+    console.error('PUT /api/users/me/avatar failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Remove your avatar.
+ * 
+ * @route DELETE /api/users/me/avatar
+ * @access Private (requires JWT token)
+ * @returns {Object} 200 - The updated profile (avatarUrl is null)
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/users/me/avatar', authenticateToken, async (req, res) => {
+  try {
+    const profile = await ensureProfile(req.user.id);
+    if (profile.avatarKey) {
+      await db.run(
+        'UPDATE user_profiles SET avatarKey = NULL, updatedAt = ? WHERE userId = ?',
+        [new Date(), req.user.id]
+      );
+      await removeStoredObject(profile.avatarKey);
+    }
+    return res.json({ ...formatProfile({ ...profile, avatarKey: null }), email: req.user.id });
+  } catch (err) {
+    console.error('DELETE /api/users/me/avatar failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- Class enrollment ---
+// The classes a user is taking. They pick what the home page's "My classes" feed shows
+// (GET /api/files?enrolled=true) and who can open class-only files.
+
+const ENROLLMENT_COLUMNS = `
+  c.id,
+  c.Subject1 AS subject,
+  c.Catalog1 AS catalog,
+  c.Long_Title AS title,
+  c.CS_Number AS csNumber,
+  ce.createdAt AS enrolledAt
+`;
+
+function formatEnrollment(row) {
+  return {
+    id: row.id,
+    subject: row.subject,
+    catalog: row.catalog,
+    title: row.title,
+    csNumber: row.csNumber,
+    enrolledAt: new Date(row.enrolledAt).toISOString(),
+  };
+}
+
+/**
+ * Loads a user's enrollments, ordered like GET /api/classes.
+ * 
+ * @param {string} userId - User ID (email)
+ * @param {number} [classId] - Only this class
+ * @returns {Promise<Array<Object>>} Rows with the ENROLLMENT_COLUMNS
+ */
+async function findEnrollments(userId, classId) {
+  const params = [userId];
+  let sql = `
+    SELECT ${ENROLLMENT_COLUMNS}
+    FROM class_enrollments ce
+    INNER JOIN classes c ON c.id = ce.classId
+    WHERE ce.userId = ?
+  `;
+  if (classId !== undefined) {
+    sql += ' AND ce.classId = ?';
+    params.push(classId);
+  }
+  sql += ' ORDER BY c.Subject1, c.Catalog1';
+  return db.all(sql, params);
+}
+
+/**
+ * List the classes you are enrolled in.
+ * 
+ * @route GET /api/users/me/classes
+ * @access Private (requires JWT token)
+ * @returns {Array<Object>} 200 - Enrolled classes, by subject and catalog number
+ * @returns {number} 200[].id - Class ID
+ * @returns {string} 200[].subject - Subject code (e.g., "CS")
+ * @returns {string} 200[].catalog - Catalog number (e.g., "370")
+ * @returns {string} 200[].title - Full class title
+ * @returns {string} 200[].csNumber - CS course number
+ * @returns {string} 200[].enrolledAt - ISO timestamp of the enrollment
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Response (200)
+ * [
+ *   {
+ *     "id": 123,
+ *     "subject": "CS",
+ *     "catalog": "370",
+ *     "title": "Software Engineering",
+ *     "csNumber": "CS370",
+ *     "enrolledAt": "2024-01-10T08:00:00.000Z"
+ *   }
+ * ]
+ */
+app.get('/api/users/me/classes', authenticateToken, async (req, res) => {
+  try {
+    const rows = await findEnrollments(req.user.id);
+    return res.json(rows.map(formatEnrollment));
+  } catch (err) {
+    console.error('GET /api/users/me/classes failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Enroll in a class.
+ * 
+ * Enrolling twice is not an error: the existing enrollment is returned with 200.
+ * 
+ * @route POST /api/users/me/classes
+ * @access Private (requires JWT token)
+ * @param {number} req.body.classId - Class to enroll in
+ * @returns {Object} 201 - The enrolled class (same shape as GET /api/users/me/classes items)
+ * @returns {Object} 200 - Already enrolled; the existing enrollment
+ * @returns {Object} 400 - Missing or invalid classId
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 404 - Class not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/users/me/classes
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "classId": 123 }
+ */
+app.post('/api/users/me/classes', authenticateToken, async (req, res) => {
+  try {
+    const classId = Number(req.body?.classId);
+    if (!Number.isInteger(classId) || classId <= 0) {
+      return res.status(400).json({ error: 'invalid classId' });
+    }
+
+    const existing = await findEnrollments(req.user.id, classId);
+    if (existing.length > 0) {
+      return res.status(200).json(formatEnrollment(existing[0]));
+    }
+
+    const classRows = await db.all('SELECT id FROM classes WHERE id = ?', [classId]);
+    if (classRows.length === 0) {
+      return res.status(404).json({ error: 'class not found' });
+    }
+
+    // IGNORE covers a concurrent enroll of the same class
+    await db.run(
+      'INSERT IGNORE INTO class_enrollments (userId, classId, createdAt) VALUES (?, ?, ?)',
+      [req.user.id, classId, new Date()]
+    );
+    const rows = await findEnrollments(req.user.id, classId);
+    return res.status(201).json(formatEnrollment(rows[0]));
+  } catch (err) {
+    console.error('POST /api/users/me/classes failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Leave a class.
+ * 
+ * Idempotent: leaving a class you are not enrolled in also returns 204. Class-only files
+ * of that class stop being visible to you.
+ * 
+ * @route DELETE /api/users/me/classes/:classId
+ * @access Private (requires JWT token)
+ * @param {string} req.params.classId - Class ID
+ * @returns {void} 204 - No longer enrolled
+ * @returns {Object} 400 - Invalid class ID
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/users/me/classes/:classId', authenticateToken, async (req, res) => {
+  try {
+    const classId = Number(req.params.classId);
+    if (!Number.isInteger(classId) || classId <= 0) {
+      return res.status(400).json({ error: 'invalid classId' });
+    }
+
+    await db.run(
+      'DELETE FROM class_enrollments WHERE userId = ? AND classId = ?',
+      [req.user.id, classId]
+    );
+    return res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/users/me/classes/:classId failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Get a user's public profile and their uploads.
+ * 
+ * The uploads accept the same sort/limit/cursor parameters as GET /api/files and, like
+ * there, only include files the caller may see. Without limit or cursor every upload is
+ * returned; with them, files holds one page and nextCursor, hasMore and total are added
+ * next to it.
+ * 
+ * @route GET /api/users/:handle
+ * @access Public (JWT token optional, adds myVote and isBookmarkedByMe to files)
+ * @param {string} req.params.handle - Profile handle (case-insensitive)
+ * @param {string} [req.query.sort] - newest (default), name, size, class, bookmarks or top
+ * @param {number} [req.query.limit] - Page size (default 24, max 100)
+ * @param {string} [req.query.cursor] - nextCursor from the previous page
+ * @returns {Object} 200 - Profile and uploads
+ * @returns {Object} 200.user - { handle, displayName, avatarUrl, major, bio, joinedAt }
+ * @returns {Array<Object>} 200.files - Uploads, same shape as GET /api/files
+ * @returns {string|null} 200.nextCursor - Cursor for the next page (paginated only)
+ * @returns {boolean} 200.hasMore - Whether another page exists (paginated only)
+ * @returns {number} 200.total - Total uploads (paginated only)
+ * @returns {Object} 400 - Invalid sort, limit or cursor
+ * @returns {Object} 404 - No user with that handle
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/users/jdoe?limit=24
+ * 
+ * // Response (200)
+ * {
+ *   "user": {
+ *     "handle": "jdoe",
+ *     "displayName": "Jane Doe",
+ *     "avatarUrl": "/api/users/jdoe/avatar",
+ *     "major": "Computer Science",
+ *     "bio": null,
+ *     "joinedAt": "2024-01-10T08:00:00.000Z"
+ *   },
+ *   "files": [ ... ],
+ *   "nextCursor": null,
+ *   "hasMore": false,
+ *   "total": 3
+ * }
+ */
+app.get('/api/users/:handle', optionalAuth, async (req, res) => {
+  try {
+    const profile = await findProfileByHandle(req.params.handle);
+    if (!profile) {
+      return res.status(404).json({ error: 'user not found' });
+    }
+
+    const page = parseFilePage(req.query, FILE_SORTS, 'newest');
+    if (page.error) {
+      return res.status(400).json({ error: page.error });
+    }
+    const visible = visibilityCondition(req.user);
+
+    const result = await queryFilePage({
+      columns: req.user ? `${FILE_LIST_COLUMNS}, ${MY_VOTE_COLUMN}, ${MY_BOOKMARK_COLUMN}` : FILE_LIST_COLUMNS,
+      columnParams: req.user ? [req.user.id, req.user.id] : [],
+      from: `
+        image_store i
+        INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+        LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
+        ${BOOKMARK_COUNT_JOIN}
+        ${VOTE_COUNT_JOIN}
+        ${OWNER_PROFILE_JOIN}
+        ${OFFERING_JOIN}
+      `,
+      conditions: ['nf.ownerID = ?', visible.sql],
+      params: [profile.userId, ...visible.params],
+      page,
+    });
+
+    return res.json({
+      user: formatProfile(profile),
+      files: result.rows.map(formatFileRow),
+      ...(result.total !== undefined && {
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        total: result.total,
+      }),
+    });
+  } catch (err) {
+    console.error('GET /api/users/:handle failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Get a user's avatar image.
+ * 
+ * Served with an ETag and Cache-Control: no-cache, so browsers revalidate cheaply and
+ * pick up a new avatar right away.
+ * 
+ * @route GET /api/users/:handle/avatar
+ * @access Public
+ * @param {string} req.params.handle - Profile handle
+ * @returns {Buffer} 200 - WebP image
+ * @returns {void} 304 - Not modified since the cached copy
+ * @returns {Object} 404 - No such user, or no avatar
+ * @returns {Object} 500 - Internal server error
+ */
+app.get('/api/users/:handle/avatar', async (req, res) => {
+  try {
+    const profile = await findProfileByHandle(req.params.handle);
+    if (!profile || !profile.avatarKey) {
+      return res.status(404).json({ error: 'avatar not found' });
+    }
+    const info = await storage.stat(profile.avatarKey);
+    if (!info) {
+      return res.status(404).json({ error: 'avatar not found' });
+    }
+
+    res.set({
+      'Content-Type': THUMBNAIL_TYPE,
+      'Cache-Control': 'public, no-cache',
+      'ETag': `"${profile.avatarKey}"`,
+    });
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    res.set('Content-Length', info.size);
+    if (req.method === 'HEAD') {
+      return res.end();
+    }
+    const stream = await storage.createReadStream(profile.avatarKey);
+    try {
+      await pipeline(stream, res);
+    } catch (err) {
+      console.error(`Streaming avatar for ${profile.handle} failed:`, err.message);
+      res.destroy();
+    }
+  } catch (err) {
+    console.error('GET /api/users/:handle/avatar failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Loads a file in the GET /api/files/:id/meta shape, as seen by the given caller.
+ * 
+ * @param {number} id - File ID
+ * @param {Object|undefined} user - req.user, if signed in
+ * @returns {Promise<Object|null>} File object, or null if missing
+ */
+async function loadFileMeta(id, user) {
+  const fileId = id.toString();
+
+  // Count bookmarks for this file only instead of aggregating the whole table
+  const rows = await db.all(
+    `SELECT ${FILE_LIST_COLUMNS}
+     FROM image_store i
+     LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+     LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
+     LEFT JOIN (
+       SELECT fileId, COUNT(*) AS bookmarkCount FROM bookmarks WHERE fileId = ? GROUP BY fileId
+     ) bc ON bc.fileId = CAST(i.id AS CHAR)
+     LEFT JOIN (${VOTE_COUNT_SELECT} WHERE fileId = ? GROUP BY fileId) vc ON vc.fileId = CAST(i.id AS CHAR)
+     ${OWNER_PROFILE_JOIN}
+     ${OFFERING_JOIN}
+     WHERE i.id = ?`,
+    [fileId, fileId, id]
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const file = formatFileRow(rows[0]);
+  const ownerId = rows[0].ownerId;
+  let isBookmarkedByMe = false;
+  let myVote = 0;
+  if (user) {
+    const bookmarkRows = await db.all(
+      'SELECT id FROM bookmarks WHERE userId = ? AND fileId = ?',
+      [user.id, fileId]
+    );
+    isBookmarkedByMe = bookmarkRows.length > 0;
+
+    const voteRows = await db.all(
+      'SELECT value FROM file_votes WHERE userId = ? AND fileId = ?',
+      [user.id, fileId]
+    );
+    myVote = voteRows.length > 0 ? Number(voteRows[0].value) : 0;
+  }
+
+  return {
+    ...file,
+    isBookmarkedByMe,
+    myVote,
+    isOwnedByMe: Boolean(user && ownerId && user.id === ownerId),
+  };
+}
+
+/**
+ * Get one file's metadata without downloading it.
+ * 
+ * Returns the same shape as an entry of GET /api/files plus, for a signed-in
+ * caller, whether they have bookmarked or own the file. Anonymous callers (or an expired
+ * token) get false for both flags rather than an error, since the endpoint is public.
+ * A file that isn't public needs a signed-in caller who may see it, or a grant or share
+ * link; the response then carries a fresh grant for the file's other URLs.
+ * 
+ * @route GET /api/files/:id/meta
+ * @access Public, subject to the file's visibility (JWT token, grant or share link)
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - File ID (must be positive integer)
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @returns {Object} 200 - File object
+ * @returns {Object|null} 200.owner - Uploader's public profile, or null for files without an owner
+ * @returns {number} 200.bookmarkCount - Number of users who bookmarked the file
+ * @returns {boolean} 200.isBookmarkedByMe - Whether the caller has bookmarked the file
+ * @returns {number} 200.myVote - Caller's vote: 1, -1, or 0 when not voted (or not signed in)
+ * @returns {boolean} 200.isOwnedByMe - Whether the caller uploaded the file
+ * @returns {string} 200.visibility - public, campus, class or private
+ * @returns {string|null} 200.grant - Token for ?grant= on the file's URLs (null for public files)
+ * @returns {Object} 400 - Invalid file ID format
+ * @returns {Object} 401 - File is not public and no token, grant or share link was sent
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/files/456/meta
+ * Headers: { "Authorization": "Bearer <token>" }
+ * 
+ * // Response (200)
+ * {
+ *   "id": 456,
+ *   "originalName": "assignment1.pdf",
+ *   "size": "524288",
+ *   "fileType": "application/pdf",
+ *   "uploadedAt": "2024-01-15T10:30:00.000Z",
+ *   "owner": { "handle": "jdoe", "displayName": "Jane Doe", "avatarUrl": null },
+ *   "description": "Solutions with worked examples",
+ *   "visibility": "campus",
+ *   "grant": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *   "bookmarkCount": 3,
+ *   "score": 5,
+ *   "upvotes": 6,
+ *   "downvotes": 1,
+ *   "class": {
+ *     "id": 123,
+ *     "subject": "CS",
+ *     "catalog": "370",
+ *     "title": "Software Engineering",
+ *     "csNumber": "CS370"
+ *   },
+ *   "isBookmarkedByMe": true,
+ *   "myVote": 1,
+ *   "isOwnedByMe": false
+ * }
+ */
+app.get('/api/files/:id/meta', optionalAuth, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+    const file = await loadFileMeta(id, req.user);
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+    return res.json(file);
+  } catch (err) {
+    console.error('GET /api/files/:id/meta failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Looks up the image_store row for a file without loading its bytes.
+ * 
+ * Legacy rows that still hold a BLOB (not yet moved by migrate_image_store.js)
+ * have a null storage_key.
+ * 
+ * @param {number} id - File ID
+ * @returns {Promise<Object|null>} File row with id, image_name, storage_key, content_hash,
+ *   thumbnail_key and lastUpdated (from Note_Files), or null if missing
+ */
+async function findStoredFile(id) {
+  const rows = await db.all(
+    `SELECT i.id, i.image_name, i.storage_key, i.content_hash, i.thumbnail_key, nf.LastUpdated AS lastUpdated
+     FROM image_store i
+     LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+     WHERE i.id = ?`,
+    [id]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Decides whether a Range header still applies under If-Range.
+ * 
+ * If-Range carries either an ETag or an HTTP date; when it no longer matches the
+ * current representation the client must get the full body instead of a stale slice.
+ * 
+ * @param {Object} req - Express request
+ * @param {string|undefined} etag - Current ETag
+ * @param {Date|null} lastModified - Current Last-Modified
+ * @returns {boolean} True if the Range header should be honored
+ */
+function isRangeFresh(req, etag, lastModified) {
+  const ifRange = req.headers['if-range'];
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return Boolean(etag) && ifRange === etag;
+  }
+  const since = Date.parse(ifRange);
+  return Boolean(lastModified) && !Number.isNaN(since)
+    && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+}
+
+/**
+ * Streams a file's bytes to the response from the storage backend.
+ * 
+ * Sets ETag (content hash), Last-Modified (Note_Files.LastUpdated) and Accept-Ranges,
+ * answers If-None-Match/If-Modified-Since with 304, and serves a single byte Range as
+ * 206 Partial Content. Headers are only applied once the bytes are known to exist, so a
+ * missing object still gets a JSON 404. The object is piped so the whole file is never
+ * held in memory.
+ * 
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @param {Object} file - Row returned by findStoredFile
+ * @param {Object} headers - Response headers (Content-Type, Content-Disposition, ...); a
+ *   Cache-Control here replaces the default no-cache
+ * @returns {Promise<void>}
+ */
+async function sendStoredFile(req, res, file, headers) {
+  let data = null;
+  let size;
+  let contentHash = file.content_hash;
+
+  if (!file.storage_key) {
+    const rows = await db.all('SELECT image_data FROM image_store WHERE id = ?', [file.id]);
+    data = rows[0] && rows[0].image_data;
+    if (!data) {
+      return res.status(404).json({ error: 'file data not found' });
+    }
+    size = data.length;
+    contentHash = contentHash || crypto.createHash('sha256').update(data).digest('hex');
+  } else {
+    const info = await storage.stat(file.storage_key);
+    if (!info) {
+      return res.status(404).json({ error: 'file data not found' });
+    }
+    size = info.size;
+  }
+
+  const etag = contentHash ? `"${contentHash}"` : undefined;
+  const lastModified = file.lastUpdated ? new Date(file.lastUpdated) : null;
+  const hasLastModified = lastModified && !Number.isNaN(lastModified.getTime());
+
+  // Always revalidate: the ETag makes that a cheap 304 instead of a full re-download.
+  res.setHeader('Cache-Control', 'no-cache');
+  res.set(headers);
+  res.setHeader('Accept-Ranges', 'bytes');
+  if (etag) res.setHeader('ETag', etag);
+  if (hasLastModified) res.setHeader('Last-Modified', lastModified.toUTCString());
+
+  // req.fresh compares If-None-Match/If-Modified-Since against the headers set above
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  let start = 0;
+  let end = size - 1;
+  if (req.headers.range && isRangeFresh(req, etag, hasLastModified ? lastModified : null)) {
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${size}`);
+      return res.status(416).end();
+    }
+    // Malformed or multi-range requests fall back to the full body, which HTTP allows.
+    if (ranges !== -2 && ranges.type === 'bytes' && ranges.length === 1) {
+      start = ranges[0].start;
+      end = ranges[0].end;
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+    }
+  }
+
+  res.setHeader('Content-Length', size === 0 ? 0 : end - start + 1);
+  if (req.method === 'HEAD' || size === 0) {
+    return res.end();
+  }
+  if (data) {
+    return res.end(data.subarray(start, end + 1));
+  }
+
+  const stream = await storage.createReadStream(file.storage_key, { start, end });
+  try {
+    await pipeline(stream, res);
+  } catch (err) {
+    // Headers are already sent, so the only option left is to drop the connection.
+    console.error(`Streaming file ${file.id} failed:`, err.message);
+    res.destroy();
+  }
+}
+
+/**
+ * Download a file by its ID.
+ * 
+ * Streams file bytes from the storage backend to the client
+ * with appropriate headers for file download. Supports byte ranges and
+ * conditional requests (see sendStoredFile). Public files need no authentication; for
+ * others see the file's visibility (a grant in the URL works for plain links).
+ * 
+ * @route GET /api/files/:id
+ * @access Public, subject to the file's visibility (JWT token, grant or share link)
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - File ID (must be positive integer)
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @param {string} [req.headers.range] - Single byte range, e.g. "bytes=0-1023"
+ * @param {string} [req.headers.if-none-match] - ETag from a previous response
+ * @param {string} [req.headers.if-modified-since] - Last-Modified from a previous response
+ * @returns {Buffer} 200 - File binary data
+ * @returns {Buffer} 206 - Requested byte range (Content-Range set)
+ * @returns {void} 304 - Not modified since the cached copy
+ * @returns {Object} 400 - Invalid file ID format
+ * @returns {Object} 401 - File is not public and no token, grant or share link was sent
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File not found
+ * @returns {void} 416 - Range not satisfiable
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/files/456
+ * Range: bytes=0-1023
+ * 
+ * // Response Headers (206)
+ * Content-Type: application/octet-stream
+ * Content-Disposition: attachment; filename="assignment.pdf"
+ * Accept-Ranges: bytes
+ * Content-Range: bytes 0-1023/524288
+ * Content-Length: 1024
+ * ETag: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+ * Last-Modified: Mon, 15 Jan 2024 10:30:00 GMT
+ * 
+ * // Response Body: Binary file data
+ * 
+ * @since 1.0.0
+ */
+app.get('/api/files/:id', optionalAuth, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const file = await findStoredFile(id);
+
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+    
+    // Set appropriate headers for file download
+    return await sendStoredFile(req, res, file, {
+      'Content-Type': 'application/octet-stream',
+      // Owners can rename files to anything; this quotes the name and adds a UTF-8 filename*
+      'Content-Disposition': contentDisposition(file.image_name),
+      ...restrictedCacheHeaders(req.fileAccess),
+    });
+  } catch (err) {
+    console.error('GET /api/files/:id failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Get file preview (for inline display, not download).
+ * 
+ * Similar to GET /api/files/:id but displayed inline in browsers (e.g., PDFs in iframes,
+ * images in img tags). Only PDFs, common image formats, plain text, audio and video are sent
+ * inline; other types (HTML and SVG among them) come as an attachment. Every response has
+ * X-Content-Type-Options: nosniff and, except PDFs, Content-Security-Policy: sandbox.
+ * Honors Range and conditional headers the same way, so PDF viewers and video/audio
+ * players can seek without fetching the whole file.
+ * 
+ * @route GET /api/files/:id/preview
+ * @access Public, subject to the file's visibility (JWT token, grant or share link)
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - File ID (must be positive integer)
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @returns {Buffer} 200 - File binary data, inline for the types above and otherwise as an attachment
+ * @returns {Buffer} 206 - Requested byte range (Content-Range set)
+ * @returns {void} 304 - Not modified since the cached copy
+ * @returns {Object} 400 - Invalid file ID format
+ * @returns {Object} 401 - File is not public and no token, grant or share link was sent
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File not found
+ * @returns {void} 416 - Range not satisfiable
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @since 1.0.0
+ */
+app.get('/api/files/:id/preview', optionalAuth, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const file = await findStoredFile(id);
+
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+    
+    // Get file type from Note_Files if available
+    const fileMetaRows = await db.all(
+      'SELECT fileType FROM Note_Files WHERE fileID = ?',
+      [id.toString()]
+    );
+    const fileType = fileMetaRows.length > 0 && fileMetaRows[0].fileType 
+      ? fileMetaRows[0].fileType 
+      : 'application/octet-stream';
+    
+    return await sendStoredFile(req, res, file, {
+      ...previewHeaders(fileType),
+      ...restrictedCacheHeaders(req.fileAccess),
+    });
+  } catch (err) {
+    console.error('GET /api/files/:id/preview failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Get a file's thumbnail for grid tiles.
+ * 
+ * Thumbnails are small WebP images rendered in the background after upload (first page
+ * of a PDF, scaled image, or the opening lines of a text/code/DOCX file), so the grid
+ * never has to download the files themselves. Listings report hasThumbnail so clients
+ * can skip the request for formats without one.
+ * 
+ * Each thumbnail is stored under a new key when (re)generated, and that key is the ETag,
+ * so browsers can cache the image and revalidate cheaply.
+ * 
+ * @route GET /api/files/:id/thumbnail
+ * @access Public, subject to the file's visibility (JWT token, grant or share link)
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - File ID (must be positive integer)
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @param {string} [req.headers.if-none-match] - ETag from a previous response
+ * @returns {Buffer} 200 - WebP image
+ * @returns {void} 304 - Not modified since the cached copy
+ * @returns {Object} 400 - Invalid file ID format
+ * @returns {Object} 401 - File is not public and no token, grant or share link was sent
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File not found, or no thumbnail (yet) for this file
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/files/456/thumbnail
+ * 
+ * // Response Headers (200)
+ * Content-Type: image/webp
+ * Cache-Control: public, max-age=3600
+ * ETag: "thumbnails/6f1c0a9e-3b7d-4c55-9a7e-0d2f4b8c1e23.webp"
+ */
+app.get('/api/files/:id/thumbnail', optionalAuth, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const file = await findStoredFile(id);
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+    if (!file.thumbnail_key) {
+      return res.status(404).json({ error: 'thumbnail not available' });
+    }
+
+    const info = await storage.stat(file.thumbnail_key);
+    if (!info) {
+      return res.status(404).json({ error: 'thumbnail not available' });
+    }
+
+    res.set({
+      'Content-Type': THUMBNAIL_TYPE,
+      'Cache-Control': `${req.fileAccess.visibility === 'public' ? 'public' : 'private'}, max-age=3600`,
+      'ETag': `"${file.thumbnail_key}"`,
+    });
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    res.set('Content-Length', info.size);
+    if (req.method === 'HEAD') {
+      return res.end();
+    }
+    const stream = await storage.createReadStream(file.thumbnail_key);
+    try {
+      await pipeline(stream, res);
+    } catch (err) {
+      console.error(`Streaming thumbnail for file ${id} failed:`, err.message);
+      res.destroy();
+    }
+  } catch (err) {
+    console.error('GET /api/files/:id/thumbnail failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Deletes a file with everything attached to it: its rows, bookmarks, extracted text, version
+ * history, comments, votes, share links and reports, then the stored bytes of every version and
+ * the thumbnail. The moderation log keeps its entries about the file.
+ * 
+ * @param {Object} file - Row from findStoredFile
+ * @param {Object} [options]
+ * @param {boolean} [options.keepReports] - Leave the file's reports in place (a moderator's
+ *   removal keeps the reports that led to it)
+ * @returns {Promise<void>}
+ */
+async function removeFile(file, { keepReports = false } = {}) {
+  const id = file.id;
+
+  // Versions can share objects (a restore points at an older version's bytes), so collect each key once
+  const versionRows = await db.all(
+    'SELECT DISTINCT storage_key FROM file_versions WHERE fileId = ? AND storage_key IS NOT NULL',
+    [id.toString()]
+  );
+  const storageKeys = new Set(versionRows.map(row => row.storage_key));
+  if (file.storage_key) {
+    storageKeys.add(file.storage_key);
+  }
+
+  // Delete from both tables
+  await db.run('DELETE FROM Note_Files WHERE fileID = ?', [id.toString()]);
+  await db.run('DELETE FROM image_store WHERE id = ?', [id]);
+  
+  // Also delete any bookmarks, extracted text, version history, comments, votes, share links and (unless kept) reports for this file
+  await db.run('DELETE FROM bookmarks WHERE fileId = ?', [id.toString()]);
+  await db.run('DELETE FROM file_text WHERE fileId = ?', [id.toString()]);
+  await db.run('DELETE FROM file_versions WHERE fileId = ?', [id.toString()]);
+  await db.run('DELETE FROM file_comments WHERE fileId = ?', [id.toString()]);
+  await db.run('DELETE FROM file_votes WHERE fileId = ?', [id.toString()]);
+  await db.run('DELETE FROM file_share_links WHERE fileId = ?', [id.toString()]);
+  if (!keepReports) {
+    await db.run('DELETE FROM file_reports WHERE fileId = ?', [id.toString()]);
+  }
+
+  // Remove the bytes last; a leftover object is harmless, a row pointing at nothing is not
+  for (const storageKey of storageKeys) {
+    await removeStoredObject(storageKey);
+  }
+  if (file.thumbnail_key) {
+    await removeStoredObject(file.thumbnail_key);
+  }
+}
+
+/**
+ * Delete a file from the system (only file owner can delete).
+ * 
+ * Permanently removes a file from both image_store and Note_Files tables, and its
+ * bytes from the storage backend.
+ * Also removes all bookmarks associated with the file. Only the file owner
+ * (user who uploaded it) can delete the file. Requires JWT authentication.
+ * Moderators remove other people's files through DELETE /api/admin/files/:id.
+ * 
+ * @route DELETE /api/files/:id
+ * @access Private (requires JWT token, owner only)
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - File ID (must be positive integer)
+ * @param {Object} req.user - User information from JWT
+ * @param {string} req.user.id - User ID (must match file owner)
+ * @returns {void} 204 - File deleted successfully (no content)
+ * @returns {Object} 400 - Invalid file ID format
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not authorized (not the file owner)
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * DELETE /api/files/456
+ * Headers: { "Authorization": "Bearer <token>" }
+ * 
+ * // Response (204 No Content)
+ * 
+ * @since 1.0.0
+ */
+app.delete('/api/files/:id', authenticateToken, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const userId = req.user.id;
+
+    // Check if file exists
+    const file = await findStoredFile(id);
+
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+
+    // Check if user is the owner using fileID relationship
+    const ownerRows = await db.all(
+      'SELECT ownerID FROM Note_Files WHERE fileID = ? AND ownerID = ?',
+      [id.toString(), userId]
+    );
+
+    if (ownerRows.length === 0) {
+      return res.status(403).json({ error: 'not authorized to delete this file' });
+    }
+
+    await removeFile(file);
+    return res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/files/:id failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// Loads the file named by :id into req.storedFile and checks that the caller owns it.
+// Runs before any upload is read, so a non-owner's new version is refused without storing it.
+async function requireFileOwner(req, res, next) {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const file = await findStoredFile(id);
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+
+    const ownerRows = await db.all(
+      'SELECT ownerID FROM Note_Files WHERE fileID = ? AND ownerID = ?',
+      [id.toString(), req.user.id]
+    );
+    if (ownerRows.length === 0) {
+      return res.status(403).json({ error: 'not authorized to modify this file' });
+    }
+
+    req.storedFile = file;
+    return next();
+  } catch (err) {
+    console.error(`${req.method} ${req.originalUrl} failed:`, err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+}
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * Update a file's metadata.
+ * 
+ * Renames the file, moves it to another class (or out of any class), tags it with a
+ * class offering, sets or clears its description and changes who can see it. Only the
+ * fields present in the body change. The name, class and offering are checked the same
+ * way as on upload; since the name is also the download filename, blocked extensions
+ * are refused. An offering on its own also moves the file to the offering's class, and
+ * moving to another class drops the old offering. A class-only file can't be taken
+ * out of its class without also changing its visibility. LastUpdated is set to now
+ * whenever something changed.
+ * 
+ * @route PATCH /api/files/:id
+ * @access Private (requires JWT token, owner only)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.body.fileName] - New display name (1-255 characters)
+ * @param {string|number|null} [req.body.classId] - New class ID; null or "" removes the class
+ * @param {string|number|null} [req.body.offeringId] - New class offering; null or "" removes it
+ * @param {string|null} [req.body.description] - Description (max 2000 characters); null or "" clears it
+ * @param {string} [req.body.visibility] - public, campus, class or private
+ * @returns {Object} 200 - Updated file (same shape as GET /api/files/:id/meta)
+ * @returns {Object} 400 - Invalid file ID, nothing to update, invalid name, classId, offeringId, description or
+ *   visibility, or class or offering not found
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the owner
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 415 - New name has a blocked extension
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * PATCH /api/files/456
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "fileName": "Assignment 1 solutions", "classId": 124, "description": null }
+ */
+app.patch('/api/files/:id', authenticateToken, requireFileOwner, async (req, res) => {
+  try {
+    const { fileName, classId, offeringId, description, visibility } = req.body || {};
+    const file = req.storedFile;
+    if (fileName === undefined && classId === undefined && offeringId === undefined &&
+        description === undefined && visibility === undefined) {
+      return res.status(400).json({ error: 'nothing to update' });
+    }
+
+    let displayName;
+    if (fileName !== undefined) {
+      displayName = typeof fileName === 'string' ? fileName.trim() : '';
+      if (!displayName || displayName.length > 255) {
+        return res.status(400).json({ error: 'fileName must be 1-255 characters' });
+      }
+      const nameError = uploadPolicy.checkFileName(displayName);
+      if (nameError) {
+        return res.status(nameError.status).json({ error: nameError.message });
+      }
+    }
+
+    const current = await db.all(
+      'SELECT classId, offeringId, description, visibility FROM Note_Files WHERE fileID = ?',
+      [file.id.toString()]
+    );
+    const currentClassId = current[0]?.classId || null;
+    const currentOfferingId = current[0]?.offeringId || null;
+
+    let newClass;
+    if (classId !== undefined || offeringId !== undefined) {
+      // Clearing only the offering keeps the file in its current class
+      const clearsOffering = offeringId === null || offeringId === '';
+      newClass = await resolveUploadClass(
+        classId === undefined && clearsOffering ? currentClassId : classId,
+        offeringId
+      );
+      if (newClass.error) {
+        return res.status(400).json({ error: newClass.error });
+      }
+      if (offeringId === undefined && newClass.classId === currentClassId) {
+        newClass.offeringId = currentOfferingId;
+      }
+    }
+
+    let newDescription;
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') {
+        return res.status(400).json({ error: 'description must be a string' });
+      }
+      newDescription = description ? description.trim() : '';
+      if (newDescription.length > MAX_DESCRIPTION_LENGTH) {
+        return res.status(400).json({ error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` });
+      }
+    }
+
+    // Class visibility needs a class, whether the visibility or the class is what changes
+    const resultingClassId = newClass ? newClass.classId : currentClassId;
+    const currentVisibility = current[0]?.visibility || 'public';
+    const newVisibility = resolveVisibility(visibility === undefined ? currentVisibility : visibility, resultingClassId);
+    if (newVisibility.error) {
+      return res.status(400).json({ error: newVisibility.error });
+    }
+
+    const changes = {};
+    if (displayName !== undefined && displayName !== file.image_name) {
+      changes.image_name = displayName;
+    }
+    if (newClass && newClass.classId !== currentClassId) {
+      changes.classId = newClass.classId;
+    }
+    if (newClass && newClass.offeringId !== currentOfferingId) {
+      changes.offeringId = newClass.offeringId;
+    }
+    if (newDescription !== undefined && (newDescription || null) !== (current[0]?.description || null)) {
+      changes.description = newDescription || null;
+    }
+    if (newVisibility.visibility !== currentVisibility) {
+      changes.visibility = newVisibility.visibility;
+    }
+
+    // Only bump LastUpdated for a real change, so re-saving an unchanged form doesn't reorder listings
+    if (Object.keys(changes).length > 0) {
+      if (changes.image_name !== undefined) {
+        await db.run('UPDATE image_store SET image_name = ? WHERE id = ?', [changes.image_name, file.id]);
+      }
+      const assignments = ['LastUpdated = ?'];
+      const params = [new Date().toISOString()];
+      if (changes.classId !== undefined) {
+        assignments.push('classId = ?');
+        params.push(changes.classId);
+      }
+      if (changes.offeringId !== undefined) {
+        assignments.push('offeringId = ?');
+        params.push(changes.offeringId);
+      }
+      if (changes.description !== undefined) {
+        assignments.push('description = ?');
+        params.push(changes.description);
+      }
+      if (changes.visibility !== undefined) {
+        assignments.push('visibility = ?');
+        params.push(changes.visibility);
+      }
+      await db.run(
+        `UPDATE Note_Files SET ${assignments.join(', ')} WHERE fileID = ?`,
+        [...params, file.id.toString()]
+      );
+    }
+
+    return res.json(await loadFileMeta(file.id, req.user));
+  } catch (err) {
+    console.error('PATCH /api/files/:id failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- Share links ---
+function formatShareLink(row) {
+  let status = 'active';
+  if (row.revokedAt) {
+    status = 'revoked';
+  } else if (row.expiresAt && new Date(row.expiresAt).getTime() <= Date.now()) {
+    status = 'expired';
+  }
+  return {
+    id: row.id,
+    createdAt: new Date(row.createdAt).toISOString(),
+    expiresAt: row.expiresAt ? new Date(row.expiresAt).toISOString() : null,
+    revokedAt: row.revokedAt ? new Date(row.revokedAt).toISOString() : null,
+    status,
+  };
+}
+
+/**
+ * List a file's share links.
+ * 
+ * Includes expired and revoked links so the owner can see what was handed out. The
+ * tokens themselves are not stored and cannot be shown again.
+ * 
+ * @route GET /api/files/:id/share-links
+ * @access Private (requires JWT token, owner only)
+ * @param {string} req.params.id - File ID
+ * @returns {Object} 200 - { links }, newest first
+ * @returns {number} 200.links[].id - Link ID
+ * @returns {string} 200.links[].createdAt - ISO timestamp
+ * @returns {string|null} 200.links[].expiresAt - When the link stops working (null: never)
+ * @returns {string|null} 200.links[].revokedAt - When the owner revoked the link
+ * @returns {string} 200.links[].status - active, expired or revoked
+ * @returns {Object} 400 - Invalid file ID
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the owner
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ */
+app.get('/api/files/:id/share-links', authenticateToken, requireFileOwner, async (req, res) => {
+  try {
+    const rows = await db.all(
+      'SELECT id, createdAt, expiresAt, revokedAt FROM file_share_links WHERE fileId = ? ORDER BY id DESC',
+      [req.storedFile.id.toString()]
+    );
+    return res.json({ links: rows.map(formatShareLink) });
+  } catch (err) {
+    console.error('GET /api/files/:id/share-links failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Create a share link for a file.
+ * 
+ * Anyone holding the token can see the file, whatever its visibility, by adding
+ * ?share=<token> to the file's meta, download, preview, thumbnail, version and
+ * comment URLs (GET /api/files/:id/meta also returns a grant for the rest). Only a hash
+ * of the token is stored, so the token is in this response and nowhere else.
+ * 
+ * @route POST /api/files/:id/share-links
+ * @access Private (requires JWT token, owner only)
+ * @param {string} req.params.id - File ID
+ * @param {number|null} [req.body.expiresInDays] - Days until the link stops working (1-365); omit for no expiry
+ * @returns {Object} 201 - The link (same shape as in GET /api/files/:id/share-links) plus token
+ * @returns {Object} 400 - Invalid file ID or expiresInDays
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the owner
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/files/456/share-links
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "expiresInDays": 7 }
+ * 
+ * // Response (201)
+ * {
+ *   "id": 12,
+ *   "createdAt": "2024-01-15T10:30:00.000Z",
+ *   "expiresAt": "2024-01-22T10:30:00.000Z",
+ *   "revokedAt": null,
+ *   "status": "active",
+ *   "token": "q0bC3xQnWm0e8m3J9Vh2k4eVv7c1a6sZbq2Xr0u5yLw"
+ * }
+ */
+app.post('/api/files/:id/share-links', authenticateToken, requireFileOwner, async (req, res) => {
+  try {
+    const { expiresInDays } = req.body || {};
+    let expiresAt = null;
+    if (expiresInDays !== undefined && expiresInDays !== null) {
+      if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_SHARE_LINK_DAYS) {
+        return res.status(400).json({ error: `expiresInDays must be a whole number from 1 to ${MAX_SHARE_LINK_DAYS}` });
+      }
+      expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+    }
+
+    const token = crypto.randomBytes(SHARE_TOKEN_BYTES).toString('base64url');
+    const createdAt = new Date();
+    const result = await db.run(
+      'INSERT INTO file_share_links (fileId, tokenHash, createdBy, createdAt, expiresAt) VALUES (?, ?, ?, ?, ?)',
+      [req.storedFile.id.toString(), hashShareToken(token), req.user.id, createdAt, expiresAt]
+    );
+
+    return res.status(201).json({
+      ...formatShareLink({
+        id: result.insertId || result.lastInsertRowid,
+        createdAt,
+        expiresAt,
+        revokedAt: null,
+      }),
+      token,
+    });
+  } catch (err) {
+    console.error('POST /api/files/:id/share-links failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Revoke a share link.
+ * 
+ * The link stops working at once; it stays in the list as revoked. Revoking a link
+ * twice is not an error.
+ * 
+ * @route DELETE /api/files/:id/share-links/:linkId
+ * @access Private (requires JWT token, owner only)
+ * @param {string} req.params.id - File ID
+ * @param {string} req.params.linkId - Link ID
+ * @returns {void} 204 - Link revoked
+ * @returns {Object} 400 - Invalid file or link ID
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the owner
+ * @returns {Object} 404 - File or link not found
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/files/:id/share-links/:linkId', authenticateToken, requireFileOwner, async (req, res) => {
+  try {
+    const linkId = Number(req.params.linkId);
+    if (!Number.isInteger(linkId) || linkId <= 0) {
+      return res.status(400).json({ error: 'invalid link id' });
+    }
+
+    const rows = await db.all(
+      'SELECT id, revokedAt FROM file_share_links WHERE id = ? AND fileId = ?',
+      [linkId, req.storedFile.id.toString()]
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'share link not found' });
+    }
+    if (!rows[0].revokedAt) {
+      await db.run('UPDATE file_share_links SET revokedAt = ? WHERE id = ?', [new Date(), linkId]);
+    }
+    return res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/files/:id/share-links/:linkId failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- File versions ---
+const VERSION_COLUMNS = 'version, storage_key, content_hash, size, fileType, originalName, uploadedBy, note, restoredFrom, createdAt';
+// Versions are read back with the uploader's public profile rather than their user ID.
+const VERSION_SELECT = `
+  SELECT ${VERSION_COLUMNS.split(', ').map(column => `v.${column}`).join(', ')},
+    up.handle AS uploaderHandle, up.displayName AS uploaderName, up.avatarKey AS uploaderAvatarKey
+  FROM file_versions v
+  LEFT JOIN user_profiles up ON up.userId = v.uploadedBy
+`;
+
+async function findFileVersion(fileId, version) {
+  const rows = await db.all(
+    `${VERSION_SELECT} WHERE v.fileId = ? AND v.version = ?`,
+    [fileId.toString(), version]
+  );
+  return rows[0] || null;
+}
+
+// Version numbers come from the URL; anything but a positive integer is a 400.
+function parseVersionNumber(value) {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+function formatVersionRow(row, currentVersion) {
+  return {
+    version: row.version,
+    size: row.size === null ? null : Number(row.size),
+    fileType: row.fileType,
+    originalName: row.originalName,
+    uploadedBy: publicProfile(row.uploaderHandle, row.uploaderName, row.uploaderAvatarKey),
+    note: row.note || null,
+    restoredFrom: row.restoredFrom || null,
+    uploadedAt: new Date(row.createdAt).toISOString(),
+    isCurrent: row.version === currentVersion,
+  };
+}
+
+/**
+ * Adds a version to a file and makes it the current one: image_store and Note_Files
+ * are pointed at the new bytes, and the text index and thumbnail are rebuilt.
+ *
+ * @param {number} fileId - image_store ID
+ * @param {Object} version
+ * @param {string|null} version.storageKey - Key of the stored object (null only for a legacy BLOB)
+ * @param {string|null} version.contentHash - SHA-256 of the contents (hex)
+ * @param {number|null} version.size - Size in bytes
+ * @param {string|null} version.fileType - MIME type detected from the contents
+ * @param {string} version.originalName - Name of the file on the uploader's machine
+ * @param {string} version.uploadedBy - User ID adding the version
+ * @param {string|null} [version.note] - What changed
+ * @param {number|null} [version.restoredFrom] - Version whose bytes this one reuses
+ * @returns {Promise<Object|null>} The new file_versions row, or null when the file was
+ *   deleted in the meantime
+ */
+async function addFileVersion(fileId, version) {
+  const createdAt = new Date();
+  let row;
+  // One transaction on one connection: the file row stays locked from reading the latest
+  // version number until the new version is current, so two uploads at once can't both
+  // claim the same number, and a failure leaves the file exactly as it was.
+  const connection = await db.pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const [files] = await connection.query('SELECT id FROM image_store WHERE id = ? FOR UPDATE', [fileId]);
+    if (files.length === 0) {
+      await connection.rollback();
+      return null;
+    }
+    const [[{ latest }]] = await connection.query(
+      'SELECT COALESCE(MAX(version), 0) AS latest FROM file_versions WHERE fileId = ?',
+      [fileId.toString()]
+    );
+    row = {
+      version: Number(latest) + 1,
+      storage_key: version.storageKey,
+      content_hash: version.contentHash,
+      size: version.size,
+      fileType: version.fileType,
+      originalName: version.originalName,
+      uploadedBy: version.uploadedBy,
+      note: version.note || null,
+      restoredFrom: version.restoredFrom || null,
+      createdAt,
+    };
+
+    await connection.query(
+      `INSERT INTO file_versions (fileId, ${VERSION_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [fileId.toString(), row.version, row.storage_key, row.content_hash, row.size, row.fileType,
+        row.originalName, row.uploadedBy, row.note, row.restoredFrom, row.createdAt]
+    );
+    await connection.query(
+      'UPDATE image_store SET storage_key = ?, content_hash = ? WHERE id = ?',
+      [row.storage_key, row.content_hash, fileId]
+    );
+    await connection.query(
+      'UPDATE Note_Files SET fileType = ?, size = ?, LastUpdated = ? WHERE fileID = ?',
+      [row.fileType, row.size === null ? null : row.size.toString().substring(0, 16), row.createdAt.toISOString(), fileId.toString()]
+    );
+    await connection.commit();
+  } catch (err) {
+    await connection.rollback();
+    throw err;
+  } finally {
+    connection.release();
+  }
+
+  processStoredFile({
+    id: fileId,
+    storageKey: row.storage_key,
+    fileType: row.fileType,
+    fileName: row.originalName,
+  });
+  return row;
+}
+
+/**
+ * List a file's versions.
+ * 
+ * Every file has at least version 1 (the original upload). Replacing the file with
+ * POST /api/files/:id/versions or restoring an old version adds a version; the file
+ * id, bookmarks and links stay the same.
+ * 
+ * @route GET /api/files/:id/versions
+ * @access Public, subject to the file's visibility (JWT token, grant or share link)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @returns {Object} 200 - Version history
+ * @returns {number} 200.fileId - File ID
+ * @returns {number} 200.currentVersion - Version served by GET /api/files/:id
+ * @returns {Array<Object>} 200.versions - Versions, newest first
+ * @returns {number} 200.versions[].version - Version number
+ * @returns {number|null} 200.versions[].size - Size in bytes
+ * @returns {string|null} 200.versions[].fileType - Detected MIME type
+ * @returns {string} 200.versions[].originalName - Name of the uploaded file
+ * @returns {Object|null} 200.versions[].uploadedBy - Public profile of the user who added the version
+ * @returns {string|null} 200.versions[].note - What changed, if given
+ * @returns {number|null} 200.versions[].restoredFrom - Version this one was restored from
+ * @returns {string} 200.versions[].uploadedAt - ISO timestamp
+ * @returns {boolean} 200.versions[].isCurrent - Whether this is the current version
+ * @returns {Object} 400 - Invalid file ID
+ * @returns {Object} 401 - File is not public and no token, grant or share link was sent
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Response (200)
+ * {
+ *   "fileId": 456,
+ *   "currentVersion": 3,
+ *   "versions": [
+ *     { "version": 3, "size": 1832, "fileType": "text/markdown", "originalName": "notes.md", "uploadedBy": { "handle": "jdoe", "displayName": "Jane Doe", "avatarUrl": null }, "note": null, "restoredFrom": 1, "uploadedAt": "2024-01-17T09:00:00.000Z", "isCurrent": true },
+ *     { "version": 2, "size": 2410, "fileType": "text/markdown", "originalName": "notes.md", "uploadedBy": { "handle": "jdoe", "displayName": "Jane Doe", "avatarUrl": null }, "note": "Added week 4", "restoredFrom": null, "uploadedAt": "2024-01-16T18:20:00.000Z", "isCurrent": false },
+ *     { "version": 1, "size": 1832, "fileType": "text/markdown", "originalName": "notes.md", "uploadedBy": { "handle": "jdoe", "displayName": "Jane Doe", "avatarUrl": null }, "note": null, "restoredFrom": null, "uploadedAt": "2024-01-15T10:30:00.000Z", "isCurrent": false }
+ *   ]
+ * }
+ */
+app.get('/api/files/:id/versions', optionalAuth, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const file = await findStoredFile(id);
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+
+    const rows = await db.all(
+      `${VERSION_SELECT} WHERE v.fileId = ? ORDER BY v.version DESC`,
+      [id.toString()]
+    );
+    const currentVersion = rows.length > 0 ? rows[0].version : 1;
+    return res.json({
+      fileId: id,
+      currentVersion,
+      versions: rows.map(row => formatVersionRow(row, currentVersion)),
+    });
+  } catch (err) {
+    console.error('GET /api/files/:id/versions failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Upload a new version of a file.
+ * 
+ * Replaces the file's contents while keeping its id, name, class, bookmarks and
+ * links. The previous contents stay available as older versions. The upload goes
+ * through the same policy checks as POST /api/files/upload.
+ * 
+ * @route POST /api/files/:id/versions
+ * @access Private (requires JWT token, owner only)
+ * @param {string} req.params.id - File ID
+ * @param {Object} req.file - New contents (multipart field "file")
+ * @param {string} [req.body.note] - What changed (max 255 characters)
+ * @returns {Object} 201 - The new version (same shape as the entries of GET /api/files/:id/versions)
+ * @returns {Object} 400 - Invalid file ID, no file uploaded, or note too long
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the owner, or email not verified
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 409 - Contents are identical to the current version
+ * @returns {Object} 413 - File exceeds the size limit for its type
+ * @returns {Object} 415 - File type or extension not allowed
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request (multipart/form-data)
+ * POST /api/files/456/versions
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Form Data:
+ *   - file: <notes.md>
+ *   - note: "Added week 4"
+ */
+app.post('/api/files/:id/versions', authenticateToken, requireVerifiedEmail, requireFileOwner, acceptUpload, async (req, res) => {
+  let versionRecorded = false;
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'no file uploaded' });
+    }
+
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() : '';
+    if (note.length > 255) {
+      await removeStoredObject(req.file.storageKey);
+      return res.status(400).json({ error: 'note must be at most 255 characters' });
+    }
+
+    const file = req.storedFile;
+    if (file.content_hash && file.content_hash === req.file.contentHash) {
+      await removeStoredObject(req.file.storageKey);
+      return res.status(409).json({ error: 'file is unchanged' });
+    }
+
+    const row = await addFileVersion(file.id, {
+      storageKey: req.file.storageKey,
+      contentHash: req.file.contentHash,
+      size: req.file.size,
+      fileType: req.file.detectedType,
+      originalName: req.file.originalname,
+      uploadedBy: req.user.id,
+      note,
+    });
+    if (!row) {
+      await removeStoredObject(req.file.storageKey);
+      return res.status(404).json({ error: 'file not found' });
+    }
+    versionRecorded = true;
+    return res.status(201).json(formatVersionRow(await findFileVersion(file.id, row.version), row.version));
+  } catch (err) {
+    console.error('POST /api/files/:id/versions failed:', err);
+    if (req.file && !versionRecorded) {
+      await removeStoredObject(req.file.storageKey);
+    }
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Download a specific version of a file.
+ * 
+ * Supports the same Range and conditional requests as GET /api/files/:id.
+ * 
+ * @route GET /api/files/:id/versions/:version
+ * @access Public, subject to the file's visibility (JWT token, grant or share link)
+ * @param {string} req.params.id - File ID
+ * @param {string} req.params.version - Version number
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @returns {Buffer} 200 - File contents of that version (attachment)
+ * @returns {Object} 400 - Invalid file ID or version
+ * @returns {Object} 401 - File is not public and no token, grant or share link was sent
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File or version not found
+ * @returns {Object} 500 - Internal server error
+ */
+app.get('/api/files/:id/versions/:version', optionalAuth, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    const versionNumber = parseVersionNumber(req.params.version);
+    if (!Number.isInteger(id) || id <= 0 || versionNumber === null) {
+      return res.status(400).json({ error: 'invalid file id or version' });
+    }
+
+    const version = await findFileVersion(id, versionNumber);
+    if (!version) {
+      return res.status(404).json({ error: 'version not found' });
+    }
+
+    return await sendStoredFile(req, res, {
+      id,
+      storage_key: version.storage_key,
+      content_hash: version.content_hash,
+      lastUpdated: version.createdAt,
+    }, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': contentDisposition(version.originalName),
+      ...restrictedCacheHeaders(req.fileAccess),
+    });
+  } catch (err) {
+    console.error('GET /api/files/:id/versions/:version failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Restore an earlier version of a file.
+ * 
+ * Adds a new version with the contents of the chosen one, so the history is kept
+ * and the restore itself can be undone the same way.
+ * 
+ * @route POST /api/files/:id/versions/:version/restore
+ * @access Private (requires JWT token, owner only)
+ * @param {string} req.params.id - File ID
+ * @param {string} req.params.version - Version to restore
+ * @returns {Object} 201 - The new current version, with restoredFrom set
+ * @returns {Object} 400 - Invalid file ID or version
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the owner
+ * @returns {Object} 404 - File or version not found
+ * @returns {Object} 409 - Version is already the current one
+ * @returns {Object} 500 - Internal server error
+ */
+app.post('/api/files/:id/versions/:version/restore', authenticateToken, requireFileOwner, async (req, res) => {
+  try {
+    const versionNumber = parseVersionNumber(req.params.version);
+    if (versionNumber === null) {
+      return res.status(400).json({ error: 'invalid file id or version' });
+    }
+
+    const file = req.storedFile;
+    const version = await findFileVersion(file.id, versionNumber);
+    if (!version) {
+      return res.status(404).json({ error: 'version not found' });
+    }
+
+    const [{ latest }] = await db.all(
+      'SELECT MAX(version) AS latest FROM file_versions WHERE fileId = ?',
+      [file.id.toString()]
+    );
+    if (version.version === Number(latest)) {
+      return res.status(409).json({ error: 'version is already current' });
+    }
+
+    const row = await addFileVersion(file.id, {
+      storageKey: version.storage_key,
+      contentHash: version.content_hash,
+      size: version.size === null ? null : Number(version.size),
+      fileType: version.fileType,
+      originalName: version.originalName,
+      uploadedBy: req.user.id,
+      restoredFrom: version.version,
+    });
+    if (!row) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+    return res.status(201).json(formatVersionRow(await findFileVersion(file.id, row.version), row.version));
+  } catch (err) {
+    console.error('POST /api/files/:id/versions/:version/restore failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- Comments ---
+const MAX_COMMENT_LENGTH = 5000;
+
+// Parses :id and :commentId; either is null when not a positive integer.
+function parseCommentParams(params) {
+  const fileId = Number(params.id);
+  const commentId = params.commentId === undefined ? undefined : Number(params.commentId);
+  return {
+    fileId: Number.isInteger(fileId) && fileId > 0 ? fileId : null,
+    commentId: commentId === undefined || (Number.isInteger(commentId) && commentId > 0) ? commentId : null,
+  };
+}
+
+// Trims a comment body; returns null when it is empty or too long.
+function cleanCommentBody(body) {
+  if (typeof body !== 'string') return null;
+  const trimmed = body.trim();
+  return trimmed && trimmed.length <= MAX_COMMENT_LENGTH ? trimmed : null;
+}
+
+// Comments are read with their author's public profile; authorId stays server-side.
+const COMMENT_SELECT = `
+  SELECT fc.id, fc.fileId, fc.parentId, fc.authorId, fc.body, fc.createdAt, fc.updatedAt, fc.deletedAt,
+    up.handle AS authorHandle, up.displayName AS authorName, up.avatarKey AS authorAvatarKey
+  FROM file_comments fc
+  LEFT JOIN user_profiles up ON up.userId = fc.authorId
+`;
+
+async function findComment(fileId, commentId) {
+  const rows = await db.all(
+    `${COMMENT_SELECT} WHERE fc.id = ? AND fc.fileId = ?`,
+    [commentId, fileId.toString()]
+  );
+  return rows[0] || null;
+}
+
+function formatComment(row, user) {
+  const isDeleted = Boolean(row.deletedAt);
+  return {
+    id: row.id,
+    parentId: row.parentId || null,
+    author: isDeleted ? null : publicProfile(row.authorHandle, row.authorName, row.authorAvatarKey),
+    body: isDeleted ? null : row.body,
+    createdAt: new Date(row.createdAt).toISOString(),
+    updatedAt: row.updatedAt ? new Date(row.updatedAt).toISOString() : null,
+    isDeleted,
+    isMine: Boolean(user && !isDeleted && user.id === row.authorId),
+  };
+}
+
+/**
+ * List the discussion on a file.
+ * 
+ * Top-level comments come oldest first, each with its replies (also oldest first).
+ * Replies only nest one level. A deleted comment that still has replies is kept as a
+ * placeholder with isDeleted: true and no author or body.
+ * 
+ * @route GET /api/files/:id/comments
+ * @access Public, subject to the file's visibility (JWT token optional, sets isMine)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @returns {Object} 200 - Discussion
+ * @returns {Array<Object>} 200.comments - Top-level comments
+ * @returns {number} 200.comments[].id - Comment ID
+ * @returns {Object|null} 200.comments[].author - Public profile { handle, displayName, avatarUrl }, null when deleted
+ * @returns {string|null} 200.comments[].body - Text, null when deleted
+ * @returns {string} 200.comments[].createdAt - ISO timestamp
+ * @returns {string|null} 200.comments[].updatedAt - ISO timestamp of the last edit
+ * @returns {boolean} 200.comments[].isDeleted - Whether this is a deleted placeholder
+ * @returns {boolean} 200.comments[].isMine - Whether the caller wrote it
+ * @returns {Array<Object>} 200.comments[].replies - Replies, same shape (without replies)
+ * @returns {number} 200.total - Number of comments that are not deleted
+ * @returns {Object} 400 - Invalid file ID
+ * @returns {Object} 401 - File is not public and no token, grant or share link was sent
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Response (200)
+ * {
+ *   "comments": [
+ *     {
+ *       "id": 7,
+ *       "parentId": null,
+ *       "author": { "handle": "jdoe", "displayName": "Jane Doe", "avatarUrl": null },
+ *       "body": "Why does question 3 use a hash map?",
+ *       "createdAt": "2024-01-16T09:12:00.000Z",
+ *       "updatedAt": null,
+ *       "isDeleted": false,
+ *       "isMine": false,
+ *       "replies": [
+ *         { "id": 9, "parentId": 7, "author": { "handle": "ta-kim", "displayName": "Sam Kim", "avatarUrl": null }, "body": "Lookups are O(1).", ... }
+ *       ]
+ *     }
+ *   ],
+ *   "total": 2
+ * }
+ */
+app.get('/api/files/:id/comments', optionalAuth, requireFileAccess, async (req, res) => {
+  try {
+    const { fileId } = parseCommentParams(req.params);
+    if (fileId === null) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+    if (!(await findStoredFile(fileId))) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+
+    const rows = await db.all(
+      `${COMMENT_SELECT} WHERE fc.fileId = ?
+       ORDER BY fc.createdAt ASC, fc.id ASC`,
+      [fileId.toString()]
+    );
+
+    const comments = [];
+    const byId = new Map();
+    for (const row of rows.filter(row => !row.parentId)) {
+      const comment = { ...formatComment(row, req.user), replies: [] };
+      byId.set(row.id, comment);
+      comments.push(comment);
+    }
+    for (const row of rows.filter(row => row.parentId)) {
+      const parent = byId.get(row.parentId);
+      if (parent) {
+        parent.replies.push(formatComment(row, req.user));
+      }
+    }
+
+    return res.json({
+      comments,
+      total: rows.filter(row => !row.deletedAt).length,
+    });
+  } catch (err) {
+    console.error('GET /api/files/:id/comments failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Comment on a file, or reply to a comment.
+ * 
+ * Threads are one level deep: replying to a reply adds the new comment to the same
+ * thread (its parentId is the top-level comment).
+ * 
+ * @route POST /api/files/:id/comments
+ * @access Private (requires JWT token)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @param {string} req.body.body - Comment text (1-5000 characters)
+ * @param {number} [req.body.parentId] - Comment being replied to
+ * @returns {Object} 201 - The new comment (same shape as in GET /api/files/:id/comments)
+ * @returns {Object} 400 - Invalid file ID, empty or too long body, or invalid parentId
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File or parent comment not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/files/456/comments
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "body": "Lookups are O(1).", "parentId": 7 }
+ */
+app.post('/api/files/:id/comments', authenticateToken, requireFileAccess, async (req, res) => {
+  try {
+    const { fileId } = parseCommentParams(req.params);
+    if (fileId === null) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+    const { body, parentId } = req.body || {};
+    const text = cleanCommentBody(body);
+    if (!text) {
+      return res.status(400).json({ error: `comment must be 1-${MAX_COMMENT_LENGTH} characters` });
+    }
+    if (!(await findStoredFile(fileId))) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+
+    let threadId = null;
+    if (parentId !== undefined && parentId !== null) {
+      const parentIdNum = Number(parentId);
+      if (!Number.isInteger(parentIdNum) || parentIdNum <= 0) {
+        return res.status(400).json({ error: 'invalid parentId' });
+      }
+      const parent = await findComment(fileId, parentIdNum);
+      if (!parent) {
+        return res.status(404).json({ error: 'comment not found' });
+      }
+      threadId = parent.parentId || parent.id;
+    }
+
+    const createdAt = new Date();
+    const result = await db.run(
+      'INSERT INTO file_comments (fileId, parentId, authorId, body, createdAt) VALUES (?, ?, ?, ?, ?)',
+      [fileId.toString(), threadId, req.user.id, text, createdAt]
+    );
+    const comment = formatComment(await findComment(fileId, result.insertId || result.lastInsertRowid), req.user);
+    return res.status(201).json(threadId ? comment : { ...comment, replies: [] });
+  } catch (err) {
+    console.error('POST /api/files/:id/comments failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Edit your own comment.
+ * 
+ * @route PATCH /api/files/:id/comments/:commentId
+ * @access Private (requires JWT token, author only)
+ * @param {string} req.params.id - File ID
+ * @param {string} req.params.commentId - Comment ID
+ * @param {string} req.body.body - New text (1-5000 characters)
+ * @returns {Object} 200 - The updated comment, with updatedAt set
+ * @returns {Object} 400 - Invalid IDs, or empty or too long body
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the author
+ * @returns {Object} 404 - Comment not found (or deleted)
+ * @returns {Object} 500 - Internal server error
+ */
+app.patch('/api/files/:id/comments/:commentId', authenticateToken, async (req, res) => {
+  try {
+    const { fileId, commentId } = parseCommentParams(req.params);
+    if (fileId === null || commentId === null) {
+      return res.status(400).json({ error: 'invalid file or comment id' });
+    }
+    const text = cleanCommentBody((req.body || {}).body);
+    if (!text) {
+      return res.status(400).json({ error: `comment must be 1-${MAX_COMMENT_LENGTH} characters` });
+    }
+
+    const comment = await findComment(fileId, commentId);
+    if (!comment || comment.deletedAt) {
+      return res.status(404).json({ error: 'comment not found' });
+    }
+    if (comment.authorId !== req.user.id) {
+      return res.status(403).json({ error: 'you can only edit your own comments' });
+    }
+
+    const updatedAt = new Date();
+    await db.run(
+      'UPDATE file_comments SET body = ?, updatedAt = ? WHERE id = ?',
+      [text, updatedAt, commentId]
+    );
+    return res.json(formatComment({ ...comment, body: text, updatedAt }, req.user));
+  } catch (err) {
+    console.error('PATCH /api/files/:id/comments/:commentId failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Delete your own comment.
+ * 
+ * A top-level comment that has replies becomes a placeholder so the replies keep their
+ * context; it disappears once its last reply is deleted.
+ * 
+ * @route DELETE /api/files/:id/comments/:commentId
+ * @access Private (requires JWT token, author only)
+ * @param {string} req.params.id - File ID
+ * @param {string} req.params.commentId - Comment ID
+ * @returns {void} 204 - Deleted
+ * @returns {Object} 400 - Invalid IDs
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not the author
+ * @returns {Object} 404 - Comment not found (or already deleted)
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/files/:id/comments/:commentId', authenticateToken, async (req, res) => {
+  try {
+    const { fileId, commentId } = parseCommentParams(req.params);
+    if (fileId === null || commentId === null) {
+      return res.status(400).json({ error: 'invalid file or comment id' });
+    }
+
+    const comment = await findComment(fileId, commentId);
+    if (!comment || comment.deletedAt) {
+      return res.status(404).json({ error: 'comment not found' });
+    }
+    if (comment.authorId !== req.user.id) {
+      return res.status(403).json({ error: 'you can only delete your own comments' });
+    }
+
+    if (!comment.parentId) {
+      const [{ replyCount }] = await db.all(
+        'SELECT COUNT(*) AS replyCount FROM file_comments WHERE parentId = ?',
+        [commentId]
+      );
+      if (Number(replyCount) > 0) {
+        await db.run(
+          "UPDATE file_comments SET body = '', deletedAt = ? WHERE id = ?",
+          [new Date(), commentId]
+        );
+        return res.status(204).end();
+      }
+    }
+
+    await db.run('DELETE FROM file_comments WHERE id = ?', [commentId]);
+
+    // A placeholder with nothing left under it has no reason to stay
+    if (comment.parentId) {
+      const [{ replyCount }] = await db.all(
+        'SELECT COUNT(*) AS replyCount FROM file_comments WHERE parentId = ?',
+        [comment.parentId]
+      );
+      if (Number(replyCount) === 0) {
+        await db.run(
+          'DELETE FROM file_comments WHERE id = ? AND deletedAt IS NOT NULL',
+          [comment.parentId]
+        );
+      }
+    }
+    return res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/files/:id/comments/:commentId failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- Votes ---
+/**
+ * Vote totals for one file, plus the caller's own vote.
+ * 
+ * @param {number} fileId - File ID
+ * @param {string} userId - Caller's user ID
+ * @returns {Promise<Object>} { score, upvotes, downvotes, myVote }
+ */
+async function voteSummary(fileId, userId) {
+  const rows = await db.all(
+    `SELECT
+       COALESCE(SUM(value), 0) AS score,
+       COALESCE(SUM(value = 1), 0) AS upvotes,
+       COALESCE(SUM(value = -1), 0) AS downvotes,
+       COALESCE(MAX(CASE WHEN userId = ? THEN value END), 0) AS myVote
+     FROM file_votes WHERE fileId = ?`,
+    [userId, fileId.toString()]
+  );
+  const row = rows[0] || {};
+  return {
+    score: Number(row.score || 0),
+    upvotes: Number(row.upvotes || 0),
+    downvotes: Number(row.downvotes || 0),
+    myVote: Number(row.myVote || 0),
+  };
+}
+
+/**
+ * Upvote or downvote a file.
+ * 
+ * Each user has one vote per file; voting again replaces it. Owners cannot vote on
+ * their own files.
+ * 
+ * @route PUT /api/files/:id/vote
+ * @access Private (requires JWT token)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @param {number} req.body.value - 1 (upvote) or -1 (downvote)
+ * @returns {Object} 200 - { score, upvotes, downvotes, myVote } after the vote
+ * @returns {Object} 400 - Invalid file ID or value
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Voting on your own file, or a class-only file the caller is not enrolled in
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * PUT /api/files/456/vote
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "value": 1 }
+ * 
+ * // Response (200)
+ * { "score": 6, "upvotes": 7, "downvotes": 1, "myVote": 1 }
+ */
+app.put('/api/files/:id/vote', authenticateToken, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+    const value = Number((req.body || {}).value);
+    if (value !== 1 && value !== -1) {
+      return res.status(400).json({ error: 'value must be 1 or -1' });
+    }
+
+    const ownerRows = await db.all('SELECT ownerID FROM Note_Files WHERE fileID = ?', [id.toString()]);
+    if (ownerRows.length === 0) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+    if (ownerRows[0].ownerID === req.user.id) {
+      return res.status(403).json({ error: 'you cannot vote on your own file' });
+    }
+
+    await db.run(
+      `INSERT INTO file_votes (userId, fileId, value, createdAt) VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE value = VALUES(value), createdAt = VALUES(createdAt)`,
+      [req.user.id, id.toString(), value, new Date()]
+    );
+    return res.json(await voteSummary(id, req.user.id));
+  } catch (err) {
+    console.error('PUT /api/files/:id/vote failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Remove your vote from a file.
+ * 
+ * Answers with the new totals (rather than 204) so the client can update its counts.
+ * Removing a vote that does not exist is not an error.
+ * 
+ * @route DELETE /api/files/:id/vote
+ * @access Private (requires JWT token)
+ * @param {string} req.params.id - File ID
+ * @returns {Object} 200 - { score, upvotes, downvotes, myVote: 0 }
+ * @returns {Object} 400 - Invalid file ID
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/files/:id/vote', authenticateToken, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    await db.run('DELETE FROM file_votes WHERE userId = ? AND fileId = ?', [req.user.id, id.toString()]);
+    return res.json(await voteSummary(id, req.user.id));
+  } catch (err) {
+    console.error('DELETE /api/files/:id/vote failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Bookmark a file for the authenticated user.
+ * 
+ * Adds a file to the user's bookmarks list. Each user can bookmark a file only once.
+ * Requires JWT authentication. Returns error if file is already bookmarked.
+ * 
+ * @route POST /api/files/:id/bookmark
+ * @access Private (requires JWT token)
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - File ID to bookmark (must be positive integer)
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @param {Object} req.user - User information from JWT
+ * @param {string} req.user.id - User ID
+ * @returns {Object} 201 - File bookmarked successfully
+ * @returns {string} 201.message - Success message
+ * @returns {number} 201.fileId - Bookmarked file ID
+ * @returns {Object} 400 - Invalid file ID format
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 409 - File already bookmarked
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/files/456/bookmark
+ * Headers: { "Authorization": "Bearer <token>" }
+ * 
+ * // Response (201)
+ * {
+ *   "message": "File bookmarked successfully",
+ *   "fileId": 456
+ * }
+ * 
+ * @since 1.0.0
+ */
+app.post('/api/files/:id/bookmark', authenticateToken, requireFileAccess, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const userId = req.user.id;
+
+    // Check if already bookmarked
+    const existingBookmark = await db.all(
+      'SELECT id FROM bookmarks WHERE userId = ? AND fileId = ?',
+      [userId, id.toString()]
+    );
+
+    if (existingBookmark.length > 0) {
+      return res.status(409).json({ error: 'file already bookmarked' });
+    }
+
+    // Add bookmark
+    await db.run(
+      'INSERT INTO bookmarks (userId, fileId) VALUES (?, ?)',
+      [userId, id.toString()]
+    );
+
+    return res.status(201).json({ 
+      message: 'File bookmarked successfully',
+      fileId: id
+    });
+  } catch (err) {
+    console.error('POST /api/files/:id/bookmark failed:', err);
+    // Handle duplicate bookmark error
+    if (err.code === 'ER_DUP_ENTRY' || err.errno === 1062) {
+      return res.status(409).json({ error: 'file already bookmarked' });
+    }
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Remove a file from the user's bookmarks.
+ * 
+ * Removes a bookmark association between the authenticated user and a file.
+ * Requires JWT authentication. Returns 404 if bookmark doesn't exist.
+ * 
+ * @route DELETE /api/files/:id/bookmark
+ * @access Private (requires JWT token)
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - File ID to unbookmark (must be positive integer)
+ * @param {Object} req.user - User information from JWT
+ * @param {string} req.user.id - User ID
+ * @returns {void} 204 - Bookmark removed successfully (no content)
+ * @returns {Object} 400 - Invalid file ID format
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 404 - Bookmark not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * DELETE /api/files/456/bookmark
+ * Headers: { "Authorization": "Bearer <token>" }
+ * 
+ * // Response (204 No Content)
+ * 
+ * @since 1.0.0
+ */
+app.delete('/api/files/:id/bookmark', authenticateToken, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+
+    const userId = req.user.id;
+
+    // Remove bookmark
+    const info = await db.run(
+      'DELETE FROM bookmarks WHERE userId = ? AND fileId = ?',
+      [userId, id.toString()]
+    );
+
+    if (info.changes === 0 && !info.affectedRows) {
+      return res.status(404).json({ error: 'bookmark not found' });
+    }
+
+    return res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/files/:id/bookmark failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * List all notes with optional course filtering.
+ * 
+ * Returns all notes from the notes table. Supports optional filtering by course.
+ * Results are ordered by ID in descending order (newest first). This endpoint is publicly accessible.
+ * 
+ * @route GET /api/notes
+ * @access Public
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.course] - Filter notes by course code
+ * @returns {Array<Object>} 200 - Array of note objects
+ * @returns {number} 200[].id - Note ID
+ * @returns {string} 200[].title - Note title
+ * @returns {string} 200[].course - Course code
+ * @returns {string} 200[].content - Note content
+ * @returns {string} 200[].createdAt - ISO timestamp of creation
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/notes?course=CS370
+ * 
+ * // Response (200)
+ * [
+ *   {
+ *     "id": 1,
+ *     "title": "Lecture Notes",
+ *     "course": "CS370",
+ *     "content": "Note content...",
+ *     "createdAt": "2024-01-15T10:30:00.000Z"
+ *   }
+ * ]
+ * 
+ * @since 1.0.0
+ */
+app.get('/api/notes', async (req, res) => {
+  try {
+    const { course } = req.query;
+    const base =
+      'SELECT id, title, course, content, DATE_FORMAT(createdAt, "%Y-%m-%dT%H:%i:%s.%fZ") AS createdAt FROM notes';
+    const sql = course
+      ? `${base} WHERE course = ? ORDER BY id DESC`
+      : `${base} ORDER BY id DESC`;
+    const rows = await db.all(sql, course ? [course] : []);
+    res.json(rows);
+  } catch (err) {
+    console.error('GET /api/notes failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+/**
+ * Delete a note by its ID.
+ * 
+ * Permanently removes a note from the notes table. This action cannot be undone.
+ * This endpoint is publicly accessible.
+ * 
+ * @route DELETE /api/notes/:id
+ * @access Public
+ * @param {Object} req.params - Route parameters
+ * @param {string} req.params.id - Note ID (must be positive integer)
+ * @returns {void} 204 - Note deleted successfully (no content)
+ * @returns {Object} 400 - Invalid note ID format
+ * @returns {Object} 404 - Note not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * DELETE /api/notes/1
+ * 
+ * // Response (204 No Content)
+ * 
+ * @since 1.0.0
+ */
+app.delete('/api/notes/:id', async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid id' });
+    }
+    const info = await db.run('DELETE FROM notes WHERE id = ?', [id]);
+    if (info.changes === 0 && !info.affectedRows) {
+      return res.status(404).json({ error: 'not found' });
+    }
+    res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/notes/:id failed:', err);
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// --- Admin console ---
+// Account moderation, removing any file, the class catalogue and storage usage. Moderators and
+// admins reach these routes; role changes and the catalogue are admin-only. Role changes, bans
+// and file removals are recorded in moderation_log.
+
+const MAX_BAN_REASON_LENGTH = 255;
+const MAX_MODERATION_NOTE_LENGTH = 1000;
+
+/**
+ * Records a staff action in the moderation log (GET /api/admin/moderation-log).
+ * 
+ * @param {string} actorId - Email of the moderator or admin
+ * @param {string} action - role, ban, unban, hide, unhide, dismiss or delete
+ * @param {string} targetType - user or file
+ * @param {string|number} targetId - Account email or file ID
+ * @param {string|null} [note] - Reason or detail given with the action
+ * @returns {Promise<void>}
+ */
+async function logModeration(actorId, action, targetType, targetId, note = null) {
+  await db.run(
+    'INSERT INTO moderation_log (actorId, action, targetType, targetId, note, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+    [actorId, action, targetType, String(targetId), note || null, new Date()]
+  );
+}
+
+// Optional free-text note sent with a moderation action
+function parseModerationNote(body) {
+  const note = body?.note;
+  if (note === undefined || note === null) {
+    return { note: null };
+  }
+  if (typeof note !== 'string') {
+    return { error: 'note must be a string' };
+  }
+  if (note.trim().length > MAX_MODERATION_NOTE_LENGTH) {
+    return { error: `note must be at most ${MAX_MODERATION_NOTE_LENGTH} characters` };
+  }
+  return { note: note.trim() || null };
+}
+
+// Accounts with their public profile and what they have uploaded
+const ADMIN_USER_COLUMNS = `
+  u.${EMAIL_COL} AS email,
+  COALESCE(u.role, '${DEFAULT_ROLE}') AS role,
+  u.bannedAt,
+  u.banReason,
+  u.emailVerifiedAt,
+  up.handle,
+  up.displayName,
+  COALESCE(uc.uploadCount, 0) AS uploadCount,
+  COALESCE(uc.storageBytes, 0) AS storageBytes
+`;
+const ADMIN_USER_FROM = `
+  \`${USER_TABLE}\` u
+  LEFT JOIN user_profiles up ON up.userId = u.${EMAIL_COL}
+  LEFT JOIN (
+    SELECT ownerID, COUNT(*) AS uploadCount, SUM(CAST(COALESCE(size, '0') AS UNSIGNED)) AS storageBytes
+    FROM Note_Files
+    GROUP BY ownerID
+  ) uc ON uc.ownerID = u.${EMAIL_COL}
+`;
+// Same [SQL expression, direction] format as FILE_SORTS, ending on the unique email
+const ADMIN_USER_SORTS = {
+  email: [[`u.${EMAIL_COL}`, 'ASC']],
+  uploads: [['COALESCE(uc.uploadCount, 0)', 'DESC'], [`u.${EMAIL_COL}`, 'ASC']],
+  storage: [['COALESCE(uc.storageBytes, 0)', 'DESC'], [`u.${EMAIL_COL}`, 'ASC']],
+};
+
+// Request field -> classes column, with the longest value the column takes (null: units)
+const CLASS_FIELDS = {
+  subject: ['Subject1', 16],
+  catalog: ['Catalog1', 32],
+  title: ['Long_Title', 255],
+  csNumber: ['CS_Number', 32],
+  minUnits: ['Min_Units', null],
+  maxUnits: ['Max_Units', null],
+  compUnits: ['Comp_Units', null],
+};
+const REQUIRED_CLASS_FIELDS = ['subject', 'catalog', 'title'];
+const MAX_UNITS = 99.9;
+
+function formatAdminUser(row) {
+  return {
+    email: row.email,
+    role: row.role,
+    bannedAt: row.bannedAt ? new Date(row.bannedAt).toISOString() : null,
+    banReason: row.banReason || null,
+    emailVerified: Boolean(row.emailVerifiedAt),
+    handle: row.handle || null,
+    displayName: row.displayName || null,
+    uploadCount: Number(row.uploadCount),
+    storageBytes: Number(row.storageBytes),
+  };
+}
+
+async function findAdminUser(email) {
+  const rows = await db.all(
+    `SELECT ${ADMIN_USER_COLUMNS} FROM ${ADMIN_USER_FROM} WHERE u.${EMAIL_COL} = ?`,
+    [String(email).toLowerCase()]
+  );
+  return rows[0] || null;
+}
+
+// Moderators may only act on students; admins on anyone but themselves.
+function checkModerationTarget(req, target) {
+  if (target.email === req.user.id) {
+    return { status: 400, error: 'you cannot do this to your own account' };
+  }
+  if (req.user.role !== 'admin' && target.role !== DEFAULT_ROLE) {
+    return { status: 403, error: 'only admins can moderate staff accounts' };
+  }
+  return null;
+}
+
+/**
+ * Checks class catalogue fields from a request body.
+ * 
+ * @param {Object} body - Request body with subject, catalog, title, csNumber and the units
+ * @param {boolean} partial - Only the fields present are checked (PATCH); otherwise
+ *   subject, catalog and title are required
+ * @returns {Object} { error } for invalid input, otherwise { columns } mapping classes
+ *   columns to the values to store
+ */
+function parseClassFields(body, partial) {
+  const columns = {};
+  for (const [field, [column, maxLength]] of Object.entries(CLASS_FIELDS)) {
+    const value = body?.[field];
+    if (value === undefined) {
+      if (!partial && REQUIRED_CLASS_FIELDS.includes(field)) {
+        return { error: `${field} is required` };
+      }
+      continue;
+    }
+
+    if (maxLength === null) {
+      const units = value === null || value === '' ? null : Number(value);
+      if (units !== null && (!Number.isFinite(units) || units < 0 || units > MAX_UNITS)) {
+        return { error: `${field} must be a number from 0 to ${MAX_UNITS}` };
+      }
+      columns[column] = units;
+      continue;
+    }
+
+    const text = typeof value === 'string' ? value.trim() : value;
+    if (text === null || text === '') {
+      if (REQUIRED_CLASS_FIELDS.includes(field)) {
+        return { error: `${field} is required` };
+      }
+      columns[column] = null;
+      continue;
+    }
+    if (typeof text !== 'string' || text.length > maxLength) {
+      return { error: `${field} must be at most ${maxLength} characters` };
+    }
+    columns[column] = field === 'subject' ? text.toUpperCase() : text;
+  }
+  return { columns };
+}
+
+async function findClass(classId) {
+  const rows = await db.all(`SELECT ${CLASS_COLUMNS} FROM classes WHERE id = ?`, [classId]);
+  return rows[0] || null;
+}
+
+/**
+ * List accounts with their role, ban and uploads.
+ * 
+ * @route GET /api/admin/users
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} [req.query.search] - Part of an email, handle or display name
+ * @param {string} [req.query.role] - Only this role (student, moderator or admin)
+ * @param {string} [req.query.banned] - "true" for banned accounts only, "false" to leave them out
+ * @param {string} [req.query.sort] - email (default), uploads or storage
+ * @param {number} [req.query.limit] - Page size (default 24, max 100)
+ * @param {string} [req.query.cursor] - nextCursor from the previous page
+ * @returns {Object} 200 - { users, nextCursor, hasMore, total }
+ * @returns {Array<Object>} 200.users - { email, role, bannedAt, banReason, handle, displayName,
+ *   uploadCount, storageBytes }
+ * @returns {Object} 400 - Invalid role, sort, limit or cursor
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/admin/users?search=jdoe&limit=24
+ * Headers: { "Authorization": "Bearer <token>" }
+ * 
+ * // Response (200)
+ * {
+ *   "users": [
+ *     {
+ *       "email": "jdoe@university.edu",
+ *       "role": "student",
+ *       "bannedAt": null,
+ *       "banReason": null,
+ *       "emailVerified": true,
+ *       "handle": "jdoe",
+ *       "displayName": "Jane Doe",
+ *       "uploadCount": 12,
+ *       "storageBytes": 48230400
+ *     }
+ *   ],
+ *   "nextCursor": null,
+ *   "hasMore": false,
+ *   "total": 1
+ * }
+ */
+app.get('/api/admin/users', authenticateToken, requireModerator, async (req, res) => {
+  try {
+    const { search, role, banned } = req.query;
+    const page = parseFilePage(req.query, ADMIN_USER_SORTS, 'email');
+    if (page.error) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const conditions = [];
+    const params = [];
+    if (search && typeof search === 'string') {
+      conditions.push(`(u.${EMAIL_COL} LIKE ? OR up.handle LIKE ? OR up.displayName LIKE ?)`);
+      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+    if (role !== undefined) {
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
       }
+      conditions.push(`COALESCE(u.role, '${DEFAULT_ROLE}') = ?`);
+      params.push(role);
+    }
+    if (banned === 'true') {
+      conditions.push('u.bannedAt IS NOT NULL');
+    } else if (banned === 'false') {
+      conditions.push('u.bannedAt IS NULL');
+    }
+
+    // Always paged: the account list can be long
+    const result = await queryFilePage({
+      columns: ADMIN_USER_COLUMNS,
+      from: ADMIN_USER_FROM,
+      conditions,
+      params,
+      page: { ...page, paginated: true },
+    });
+    return res.json({
+      users: result.rows.map(formatAdminUser),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+      total: result.total,
+    });
+  } catch (err) {
+    console.error('GET /api/admin/users failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Change an account's role.
+ * 
+ * Takes effect on the account's next request; its current token keeps working.
+ * 
+ * @route PUT /api/admin/users/:email/role
+ * @access Admin (requires JWT token, admin role)
+ * @param {string} req.params.email - Account email
+ * @param {string} req.body.role - student, moderator or admin
+ * @returns {Object} 200 - The account (same shape as GET /api/admin/users items)
+ * @returns {Object} 400 - Invalid role, or your own account
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
+ * @returns {Object} 404 - Account not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * PUT /api/admin/users/jdoe%40university.edu/role
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "role": "moderator" }
+ */
+app.put('/api/admin/users/:email/role', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const role = req.body?.role;
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
+
+    const target = await findAdminUser(req.params.email);
+    if (!target) {
+      return res.status(404).json({ error: 'user not found' });
+    }
+    // Keeps the last admin from locking everyone out by demoting themselves
+    if (target.email === req.user.id) {
+      return res.status(400).json({ error: 'you cannot change your own role' });
+    }
+
+    await db.run(
+      `UPDATE \`${USER_TABLE}\` SET role = ? WHERE ${EMAIL_COL} = ?`,
+      [role, target.email]
+    );
+    await logModeration(req.user.id, 'role', 'user', target.email, `${target.role} -> ${role}`);
+    return res.json(formatAdminUser({ ...target, role }));
+  } catch (err) {
+    console.error('PUT /api/admin/users/:email/role failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Ban an account.
+ * 
+ * A banned account can't sign in, and its existing tokens stop working on the next request.
+ * Its uploads stay up; remove them separately if needed. Moderators can only ban students.
+ * Banning an already banned account updates the reason.
+ * 
+ * @route POST /api/admin/users/:email/ban
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} req.params.email - Account email
+ * @param {string} [req.body.reason] - Why (max 255 characters), shown to other staff
+ * @returns {Object} 200 - The account (same shape as GET /api/admin/users items)
+ * @returns {Object} 400 - Reason too long, or your own account
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin, or a moderator banning staff
+ * @returns {Object} 404 - Account not found
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/admin/users/jdoe%40university.edu/ban
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "reason": "Uploading copyrighted textbooks" }
+ */
+app.post('/api/admin/users/:email/ban', authenticateToken, requireModerator, async (req, res) => {
+  try {
+    const reason = req.body?.reason;
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'reason must be a string' });
+    }
+    const cleanReason = reason ? reason.trim() : '';
+    if (cleanReason.length > MAX_BAN_REASON_LENGTH) {
+      return res.status(400).json({ error: `reason must be at most ${MAX_BAN_REASON_LENGTH} characters` });
     }
 
-    if (conditions.length > 0) {
-      sql += ' WHERE ' + conditions.join(' AND ');
+    const target = await findAdminUser(req.params.email);
+    if (!target) {
+      return res.status(404).json({ error: 'user not found' });
+    }
+    const refusal = checkModerationTarget(req, target);
+    if (refusal) {
+      return res.status(refusal.status).json({ error: refusal.error });
     }
 
-    sql += ' ORDER BY i.id DESC';
-    
-    const rows = await db.all(sql, params);
+    const bannedAt = target.bannedAt || new Date();
+    await db.run(
+      `UPDATE \`${USER_TABLE}\` SET bannedAt = ?, banReason = ? WHERE ${EMAIL_COL} = ?`,
+      [bannedAt, cleanReason || null, target.email]
+    );
+    await logModeration(req.user.id, 'ban', 'user', target.email, cleanReason);
+    return res.json(formatAdminUser({ ...target, bannedAt, banReason: cleanReason }));
+  } catch (err) {
+    console.error('POST /api/admin/users/:email/ban failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
 
-    // Format response with class info
-    const formattedRows = rows.map(row => ({
-      id: row.id,
-      originalName: row.originalName,
-      size: row.size,
-      fileType: row.fileType,
-      uploadedAt: row.uploadedAt,
-      ownerId: row.ownerId || null,
-      class: row.classId ? {
-        id: Number(row.classId),
-        subject: row.subject,
-        catalog: row.catalog,
-        title: row.classTitle,
-        csNumber: row.csNumber
-      } : null
-    }));
+/**
+ * Lift a ban.
+ * 
+ * @route DELETE /api/admin/users/:email/ban
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} req.params.email - Account email
+ * @returns {Object} 200 - The account (same shape as GET /api/admin/users items)
+ * @returns {Object} 400 - Your own account
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin, or a moderator unbanning staff
+ * @returns {Object} 404 - Account not found
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/admin/users/:email/ban', authenticateToken, requireModerator, async (req, res) => {
+  try {
+    const target = await findAdminUser(req.params.email);
+    if (!target) {
+      return res.status(404).json({ error: 'user not found' });
+    }
+    const refusal = checkModerationTarget(req, target);
+    if (refusal) {
+      return res.status(refusal.status).json({ error: refusal.error });
+    }
 
-    return res.json(formattedRows);
+    await db.run(
+      `UPDATE \`${USER_TABLE}\` SET bannedAt = NULL, banReason = NULL WHERE ${EMAIL_COL} = ?`,
+      [target.email]
+    );
+    await logModeration(req.user.id, 'unban', 'user', target.email);
+    return res.json(formatAdminUser({ ...target, bannedAt: null, banReason: null }));
   } catch (err) {
-    console.error('GET /api/files failed:', err);
+    console.error('DELETE /api/admin/users/:email/ban failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * Get list of available classes with optional search and subject filtering.
+ * Remove any file, whoever uploaded it.
  * 
- * Returns all classes from the classes table. Supports searching by class name,
- * CS number, or subject+catalog combination. Also supports filtering by subject code.
- * This endpoint is publicly accessible.
+ * Same as the owner deleting it (DELETE /api/files/:id): the file, its history, comments,
+ * votes, bookmarks and share links are gone for good. Its reports stay, with the open ones
+ * marked actioned, so GET /api/admin/files/:id/reports still shows why it was removed; the
+ * moderation log keeps a record with the file's name.
  * 
- * @route GET /api/classes
- * @access Public
- * @param {Object} req.query - Query parameters
- * @param {string} [req.query.search] - Search term to filter classes by name, CS number, or subject+catalog
- * @param {string} [req.query.subject] - Filter classes by subject code (e.g., "CS", "MATH")
- * @returns {Array<Object>} 200 - Array of class objects
- * @returns {number} 200[].id - Class ID
- * @returns {string} 200[].subject - Subject code (e.g., "CS")
- * @returns {string} 200[].catalog - Catalog number (e.g., "370")
- * @returns {string} 200[].title - Full class title
- * @returns {string} 200[].csNumber - CS course number
- * @returns {number} 200[].minUnits - Minimum units
- * @returns {number} 200[].maxUnits - Maximum units
- * @returns {number} 200[].compUnits - Completion units
+ * @route DELETE /api/admin/files/:id
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.body.note] - Why (max 1000 characters), kept in the moderation log
+ * @returns {void} 204 - File removed
+ * @returns {Object} 400 - Invalid file ID or note
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/admin/files/:id', authenticateToken, requireModerator, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'invalid file id' });
+    }
+    const { note, error } = parseModerationNote(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const file = await findStoredFile(id);
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+
+    await resolveReports(id, 'actioned', req.user.id);
+    await removeFile(file, { keepReports: true });
+    // The file is gone, so keep its name with the entry
+    await logModeration(req.user.id, 'delete', 'file', id, note ? `${file.image_name}: ${note}` : file.image_name);
+    return res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/admin/files/:id failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Add a class to the catalogue.
+ * 
+ * @route POST /api/admin/classes
+ * @access Admin (requires JWT token, admin role)
+ * @param {string} req.body.subject - Subject code (max 16 characters, stored upper case)
+ * @param {string} req.body.catalog - Catalog number (max 32 characters)
+ * @param {string} req.body.title - Full title (max 255 characters)
+ * @param {string} [req.body.csNumber] - CS course number (max 32 characters)
+ * @param {number} [req.body.minUnits] - Minimum units
+ * @param {number} [req.body.maxUnits] - Maximum units
+ * @param {number} [req.body.compUnits] - Completion units
+ * @returns {Object} 201 - The class (same shape as GET /api/classes items)
+ * @returns {Object} 400 - Missing or invalid field
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
+ * @returns {Object} 409 - The catalogue already has that subject and catalog number
  * @returns {Object} 500 - Internal server error
  * 
  * @example
  * // Request
- * GET /api/classes?search=CS370&subject=CS
- * 
- * // Response (200)
- * [
- *   {
- *     "id": 123,
- *     "subject": "CS",
- *     "catalog": "370",
- *     "title": "Software Engineering",
- *     "csNumber": "CS370",
- *     "minUnits": 3.0,
- *     "maxUnits": 3.0,
- *     "compUnits": 3.0
- *   }
- * ]
- * 
- * @since 1.0.0
+ * POST /api/admin/classes
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "subject": "CS", "catalog": "375", "title": "Compilers", "minUnits": 3, "maxUnits": 3 }
  */
-app.get('/api/classes', async (req, res) => {
+app.post('/api/admin/classes', authenticateToken, requireAdmin, async (req, res) => {
   try {
-    const { search, subject } = req.query;
-    
-    let sql = `
-      SELECT 
-        id,
-        Subject1 AS subject,
-        Catalog1 AS catalog,
-        Long_Title AS title,
-        CS_Number AS csNumber,
-        Min_Units AS minUnits,
-        Max_Units AS maxUnits,
-        Comp_Units AS compUnits
-      FROM classes
-    `;
-    
-    const params = [];
-    const conditions = [];
-
-    if (search && typeof search === 'string') {
-      conditions.push('(Long_Title LIKE ? OR CS_Number LIKE ? OR CONCAT(Subject1, Catalog1) LIKE ?)');
-      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    const { columns, error } = parseClassFields(req.body, false);
+    if (error) {
+      return res.status(400).json({ error });
     }
 
-    if (subject && typeof subject === 'string') {
-      conditions.push('Subject1 = ?');
-      params.push(subject.toUpperCase());
+    const existing = await db.all(
+      'SELECT id FROM classes WHERE Subject1 = ? AND Catalog1 = ?',
+      [columns.Subject1, columns.Catalog1]
+    );
+    if (existing.length > 0) {
+      return res.status(409).json({ error: 'class already exists' });
     }
 
-    if (conditions.length > 0) {
-      sql += ' WHERE ' + conditions.join(' AND ');
-    }
+    const names = Object.keys(columns);
+    const result = await db.run(
+      `INSERT INTO classes (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`,
+      names.map(name => columns[name])
+    );
+    return res.status(201).json(await findClass(result.insertId || result.lastInsertRowid));
+  } catch (err) {
+    console.error('POST /api/admin/classes failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
 
-    sql += ' ORDER BY Subject1, Catalog1';
+/**
+ * Edit a catalogue class. Only the fields present in the body change.
+ * 
+ * @route PATCH /api/admin/classes/:id
+ * @access Admin (requires JWT token, admin role)
+ * @param {string} req.params.id - Class ID
+ * @param {Object} req.body - Any of the POST /api/admin/classes fields; csNumber and the units
+ *   can be cleared with null
+ * @returns {Object} 200 - The updated class (same shape as GET /api/classes items)
+ * @returns {Object} 400 - Invalid class ID or field, or nothing to update
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
+ * @returns {Object} 404 - Class not found
+ * @returns {Object} 409 - Another class has that subject and catalog number
+ * @returns {Object} 500 - Internal server error
+ */
+app.patch('/api/admin/classes/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const classId = Number(req.params.id);
+    if (!Number.isInteger(classId) || classId <= 0) {
+      return res.status(400).json({ error: 'invalid class id' });
+    }
+    const { columns, error } = parseClassFields(req.body, true);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const names = Object.keys(columns);
+    if (names.length === 0) {
+      return res.status(400).json({ error: 'nothing to update' });
+    }
 
-    const rows = await db.all(sql, params);
+    const current = await findClass(classId);
+    if (!current) {
+      return res.status(404).json({ error: 'class not found' });
+    }
+    if (columns.Subject1 !== undefined || columns.Catalog1 !== undefined) {
+      const clash = await db.all(
+        'SELECT id FROM classes WHERE Subject1 = ? AND Catalog1 = ? AND id <> ?',
+        [columns.Subject1 ?? current.subject, columns.Catalog1 ?? current.catalog, classId]
+      );
+      if (clash.length > 0) {
+        return res.status(409).json({ error: 'class already exists' });
+      }
+    }
 
-    return res.json(rows);
+    await db.run(
+      `UPDATE classes SET ${names.map(name => `${name} = ?`).join(', ')} WHERE id = ?`,
+      [...names.map(name => columns[name]), classId]
+    );
+    return res.json(await findClass(classId));
   } catch (err) {
-    console.error('GET /api/classes failed:', err);
+    console.error('PATCH /api/admin/classes/:id failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
-app.get('/api/files/bookmarks', authenticateToken, async (req, res) => {
+/**
+ * Remove a class from the catalogue.
+ * 
+ * Only classes no file is filed under can be removed; move or remove those files first.
+ * Enrollments and offerings of the class go with it.
+ * 
+ * @route DELETE /api/admin/classes/:id
+ * @access Admin (requires JWT token, admin role)
+ * @param {string} req.params.id - Class ID
+ * @returns {void} 204 - Class removed
+ * @returns {Object} 400 - Invalid class ID
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
+ * @returns {Object} 404 - Class not found
+ * @returns {Object} 409 - Files are still filed under the class
+ * @returns {Object} 500 - Internal server error
+ */
+app.delete('/api/admin/classes/:id', authenticateToken, requireAdmin, async (req, res) => {
   try {
-    const userId = req.user.id;
-
-    const sql = `
-      SELECT 
-        i.id,
-        i.image_name AS originalName,
-        COALESCE(nf.size, '0') AS size,
-        COALESCE(nf.fileType, 'application/octet-stream') AS fileType,
-        COALESCE(nf.LastUpdated, DATE_FORMAT(NOW(), '%Y-%m-%dT%H:%i:%s.%fZ')) AS uploadedAt,
-        b.createdAt AS bookmarkedAt,
-        c.id AS classId,
-        c.Subject1 AS subject,
-        c.Catalog1 AS catalog,
-        c.Long_Title AS classTitle,
-        c.CS_Number AS csNumber
-      FROM bookmarks b
-      INNER JOIN image_store i ON CAST(i.id AS CHAR) = b.fileId
-      LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
-      LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
-      WHERE b.userId = ?
-      ORDER BY b.createdAt DESC
-    `;
-
-    const rows = await db.all(sql, [userId]);
+    const classId = Number(req.params.id);
+    if (!Number.isInteger(classId) || classId <= 0) {
+      return res.status(400).json({ error: 'invalid class id' });
+    }
+    if (!(await findClass(classId))) {
+      return res.status(404).json({ error: 'class not found' });
+    }
 
-    const formattedRows = rows.map(row => ({
-      id: row.id,
-      originalName: row.originalName,
-      size: row.size,
-      fileType: row.fileType,
-      uploadedAt: row.uploadedAt,
-      bookmarkedAt: row.bookmarkedAt,
-      class: row.classId ? {
-        id: Number(row.classId),
-        subject: row.subject,
-        catalog: row.catalog,
-        title: row.classTitle,
-        csNumber: row.csNumber
-      } : null
-    }));
+    const files = await db.all('SELECT COUNT(*) AS total FROM Note_Files WHERE classId = ?', [classId.toString()]);
+    if (Number(files[0]?.total || 0) > 0) {
+      return res.status(409).json({ error: 'class still has files' });
+    }
 
-    return res.json(formattedRows);
+    await db.run('DELETE FROM class_enrollments WHERE classId = ?', [classId]);
+    await db.run('DELETE FROM class_offerings WHERE classId = ?', [classId]);
+    await db.run('DELETE FROM classes WHERE id = ?', [classId]);
+    return res.status(204).end();
   } catch (err) {
-    console.error('GET /api/files/bookmarks failed:', err);
+    console.error('DELETE /api/admin/classes/:id failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * Get all files uploaded by the authenticated user.
+ * Storage usage: how many files there are, how much the storage backend holds, and by
+ * file type and uploader.
  * 
- * Returns a list of all files uploaded by the current user. Requires JWT authentication.
- * Files are returned with their metadata including class information if associated.
+ * stored counts every object once, including older versions, so it is what the backend
+ * actually keeps; files.bytes only counts each file's current version.
  * 
- * @route GET /api/files/my-uploads
- * @access Private (requires JWT token)
- * @returns {Array<Object>} 200 - Array of file objects
- * @returns {number} 200[].id - File ID
- * @returns {string} 200[].originalName - Original filename
- * @returns {string} 200[].size - File size as string
- * @returns {string} 200[].fileType - MIME type
- * @returns {string} 200[].uploadedAt - ISO timestamp of upload
- * @returns {Object|null} 200[].class - Class information if file is associated with a class
+ * @route GET /api/admin/storage
+ * @access Admin (requires JWT token, admin role)
+ * @returns {Object} 200 - Usage summary
+ * @returns {string} 200.driver - Storage backend (local or s3)
+ * @returns {Object} 200.files - { count, bytes } of current versions
+ * @returns {Object} 200.stored - { objects, bytes } across all versions
+ * @returns {Array<Object>} 200.byType - Ten largest types: { fileType, count, bytes }
+ * @returns {Array<Object>} 200.topUploaders - Ten largest uploaders: { email, handle, displayName, count, bytes }
  * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not an admin
  * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Response (200)
+ * {
+ *   "driver": "s3",
+ *   "files": { "count": 1520, "bytes": 3221225472 },
+ *   "stored": { "objects": 1688, "bytes": 3543348019 },
+ *   "byType": [{ "fileType": "application/pdf", "count": 1204, "bytes": 2899102924 }],
+ *   "topUploaders": [
+ *     { "email": "jdoe@university.edu", "handle": "jdoe", "displayName": "Jane Doe", "count": 84, "bytes": 268435456 }
+ *   ]
+ * }
  */
-app.get('/api/files/my-uploads', authenticateToken, async (req, res) => {
+app.get('/api/admin/storage', authenticateToken, requireAdmin, async (_req, res) => {
   try {
-    const userId = req.user.id;
-
-    const sql = `
-      SELECT 
-        i.id,
-        i.image_name AS originalName,
-        COALESCE(nf.size, '0') AS size,
-        COALESCE(nf.fileType, 'application/octet-stream') AS fileType,
-        COALESCE(nf.LastUpdated, DATE_FORMAT(NOW(), '%Y-%m-%dT%H:%i:%s.%fZ')) AS uploadedAt,
-        nf.ownerID AS ownerId,
-        c.id AS classId,
-        c.Subject1 AS subject,
-        c.Catalog1 AS catalog,
-        c.Long_Title AS classTitle,
-        c.CS_Number AS csNumber
-      FROM image_store i
-      INNER JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
-      LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
-      WHERE nf.ownerID = ?
-      ORDER BY nf.LastUpdated DESC
-    `;
-
-    const rows = await db.all(sql, [userId]);
-
-    const formattedRows = rows.map(row => ({
-      id: row.id,
-      originalName: row.originalName,
-      size: row.size,
-      fileType: row.fileType,
-      uploadedAt: row.uploadedAt,
-      ownerId: row.ownerId || null,
-      class: row.classId ? {
-        id: Number(row.classId),
-        subject: row.subject,
-        catalog: row.catalog,
-        title: row.classTitle,
-        csNumber: row.csNumber
-      } : null
-    }));
+    const fileSize = "CAST(COALESCE(size, '0') AS UNSIGNED)";
+    const totals = await db.all(
+      `SELECT COUNT(*) AS count, COALESCE(SUM(${fileSize}), 0) AS bytes FROM Note_Files`
+    );
+    // Restored versions point at an older version's object, so each key is counted once
+    const stored = await db.all(`
+      SELECT COUNT(*) AS objects, COALESCE(SUM(size), 0) AS bytes
+      FROM (
+        SELECT storage_key, MAX(size) AS size
+        FROM file_versions
+        WHERE storage_key IS NOT NULL
+        GROUP BY storage_key
+      ) objects
+    `);
+    const byType = await db.all(`
+      SELECT COALESCE(fileType, 'application/octet-stream') AS fileType, COUNT(*) AS count, SUM(${fileSize}) AS bytes
+      FROM Note_Files
+      GROUP BY COALESCE(fileType, 'application/octet-stream')
+      ORDER BY bytes DESC
+      LIMIT 10
+    `);
+    const topUploaders = await db.all(`
+      SELECT nf.ownerID AS email, up.handle, up.displayName, COUNT(*) AS count, SUM(CAST(COALESCE(nf.size, '0') AS UNSIGNED)) AS bytes
+      FROM Note_Files nf
+      LEFT JOIN user_profiles up ON up.userId = nf.ownerID
+      GROUP BY nf.ownerID, up.handle, up.displayName
+      ORDER BY bytes DESC
+      LIMIT 10
+    `);
 
-    return res.json(formattedRows);
+    return res.json({
+      driver: storage.driver,
+      files: { count: Number(totals[0].count), bytes: Number(totals[0].bytes) },
+      stored: { objects: Number(stored[0].objects), bytes: Number(stored[0].bytes) },
+      byType: byType.map(row => ({ fileType: row.fileType, count: Number(row.count), bytes: Number(row.bytes) })),
+      topUploaders: topUploaders.map(row => ({
+        email: row.email,
+        handle: row.handle || null,
+        displayName: row.displayName || null,
+        count: Number(row.count),
+        bytes: Number(row.bytes),
+      })),
+    });
   } catch (err) {
-    console.error('GET /api/files/my-uploads failed:', err);
+    console.error('GET /api/admin/storage failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
+// --- Content reports and the moderation queue ---
+// Any signed-in user can report a file once. Files with open reports wait in the queue until a
+// moderator dismisses the reports, hides the file or deletes it (DELETE /api/admin/files/:id).
+// A hidden file drops out of every listing and only its owner and staff can still open it.
+
+const REPORT_REASONS = ['copyright', 'exam', 'offensive', 'spam', 'other'];
+const REPORT_STATUSES = ['open', 'dismissed', 'actioned'];
+const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+const MODERATION_ACTIONS = ['role', 'ban', 'unban', 'hide', 'unhide', 'dismiss', 'delete'];
+const MODERATION_TARGET_TYPES = ['user', 'file'];
+
+// Queue entries: one per file with open reports, same [SQL expression, direction] format as FILE_SORTS
+const REPORT_QUEUE_SORTS = {
+  reports: [['r.reportCount', 'DESC'], ['i.id', 'ASC']],
+  oldest: [['r.firstReportId', 'ASC']],
+  newest: [['r.lastReportId', 'DESC']],
+};
+const MODERATION_LOG_SORTS = { newest: [['ml.id', 'DESC']] };
+
+const REPORT_COLUMNS = 'id, fileId, reporterId, reason, details, status, createdAt, resolvedBy, resolvedAt';
+
+function formatReport(row) {
+  return {
+    id: row.id,
+    fileId: Number(row.fileId),
+    reporterId: row.reporterId,
+    reason: row.reason,
+    details: row.details || null,
+    status: row.status,
+    createdAt: row.createdAt,
+    resolvedBy: row.resolvedBy || null,
+    resolvedAt: row.resolvedAt || null,
+  };
+}
+
+function formatModerationEntry(row) {
+  return {
+    id: row.id,
+    actorId: row.actorId,
+    action: row.action,
+    targetType: row.targetType,
+    targetId: row.targetId,
+    note: row.note || null,
+    createdAt: row.createdAt,
+  };
+}
+
+// Marks a file's open reports as handled by a moderator
+async function resolveReports(fileId, status, moderatorId) {
+  const result = await db.run(
+    `UPDATE file_reports SET status = ?, resolvedBy = ?, resolvedAt = ?
+     WHERE fileId = ? AND status = 'open'`,
+    [status, moderatorId, new Date(), fileId.toString()]
+  );
+  return result.changes || 0;
+}
+
+// Loads the Note_Files row a hide or unhide acts on
+async function findModeratedFile(fileId) {
+  const rows = await db.all(
+    'SELECT fileID AS id, ownerID AS ownerId, hiddenAt FROM Note_Files WHERE fileID = ?',
+    [fileId.toString()]
+  );
+  return rows[0] || null;
+}
+
 /**
- * Download a file by its ID.
+ * Report a file to the moderators.
  * 
- * Retrieves file binary data from the database and streams it to the client
- * with appropriate headers for file download. This endpoint is publicly accessible.
+ * Each user can report a file once; the report then waits in the moderation queue.
+ * You can't report your own file.
  * 
- * @route GET /api/files/:id
- * @access Public
- * @param {Object} req.params - Route parameters
- * @param {string} req.params.id - File ID (must be positive integer)
- * @returns {Buffer} 200 - File binary data
- * @returns {Object} 400 - Invalid file ID format
+ * @route POST /api/files/:id/reports
+ * @access Private (requires JWT token), subject to the file's visibility
+ * @param {string} req.params.id - File ID
+ * @param {string} req.body.reason - copyright, exam (a leaked or current exam), offensive, spam or other
+ * @param {string} [req.body.details] - What is wrong (max 1000 characters)
+ * @param {string} [req.query.grant] - Grant from a listing or meta response (files that aren't public)
+ * @param {string} [req.query.share] - Share link token
+ * @returns {Object} 201 - The report { id, fileId, reason, details, status, createdAt }
+ * @returns {Object} 400 - Invalid file ID, reason or details, or your own file
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Class-only file and the caller is not enrolled in the class
  * @returns {Object} 404 - File not found
+ * @returns {Object} 409 - You already reported this file
  * @returns {Object} 500 - Internal server error
  * 
  * @example
  * // Request
- * GET /api/files/456
- * 
- * // Response Headers
- * Content-Type: application/octet-stream
- * Content-Disposition: attachment; filename="assignment.pdf"
- * Content-Length: 524288
- * 
- * // Response Body: Binary file data
+ * POST /api/files/456/reports
+ * Headers: { "Authorization": "Bearer <token>" }
+ * Body: { "reason": "exam", "details": "This is this semester's midterm" }
  * 
- * @since 1.0.0
+ * // Response (201)
+ * {
+ *   "id": 12,
+ *   "fileId": 456,
+ *   "reason": "exam",
+ *   "details": "This is this semester's midterm",
+ *   "status": "open",
+ *   "createdAt": "2024-03-02T18:20:11.000Z"
+ * }
  */
-app.get('/api/files/:id', async (req, res) => {
+app.post('/api/files/:id/reports', authenticateToken, requireFileAccess, async (req, res) => {
   try {
     const id = Number(req.params.id);
-    if (!Number.isInteger(id) || id <= 0) {
-      return res.status(400).json({ error: 'invalid file id' });
+    const { reason, details } = req.body || {};
+    if (!REPORT_REASONS.includes(reason)) {
+      return res.status(400).json({ error: `reason must be one of: ${REPORT_REASONS.join(', ')}` });
+    }
+    if (details !== undefined && details !== null && typeof details !== 'string') {
+      return res.status(400).json({ error: 'details must be a string' });
+    }
+    const cleanDetails = details ? details.trim() : '';
+    if (cleanDetails.length > MAX_REPORT_DETAILS_LENGTH) {
+      return res.status(400).json({ error: `details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters` });
+    }
+    if (req.fileAccess.ownerId === req.user.id) {
+      return res.status(400).json({ error: 'you cannot report your own file' });
     }
 
-    const rows = await db.all(
-      'SELECT id, image_name, image_data FROM image_store WHERE id = ?',
-      [id]
+    const existing = await db.all(
+      'SELECT id FROM file_reports WHERE fileId = ? AND reporterId = ?',
+      [id.toString(), req.user.id]
     );
-
-    if (rows.length === 0) {
-      return res.status(404).json({ error: 'file not found' });
+    if (existing.length > 0) {
+      return res.status(409).json({ error: 'you already reported this file' });
     }
 
-    const file = rows[0];
-    
-    // Set appropriate headers for file download
-    res.setHeader('Content-Type', 'application/octet-stream');
-    res.setHeader('Content-Disposition', `attachment; filename="${file.image_name}"`);
-    res.setHeader('Content-Length', file.image_data.length);
+    const createdAt = new Date();
+    const result = await db.run(
+      `INSERT INTO file_reports (fileId, reporterId, reason, details, status, createdAt)
+       VALUES (?, ?, ?, ?, 'open', ?)`,
+      [id.toString(), req.user.id, reason, cleanDetails || null, createdAt]
+    );
 
-    return res.send(file.image_data);
+    return res.status(201).json({
+      id: result.insertId || result.lastInsertRowid,
+      fileId: id,
+      reason,
+      details: cleanDetails || null,
+      status: 'open',
+      createdAt: createdAt.toISOString(),
+    });
   } catch (err) {
-    console.error('GET /api/files/:id failed:', err);
+    console.error('POST /api/files/:id/reports failed:', err);
+    if (err.code === 'ER_DUP_ENTRY' || err.errno === 1062) {
+      return res.status(409).json({ error: 'you already reported this file' });
+    }
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * Get file preview (for inline display, not download).
+ * The moderation queue: files with open reports.
+ * 
+ * Each entry is the file (same shape as GET /api/files items, including hidden) plus how many
+ * open reports it has and their reasons. Always paged.
+ * 
+ * @route GET /api/admin/reports
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} [req.query.reason] - Only files with an open report for this reason
+ * @param {string} [req.query.sort] - reports (most reported, default), oldest or newest report
+ * @param {number} [req.query.limit] - Page size (default 24, max 100)
+ * @param {string} [req.query.cursor] - nextCursor from the previous page
+ * @returns {Object} 200 - { files, nextCursor, hasMore, total }
+ * @returns {number} 200.files[].reportCount - Open reports on the file
+ * @returns {Object} 200.files[].reasons - Open reports per reason, e.g. { "exam": 2 }
+ * @returns {string} 200.files[].firstReportedAt - When the oldest open report came in
+ * @returns {string} 200.files[].lastReportedAt - When the newest open report came in
+ * @returns {Object} 400 - Invalid reason, sort, limit or cursor
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin
+ * @returns {Object} 500 - Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/admin/reports?limit=24
+ * Headers: { "Authorization": "Bearer <token>" }
  * 
- * Similar to GET /api/files/:id but without Content-Disposition: attachment header,
- * allowing files to be displayed inline in browsers (e.g., PDFs in iframes, images in img tags).
+ * // Response (200)
+ * {
+ *   "files": [
+ *     {
+ *       "id": 456,
+ *       "originalName": "midterm-solutions.pdf",
+ *       "hidden": false,
+ *       "reportCount": 3,
+ *       "reasons": { "exam": 2, "copyright": 1 },
+ *       "firstReportedAt": "2024-03-02T18:20:11.000Z",
+ *       "lastReportedAt": "2024-03-03T09:02:45.000Z"
+ *     }
+ *   ],
+ *   "nextCursor": null,
+ *   "hasMore": false,
+ *   "total": 1
+ * }
+ */
+app.get('/api/admin/reports', authenticateToken, requireModerator, async (req, res) => {
+  try {
+    const { reason } = req.query;
+    if (reason !== undefined && !REPORT_REASONS.includes(reason)) {
+      return res.status(400).json({ error: `reason must be one of: ${REPORT_REASONS.join(', ')}` });
+    }
+    const page = parseFilePage(req.query, REPORT_QUEUE_SORTS, 'reports');
+    if (page.error) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const result = await queryFilePage({
+      columns: `${FILE_LIST_COLUMNS}, r.reportCount, r.firstReportedAt, r.lastReportedAt`,
+      from: `
+        (
+          SELECT fileId, COUNT(*) AS reportCount, MIN(id) AS firstReportId, MAX(id) AS lastReportId,
+            MIN(createdAt) AS firstReportedAt, MAX(createdAt) AS lastReportedAt
+          FROM file_reports
+          WHERE status = 'open'
+          GROUP BY fileId
+        ) r
+        INNER JOIN image_store i ON CAST(i.id AS CHAR) = r.fileId
+        LEFT JOIN Note_Files nf ON CAST(i.id AS CHAR) = nf.fileID
+        LEFT JOIN classes c ON nf.classId COLLATE utf8mb4_unicode_ci = CAST(c.id AS CHAR) COLLATE utf8mb4_unicode_ci
+        ${BOOKMARK_COUNT_JOIN}
+        ${VOTE_COUNT_JOIN}
+        ${OWNER_PROFILE_JOIN}
+        ${OFFERING_JOIN}
+      `,
+      conditions: reason
+        ? ["EXISTS (SELECT 1 FROM file_reports fr WHERE fr.fileId = r.fileId AND fr.status = 'open' AND fr.reason = ?)"]
+        : [],
+      params: reason ? [reason] : [],
+      page: { ...page, paginated: true },
+    });
+
+    // Reason breakdown for just this page of files
+    const reasons = {};
+    if (result.rows.length > 0) {
+      const fileIds = result.rows.map(row => row.id.toString());
+      const reasonRows = await db.all(
+        `SELECT fileId, reason, COUNT(*) AS total FROM file_reports
+         WHERE status = 'open' AND fileId IN (${fileIds.map(() => '?').join(', ')})
+         GROUP BY fileId, reason`,
+        fileIds
+      );
+      for (const row of reasonRows) {
+        reasons[row.fileId] = { ...reasons[row.fileId], [row.reason]: Number(row.total) };
+      }
+    }
+
+    return sendFilePage(res, result, row => ({
+      ...formatFileRow(row),
+      reportCount: Number(row.reportCount),
+      reasons: reasons[row.id.toString()] || {},
+      firstReportedAt: row.firstReportedAt,
+      lastReportedAt: row.lastReportedAt,
+    }));
+  } catch (err) {
+    console.error('GET /api/admin/reports failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * Every report on a file, open and resolved, with the moderation log entries about it.
  * 
- * @route GET /api/files/:id/preview
- * @access Public
- * @param {Object} req.params - Route parameters
- * @param {string} req.params.id - File ID (must be positive integer)
- * @returns {Buffer} 200 - File binary data with inline disposition
- * @returns {Object} 400 - Invalid file ID format
- * @returns {Object} 404 - File not found
+ * @route GET /api/admin/files/:id/reports
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.query.status] - Only reports with this status (open, dismissed or actioned)
+ * @returns {Object} 200 - { reports, history }
+ * @returns {Array<Object>} 200.reports - Newest first: { id, fileId, reporterId, reason, details,
+ *   status, createdAt, resolvedBy, resolvedAt }
+ * @returns {Array<Object>} 200.history - Moderation log entries for the file, newest first
+ * @returns {Object} 400 - Invalid file ID or status
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin
  * @returns {Object} 500 - Internal server error
- * 
- * @since 1.0.0
  */
-app.get('/api/files/:id/preview', async (req, res) => {
+app.get('/api/admin/files/:id/reports', authenticateToken, requireModerator, async (req, res) => {
   try {
     const id = Number(req.params.id);
     if (!Number.isInteger(id) || id <= 0) {
       return res.status(400).json({ error: 'invalid file id' });
     }
-
-    const rows = await db.all(
-      'SELECT id, image_name, image_data FROM image_store WHERE id = ?',
-      [id]
-    );
-
-    if (rows.length === 0) {
-      return res.status(404).json({ error: 'file not found' });
+    const { status } = req.query;
+    if (status !== undefined && !REPORT_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${REPORT_STATUSES.join(', ')}` });
     }
 
-    const file = rows[0];
-    
-    // Get file type from Note_Files if available
-    const fileMetaRows = await db.all(
-      'SELECT fileType FROM Note_Files WHERE fileID = ?',
+    const reports = await db.all(
+      `SELECT ${REPORT_COLUMNS} FROM file_reports
+       WHERE fileId = ?${status ? ' AND status = ?' : ''}
+       ORDER BY id DESC`,
+      status ? [id.toString(), status] : [id.toString()]
+    );
+    const history = await db.all(
+      `SELECT id, actorId, action, targetType, targetId, note, createdAt FROM moderation_log
+       WHERE targetType = 'file' AND targetId = ?
+       ORDER BY id DESC`,
       [id.toString()]
     );
-    const fileType = fileMetaRows.length > 0 && fileMetaRows[0].fileType 
-      ? fileMetaRows[0].fileType 
-      : 'application/octet-stream';
-    
-    // Set headers for inline display (no attachment header)
-    res.setHeader('Content-Type', fileType);
-    res.setHeader('Content-Length', file.image_data.length);
-    // No Content-Disposition header = inline display
 
-    return res.send(file.image_data);
+    return res.json({
+      reports: reports.map(formatReport),
+      history: history.map(formatModerationEntry),
+    });
   } catch (err) {
-    console.error('GET /api/files/:id/preview failed:', err);
+    console.error('GET /api/admin/files/:id/reports failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * Delete a file from the system (only file owner can delete).
- * 
- * Permanently removes a file from both image_store and Note_Files tables.
- * Also removes all bookmarks associated with the file. Only the file owner
- * (user who uploaded it) can delete the file. Requires JWT authentication.
+ * Dismiss a file's open reports: the file is fine and stays up.
  * 
- * @route DELETE /api/files/:id
- * @access Private (requires JWT token, owner only)
- * @param {Object} req.params - Route parameters
- * @param {string} req.params.id - File ID (must be positive integer)
- * @param {Object} req.user - User information from JWT
- * @param {string} req.user.id - User ID (must match file owner)
- * @returns {void} 204 - File deleted successfully (no content)
- * @returns {Object} 400 - Invalid file ID format
+ * @route POST /api/admin/files/:id/reports/dismiss
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.body.note] - Why (max 1000 characters), kept in the moderation log
+ * @returns {Object} 200 - { fileId, dismissed } with the number of reports dismissed
+ * @returns {Object} 400 - Invalid file ID or note
  * @returns {Object} 401 - Not authenticated
- * @returns {Object} 403 - Not authorized (not the file owner)
- * @returns {Object} 404 - File not found
+ * @returns {Object} 403 - Not a moderator or admin
+ * @returns {Object} 404 - The file has no open reports
  * @returns {Object} 500 - Internal server error
- * 
- * @example
- * // Request
- * DELETE /api/files/456
- * Headers: { "Authorization": "Bearer <token>" }
- * 
- * // Response (204 No Content)
- * 
- * @since 1.0.0
  */
-app.delete('/api/files/:id', authenticateToken, async (req, res) => {
+app.post('/api/admin/files/:id/reports/dismiss', authenticateToken, requireModerator, async (req, res) => {
   try {
     const id = Number(req.params.id);
     if (!Number.isInteger(id) || id <= 0) {
       return res.status(400).json({ error: 'invalid file id' });
     }
-
-    const userId = req.user.id;
-
-    // Check if file exists
-    const fileRows = await db.all(
-      'SELECT id FROM image_store WHERE id = ?',
-      [id]
-    );
-
-    if (fileRows.length === 0) {
-      return res.status(404).json({ error: 'file not found' });
+    const { note, error } = parseModerationNote(req.body);
+    if (error) {
+      return res.status(400).json({ error });
     }
 
-    // Check if user is the owner using fileID relationship
-    const ownerRows = await db.all(
-      'SELECT ownerID FROM Note_Files WHERE fileID = ? AND ownerID = ?',
-      [id.toString(), userId]
-    );
-
-    if (ownerRows.length === 0) {
-      return res.status(403).json({ error: 'not authorized to delete this file' });
+    const dismissed = await resolveReports(id, 'dismissed', req.user.id);
+    if (dismissed === 0) {
+      return res.status(404).json({ error: 'no open reports for this file' });
     }
 
-    // Delete from both tables
-    await db.run('DELETE FROM Note_Files WHERE fileID = ?', [id.toString()]);
-    await db.run('DELETE FROM image_store WHERE id = ?', [id]);
-    
-    // Also delete any bookmarks for this file
-    await db.run('DELETE FROM bookmarks WHERE fileId = ?', [id.toString()]);
-
-    return res.status(204).end();
+    await logModeration(req.user.id, 'dismiss', 'file', id, note);
+    return res.json({ fileId: id, dismissed });
   } catch (err) {
-    console.error('DELETE /api/files/:id failed:', err);
+    console.error('POST /api/admin/files/:id/reports/dismiss failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * Bookmark a file for the authenticated user.
+ * Hide a file.
  * 
- * Adds a file to the user's bookmarks list. Each user can bookmark a file only once.
- * Requires JWT authentication. Returns error if file is already bookmarked.
+ * The file disappears from listings, bookmarks and profiles, and its download, preview and
+ * thumbnail answer 404 for everyone but its owner and staff. Share links stop working.
+ * Open reports on it are marked actioned. Hiding can be undone, unlike deleting.
  * 
- * @route POST /api/files/:id/bookmark
- * @access Private (requires JWT token)
- * @param {Object} req.params - Route parameters
- * @param {string} req.params.id - File ID to bookmark (must be positive integer)
- * @param {Object} req.user - User information from JWT
- * @param {string} req.user.id - User ID
- * @returns {Object} 201 - File bookmarked successfully
- * @returns {string} 201.message - Success message
- * @returns {number} 201.fileId - Bookmarked file ID
- * @returns {Object} 400 - Invalid file ID format
+ * @route POST /api/admin/files/:id/hide
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} req.params.id - File ID
+ * @param {string} [req.body.note] - Why (max 1000 characters), kept in the moderation log
+ * @returns {Object} 200 - { fileId, hidden: true, resolvedReports }
+ * @returns {Object} 400 - Invalid file ID or note
  * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin
  * @returns {Object} 404 - File not found
- * @returns {Object} 409 - File already bookmarked
+ * @returns {Object} 409 - File is already hidden
  * @returns {Object} 500 - Internal server error
- * 
- * @example
- * // Request
- * POST /api/files/456/bookmark
- * Headers: { "Authorization": "Bearer <token>" }
- * 
- * // Response (201)
- * {
- *   "message": "File bookmarked successfully",
- *   "fileId": 456
- * }
- * 
- * @since 1.0.0
  */
-app.post('/api/files/:id/bookmark', authenticateToken, async (req, res) => {
+app.post('/api/admin/files/:id/hide', authenticateToken, requireModerator, async (req, res) => {
   try {
     const id = Number(req.params.id);
     if (!Number.isInteger(id) || id <= 0) {
       return res.status(400).json({ error: 'invalid file id' });
     }
+    const { note, error } = parseModerationNote(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
 
-    const userId = req.user.id;
-
-    // Check if file exists
-    const fileRows = await db.all(
-      'SELECT id FROM image_store WHERE id = ?',
-      [id]
-    );
-
-    if (fileRows.length === 0) {
+    const file = await findModeratedFile(id);
+    if (!file) {
       return res.status(404).json({ error: 'file not found' });
     }
-
-    // Check if already bookmarked
-    const existingBookmark = await db.all(
-      'SELECT id FROM bookmarks WHERE userId = ? AND fileId = ?',
-      [userId, id.toString()]
-    );
-
-    if (existingBookmark.length > 0) {
-      return res.status(409).json({ error: 'file already bookmarked' });
+    if (file.hiddenAt) {
+      return res.status(409).json({ error: 'file is already hidden' });
     }
 
-    // Add bookmark
-    await db.run(
-      'INSERT INTO bookmarks (userId, fileId) VALUES (?, ?)',
-      [userId, id.toString()]
-    );
-
-    return res.status(201).json({ 
-      message: 'File bookmarked successfully',
-      fileId: id
-    });
+    await db.run('UPDATE Note_Files SET hiddenAt = ? WHERE fileID = ?', [new Date(), id.toString()]);
+    const resolvedReports = await resolveReports(id, 'actioned', req.user.id);
+    await logModeration(req.user.id, 'hide', 'file', id, note);
+    return res.json({ fileId: id, hidden: true, resolvedReports });
   } catch (err) {
-    console.error('POST /api/files/:id/bookmark failed:', err);
-    // Handle duplicate bookmark error
-    if (err.code === 'ER_DUP_ENTRY' || err.errno === 1062) {
-      return res.status(409).json({ error: 'file already bookmarked' });
-    }
+    console.error('POST /api/admin/files/:id/hide failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * Remove a file from the user's bookmarks.
- * 
- * Removes a bookmark association between the authenticated user and a file.
- * Requires JWT authentication. Returns 404 if bookmark doesn't exist.
+ * Unhide a file, putting it back in listings.
  * 
- * @route DELETE /api/files/:id/bookmark
- * @access Private (requires JWT token)
- * @param {Object} req.params - Route parameters
- * @param {string} req.params.id - File ID to unbookmark (must be positive integer)
- * @param {Object} req.user - User information from JWT
- * @param {string} req.user.id - User ID
- * @returns {void} 204 - Bookmark removed successfully (no content)
- * @returns {Object} 400 - Invalid file ID format
+ * @route DELETE /api/admin/files/:id/hide
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} req.params.id - File ID
+ * @returns {Object} 200 - { fileId, hidden: false }
+ * @returns {Object} 400 - Invalid file ID
  * @returns {Object} 401 - Not authenticated
- * @returns {Object} 404 - Bookmark not found
+ * @returns {Object} 403 - Not a moderator or admin
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 409 - File is not hidden
  * @returns {Object} 500 - Internal server error
- * 
- * @example
- * // Request
- * DELETE /api/files/456/bookmark
- * Headers: { "Authorization": "Bearer <token>" }
- * 
- * // Response (204 No Content)
- * 
- * @since 1.0.0
  */
-app.delete('/api/files/:id/bookmark', authenticateToken, async (req, res) => {
+app.delete('/api/admin/files/:id/hide', authenticateToken, requireModerator, async (req, res) => {
   try {
     const id = Number(req.params.id);
     if (!Number.isInteger(id) || id <= 0) {
       return res.status(400).json({ error: 'invalid file id' });
     }
 
-    const userId = req.user.id;
-
-    // Remove bookmark
-    const info = await db.run(
-      'DELETE FROM bookmarks WHERE userId = ? AND fileId = ?',
-      [userId, id.toString()]
-    );
-
-    if (info.changes === 0 && !info.affectedRows) {
-      return res.status(404).json({ error: 'bookmark not found' });
+    const file = await findModeratedFile(id);
+    if (!file) {
+      return res.status(404).json({ error: 'file not found' });
+    }
+    if (!file.hiddenAt) {
+      return res.status(409).json({ error: 'file is not hidden' });
     }
 
-    return res.status(204).end();
+    await db.run('UPDATE Note_Files SET hiddenAt = NULL WHERE fileID = ?', [id.toString()]);
+    await logModeration(req.user.id, 'unhide', 'file', id);
+    return res.json({ fileId: id, hidden: false });
   } catch (err) {
-    console.error('DELETE /api/files/:id/bookmark failed:', err);
+    console.error('DELETE /api/admin/files/:id/hide failed:', err);
     return res.status(500).json({ error: 'internal server error' });
   }
 });
 
 /**
- * List all notes with optional course filtering.
- * 
- * Returns all notes from the notes table. Supports optional filtering by course.
- * Results are ordered by ID in descending order (newest first). This endpoint is publicly accessible.
+ * The moderation log: every role change, ban, unban, hide, unhide, dismissal and deletion,
+ * newest first. Always paged.
  * 
- * @route GET /api/notes
- * @access Public
- * @param {Object} req.query - Query parameters
- * @param {string} [req.query.course] - Filter notes by course code
- * @returns {Array<Object>} 200 - Array of note objects
- * @returns {number} 200[].id - Note ID
- * @returns {string} 200[].title - Note title
- * @returns {string} 200[].course - Course code
- * @returns {string} 200[].content - Note content
- * @returns {string} 200[].createdAt - ISO timestamp of creation
+ * @route GET /api/admin/moderation-log
+ * @access Moderator (requires JWT token, moderator or admin role)
+ * @param {string} [req.query.action] - Only this action
+ * @param {string} [req.query.targetType] - user or file
+ * @param {string} [req.query.targetId] - Account email or file ID (with targetType)
+ * @param {string} [req.query.actorId] - Only actions by this moderator or admin
+ * @param {number} [req.query.limit] - Page size (default 24, max 100)
+ * @param {string} [req.query.cursor] - nextCursor from the previous page
+ * @returns {Object} 200 - { entries, nextCursor, hasMore, total }
+ * @returns {Array<Object>} 200.entries - { id, actorId, action, targetType, targetId, note, createdAt }
+ * @returns {Object} 400 - Invalid filter, limit or cursor
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 403 - Not a moderator or admin
  * @returns {Object} 500 - Internal server error
  * 
  * @example
- * // Request
- * GET /api/notes?course=CS370
- * 
  * // Response (200)
- * [
- *   {
- *     "id": 1,
- *     "title": "Lecture Notes",
- *     "course": "CS370",
- *     "content": "Note content...",
- *     "createdAt": "2024-01-15T10:30:00.000Z"
- *   }
- * ]
- * 
- * @since 1.0.0
- */
-app.get('/api/notes', async (req, res) => {
-  try {
-    const { course } = req.query;
-    const base =
-      'SELECT id, title, course, content, DATE_FORMAT(createdAt, "%Y-%m-%dT%H:%i:%s.%fZ") AS createdAt FROM notes';
-    const sql = course
-      ? `${base} WHERE course = ? ORDER BY id DESC`
-      : `${base} ORDER BY id DESC`;
-    const rows = await db.all(sql, course ? [course] : []);
-    res.json(rows);
-  } catch (err) {
-    console.error('GET /api/notes failed:', err);
-    return res.status(500).json({ error: 'internal server error' });
-  }
-});
-/**
- * Delete a note by its ID.
- * 
- * Permanently removes a note from the notes table. This action cannot be undone.
- * This endpoint is publicly accessible.
- * 
- * @route DELETE /api/notes/:id
- * @access Public
- * @param {Object} req.params - Route parameters
- * @param {string} req.params.id - Note ID (must be positive integer)
- * @returns {void} 204 - Note deleted successfully (no content)
- * @returns {Object} 400 - Invalid note ID format
- * @returns {Object} 404 - Note not found
- * @returns {Object} 500 - Internal server error
- * 
- * @example
- * // Request
- * DELETE /api/notes/1
- * 
- * // Response (204 No Content)
- * 
- * @since 1.0.0
+ * {
+ *   "entries": [
+ *     {
+ *       "id": 31,
+ *       "actorId": "mod@university.edu",
+ *       "action": "hide",
+ *       "targetType": "file",
+ *       "targetId": "456",
+ *       "note": "Current midterm",
+ *       "createdAt": "2024-03-03T10:15:00.000Z"
+ *     }
+ *   ],
+ *   "nextCursor": null,
+ *   "hasMore": false,
+ *   "total": 1
+ * }
  */
-app.delete('/api/notes/:id', async (req, res) => {
+app.get('/api/admin/moderation-log', authenticateToken, requireModerator, async (req, res) => {
   try {
-    const id = Number(req.params.id);
-    if (!Number.isInteger(id) || id <= 0) {
-      return res.status(400).json({ error: 'invalid id' });
+    const { action, targetType, targetId, actorId } = req.query;
+    const page = parseFilePage(req.query, MODERATION_LOG_SORTS, 'newest');
+    if (page.error) {
+      return res.status(400).json({ error: page.error });
     }
-    const info = await db.run('DELETE FROM notes WHERE id = ?', [id]);
-    if (info.changes === 0 && !info.affectedRows) {
-      return res.status(404).json({ error: 'not found' });
+
+    const conditions = [];
+    const params = [];
+    if (action !== undefined) {
+      if (!MODERATION_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `action must be one of: ${MODERATION_ACTIONS.join(', ')}` });
+      }
+      conditions.push('ml.action = ?');
+      params.push(action);
     }
-    res.status(204).end();
+    if (targetType !== undefined) {
+      if (!MODERATION_TARGET_TYPES.includes(targetType)) {
+        return res.status(400).json({ error: `targetType must be one of: ${MODERATION_TARGET_TYPES.join(', ')}` });
+      }
+      conditions.push('ml.targetType = ?');
+      params.push(targetType);
+    }
+    if (targetId !== undefined && targetId !== '') {
+      conditions.push('ml.targetId = ?');
+      params.push(String(targetId).toLowerCase());
+    }
+    if (actorId !== undefined && actorId !== '') {
+      conditions.push('ml.actorId = ?');
+      params.push(String(actorId).toLowerCase());
+    }
+
+    const result = await queryFilePage({
+      columns: 'ml.id, ml.actorId, ml.action, ml.targetType, ml.targetId, ml.note, ml.createdAt',
+      from: 'moderation_log ml',
+      conditions,
+      params,
+      page: { ...page, paginated: true },
+    });
+    return res.json({
+      entries: result.rows.map(formatModerationEntry),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+      total: result.total,
+    });
   } catch (err) {
-    console.error('DELETE /api/notes/:id failed:', err);
-    res.status(500).json({ error: 'internal server error' });
+    console.error('GET /api/admin/moderation-log failed:', err);
+    return res.status(500).json({ error: 'internal server error' });
   }
 });
 
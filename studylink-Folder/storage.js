@@ -0,0 +1,24 @@
+const crypto = require('crypto');
+
+// Picks the file storage backend. Every driver exposes the same interface:
+//   put(key, stream, { contentType }) -> { size }
+//   createReadStream(key, { start, end }) -> Readable
+//   stat(key) -> { size, lastModified } | null
+//   remove(key)
+const STORAGE_DRIVER = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+let storage;
+if (STORAGE_DRIVER === 's3') {
+  storage = require('./storage.s3.js');
+} else if (STORAGE_DRIVER === 'local') {
+  storage = require('./storage.local.js');
+} else {
+  throw new Error(`Unknown STORAGE_DRIVER "${STORAGE_DRIVER}" (expected "local" or "s3")`);
+}
+
+// Random keys keep stored objects unguessable and independent of user-supplied file names.
+function generateKey() {
+  return crypto.randomUUID();
+}
+
+module.exports = { ...storage, generateKey, driver: STORAGE_DRIVER };
@@ -0,0 +1,54 @@
+const fs = require('fs');
+const fsp = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const { pipeline } = require('stream/promises');
+
+const STORAGE_DIR = path.resolve(__dirname, process.env.STORAGE_DIR || 'uploads');
+
+// Keys are generated by the server, but never let one escape STORAGE_DIR.
+function resolveKey(key) {
+  const fullPath = path.resolve(STORAGE_DIR, key);
+  if (!fullPath.startsWith(STORAGE_DIR + path.sep)) {
+    throw new Error(`invalid storage key: ${key}`);
+  }
+  return fullPath;
+}
+
+async function put(key, stream) {
+  const fullPath = resolveKey(key);
+  await fsp.mkdir(path.dirname(fullPath), { recursive: true });
+
+  // Write to a temp file first so a dropped upload never leaves a half-written object behind.
+  const tmpPath = `${fullPath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await pipeline(stream, fs.createWriteStream(tmpPath));
+    await fsp.rename(tmpPath, fullPath);
+  } catch (err) {
+    await fsp.rm(tmpPath, { force: true });
+    throw err;
+  }
+
+  const { size } = await fsp.stat(fullPath);
+  return { size };
+}
+
+async function createReadStream(key, { start, end } = {}) {
+  return fs.createReadStream(resolveKey(key), { start, end });
+}
+
+async function stat(key) {
+  try {
+    const { size, mtime } = await fsp.stat(resolveKey(key));
+    return { size, lastModified: mtime };
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function remove(key) {
+  await fsp.rm(resolveKey(key), { force: true });
+}
+
+module.exports = { driver: 'local', put, createReadStream, stat, remove };
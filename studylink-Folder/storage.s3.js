@@ -0,0 +1,74 @@
+const {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} = require('@aws-sdk/client-s3');
+const { Upload } = require('@aws-sdk/lib-storage');
+
+const {
+  S3_ENDPOINT,
+  S3_REGION = 'us-east-1',
+  S3_BUCKET,
+  S3_ACCESS_KEY_ID,
+  S3_SECRET_ACCESS_KEY,
+  S3_FORCE_PATH_STYLE = 'true',
+} = process.env;
+
+if (!S3_BUCKET) {
+  throw new Error('Missing S3 env vars: S3_BUCKET');
+}
+
+// S3_ENDPOINT points at MinIO (or any S3-compatible API) locally; leave it unset for AWS itself.
+const client = new S3Client({
+  endpoint: S3_ENDPOINT || undefined,
+  region: S3_REGION,
+  forcePathStyle: S3_FORCE_PATH_STYLE === 'true',
+  credentials: S3_ACCESS_KEY_ID
+    ? { accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY }
+    : undefined,
+});
+
+async function put(key, stream, { contentType } = {}) {
+  // Upload splits the stream into multipart chunks, so the file is never fully buffered.
+  const upload = new Upload({
+    client,
+    params: {
+      Bucket: S3_BUCKET,
+      Key: key,
+      Body: stream,
+      ContentType: contentType || 'application/octet-stream',
+    },
+  });
+
+  let size = 0;
+  upload.on('httpUploadProgress', progress => {
+    if (progress.loaded) size = progress.loaded;
+  });
+  await upload.done();
+
+  const head = await stat(key);
+  return { size: head ? head.size : size };
+}
+
+async function createReadStream(key, { start, end } = {}) {
+  const range = start !== undefined ? `bytes=${start}-${end !== undefined ? end : ''}` : undefined;
+  const result = await client.send(new GetObjectCommand({ Bucket: S3_BUCKET, Key: key, Range: range }));
+  return result.Body;
+}
+
+async function stat(key) {
+  try {
+    const head = await client.send(new HeadObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+    return { size: Number(head.ContentLength), lastModified: head.LastModified };
+  } catch (err) {
+    if (err.name === 'NotFound' || err.$metadata?.httpStatusCode === 404) return null;
+    throw err;
+  }
+}
+
+async function remove(key) {
+  await client.send(new DeleteObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+}
+
+module.exports = { driver: 's3', put, createReadStream, stat, remove };
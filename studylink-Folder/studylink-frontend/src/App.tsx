@@ -1,5 +1,5 @@
 import "bootstrap/dist/css/bootstrap.min.css";
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import Header from './components/Header'
 import AuthForm from './components/AuthForm'
 import Grid from './components/Grid'
@@ -8,24 +8,109 @@ import Bookmarks from './components/Bookmarks';
 import FileViewer from './components/FileViewer';
 import AuthModal from './components/AuthModal';
 import MyUploads from './components/MyUploads';
+import ProfilePage from './components/ProfilePage';
+import AdminPage from './components/AdminPage';
+import { apiFetch, isSignedIn } from './api';
 import './App.css'
 
 // App owns global navigation, filter state, and cross-page modals so every screen stays in sync.
-type PageName = 'home' | 'about' | 'account' | 'upload' | 'bookmarks' | 'view' | 'my-uploads'
+type PageName = 'home' | 'about' | 'account' | 'upload' | 'bookmarks' | 'view' | 'my-uploads' | 'profile' | 'admin'
+
+type HomeFeed = 'my-classes' | 'all'
+
+interface ShareLink {
+    fileId: number
+    token: string
+}
+
+// Share links look like /?file=12&share=<token> and open straight into the viewer
+function readShareLink(): ShareLink | null {
+    const params = new URLSearchParams(window.location.search);
+    const fileId = Number(params.get('file'));
+    const token = params.get('share');
+    return Number.isInteger(fileId) && fileId > 0 && token ? { fileId, token } : null;
+}
+
+// Verification emails link to /?verify=<token> and reset emails to /?reset=<token>; the account page handles both
+function readVerifyToken(): string | null {
+    return new URLSearchParams(window.location.search).get('verify');
+}
+
+function readResetToken(): string | null {
+    return new URLSearchParams(window.location.search).get('reset');
+}
+
+// Signing in with the school's identity provider ends at /?sso=done, or /?sso=<reason> when it failed
+function readSsoResult(): string | null {
+    return new URLSearchParams(window.location.search).get('sso');
+}
 
 export default function App() {
-    const [currentPage, setCurrentPage] = useState<PageName>('home')
+    const [shareLink] = useState(readShareLink)
+    const [verifyToken, setVerifyToken] = useState(readVerifyToken)
+    const [resetToken, setResetToken] = useState(readResetToken)
+    const [ssoResult, setSsoResult] = useState(readSsoResult)
+    const [currentPage, setCurrentPage] = useState<PageName>(shareLink ? 'view' : verifyToken || resetToken || ssoResult ? 'account' : 'home')
     const [searchTerm, setSearchTerm] = useState('')
     const [classFilter, setClassFilter] = useState<string[]>([])
-    const [viewingFileId, setViewingFileId] = useState<number | null>(null)
+    const [termFilter, setTermFilter] = useState<string[]>([])
+    const [viewingFileId, setViewingFileId] = useState<number | null>(shareLink ? shareLink.fileId : null)
     const [showAuthModal, setShowAuthModal] = useState(false)
+    const [viewingProfile, setViewingProfile] = useState<string | null>(null)
+    // Lets "Edit profile" and "add your classes" open the account page on that section instead of the menu
+    const [accountSection, setAccountSection] = useState<'menu' | 'profile' | 'classes'>('menu')
+    // Signed-in users with enrollments land on their classes' uploads; null while that is being looked up
+    const [enrolledCount, setEnrolledCount] = useState<number | null>(() => isSignedIn() ? null : 0)
+    const [homeFeed, setHomeFeed] = useState<HomeFeed>('my-classes')
 
-    const hasActiveFilters = classFilter.length > 0 || searchTerm.length > 0;
+    const handleVerifyHandled = useCallback(() => {
+        // Drop ?verify= so a reload doesn't confirm the link again
+        window.history.replaceState(null, '', window.location.pathname);
+        setVerifyToken(null);
+    }, []);
+
+    const handleResetHandled = useCallback(() => {
+        window.history.replaceState(null, '', window.location.pathname);
+        setResetToken(null);
+    }, []);
+
+    const handleSsoHandled = useCallback((signedIn: boolean) => {
+        window.history.replaceState(null, '', window.location.pathname);
+        setSsoResult(null);
+        if (signedIn) setCurrentPage('home');
+    }, []);
+
+    function openProfile(handle: string) {
+        setViewingProfile(handle);
+        setCurrentPage('profile');
+    }
+
+    const hasActiveFilters = classFilter.length > 0 || termFilter.length > 0 || searchTerm.length > 0;
+    const hasEnrollments = enrolledCount !== null && enrolledCount > 0;
+    const showMyClasses = hasEnrollments && homeFeed === 'my-classes' && !hasActiveFilters;
+
+    // Re-checked on every visit to home, since classes can be added or removed on the account page
+    useEffect(() => {
+        if (currentPage !== 'home' || !isSignedIn()) return;
+        let cancelled = false;
+        apiFetch('/api/users/me/classes')
+            .then(res => (res.ok ? res.json() : []))
+            .then((classes: unknown[]) => {
+                if (!cancelled) setEnrolledCount(classes.length);
+            })
+            .catch(() => {
+                if (!cancelled) setEnrolledCount(0);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [currentPage]);
 
     useEffect(() => {
         function handleClearFilters() {
             setSearchTerm('');
             setClassFilter([]);
+            setTermFilter([]);
         }
         window.addEventListener('clear-home-filters', handleClearFilters);
         return () => window.removeEventListener('clear-home-filters', handleClearFilters);
@@ -34,23 +119,28 @@ export default function App() {
     return (
         <div className={`App ${hasActiveFilters ? 'has-active-filters' : ''}`}>
             <Header 
-                onNavigate={setCurrentPage}
+                onNavigate={(page) => {
+                    setAccountSection('menu');
+                    setCurrentPage(page);
+                }}
                 searchTerm={currentPage === 'home' ? searchTerm : undefined}
                 onSearchChange={currentPage === 'home' ? setSearchTerm : undefined}
                 classFilter={currentPage === 'home' ? classFilter : undefined}
                 onClassFilterChange={currentPage === 'home' ? setClassFilter : undefined}
+                termFilter={currentPage === 'home' ? termFilter : undefined}
+                onTermFilterChange={currentPage === 'home' ? setTermFilter : undefined}
                 showSearch={currentPage === 'home'}
             />
 
             {currentPage === 'home' && (
                 <div className="home-page">
                     <div className="home-content">
-                        {classFilter.length === 0 && !searchTerm && (
+                        {!hasActiveFilters && (
                             <div className="home-welcome">
                                 <h2>Welcome to StudyLink</h2>
                                 <p>
                                     Start browsing the notes below. Click on any note to view it, or{' '}
-                                    {localStorage.getItem('token') ? (
+                                    {isSignedIn() ? (
                                         <button 
                                             className="inline-link-btn"
                                             onClick={() => setCurrentPage('upload')}
@@ -69,29 +159,71 @@ export default function App() {
                                         </>
                                     )}
                                     .
+                                    {isSignedIn() && enrolledCount === 0 && (
+                                        <>
+                                            {' '}
+                                            <button
+                                                className="inline-link-btn"
+                                                onClick={() => {
+                                                    setAccountSection('classes');
+                                                    setCurrentPage('account');
+                                                }}
+                                            >
+                                                Add your classes
+                                            </button>
+                                            {' '}to see their newest notes first.
+                                        </>
+                                    )}
                                 </p>
                             </div>
                         )}
-                        <Grid 
-                            searchTerm={searchTerm} 
-                            classFilter={classFilter}
-                            onViewFile={(fileId) => {
-                                setViewingFileId(fileId);
-                                setCurrentPage('view');
-                            }}
-                            onClassClick={(classId) => {
-                                const classIdStr = classId.toString();
-                                if (!classFilter.includes(classIdStr)) {
-                                    setClassFilter([...classFilter, classIdStr]);
-                                }
-                                setCurrentPage('home');
-                            }}
-                            onBookmarkClick={() => setShowAuthModal(true)}
-                            onClearFilters={() => {
-                                setClassFilter([]);
-                                setSearchTerm('');
-                            }}
-                        />
+                        {hasEnrollments && !hasActiveFilters && (
+                            <div className="home-feed-tabs" role="tablist">
+                                <button
+                                    role="tab"
+                                    aria-selected={homeFeed === 'my-classes'}
+                                    className={`home-feed-tab ${homeFeed === 'my-classes' ? 'active' : ''}`}
+                                    onClick={() => setHomeFeed('my-classes')}
+                                >
+                                    My Classes
+                                </button>
+                                <button
+                                    role="tab"
+                                    aria-selected={homeFeed === 'all'}
+                                    className={`home-feed-tab ${homeFeed === 'all' ? 'active' : ''}`}
+                                    onClick={() => setHomeFeed('all')}
+                                >
+                                    All Notes
+                                </button>
+                            </div>
+                        )}
+                        {enrolledCount !== null && (
+                            <Grid 
+                                searchTerm={searchTerm} 
+                                classFilter={classFilter}
+                                termFilter={termFilter}
+                                enrolledOnly={showMyClasses}
+                                onViewFile={(fileId) => {
+                                    setViewingFileId(fileId);
+                                    setCurrentPage('view');
+                                }}
+                                onClassClick={(classId) => {
+                                    const classIdStr = classId.toString();
+                                    if (!classFilter.includes(classIdStr)) {
+                                        setClassFilter([...classFilter, classIdStr]);
+                                    }
+                                    setCurrentPage('home');
+                                }}
+                                onBookmarkClick={() => setShowAuthModal(true)}
+                                onOwnerClick={openProfile}
+                                onClearFilters={() => {
+                                    setClassFilter([]);
+                                    setTermFilter([]);
+                                    setSearchTerm('');
+                                }}
+                                onShowAll={() => setHomeFeed('all')}
+                            />
+                        )}
                     </div>
                 </div>
             )}
@@ -182,7 +314,7 @@ export default function App() {
                             <h2>Ready to Get Started?</h2>
                             <p>Join StudyLink to enhance your learning experience. Now start browsing and add files!</p>
                             <div className="cta-buttons">
-                                {localStorage.getItem('token') ? (
+                                {isSignedIn() ? (
                                     <>
                                         <button 
                                             className="cta-button cta-primary"
@@ -229,10 +361,44 @@ export default function App() {
             {currentPage === 'account' && (
                 <div className="page account">
                     <AuthForm
+                        key={accountSection}
+                        initialSection={accountSection}
                         onLoginSuccess={() => setCurrentPage('home')}
                         onNavigateHome={() => setCurrentPage('home')}
                         onNavigateToBookmarks={() => setCurrentPage('bookmarks')}
                         onNavigateToMyUploads={() => setCurrentPage('my-uploads')}
+                        onNavigateToProfile={openProfile}
+                        verifyToken={verifyToken}
+                        onVerifyHandled={handleVerifyHandled}
+                        resetToken={resetToken}
+                        onResetHandled={handleResetHandled}
+                        ssoResult={ssoResult}
+                        onSsoHandled={handleSsoHandled}
+                    />
+                </div>
+            )}
+
+            {currentPage === 'profile' && viewingProfile && (
+                <div className="page profile">
+                    <ProfilePage
+                        handle={viewingProfile}
+                        onBack={() => setCurrentPage('home')}
+                        onViewFile={(fileId) => {
+                            setViewingFileId(fileId);
+                            setCurrentPage('view');
+                        }}
+                        onClassClick={(classId) => {
+                            const classIdStr = classId.toString();
+                            if (!classFilter.includes(classIdStr)) {
+                                setClassFilter([...classFilter, classIdStr]);
+                            }
+                            setCurrentPage('home');
+                        }}
+                        onBookmarkClick={() => setShowAuthModal(true)}
+                        onEditProfile={() => {
+                            setAccountSection('profile');
+                            setCurrentPage('account');
+                        }}
                     />
                 </div>
             )}
@@ -257,6 +423,18 @@ export default function App() {
                 </div>
             )}
 
+            {currentPage === 'admin' && (
+                <div className="page admin">
+                    <h1 className="page-title">Admin</h1>
+                    <AdminPage
+                        onViewFile={(fileId) => {
+                            setViewingFileId(fileId);
+                            setCurrentPage('view');
+                        }}
+                    />
+                </div>
+            )}
+
             {currentPage === 'upload' && (
                 <div className="page upload">
                     <UploadPage 
@@ -274,7 +452,12 @@ export default function App() {
             {currentPage === 'view' && viewingFileId && (
                 <FileViewer 
                     fileId={viewingFileId}
+                    shareToken={shareLink?.fileId === viewingFileId ? shareLink.token : undefined}
                     onClose={() => {
+                        if (shareLink) {
+                            // Drop ?file=&share= so a reload lands on the home page
+                            window.history.replaceState(null, '', window.location.pathname);
+                        }
                         setViewingFileId(null);
                         setCurrentPage('home');
                     }}
@@ -287,6 +470,7 @@ export default function App() {
                         setCurrentPage('home');
                     }}
                     onBookmarkClick={() => setShowAuthModal(true)}
+                    onOwnerClick={openProfile}
                 />
             )}
             
@@ -0,0 +1,246 @@
+// Every request to the API goes through apiFetch, whichever way the server keeps sessions
+// (SESSION_MODE on the server):
+// - "token": login returns an access token and a refresh token, kept in localStorage and sent
+//   as a bearer header.
+// - "cookie": both live in HttpOnly cookies that scripts can't read. Requests that change
+//   something echo the readable CSRF cookie in a header (double-submit).
+// Either way access tokens last 15 minutes and are renewed with the refresh token, and who is
+// signed in (email, role, when the access token expires) is kept in localStorage for the UI.
+// It is only a hint: the server decides on every request.
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const SESSION_KEY = 'session';
+const CSRF_COOKIE = 'sl_csrf';
+const CSRF_HEADER = 'X-CSRF-Token';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// Refresh this long before the access token expires, so a request doesn't race the clock
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+export interface SessionUser {
+  email: string;
+  role: string;
+}
+
+interface StoredSession extends SessionUser {
+  expiresAt: number | null;
+}
+
+// The session part of a login, register, refresh or password change response. The tokens
+// are only in it in token mode.
+export interface SessionResponse {
+  token?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+  user?: { email: string; role?: string };
+}
+
+function readSession(): StoredSession | null {
+  const saved = localStorage.getItem(SESSION_KEY);
+  if (saved) {
+    try {
+      return JSON.parse(saved);
+    } catch {
+      return null;
+    }
+  }
+  // Signed in before sessions were stored separately: the access token says who it is
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    if (!payload?.email) return null;
+    return {
+      email: payload.email,
+      role: payload.role || 'student',
+      expiresAt: typeof payload.exp === 'number' ? payload.exp * 1000 : null
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function getSessionUser(): SessionUser | null {
+  const session = readSession();
+  return session ? { email: session.email, role: session.role } : null;
+}
+
+export function isSignedIn(): boolean {
+  return readSession() !== null;
+}
+
+export function saveSession(data: SessionResponse) {
+  if (data.token) {
+    localStorage.setItem(TOKEN_KEY, data.token);
+  }
+  if (data.refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+  }
+  // Refreshes and password changes don't repeat who is signed in
+  const previous = readSession();
+  const email = data.user?.email ?? previous?.email;
+  if (!email) return;
+  const session: StoredSession = {
+    email,
+    role: data.user?.role ?? previous?.role ?? 'student',
+    expiresAt: data.expiresIn ? Date.now() + data.expiresIn * 1000 : null
+  };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(SESSION_KEY);
+}
+
+function readCookie(name: string): string | null {
+  const prefix = `${name}=`;
+  const cookie = document.cookie.split('; ').find(part => part.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+}
+
+function csrfHeader(): Record<string, string> {
+  const csrf = readCookie(CSRF_COOKIE);
+  return csrf ? { [CSRF_HEADER]: csrf } : {};
+}
+
+// Cookie sessions have no token in localStorage; the browser holds the refresh token
+function canRefresh(): boolean {
+  return localStorage.getItem(TOKEN_KEY) ? !!localStorage.getItem(REFRESH_TOKEN_KEY) : isSignedIn();
+}
+
+// One refresh at a time: requests that find the token expired together share it
+let refreshing: Promise<boolean> | null = null;
+
+async function requestRefresh(): Promise<boolean> {
+  if (!canRefresh()) return false;
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  const sessionBefore = localStorage.getItem(SESSION_KEY);
+  try {
+    const res = await fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...csrfHeader() },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {})
+    });
+    if (res.ok) {
+      saveSession(await res.json());
+      return true;
+    }
+    // Another tab may have refreshed first with the same token; its new session is already stored
+    if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken ||
+        localStorage.getItem(SESSION_KEY) !== sessionBefore) {
+      return isSignedIn();
+    }
+    if (res.status === 401 || res.status === 403) {
+      clearSession();
+    }
+    return false;
+  } catch (err) {
+    // Offline: keep the session and let the caller's request fail on its own
+    console.error('Token refresh failed:', err);
+    return false;
+  }
+}
+
+// Renews the access token. Resolves to false when the session can't be continued.
+export function refreshSession(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = requestRefresh().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+/**
+ * The headers that authenticate a request with the given method: the bearer token in token
+ * mode, and the CSRF header on requests that change something. An access token that is
+ * about to expire is refreshed first. For requests that can't go through apiFetch
+ * (XMLHttpRequest uploads with progress).
+ */
+export async function getAuthHeaders(method = 'GET'): Promise<Record<string, string>> {
+  const session = readSession();
+  if (session?.expiresAt && session.expiresAt - EXPIRY_MARGIN_MS < Date.now() && canRefresh()) {
+    await refreshSession();
+  }
+  const headers: Record<string, string> = {};
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (!SAFE_METHODS.includes(method.toUpperCase())) {
+    Object.assign(headers, csrfHeader());
+  }
+  return headers;
+}
+
+async function send(input: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const auth = await getAuthHeaders(init.method);
+  Object.entries(auth).forEach(([name, value]) => headers.set(name, value));
+  return fetch(input, { ...init, headers });
+}
+
+/**
+ * fetch() for the API. Signed-in requests carry the session (see getAuthHeaders), and a 401
+ * is retried once after refreshing; if the session can't be refreshed it is cleared and the
+ * 401 is returned. Signed-out requests are sent as they are.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const signedIn = isSignedIn();
+  const res = await send(input, init);
+  if (res.status !== 401 || !signedIn) return res;
+
+  const sessionBefore = localStorage.getItem(SESSION_KEY);
+  if (await refreshSession()) {
+    return send(input, init);
+  }
+  if (localStorage.getItem(SESSION_KEY) === sessionBefore) {
+    clearSession();
+  }
+  return res;
+}
+
+// Signs out this browser: the refresh token is revoked on the server as well
+export async function logout(): Promise<void> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  const usesCookies = !localStorage.getItem(TOKEN_KEY) && isSignedIn();
+  const headers = { 'Content-Type': 'application/json', ...csrfHeader() };
+  clearSession();
+  // The server clears the session cookies; a token session only needs its refresh token revoked
+  if (!refreshToken && !usesCookies) return;
+  try {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(refreshToken ? { refreshToken } : {})
+    });
+  } catch (err) {
+    console.error('Logout request failed:', err);
+  }
+}
+
+// Whether the server offers "Sign in with your school" (single sign-on through the school's
+// identity provider)
+export async function isSsoEnabled(): Promise<boolean> {
+  try {
+    const res = await fetch('/api/auth/oidc');
+    return res.ok && Boolean((await res.json()).enabled);
+  } catch {
+    return false;
+  }
+}
+
+// Leaves the app for the school's sign-in page. The browser comes back at /?sso=<result>, and
+// the account page picks up the session (POST /api/auth/oidc/session).
+export function startSso() {
+  window.location.assign('/api/auth/oidc/start');
+}
+
+// Ends every session of the account, this one included. Returns false if the server refused.
+export async function logoutAllDevices(): Promise<boolean> {
+  const res = await apiFetch('/api/auth/logout-all', { method: 'POST' });
+  if (!res.ok) return false;
+  clearSession();
+  return true;
+}
@@ -0,0 +1,795 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiFetch, getSessionUser } from '../api';
+import './AdminPage.css';
+
+// Staff console over /api/admin: moderators work the report queue, ban accounts and hide or remove files; admins also set roles, edit the class catalogue and see storage.
+interface AdminPageProps {
+  onViewFile?: (fileId: number) => void;
+}
+
+type AdminTab = 'reports' | 'users' | 'files' | 'log' | 'classes' | 'storage';
+
+interface AdminUser {
+  email: string;
+  role: string;
+  bannedAt: string | null;
+  banReason: string | null;
+  handle: string | null;
+  displayName: string | null;
+  uploadCount: number;
+  storageBytes: number;
+}
+
+interface QueueEntry {
+  id: number;
+  originalName: string;
+  hidden: boolean;
+  owner: { handle: string; displayName: string } | null;
+  reportCount: number;
+  reasons: Record<string, number>;
+  firstReportedAt: string;
+}
+
+interface Report {
+  id: number;
+  reporterId: string;
+  reason: string;
+  details: string | null;
+  status: string;
+  createdAt: string;
+}
+
+interface LogEntry {
+  id: number;
+  actorId: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  note: string | null;
+  createdAt: string;
+}
+
+interface CatalogClass {
+  id: number;
+  subject: string;
+  catalog: string;
+  title: string;
+  csNumber: string | null;
+  minUnits: number | null;
+  maxUnits: number | null;
+  compUnits: number | null;
+}
+
+interface ClassDraft {
+  subject: string;
+  catalog: string;
+  title: string;
+  csNumber: string;
+  minUnits: string;
+  maxUnits: string;
+  compUnits: string;
+}
+
+interface StorageUsage {
+  driver: string;
+  files: { count: number; bytes: number };
+  stored: { objects: number; bytes: number };
+  byType: { fileType: string; count: number; bytes: number }[];
+  topUploaders: { email: string; handle: string | null; displayName: string | null; count: number; bytes: number }[];
+}
+
+const ROLES = ['student', 'moderator', 'admin'];
+
+const REASON_LABELS: Record<string, string> = {
+  copyright: 'Copyright',
+  exam: 'Exam',
+  offensive: 'Offensive',
+  spam: 'Spam',
+  other: 'Other'
+};
+
+const LOG_ACTIONS = ['role', 'ban', 'unban', 'hide', 'unhide', 'dismiss', 'delete'];
+
+const EMPTY_DRAFT: ClassDraft = {
+  subject: '',
+  catalog: '',
+  title: '',
+  csNumber: '',
+  minUnits: '',
+  maxUnits: '',
+  compUnits: ''
+};
+
+const TAB_LABELS: Record<AdminTab, string> = {
+  reports: 'Reports',
+  users: 'Users',
+  files: 'Files',
+  log: 'Log',
+  classes: 'Classes',
+  storage: 'Storage'
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+function toDraft(cls: CatalogClass): ClassDraft {
+  return {
+    subject: cls.subject,
+    catalog: cls.catalog,
+    title: cls.title,
+    csNumber: cls.csNumber || '',
+    minUnits: cls.minUnits === null ? '' : String(cls.minUnits),
+    maxUnits: cls.maxUnits === null ? '' : String(cls.maxUnits),
+    compUnits: cls.compUnits === null ? '' : String(cls.compUnits)
+  };
+}
+
+async function adminRequest(path: string, method = 'GET', body?: unknown) {
+  const res = await apiFetch(path, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+  if (res.status === 204) return null;
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+const AdminPage: React.FC<AdminPageProps> = ({ onViewFile }) => {
+  const role = getSessionUser()?.role ?? null;
+  const isAdmin = role === 'admin';
+  const tabs: AdminTab[] = isAdmin
+    ? ['reports', 'users', 'files', 'log', 'classes', 'storage']
+    : ['reports', 'users', 'files', 'log'];
+
+  const [tab, setTab] = useState<AdminTab>('reports');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Reports
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
+  const [queueCursor, setQueueCursor] = useState<string | null>(null);
+  const [queueTotal, setQueueTotal] = useState(0);
+  const [openReportsFor, setOpenReportsFor] = useState<number | null>(null);
+  const [fileReports, setFileReports] = useState<Report[]>([]);
+
+  // Log
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
+  const [logAction, setLogAction] = useState('');
+  const [logCursor, setLogCursor] = useState<string | null>(null);
+
+  // Users
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [userSearch, setUserSearch] = useState('');
+  const [bannedFilter, setBannedFilter] = useState('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [userTotal, setUserTotal] = useState(0);
+
+  // Files
+  const [fileId, setFileId] = useState('');
+
+  // Classes
+  const [classSearch, setClassSearch] = useState('');
+  const [classes, setClasses] = useState<CatalogClass[]>([]);
+  const [editingClassId, setEditingClassId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ClassDraft>(EMPTY_DRAFT);
+
+  // Storage
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  const fetchQueue = useCallback(async (cursor: string | null) => {
+    try {
+      const data = await adminRequest(`/api/admin/reports${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`);
+      setQueue(prev => (cursor ? [...prev, ...data.files] : data.files));
+      setQueueCursor(data.hasMore ? data.nextCursor : null);
+      setQueueTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    }
+  }, []);
+
+  const fetchLog = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams();
+    if (logAction) params.set('action', logAction);
+    if (cursor) params.set('cursor', cursor);
+    try {
+      const data = await adminRequest(`/api/admin/moderation-log?${params.toString()}`);
+      setLogEntries(prev => (cursor ? [...prev, ...data.entries] : data.entries));
+      setLogCursor(data.hasMore ? data.nextCursor : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the moderation log');
+    }
+  }, [logAction]);
+
+  const fetchUsers = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams();
+    if (userSearch.trim()) params.set('search', userSearch.trim());
+    if (bannedFilter) params.set('banned', bannedFilter);
+    if (cursor) params.set('cursor', cursor);
+    try {
+      const data = await adminRequest(`/api/admin/users?${params.toString()}`);
+      setUsers(prev => (cursor ? [...prev, ...data.users] : data.users));
+      setNextCursor(data.hasMore ? data.nextCursor : null);
+      setUserTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    }
+  }, [userSearch, bannedFilter]);
+
+  const fetchClasses = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (classSearch.trim()) params.set('search', classSearch.trim());
+      const res = await apiFetch(`/api/classes?${params.toString()}`);
+      if (!res.ok) throw new Error('Failed to load classes');
+      setClasses(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load classes');
+    }
+  }, [classSearch]);
+
+  useEffect(() => {
+    if (tab === 'reports') fetchQueue(null);
+  }, [tab, fetchQueue]);
+
+  useEffect(() => {
+    if (tab === 'log') fetchLog(null);
+  }, [tab, fetchLog]);
+
+  useEffect(() => {
+    if (tab !== 'users') return;
+    // Debounce typing in the search box
+    const timer = setTimeout(() => fetchUsers(null), 300);
+    return () => clearTimeout(timer);
+  }, [tab, fetchUsers]);
+
+  useEffect(() => {
+    if (tab !== 'classes') return;
+    const timer = setTimeout(fetchClasses, 300);
+    return () => clearTimeout(timer);
+  }, [tab, fetchClasses]);
+
+  useEffect(() => {
+    if (tab !== 'storage') return;
+    adminRequest('/api/admin/storage')
+      .then(setUsage)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load storage usage'));
+  }, [tab]);
+
+  function switchTab(next: AdminTab) {
+    setTab(next);
+    setError(null);
+    setMessage(null);
+  }
+
+  // Runs one admin action with the shared busy/error/message handling
+  async function runAction(action: () => Promise<void>, success?: string) {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      if (success) setMessage(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleReports(fileId: number) {
+    if (openReportsFor === fileId) {
+      setOpenReportsFor(null);
+      return;
+    }
+    try {
+      const data = await adminRequest(`/api/admin/files/${fileId}/reports?status=open`);
+      setFileReports(data.reports);
+      setOpenReportsFor(fileId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    }
+  }
+
+  // Dismiss, hide or delete a reported file; the note ends up in the moderation log
+  function moderateFile(fileId: number, action: 'dismiss' | 'hide' | 'unhide' | 'delete') {
+    const prompts = {
+      dismiss: 'Dismiss the reports on this file? It stays up.\n\nNote (optional):',
+      hide: 'Hide this file from everyone but its owner?\n\nNote (optional):',
+      unhide: null,
+      delete: 'Delete this file for good? This cannot be undone.\n\nNote (optional):'
+    };
+    const message = prompts[action];
+    const note = message ? prompt(message) : '';
+    if (note === null) return;
+
+    const body = note ? { note } : {};
+    const requests = {
+      dismiss: () => adminRequest(`/api/admin/files/${fileId}/reports/dismiss`, 'POST', body),
+      hide: () => adminRequest(`/api/admin/files/${fileId}/hide`, 'POST', body),
+      unhide: () => adminRequest(`/api/admin/files/${fileId}/hide`, 'DELETE'),
+      delete: () => adminRequest(`/api/admin/files/${fileId}`, 'DELETE', body)
+    };
+    const results = {
+      dismiss: 'Reports dismissed',
+      hide: `File ${fileId} is hidden`,
+      unhide: `File ${fileId} is visible again`,
+      delete: `File ${fileId} was removed`
+    };
+    runAction(async () => {
+      await requests[action]();
+      setOpenReportsFor(null);
+      if (tab === 'reports') await fetchQueue(null);
+    }, results[action]);
+  }
+
+  function replaceUser(updated: AdminUser) {
+    setUsers(prev => prev.map(user => (user.email === updated.email ? updated : user)));
+  }
+
+  function handleRoleChange(user: AdminUser, newRole: string) {
+    runAction(async () => {
+      replaceUser(await adminRequest(`/api/admin/users/${encodeURIComponent(user.email)}/role`, 'PUT', { role: newRole }));
+    }, `${user.email} is now a ${newRole}`);
+  }
+
+  function handleBan(user: AdminUser) {
+    const reason = prompt(`Ban ${user.email}? They will be signed out and unable to log in.\n\nReason (optional):`);
+    if (reason === null) return;
+    runAction(async () => {
+      replaceUser(await adminRequest(`/api/admin/users/${encodeURIComponent(user.email)}/ban`, 'POST', { reason }));
+    }, `${user.email} was banned`);
+  }
+
+  function handleUnban(user: AdminUser) {
+    runAction(async () => {
+      replaceUser(await adminRequest(`/api/admin/users/${encodeURIComponent(user.email)}/ban`, 'DELETE'));
+    }, `${user.email} was unbanned`);
+  }
+
+  function handleRemoveFile(e: React.FormEvent) {
+    e.preventDefault();
+    const id = Number(fileId.trim());
+    if (!Number.isInteger(id) || id <= 0) return;
+    moderateFile(id, 'delete');
+  }
+
+  function handleSaveClass(e: React.FormEvent) {
+    e.preventDefault();
+    const body = {
+      subject: draft.subject,
+      catalog: draft.catalog,
+      title: draft.title,
+      csNumber: draft.csNumber.trim() || null,
+      minUnits: draft.minUnits.trim() || null,
+      maxUnits: draft.maxUnits.trim() || null,
+      compUnits: draft.compUnits.trim() || null
+    };
+    const editing = editingClassId;
+    runAction(async () => {
+      if (editing) {
+        await adminRequest(`/api/admin/classes/${editing}`, 'PATCH', body);
+      } else {
+        await adminRequest('/api/admin/classes', 'POST', body);
+      }
+      setEditingClassId(null);
+      setDraft(EMPTY_DRAFT);
+      await fetchClasses();
+    }, editing ? 'Class updated' : 'Class added');
+  }
+
+  function handleDeleteClass(cls: CatalogClass) {
+    if (!confirm(`Remove ${cls.subject} ${cls.catalog} from the catalogue?`)) {
+      return;
+    }
+    runAction(async () => {
+      await adminRequest(`/api/admin/classes/${cls.id}`, 'DELETE');
+      if (editingClassId === cls.id) {
+        setEditingClassId(null);
+        setDraft(EMPTY_DRAFT);
+      }
+      await fetchClasses();
+    }, `${cls.subject} ${cls.catalog} was removed`);
+  }
+
+  function updateDraft(field: keyof ClassDraft, value: string) {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  }
+
+  if (role !== 'moderator' && role !== 'admin') {
+    return <div className="admin-status">You need a moderator or admin account to use this page.</div>;
+  }
+
+  return (
+    <div className="admin-page">
+      <div className="admin-tabs">
+        {tabs.map(name => (
+          <button
+            key={name}
+            className={`admin-tab ${tab === name ? 'active' : ''}`}
+            onClick={() => switchTab(name)}
+          >
+            {TAB_LABELS[name]}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="admin-error">{error}</div>}
+      {message && <div className="admin-message">{message}</div>}
+
+      {tab === 'reports' && (
+        <section className="admin-section">
+          <p className="admin-hint">
+            {queueTotal} {queueTotal === 1 ? 'file' : 'files'} with open reports, most reported first
+          </p>
+          {queue.length === 0 && <div className="admin-status">Nothing to review.</div>}
+          {queue.map(entry => (
+            <div key={entry.id} className="admin-report">
+              <div className="admin-report-header">
+                <div>
+                  <div className="admin-report-name">
+                    {entry.originalName}
+                    {entry.hidden && <span className="admin-banned"> · hidden</span>}
+                  </div>
+                  <div className="admin-hint">
+                    {entry.owner ? `by ${entry.owner.displayName}` : 'no owner'} · first reported{' '}
+                    {new Date(entry.firstReportedAt).toLocaleDateString()}
+                  </div>
+                  <div className="admin-report-reasons">
+                    {Object.entries(entry.reasons).map(([reason, count]) => (
+                      <span key={reason} className="admin-report-reason">
+                        {REASON_LABELS[reason] || reason} × {count}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="admin-row-actions">
+                  <button className="admin-button" onClick={() => toggleReports(entry.id)}>
+                    {openReportsFor === entry.id ? 'Hide details' : `${entry.reportCount} ${entry.reportCount === 1 ? 'report' : 'reports'}`}
+                  </button>
+                  {onViewFile && (
+                    <button className="admin-button" onClick={() => onViewFile(entry.id)}>View</button>
+                  )}
+                  <button className="admin-button" onClick={() => moderateFile(entry.id, 'dismiss')} disabled={busy}>
+                    Dismiss
+                  </button>
+                  {!entry.hidden && (
+                    <button className="admin-button" onClick={() => moderateFile(entry.id, 'hide')} disabled={busy}>
+                      Hide
+                    </button>
+                  )}
+                  <button className="admin-button danger" onClick={() => moderateFile(entry.id, 'delete')} disabled={busy}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {openReportsFor === entry.id && (
+                <ul className="admin-report-list">
+                  {fileReports.map(report => (
+                    <li key={report.id}>
+                      <strong>{REASON_LABELS[report.reason] || report.reason}</strong> · {report.reporterId} ·{' '}
+                      {new Date(report.createdAt).toLocaleString()}
+                      {report.details && <div className="admin-report-details">{report.details}</div>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          {queueCursor && (
+            <button className="admin-button" onClick={() => fetchQueue(queueCursor)} disabled={busy}>
+              Load more
+            </button>
+          )}
+        </section>
+      )}
+
+      {tab === 'log' && (
+        <section className="admin-section">
+          <div className="admin-controls">
+            <select className="admin-input" value={logAction} onChange={(e) => setLogAction(e.target.value)}>
+              <option value="">All actions</option>
+              {LOG_ACTIONS.map(action => (
+                <option key={action} value={action}>{action}</option>
+              ))}
+            </select>
+          </div>
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Who</th>
+                <th>Action</th>
+                <th>Target</th>
+                <th>Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {logEntries.map(entry => (
+                <tr key={entry.id}>
+                  <td>{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td>{entry.actorId}</td>
+                  <td>{entry.action}</td>
+                  <td>{entry.targetType === 'file' ? `File ${entry.targetId}` : entry.targetId}</td>
+                  <td>{entry.note}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {logCursor && (
+            <button className="admin-button" onClick={() => fetchLog(logCursor)} disabled={busy}>
+              Load more
+            </button>
+          )}
+        </section>
+      )}
+
+      {tab === 'users' && (
+        <section className="admin-section">
+          <div className="admin-controls">
+            <input
+              className="admin-input"
+              type="text"
+              placeholder="Search by email, handle or name..."
+              value={userSearch}
+              onChange={(e) => setUserSearch(e.target.value)}
+            />
+            <select
+              className="admin-input"
+              value={bannedFilter}
+              onChange={(e) => setBannedFilter(e.target.value)}
+            >
+              <option value="">All accounts</option>
+              <option value="true">Banned</option>
+              <option value="false">Not banned</option>
+            </select>
+          </div>
+          <p className="admin-hint">{userTotal} {userTotal === 1 ? 'account' : 'accounts'}</p>
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Account</th>
+                <th>Role</th>
+                <th>Uploads</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map(user => (
+                <tr key={user.email}>
+                  <td>
+                    <div>{user.email}</div>
+                    {user.handle && <div className="admin-hint">{user.displayName} · @{user.handle}</div>}
+                  </td>
+                  <td>
+                    {isAdmin ? (
+                      <select
+                        className="admin-input"
+                        value={user.role}
+                        onChange={(e) => handleRoleChange(user, e.target.value)}
+                        disabled={busy}
+                      >
+                        {ROLES.map(name => (
+                          <option key={name} value={name}>{name}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      user.role
+                    )}
+                  </td>
+                  <td>{user.uploadCount} · {formatBytes(user.storageBytes)}</td>
+                  <td>
+                    {user.bannedAt ? (
+                      <span className="admin-banned" title={user.banReason || undefined}>
+                        Banned {new Date(user.bannedAt).toLocaleDateString()}
+                      </span>
+                    ) : (
+                      'Active'
+                    )}
+                  </td>
+                  <td>
+                    {user.bannedAt ? (
+                      <button className="admin-button" onClick={() => handleUnban(user)} disabled={busy}>
+                        Unban
+                      </button>
+                    ) : (
+                      <button className="admin-button danger" onClick={() => handleBan(user)} disabled={busy}>
+                        Ban
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {nextCursor && (
+            <button className="admin-button" onClick={() => fetchUsers(nextCursor)} disabled={busy}>
+              Load more
+            </button>
+          )}
+        </section>
+      )}
+
+      {tab === 'files' && (
+        <section className="admin-section">
+          <p className="admin-hint">
+            The file ID is the number in the file's share link (?file=ID). Hiding takes a file out of listings until
+            it is unhidden; removing deletes it for everyone.
+          </p>
+          <form className="admin-controls" onSubmit={handleRemoveFile}>
+            <input
+              className="admin-input"
+              type="number"
+              min="1"
+              placeholder="File ID"
+              value={fileId}
+              onChange={(e) => setFileId(e.target.value)}
+            />
+            {onViewFile && (
+              <button
+                type="button"
+                className="admin-button"
+                onClick={() => onViewFile(Number(fileId))}
+                disabled={!fileId}
+              >
+                View
+              </button>
+            )}
+            <button
+              type="button"
+              className="admin-button"
+              onClick={() => moderateFile(Number(fileId), 'hide')}
+              disabled={busy || !fileId}
+            >
+              Hide
+            </button>
+            <button
+              type="button"
+              className="admin-button"
+              onClick={() => moderateFile(Number(fileId), 'unhide')}
+              disabled={busy || !fileId}
+            >
+              Unhide
+            </button>
+            <button type="submit" className="admin-button danger" disabled={busy || !fileId}>
+              Remove file
+            </button>
+          </form>
+        </section>
+      )}
+
+      {tab === 'classes' && (
+        <section className="admin-section">
+          <form className="admin-class-form" onSubmit={handleSaveClass}>
+            <h3 className="admin-section-title">{editingClassId ? 'Edit class' : 'Add a class'}</h3>
+            <div className="admin-controls">
+              <input className="admin-input" placeholder="Subject (CS)" value={draft.subject} onChange={(e) => updateDraft('subject', e.target.value)} />
+              <input className="admin-input" placeholder="Catalog (101)" value={draft.catalog} onChange={(e) => updateDraft('catalog', e.target.value)} />
+              <input className="admin-input admin-input-wide" placeholder="Title" value={draft.title} onChange={(e) => updateDraft('title', e.target.value)} />
+            </div>
+            <div className="admin-controls">
+              <input className="admin-input" placeholder="CS number" value={draft.csNumber} onChange={(e) => updateDraft('csNumber', e.target.value)} />
+              <input className="admin-input" placeholder="Min units" value={draft.minUnits} onChange={(e) => updateDraft('minUnits', e.target.value)} />
+              <input className="admin-input" placeholder="Max units" value={draft.maxUnits} onChange={(e) => updateDraft('maxUnits', e.target.value)} />
+              <input className="admin-input" placeholder="Comp units" value={draft.compUnits} onChange={(e) => updateDraft('compUnits', e.target.value)} />
+            </div>
+            <div className="admin-controls">
+              <button type="submit" className="admin-button primary" disabled={busy}>
+                {editingClassId ? 'Save changes' : 'Add class'}
+              </button>
+              {editingClassId && (
+                <button
+                  type="button"
+                  className="admin-button"
+                  onClick={() => {
+                    setEditingClassId(null);
+                    setDraft(EMPTY_DRAFT);
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          <input
+            className="admin-input admin-input-wide"
+            type="text"
+            placeholder="Search the catalogue..."
+            value={classSearch}
+            onChange={(e) => setClassSearch(e.target.value)}
+          />
+          <table className="admin-table">
+            <tbody>
+              {classes.map(cls => (
+                <tr key={cls.id}>
+                  <td>{cls.subject} {cls.catalog}</td>
+                  <td>{cls.title}</td>
+                  <td>{cls.csNumber}</td>
+                  <td className="admin-row-actions">
+                    <button
+                      className="admin-button"
+                      onClick={() => {
+                        setEditingClassId(cls.id);
+                        setDraft(toDraft(cls));
+                      }}
+                      disabled={busy}
+                    >
+                      Edit
+                    </button>
+                    <button className="admin-button danger" onClick={() => handleDeleteClass(cls)} disabled={busy}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {tab === 'storage' && (
+        <section className="admin-section">
+          {!usage ? (
+            <div className="admin-status">Loading storage usage...</div>
+          ) : (
+            <>
+              <div className="admin-stats">
+                <div className="admin-stat">
+                  <span className="admin-stat-value">{usage.files.count}</span>
+                  <span className="admin-hint">files · {formatBytes(usage.files.bytes)}</span>
+                </div>
+                <div className="admin-stat">
+                  <span className="admin-stat-value">{usage.stored.objects}</span>
+                  <span className="admin-hint">stored objects incl. versions · {formatBytes(usage.stored.bytes)}</span>
+                </div>
+                <div className="admin-stat">
+                  <span className="admin-stat-value">{usage.driver}</span>
+                  <span className="admin-hint">storage backend</span>
+                </div>
+              </div>
+
+              <h3 className="admin-section-title">By file type</h3>
+              <table className="admin-table">
+                <tbody>
+                  {usage.byType.map(row => (
+                    <tr key={row.fileType}>
+                      <td>{row.fileType}</td>
+                      <td>{row.count} files</td>
+                      <td>{formatBytes(row.bytes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <h3 className="admin-section-title">Top uploaders</h3>
+              <table className="admin-table">
+                <tbody>
+                  {usage.topUploaders.map(row => (
+                    <tr key={row.email}>
+                      <td>{row.displayName ? `${row.displayName} (${row.email})` : row.email}</td>
+                      <td>{row.count} files</td>
+                      <td>{formatBytes(row.bytes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -1,4 +1,8 @@
 import { useState, useEffect } from 'react';
+import ProfileForm from './ProfileForm';
+import MyClasses from './MyClasses';
+import TwoFactorSettings from './TwoFactorSettings';
+import { apiFetch, getSessionUser, isSignedIn, saveSession, logout, logoutAllDevices, isSsoEnabled, startSso } from '../api';
 import './AuthForm.css';
 
 // AuthForm doubles as the account dashboard and login/create-account flow used by other pages.
@@ -7,13 +11,38 @@ interface AuthFormProps {
     onNavigateHome?: () => void;
     onNavigateToBookmarks?: () => void;
     onNavigateToMyUploads?: () => void;
+    onNavigateToProfile?: (handle: string) => void;
+    initialSection?: AccountSection;
+    // Token from an emailed verification link (/?verify=...); confirmed once on mount
+    verifyToken?: string | null;
+    onVerifyHandled?: () => void;
+    // Token from an emailed password reset link (/?reset=...); shows the new password screen
+    resetToken?: string | null;
+    onResetHandled?: () => void;
+    // Result of signing in with the school's identity provider (/?sso=...); "done" means a session is waiting
+    ssoResult?: string | null;
+    onSsoHandled?: (signedIn: boolean) => void;
 }
 
-type AccountSection = 'menu' | 'change-password';
+type AccountSection = 'menu' | 'change-password' | 'two-factor' | 'profile' | 'classes';
 
-export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToBookmarks, onNavigateToMyUploads }: AuthFormProps) {
+interface Notice {
+    text: string;
+    error: boolean;
+}
+
+// Why signing in with the school didn't work, by the reason in /?sso=<reason>
+const SSO_ERRORS: Record<string, string> = {
+    cancelled: 'Signing in with your school was cancelled.',
+    email_not_verified: 'Your school account has no verified email address, so we could not sign you in.',
+    domain_not_allowed: 'Your school account\'s email address is not from a school StudyLink accepts.',
+    banned: 'This account is banned.',
+    unavailable: 'Your school\'s sign-in page could not be reached. Please try again later.',
+};
+
+export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToBookmarks, onNavigateToMyUploads, onNavigateToProfile, initialSection = 'menu', verifyToken, onVerifyHandled, resetToken, onResetHandled, ssoResult, onSsoHandled }: AuthFormProps) {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [mode, setMode] = useState<'login' | 'register'>('register');
+  const [mode, setMode] = useState<'login' | 'register' | 'forgot'>('register');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -21,7 +50,7 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
   const [loading, setLoading] = useState(false);
   
   // Account settings state
-  const [accountSection, setAccountSection] = useState<AccountSection>('menu');
+  const [accountSection, setAccountSection] = useState<AccountSection>(initialSection);
   const [userEmail, setUserEmail] = useState<string | null>(null);
   
   // Password change form state
@@ -32,26 +61,121 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
   
   // Unified password visibility toggle - controls all password fields
   const [showPasswords, setShowPasswords] = useState(false);
-  
 
-  function getEmailFromToken(token: string | null): string | null {
-    if (!token) return null;
-    try {
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      return payload?.email || payload?.id || null;
-    } catch (err) {
-      console.error('Failed to decode token', err);
-      return null;
-    }
-  }
+  // Email verification: null until /api/users/me says otherwise. Right after registering the
+  // "check your inbox" step is shown instead of the account menu.
+  const [emailVerified, setEmailVerified] = useState<boolean | null>(null);
+  const [awaitingVerification, setAwaitingVerification] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [resendLoading, setResendLoading] = useState(false);
+  // Set when the password was right but the account asks for a two-factor code as well
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [ssoEnabled, setSsoEnabled] = useState(false);
+  
 
   // Check if user is logged in on mount
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    setIsLoggedIn(!!token);
-    setUserEmail(getEmailFromToken(token));
+    setIsLoggedIn(isSignedIn());
+    setUserEmail(getSessionUser()?.email ?? null);
+    if (!isSignedIn()) return;
+    apiFetch('/api/users/me')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data) setEmailVerified(Boolean(data.emailVerified));
+      })
+      .catch(err => console.error('Failed to load account', err));
+  }, []);
+
+  // The link can be opened signed out or in another browser, so the token alone is enough
+  useEffect(() => {
+    if (!verifyToken) return;
+    apiFetch(`/api/auth/verify?token=${encodeURIComponent(verifyToken)}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) {
+          setNotice({ text: data?.error === 'invalid or expired verification link'
+            ? 'This verification link is invalid or has expired. Sign in to get a new one.'
+            : data?.error || 'Verification failed', error: true });
+          return;
+        }
+        if (getSessionUser()?.email === data.email) {
+          setEmailVerified(true);
+          setNotice({ text: 'Your email is verified. You can upload files now.', error: false });
+        } else {
+          setMode('login');
+          setNotice({ text: `${data.email} is verified. Log in to continue.`, error: false });
+        }
+      })
+      .catch(() => setNotice({ text: 'Network error', error: true }))
+      .finally(() => onVerifyHandled?.());
+  }, [verifyToken, onVerifyHandled]);
+
+  useEffect(() => {
+    isSsoEnabled().then(setSsoEnabled);
   }, []);
 
+  // Back from the school's sign-in page: pick up the session it left waiting for us
+  useEffect(() => {
+    if (!ssoResult) return;
+    if (ssoResult !== 'done') {
+      setMode('login');
+      setNotice({ text: SSO_ERRORS[ssoResult] || 'Signing in with your school failed. Please try again.', error: true });
+      onSsoHandled?.(false);
+      return;
+    }
+    let signedIn = false;
+    apiFetch('/api/auth/oidc/session', { method: 'POST' })
+      .then(async res => {
+        const data = await res.json();
+        setMode('login');
+        if (!res.ok) {
+          setNotice({ text: data?.error === 'account is banned'
+            ? 'This account is banned.'
+            : 'Signing in with your school expired. Please try again.', error: true });
+          return;
+        }
+        if (data.twoFactorRequired) {
+          // Same second step as a password login (handleTwoFactorSubmit)
+          setChallengeToken(data.challengeToken);
+          return;
+        }
+        saveSession(data);
+        setIsLoggedIn(true);
+        setUserEmail(data.user.email);
+        setEmailVerified(Boolean(data.user.emailVerified));
+        signedIn = true;
+      })
+      .catch(() => setNotice({ text: 'Network error', error: true }))
+      .finally(() => onSsoHandled?.(signedIn));
+  }, [ssoResult, onSsoHandled]);
+
+  async function handleResend() {
+    if (!isSignedIn()) return;
+    setResendLoading(true);
+    setNotice(null);
+    try {
+      const res = await apiFetch('/api/auth/verify/resend', {
+        method: 'POST'
+      });
+      const data = await res.json();
+      if (res.status === 409) {
+        setEmailVerified(true);
+        setNotice({ text: 'Your email is already verified.', error: false });
+      } else if (res.status === 429) {
+        setNotice({ text: `Please wait ${data.retryAfter} seconds before asking for another email.`, error: true });
+      } else if (!res.ok) {
+        setNotice({ text: data?.error || 'Could not send the email', error: true });
+      } else {
+        setNotice({ text: `We sent a new link to ${userEmail}.`, error: false });
+      }
+    } catch {
+      setNotice({ text: 'Network error', error: true });
+    } finally {
+      setResendLoading(false);
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setLoading(true);
@@ -65,7 +189,7 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
     }
     
     try {
-      const res = await fetch(`/api/auth/${mode}`, {
+      const res = await apiFetch(`/api/auth/${mode}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email, password }),
@@ -73,18 +197,31 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
       const data = await res.json();
       if (!res.ok) {
         setMessage(data?.error || 'Request failed');
+      } else if (data.twoFactorRequired) {
+        // No session yet: it comes back from handleTwoFactorSubmit once the code checks out
+        setChallengeToken(data.challengeToken);
+        setPassword('');
       } else {
-        // Store JWT token in localStorage for authenticated requests
-        if (data.token) {
-          localStorage.setItem('token', data.token);
+        // Keep the session for authenticated requests (the tokens only come back in token mode)
+        if (data.user) {
+          saveSession(data);
           setIsLoggedIn(true);
-          setUserEmail(getEmailFromToken(data.token));
+          setUserEmail(data.user.email);
         }
+        setEmailVerified(Boolean(data.user?.emailVerified));
         setMessage(mode === 'register' ? `Registered: ${data.email || data.user?.email}` : `Logged in: ${data.email || data.user?.email}`);
         // Clear form on success
         setEmail('');
         setPassword('');
         setConfirmPassword('');
+        if (mode === 'register') {
+          // Stay here to explain the verification email before moving on
+          setAwaitingVerification(true);
+          setNotice(data.verificationSent === false
+            ? { text: 'We could not send the verification email. Try sending it again.', error: true }
+            : null);
+          return;
+        }
         onLoginSuccess();
       }
     } catch (err) {
@@ -94,6 +231,107 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
     }
   }
 
+  async function handleTwoFactorSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeToken, code: twoFactorCode }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        if (res.status === 429) {
+          setMessage(`Too many failed attempts. Try again in ${Math.ceil(data.retryAfter / 60)} minutes.`);
+        } else if (data?.error === 'invalid or expired login challenge') {
+          // The challenge lasts a few minutes; start over from the password
+          handleTwoFactorCancel();
+          setNotice({ text: 'Your sign-in expired. Please log in again.', error: true });
+        } else {
+          setMessage(data?.error === 'invalid code' ? 'Invalid code' : data?.error || 'Request failed');
+        }
+        return;
+      }
+      saveSession(data);
+      setIsLoggedIn(true);
+      setUserEmail(data.user.email);
+      setEmailVerified(Boolean(data.user.emailVerified));
+      setChallengeToken(null);
+      setTwoFactorCode('');
+      setEmail('');
+      setMessage(`Logged in: ${data.user.email}`);
+      if (typeof data.recoveryCodesRemaining === 'number') {
+        alert(`You signed in with a recovery code. ${data.recoveryCodesRemaining} unused code(s) left; you can generate new ones under Two-Factor Authentication.`);
+      }
+      onLoginSuccess();
+    } catch {
+      setMessage('Network error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleTwoFactorCancel() {
+    setChallengeToken(null);
+    setTwoFactorCode('');
+    setMessage(null);
+  }
+
+  async function handleForgotPassword(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await res.json();
+      setMessage(res.ok ? `${data.message}. Check your inbox.` : data?.error || 'Request failed');
+    } catch {
+      setMessage('Network error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleResetPassword(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+    if (newPassword !== confirmNewPassword) {
+      setMessage('New passwords do not match');
+      return;
+    }
+
+    setChangePasswordLoading(true);
+    try {
+      const res = await apiFetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: resetToken, newPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data?.error === 'invalid or expired reset link'
+          ? 'This reset link is invalid, expired or already used. Ask for a new one.'
+          : data?.error || 'Password reset failed');
+        return;
+      }
+      setNewPassword('');
+      setConfirmNewPassword('');
+      setMode('login');
+      setNotice({ text: 'Your password has been reset. Log in with your new password.', error: false });
+      onResetHandled?.();
+    } catch {
+      setMessage('Network error');
+    } finally {
+      setChangePasswordLoading(false);
+    }
+  }
+
   async function handlePasswordChange(e: React.FormEvent) {
     e.preventDefault();
     setChangePasswordLoading(true);
@@ -113,12 +351,10 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
     }
     
     try {
-      const token = localStorage.getItem('token');
-      const res = await fetch('/api/auth/password', {
+      const res = await apiFetch('/api/auth/password', {
         method: 'PUT',
         headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ currentPassword, newPassword }),
       });
@@ -126,7 +362,9 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
       if (!res.ok) {
         setMessage(data?.error || 'Password change failed');
       } else {
-        setMessage('Password changed successfully');
+        // Every other session was signed out; this one continues with the new tokens
+        saveSession(data);
+        setMessage('Password changed successfully. Other devices have been logged out.');
         // Clear form on success
         setCurrentPassword('');
         setNewPassword('');
@@ -139,20 +377,41 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
     }
   }
 
-  function handleLogout() {
-    localStorage.removeItem('token');
+  function resetLoggedOut(text: string) {
     setIsLoggedIn(false);
     setUserEmail(null);
-    setMessage('Logged out successfully');
+    setEmailVerified(null);
+    setAwaitingVerification(false);
+    setNotice(null);
+    setMessage(text);
     setEmail('');
     setPassword('');
     setConfirmPassword('');
     onLoginSuccess();
   }
+
+  async function handleLogout() {
+    await logout();
+    resetLoggedOut('Logged out successfully');
+  }
+
+  async function handleLogoutAll() {
+    if (!confirm('Log out of StudyLink on every device, including this one?')) return;
+    try {
+      if (await logoutAllDevices()) {
+        resetLoggedOut('Logged out of all devices');
+      } else {
+        setMessage('Failed to log out of all devices');
+      }
+    } catch {
+      setMessage('Network error');
+    }
+  }
   
-  function handleModeChange(newMode: 'login' | 'register') {
+  function handleModeChange(newMode: 'login' | 'register' | 'forgot') {
     setMode(newMode);
     setMessage(null);
+    setNotice(null);
     // Clear confirm password when switching to login
     if (newMode === 'login') {
       setConfirmPassword('');
@@ -160,6 +419,122 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
   }
 
 
+  // A reset link works whether or not someone is signed in on this browser
+  if (resetToken) {
+    return (
+      <div className="auth-page-container">
+        <div className="auth-card">
+          <h1 className="auth-welcome">Choose a new password</h1>
+          <p className="auth-subtitle">The link works once. After saving, log in with your new password.</p>
+          <form onSubmit={handleResetPassword} className="auth-form">
+            <div className="form-field">
+              <label htmlFor="resetPassword">New Password*</label>
+              <div className="password-input-wrapper">
+                <input
+                  id="resetPassword"
+                  type={showPasswords ? "text" : "password"}
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  placeholder="At least 8 characters"
+                  minLength={8}
+                  required
+                />
+                <button
+                  type="button"
+                  className="password-toggle-btn"
+                  onClick={() => setShowPasswords(!showPasswords)}
+                  aria-label={showPasswords ? "Hide passwords" : "Show passwords"}
+                >
+                  {showPasswords ? "Hide" : "Show"}
+                </button>
+              </div>
+            </div>
+            <div className="form-field">
+              <label htmlFor="confirmResetPassword">Confirm New Password*</label>
+              <div className="password-input-wrapper">
+                <input
+                  id="confirmResetPassword"
+                  type={showPasswords ? "text" : "password"}
+                  value={confirmNewPassword}
+                  onChange={(e) => setConfirmNewPassword(e.target.value)}
+                  placeholder="Re-enter your new password"
+                  minLength={8}
+                  required
+                />
+                <button
+                  type="button"
+                  className="password-toggle-btn"
+                  onClick={() => setShowPasswords(!showPasswords)}
+                  aria-label={showPasswords ? "Hide passwords" : "Show passwords"}
+                >
+                  {showPasswords ? "Hide" : "Show"}
+                </button>
+              </div>
+              {confirmNewPassword && newPassword !== confirmNewPassword && (
+                <div className="field-error">
+                  Passwords do not match
+                </div>
+              )}
+            </div>
+            <button type="submit" className="auth-submit-btn" disabled={changePasswordLoading}>
+              {changePasswordLoading ? 'Saving…' : 'Save new password'}
+            </button>
+            {message && (
+              <div className="auth-message error">
+                {message}
+              </div>
+            )}
+          </form>
+          <div className="auth-switch">
+            <span>Remembered it?</span>
+            <button
+              type="button"
+              onClick={() => {
+                setMessage(null);
+                setMode('login');
+                onResetHandled?.();
+              }}
+              className="auth-link"
+            >
+              Back to log in
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Right after registering: point the user at their inbox before anything else
+  if (isLoggedIn && awaitingVerification && !emailVerified) {
+    return (
+      <div className="auth-page-container">
+        <div className="auth-card">
+          <h1 className="auth-welcome">Check your inbox</h1>
+          <p className="auth-subtitle">
+            We sent a verification link to <strong>{userEmail}</strong>. Open it to confirm the address
+            belongs to you. Until then you can browse and download materials, but not upload.
+          </p>
+          <p className="auth-subtitle">
+            The link expires in 24 hours. Can't find it? Check your spam folder or send another one.
+          </p>
+          <div className="verify-actions">
+            <button type="button" className="verify-resend-btn" onClick={handleResend} disabled={resendLoading}>
+              {resendLoading ? 'Sending…' : 'Resend email'}
+            </button>
+            <button type="button" className="auth-submit-btn" onClick={onLoginSuccess}>
+              Continue to StudyLink
+            </button>
+          </div>
+          {notice && (
+            <div className={`auth-message ${notice.error ? 'error' : 'success'}`}>
+              {notice.text}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // Show account settings if logged in
   if (isLoggedIn) {
   return (
@@ -180,10 +555,42 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
               </p>
             )}
           </div>
+
+          {emailVerified === false && (
+            <div className="verify-banner">
+              <span>Your email address isn't verified yet, so you can't upload. Open the link we emailed you.</span>
+              <button type="button" className="verify-resend-btn" onClick={handleResend} disabled={resendLoading}>
+                {resendLoading ? 'Sending…' : 'Resend email'}
+              </button>
+            </div>
+          )}
+          {notice && (
+            <div className={`auth-message ${notice.error ? 'error' : 'success'}`}>
+              {notice.text}
+            </div>
+          )}
           
           {accountSection === 'menu' && (
             <div className="account-settings-menu">
               <ul className="account-menu-list">
+                <li>
+                  <button 
+                    type="button"
+                    onClick={() => setAccountSection('profile')}
+                    className="account-menu-item"
+                  >
+                    Edit Profile
+                  </button>
+                </li>
+                <li>
+                  <button 
+                    type="button"
+                    onClick={() => setAccountSection('classes')}
+                    className="account-menu-item"
+                  >
+                    My Classes
+                  </button>
+                </li>
                 <li>
                   <button 
                     type="button"
@@ -193,6 +600,15 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
                     Change Password
                   </button>
                 </li>
+                <li>
+                  <button
+                    type="button"
+                    onClick={() => setAccountSection('two-factor')}
+                    className="account-menu-item"
+                  >
+                    Two-Factor Authentication
+                  </button>
+                </li>
                 <li>
                   <button 
                     type="button"
@@ -220,6 +636,15 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
                   </button>
                 </li>
                 <li>
+                  <button
+                    type="button"
+                    onClick={handleLogoutAll}
+                    className="account-menu-item logout-item"
+                  >
+                    Log Out All Devices
+                  </button>
+                </li>
+                <li>
         <button
           type="button"
                     onClick={handleLogout}
@@ -232,6 +657,48 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
             </div>
           )}
           
+          {accountSection === 'profile' && (
+            <div className="account-settings">
+              <button
+                type="button"
+                onClick={() => setAccountSection('menu')}
+                className="back-to-menu-btn"
+              >
+                ← Back to menu
+              </button>
+              <h3>Public Profile</h3>
+              <ProfileForm onViewProfile={onNavigateToProfile} />
+            </div>
+          )}
+
+          {accountSection === 'classes' && (
+            <div className="account-settings">
+              <button
+                type="button"
+                onClick={() => setAccountSection('menu')}
+                className="back-to-menu-btn"
+              >
+                ← Back to menu
+              </button>
+              <h3>My Classes</h3>
+              <MyClasses />
+            </div>
+          )}
+
+          {accountSection === 'two-factor' && (
+            <div className="account-settings">
+              <button
+                type="button"
+                onClick={() => setAccountSection('menu')}
+                className="back-to-menu-btn"
+              >
+                ← Back to menu
+              </button>
+              <h3>Two-Factor Authentication</h3>
+              <TwoFactorSettings />
+            </div>
+          )}
+
           {accountSection === 'change-password' && (
             <div className="account-settings">
         <button
@@ -350,6 +817,99 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
           </button>
         </div>
       )}
+      {mode === 'forgot' ? (
+      <div className="auth-card">
+        <h1 className="auth-welcome">Reset your password</h1>
+        <p className="auth-subtitle">
+          Enter the email you signed up with and we'll send you a link to choose a new password.
+        </p>
+        <form onSubmit={handleForgotPassword} className="auth-form">
+          <div className="form-field">
+            <label htmlFor="forgotEmail">Email address*</label>
+            <input
+              id="forgotEmail"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@school.edu"
+              maxLength={100}
+              required
+            />
+          </div>
+          <button type="submit" className="auth-submit-btn" disabled={loading}>
+            {loading ? 'Sending…' : 'Send reset link'}
+          </button>
+          {message && (
+            <div className={`auth-message ${
+              message.toLowerCase().includes('error') ||
+              message.toLowerCase().includes('failed') ||
+              message.toLowerCase().includes('required')
+                ? 'error'
+                : 'success'
+            }`}>
+              {message}
+            </div>
+          )}
+        </form>
+        <div className="auth-switch">
+          <span>Remembered it?</span>
+          <button
+            type="button"
+            onClick={() => handleModeChange('login')}
+            className="auth-link"
+          >
+            Back to log in
+          </button>
+        </div>
+      </div>
+      ) : challengeToken ? (
+      <div className="auth-card">
+        <h1 className="auth-welcome">Two-factor authentication</h1>
+        <p className="auth-subtitle">
+          Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+        </p>
+        <form onSubmit={handleTwoFactorSubmit} className="auth-form">
+          <div className="form-field">
+            <label htmlFor="twoFactorCode">Code*</label>
+            <input
+              id="twoFactorCode"
+              type="text"
+              value={twoFactorCode}
+              onChange={(e) => setTwoFactorCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+              maxLength={20}
+              required
+              autoFocus
+            />
+          </div>
+          <button type="submit" className="auth-submit-btn" disabled={loading}>
+            {loading ? 'Checking…' : 'Verify'}
+          </button>
+          {message && (
+            <div className={`auth-message ${
+              message.toLowerCase().includes('invalid') ||
+              message.toLowerCase().includes('failed') ||
+              message.toLowerCase().includes('network error')
+                ? 'error'
+                : 'success'
+            }`}>
+              {message}
+            </div>
+          )}
+        </form>
+        <div className="auth-switch">
+          <span>Not you?</span>
+          <button
+            type="button"
+            onClick={handleTwoFactorCancel}
+            className="auth-link"
+          >
+            Back to log in
+          </button>
+        </div>
+      </div>
+      ) : (
       <div className="auth-card">
         <h1 className="auth-welcome">
           {mode === 'login' ? 'Welcome back' : 'Create your account'}
@@ -359,6 +919,12 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
             ? 'Sign in to access your files and bookmarks'
             : 'Join StudyLink to share and discover course materials'}
         </p>
+
+        {notice && (
+          <div className={`auth-message ${notice.error ? 'error' : 'success'}`}>
+            {notice.text}
+          </div>
+        )}
         
       <form onSubmit={handleSubmit} className="auth-form">
           <div className="form-field">
@@ -400,6 +966,15 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
                 {showPasswords ? "Hide" : "Show"}
               </button>
             </div>
+            {mode === 'login' && (
+              <button
+                type="button"
+                onClick={() => handleModeChange('forgot')}
+                className="auth-link forgot-password-link"
+              >
+                Forgot password?
+              </button>
+            )}
           </div>
           
         {mode === 'register' && (
@@ -450,6 +1025,12 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
             </div>
           )}
       </form>
+
+        {ssoEnabled && (
+          <button type="button" className="auth-sso-btn" onClick={startSso}>
+            Sign in with your school
+          </button>
+        )}
         
         <div className="auth-switch">
           {mode === 'login' ? (
@@ -477,6 +1058,7 @@ export default function AuthForm({ onLoginSuccess, onNavigateHome, onNavigateToB
           )}
         </div>
       </div>
+      )}
     </div>
   );
 }
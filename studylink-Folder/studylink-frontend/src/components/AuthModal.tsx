@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { apiFetch, saveSession, isSsoEnabled, startSso } from '../api';
 import './AuthModal.css';
 
 // Lightweight auth modal used by bookmark/upload flows to gate actions without leaving the page.
@@ -14,6 +15,14 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLoginSuccess }) => {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [message, setMessage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Set when the account asks for a two-factor code after the password
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [ssoEnabled, setSsoEnabled] = useState(false);
+
+  useEffect(() => {
+    isSsoEnabled().then(setSsoEnabled);
+  }, []);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -27,7 +36,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLoginSuccess }) => {
     }
     
     try {
-      const res = await fetch(`/api/auth/${mode}`, {
+      const res = await apiFetch(`/api/auth/${mode}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email, password }),
@@ -35,15 +44,19 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLoginSuccess }) => {
       const data = await res.json();
       if (!res.ok) {
         setMessage(data?.error || 'Request failed');
+      } else if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        setPassword('');
       } else {
-        if (data.token) {
-          localStorage.setItem('token', data.token);
+        if (data.user) {
+          saveSession(data);
         }
-        setMessage(mode === 'register' ? `Registered: ${data.email || data.user?.email}` : `Logged in: ${data.email || data.user?.email}`);
+        setMessage(mode === 'register' ? `Registered: ${data.email || data.user?.email}. Check your inbox to verify your email.` : `Logged in: ${data.email || data.user?.email}`);
+        // Leave time to read the verification hint after registering
         setTimeout(() => {
           onLoginSuccess();
           onClose();
-        }, 1000);
+        }, mode === 'register' ? 3000 : 1000);
       }
     } catch (err) {
       setMessage('Network error');
@@ -52,6 +65,95 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLoginSuccess }) => {
     }
   }
 
+  async function handleTwoFactorSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        if (res.status === 429) {
+          setMessage(`Too many failed attempts. Try again in ${Math.ceil(data.retryAfter / 60)} minutes.`);
+        } else if (data?.error === 'invalid or expired login challenge') {
+          setChallengeToken(null);
+          setCode('');
+          setMessage('Your sign-in expired. Please log in again.');
+        } else {
+          setMessage(data?.error === 'invalid code' ? 'Invalid code' : data?.error || 'Request failed');
+        }
+        return;
+      }
+      saveSession(data);
+      setMessage(typeof data.recoveryCodesRemaining === 'number'
+        ? `Logged in with a recovery code. ${data.recoveryCodesRemaining} left.`
+        : `Logged in: ${data.user.email}`);
+      setTimeout(() => {
+        onLoginSuccess();
+        onClose();
+      }, typeof data.recoveryCodesRemaining === 'number' ? 3000 : 1000);
+    } catch {
+      setMessage('Network error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (challengeToken) {
+    return (
+      <div className="auth-modal-overlay" onClick={onClose}>
+        <div className="auth-modal-container" onClick={(e) => e.stopPropagation()}>
+          <button className="auth-modal-close" onClick={onClose}>×</button>
+          <h2 className="auth-modal-title">Two-factor authentication</h2>
+          <p className="auth-modal-subtitle">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+          </p>
+          <form onSubmit={handleTwoFactorSubmit} className="auth-modal-form">
+            <div className="form-field">
+              <label htmlFor="modal-two-factor-code">Code*</label>
+              <input
+                id="modal-two-factor-code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+                maxLength={20}
+                required
+                autoFocus
+              />
+            </div>
+            <button type="submit" className="auth-modal-submit-btn" disabled={loading}>
+              {loading ? 'Checking…' : 'Verify'}
+            </button>
+            {message && (
+              <div className={`auth-modal-message ${message.includes('Invalid') || message.includes('Failed') || message.includes('failed') || message.includes('Network error') ? 'error' : 'success'}`}>
+                {message}
+              </div>
+            )}
+          </form>
+          <div className="auth-modal-switch">
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken(null);
+                setCode('');
+                setMessage(null);
+              }}
+              className="auth-modal-link"
+            >
+              Back to log in
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="auth-modal-overlay" onClick={onClose}>
       <div className="auth-modal-container" onClick={(e) => e.stopPropagation()}>
@@ -117,11 +219,17 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLoginSuccess }) => {
           </button>
           
           {message && (
-            <div className={`auth-modal-message ${message.includes('error') || message.includes('Failed') || message.includes('do not match') ? 'error' : 'success'}`}>
+            <div className={`auth-modal-message ${message.includes('error') || message.includes('Failed') || message.includes('do not match') || message.includes('expired') ? 'error' : 'success'}`}>
               {message}
             </div>
           )}
         </form>
+
+        {ssoEnabled && (
+          <button type="button" className="auth-modal-sso-btn" onClick={startSso}>
+            Sign in with your school
+          </button>
+        )}
         
         <div className="auth-modal-switch">
           {mode === 'login' ? (
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import './Avatar.css';
+
+// Round profile picture; falls back to the first letter of the display name when there is no image.
+interface AvatarProps {
+  displayName: string;
+  avatarUrl?: string | null;
+  size?: number;
+}
+
+const Avatar: React.FC<AvatarProps> = ({ displayName, avatarUrl, size = 32 }) => {
+  // Remembers which URL failed, so a new avatar gets another try
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const style = { width: size, height: size, fontSize: size * 0.45 };
+
+  if (avatarUrl && avatarUrl !== failedUrl) {
+    return (
+      <img
+        className="avatar"
+        src={avatarUrl}
+        alt=""
+        style={style}
+        onError={() => setFailedUrl(avatarUrl)}
+      />
+    );
+  }
+
+  return (
+    <span className="avatar avatar-initial" style={style} aria-hidden="true">
+      {displayName.trim().charAt(0).toUpperCase() || '?'}
+    </span>
+  );
+};
+
+export default Avatar;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import Tile from './Tile';
 import SearchBar from './SearchBar';
+import { apiFetch, isSignedIn } from '../api';
 import './Grid.css';
 
 // Dedicated page for a user's bookmarks; mirrors My Uploads layout but sources data from /bookmarks.
@@ -30,21 +31,15 @@ const Bookmarks: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const token = localStorage.getItem('token');
-      if (!token) {
+      if (!isSignedIn()) {
         setError('Please log in to view your bookmarks');
         setLoading(false);
         return;
       }
 
-      const res = await fetch('/api/files/bookmarks', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const res = await apiFetch('/api/files/bookmarks');
 
       if (res.status === 401) {
-        localStorage.removeItem('token');
         setError('Session expired. Please log in again.');
         setLoading(false);
         return;
@@ -122,14 +117,10 @@ const Bookmarks: React.FC = () => {
   // Handle unbookmark - refresh the list
   const handleUnbookmark = async (fileId: number) => {
     try {
-      const token = localStorage.getItem('token');
-      if (!token) return;
+      if (!isSignedIn()) return;
 
-      const res = await fetch(`/api/files/${fileId}/bookmark`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
+      const res = await apiFetch(`/api/files/${fileId}/bookmark`, {
+        method: 'DELETE'
       });
 
       if (res.ok || res.status === 204) {
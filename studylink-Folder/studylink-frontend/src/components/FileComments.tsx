@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Avatar from './Avatar';
+import { apiFetch, isSignedIn } from '../api';
+import './FileComments.css';
+
+// Discussion panel under the FileViewer preview: comments with one level of replies; authors can edit or delete their own.
+interface FileCommentsProps {
+  fileId: number;
+  grant?: string | null;
+  onLoginClick?: () => void;
+  onAuthorClick?: (handle: string) => void;
+}
+
+interface Comment {
+  id: number;
+  parentId: number | null;
+  author: {
+    handle: string;
+    displayName: string;
+    avatarUrl: string | null;
+  } | null;
+  body: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+  isDeleted: boolean;
+  isMine: boolean;
+  replies?: Comment[];
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+
+const FileComments: React.FC<FileCommentsProps> = ({ fileId, grant, onLoginClick, onAuthorClick }) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newBody, setNewBody] = useState('');
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [busy, setBusy] = useState(false);
+  const isLoggedIn = isSignedIn();
+  const grantQuery = grant ? `?grant=${encodeURIComponent(grant)}` : '';
+
+  const fetchComments = useCallback(async () => {
+    try {
+      // Signed-in callers get isMine set on their own comments
+      const res = await apiFetch(`/api/files/${fileId}/comments${grantQuery}`);
+      if (!res.ok) throw new Error('Failed to load comments');
+      const data = await res.json();
+      setComments(data.comments);
+      setTotal(data.total);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [fileId, grantQuery]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  async function postComment(body: string, parentId: number | null): Promise<boolean> {
+    if (!isSignedIn()) {
+      onLoginClick?.();
+      return false;
+    }
+
+    setBusy(true);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/comments${grantQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body, parentId })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to post comment');
+        return false;
+      }
+      if (data.parentId) {
+        setComments(prev => prev.map(comment => (
+          comment.id === data.parentId
+            ? { ...comment, replies: [...(comment.replies || []), data] }
+            : comment
+        )));
+      } else {
+        setComments(prev => [...prev, data]);
+      }
+      setTotal(count => count + 1);
+      return true;
+    } catch (err) {
+      console.error('Comment error:', err);
+      alert('Failed to post comment');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleNewComment(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newBody.trim()) return;
+    if (await postComment(newBody.trim(), null)) {
+      setNewBody('');
+    }
+  }
+
+  async function handleReply(e: React.FormEvent, parentId: number) {
+    e.preventDefault();
+    if (!replyBody.trim()) return;
+    if (await postComment(replyBody.trim(), parentId)) {
+      setReplyBody('');
+      setReplyTo(null);
+    }
+  }
+
+  async function handleEdit(e: React.FormEvent, commentId: number) {
+    e.preventDefault();
+    if (!isSignedIn() || !editBody.trim()) return;
+
+    setBusy(true);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: editBody.trim() })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to edit comment');
+        return;
+      }
+      // Keep the replies of an edited top-level comment
+      const replace = (comment: Comment) => (comment.id === commentId ? { ...comment, ...data } : comment);
+      setComments(prev => prev.map(comment => ({
+        ...replace(comment),
+        replies: comment.replies?.map(replace)
+      })));
+      setEditingId(null);
+    } catch (err) {
+      console.error('Edit comment error:', err);
+      alert('Failed to edit comment');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleDelete(commentId: number) {
+    if (!confirm('Delete this comment?')) {
+      return;
+    }
+    if (!isSignedIn()) return;
+
+    setBusy(true);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/comments/${commentId}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok && res.status !== 204) {
+        const data = await res.json();
+        alert(data.error || 'Failed to delete comment');
+        return;
+      }
+      // A deleted comment may stay behind as a placeholder, so take the server's view of the thread
+      await fetchComments();
+    } catch (err) {
+      console.error('Delete comment error:', err);
+      alert('Failed to delete comment');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function renderComment(comment: Comment, isReply: boolean) {
+    const threadId = isReply ? comment.parentId! : comment.id;
+
+    return (
+      <div key={comment.id} className={`file-comment ${isReply ? 'reply' : ''}`}>
+        {comment.isDeleted ? (
+          <div className="file-comment-deleted">This comment was deleted.</div>
+        ) : (
+          <>
+            <div className="file-comment-meta">
+              {comment.author && (
+                <span
+                  className="file-comment-author"
+                  onClick={() => onAuthorClick?.(comment.author!.handle)}
+                  title={`@${comment.author.handle}`}
+                >
+                  <Avatar displayName={comment.author.displayName} avatarUrl={comment.author.avatarUrl} size={22} />
+                  {comment.author.displayName}
+                </span>
+              )}
+              <span className="file-comment-date">
+                {new Date(comment.createdAt).toLocaleString()}
+                {comment.updatedAt && ' (edited)'}
+              </span>
+            </div>
+
+            {editingId === comment.id ? (
+              <form className="file-comment-form" onSubmit={(e) => handleEdit(e, comment.id)}>
+                <textarea
+                  className="file-comment-input"
+                  value={editBody}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  onChange={(e) => setEditBody(e.target.value)}
+                  disabled={busy}
+                  autoFocus
+                />
+                <div className="file-comment-form-actions">
+                  <button type="submit" className="file-comment-submit" disabled={busy || !editBody.trim()}>
+                    Save
+                  </button>
+                  <button type="button" className="file-comment-link" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <p className="file-comment-body">{comment.body}</p>
+            )}
+
+            <div className="file-comment-actions">
+              {isLoggedIn && (
+                <button
+                  className="file-comment-link"
+                  onClick={() => {
+                    setReplyTo(threadId);
+                    setReplyBody(isReply && comment.author ? `@${comment.author.handle} ` : '');
+                  }}
+                >
+                  Reply
+                </button>
+              )}
+              {comment.isMine && editingId !== comment.id && (
+                <>
+                  <button
+                    className="file-comment-link"
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditBody(comment.body || '');
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button className="file-comment-link danger" onClick={() => handleDelete(comment.id)} disabled={busy}>
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+
+        {!isReply && (comment.replies || []).length > 0 && (
+          <div className="file-comment-replies">
+            {comment.replies!.map(reply => renderComment(reply, true))}
+          </div>
+        )}
+
+        {!isReply && replyTo === comment.id && (
+          <form className="file-comment-form reply" onSubmit={(e) => handleReply(e, comment.id)}>
+            <textarea
+              className="file-comment-input"
+              placeholder="Write a reply..."
+              value={replyBody}
+              maxLength={MAX_COMMENT_LENGTH}
+              onChange={(e) => setReplyBody(e.target.value)}
+              disabled={busy}
+              autoFocus
+            />
+            <div className="file-comment-form-actions">
+              <button type="submit" className="file-comment-submit" disabled={busy || !replyBody.trim()}>
+                Reply
+              </button>
+              <button type="button" className="file-comment-link" onClick={() => setReplyTo(null)}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <section className="file-comments">
+      <h2 className="file-comments-title">Discussion {total > 0 && <span className="file-comments-count">({total})</span>}</h2>
+
+      {isLoggedIn ? (
+        <form className="file-comment-form" onSubmit={handleNewComment}>
+          <textarea
+            className="file-comment-input"
+            placeholder="Ask a question or leave a comment..."
+            value={newBody}
+            maxLength={MAX_COMMENT_LENGTH}
+            onChange={(e) => setNewBody(e.target.value)}
+            disabled={busy}
+          />
+          <div className="file-comment-form-actions">
+            <button type="submit" className="file-comment-submit" disabled={busy || !newBody.trim()}>
+              Comment
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button className="file-comments-login" onClick={() => onLoginClick?.()}>
+          Log in to join the discussion
+        </button>
+      )}
+
+      {loading ? (
+        <div className="file-comments-empty">Loading comments...</div>
+      ) : error ? (
+        <div className="file-comments-error">{error}</div>
+      ) : comments.length === 0 ? (
+        <div className="file-comments-empty">No comments yet. Questions about this file are welcome here.</div>
+      ) : (
+        <div className="file-comments-list">
+          {comments.map(comment => renderComment(comment, false))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default FileComments;
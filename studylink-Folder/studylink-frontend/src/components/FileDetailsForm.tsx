@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { apiFetch, isSignedIn } from '../api';
+import './FileDetailsForm.css';
+
+// Inline form for owners to rename a file, change its course, term, description and visibility (PATCH /api/files/:id).
+interface Class {
+  id: number;
+  subject: string;
+  catalog: string;
+  title: string;
+  csNumber: string;
+}
+
+interface Offering {
+  id: number;
+  term: { id: number; name: string };
+  section: string | null;
+  instructor: string | null;
+}
+
+interface EditableFile {
+  id: number;
+  originalName: string;
+  description?: string | null;
+  visibility?: string;
+  class: {
+    id: number;
+  } | null;
+  offering?: {
+    id: number;
+  } | null;
+}
+
+interface UpdatedFileDetails {
+  id: number;
+  originalName: string;
+  description: string | null;
+  visibility: string;
+  grant: string | null;
+  uploadedAt: string;
+  class: Class | null;
+  offering: Offering | null;
+}
+
+interface FileDetailsFormProps {
+  file: EditableFile;
+  onSaved: (updated: UpdatedFileDetails) => void;
+  onCancel: () => void;
+}
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+const VISIBILITY_OPTIONS = [
+  { value: 'public', label: 'Everyone' },
+  { value: 'campus', label: 'Signed-in students' },
+  { value: 'class', label: 'Members of the course' },
+  { value: 'private', label: 'Only people with a share link' }
+];
+
+function offeringLabel(offering: Offering): string {
+  return [
+    offering.term.name,
+    offering.section && `Section ${offering.section}`,
+    offering.instructor
+  ].filter(Boolean).join(' · ');
+}
+
+const FileDetailsForm: React.FC<FileDetailsFormProps> = ({ file, onSaved, onCancel }) => {
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [fileName, setFileName] = useState(file.originalName);
+  const [classId, setClassId] = useState(file.class ? file.class.id.toString() : '');
+  const [offerings, setOfferings] = useState<Offering[]>([]);
+  const [offeringId, setOfferingId] = useState(file.offering ? file.offering.id.toString() : '');
+  const [description, setDescription] = useState(file.description || '');
+  const [visibility, setVisibility] = useState(file.visibility || 'public');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchClasses() {
+      try {
+        const res = await apiFetch('/api/classes');
+        if (res.ok) {
+          const data = await res.json();
+          setClasses(data);
+        }
+      } catch (err) {
+        console.error('Failed to fetch classes:', err);
+      }
+    }
+    fetchClasses();
+  }, []);
+
+  useEffect(() => {
+    if (!classId) {
+      setOfferings([]);
+      return;
+    }
+    let cancelled = false;
+    async function fetchOfferings() {
+      try {
+        const res = await apiFetch(`/api/classes/${classId}/offerings`);
+        if (res.ok && !cancelled) {
+          setOfferings(await res.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch class offerings:', err);
+      }
+    }
+    fetchOfferings();
+    return () => {
+      cancelled = true;
+    };
+  }, [classId]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!fileName.trim()) {
+      setError('Name cannot be empty');
+      return;
+    }
+    if (visibility === 'class' && !classId) {
+      setError('Pick a course to share this file with its members');
+      return;
+    }
+
+    if (!isSignedIn()) {
+      setError('Please log in to edit files');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/files/${file.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          fileName: fileName.trim(),
+          classId: classId || null,
+          offeringId: offeringId || null,
+          description: description.trim() || null,
+          visibility
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(res.status === 403 ? 'You can only edit files you uploaded' : data.error || 'Failed to save changes');
+        return;
+      }
+      onSaved(data);
+    } catch (err) {
+      console.error('Edit error:', err);
+      setError('Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form className="file-details-form" onSubmit={handleSubmit}>
+      <label className="file-details-label">
+        Name
+        <input
+          type="text"
+          className="file-details-input"
+          value={fileName}
+          maxLength={255}
+          onChange={(e) => setFileName(e.target.value)}
+          disabled={saving}
+          autoFocus
+        />
+      </label>
+      <label className="file-details-label">
+        Course
+        <select
+          className="file-details-input"
+          value={classId}
+          onChange={(e) => {
+            setClassId(e.target.value);
+            setOfferingId('');
+          }}
+          disabled={saving}
+        >
+          <option value="">No course</option>
+          {classes.map((cls) => (
+            <option key={cls.id} value={cls.id.toString()}>
+              {cls.subject} {cls.catalog} - {cls.title}
+            </option>
+          ))}
+        </select>
+      </label>
+      {offerings.length > 0 && (
+        <label className="file-details-label">
+          Term
+          <select
+            className="file-details-input"
+            value={offeringId}
+            onChange={(e) => setOfferingId(e.target.value)}
+            disabled={saving}
+          >
+            <option value="">Any term</option>
+            {offerings.map((offering) => (
+              <option key={offering.id} value={offering.id.toString()}>
+                {offeringLabel(offering)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="file-details-label">
+        Description
+        <textarea
+          className="file-details-input file-details-description"
+          value={description}
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          placeholder="What's in this file? (optional)"
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={saving}
+        />
+      </label>
+
+      <label className="file-details-label">
+        Who can see this
+        <select
+          className="file-details-input"
+          value={visibility}
+          onChange={(e) => setVisibility(e.target.value)}
+          disabled={saving}
+        >
+          {VISIBILITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {error && <div className="file-details-error">{error}</div>}
+
+      <div className="file-details-actions">
+        <button type="submit" className="file-details-save-btn" disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button type="button" className="file-details-cancel-btn" onClick={onCancel} disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default FileDetailsForm;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiFetch, isSignedIn } from '../api';
+import './FileSharing.css';
+
+// Owner panel in FileViewer for share links (GET/POST/DELETE /api/files/:id/share-links); an active link opens the file for anyone.
+interface FileSharingProps {
+  fileId: number;
+}
+
+interface ShareLink {
+  id: number;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  status: 'active' | 'expired' | 'revoked';
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+  { value: '', label: 'Never expires' }
+];
+
+// App opens the file in the viewer when it starts with ?file=...&share=...
+function shareUrl(fileId: number, token: string): string {
+  return `${window.location.origin}/?file=${fileId}&share=${encodeURIComponent(token)}`;
+}
+
+function describeLink(link: ShareLink): string {
+  const created = `Created ${new Date(link.createdAt).toLocaleDateString()}`;
+  if (link.status === 'revoked') return `${created} · revoked`;
+  if (link.status === 'expired') return `${created} · expired`;
+  return link.expiresAt
+    ? `${created} · expires ${new Date(link.expiresAt).toLocaleDateString()}`
+    : `${created} · never expires`;
+}
+
+const FileSharing: React.FC<FileSharingProps> = ({ fileId }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiry, setExpiry] = useState('7');
+  // The token is only returned once, so the new link is shown until the panel goes away
+  const [newLink, setNewLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLinks = useCallback(async () => {
+    if (!isSignedIn()) return;
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/share-links`);
+      if (!res.ok) throw new Error('Failed to load share links');
+      const data = await res.json();
+      setLinks(data.links);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load share links');
+    }
+  }, [fileId]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  async function handleCreate() {
+    if (!isSignedIn()) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/share-links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ expiresInDays: expiry ? Number(expiry) : null })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create share link');
+        return;
+      }
+      const { token: shareToken, ...link } = data;
+      setLinks(prev => [link, ...prev]);
+      setNewLink(shareUrl(fileId, shareToken));
+      setCopied(false);
+    } catch (err) {
+      console.error('Share link error:', err);
+      setError('Failed to create share link');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!newLink) return;
+    try {
+      await navigator.clipboard.writeText(newLink);
+      setCopied(true);
+    } catch {
+      setError('Could not copy; select the link and copy it instead');
+    }
+  }
+
+  async function handleRevoke(linkId: number) {
+    if (!confirm('Revoke this link? Anyone using it will lose access.')) {
+      return;
+    }
+    if (!isSignedIn()) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/share-links/${linkId}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok && res.status !== 204) {
+        const data = await res.json();
+        setError(data.error || 'Failed to revoke share link');
+        return;
+      }
+      await fetchLinks();
+    } catch (err) {
+      console.error('Revoke error:', err);
+      setError('Failed to revoke share link');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="file-sharing">
+      <div className="file-sharing-controls">
+        <span className="file-sharing-title">Share links</span>
+        <select
+          className="file-sharing-select"
+          value={expiry}
+          onChange={(e) => setExpiry(e.target.value)}
+          disabled={busy}
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button className="file-sharing-button primary" onClick={handleCreate} disabled={busy}>
+          Create link
+        </button>
+      </div>
+
+      {newLink && (
+        <div className="file-sharing-controls">
+          <input
+            className="file-sharing-url"
+            value={newLink}
+            readOnly
+            onFocus={(e) => e.target.select()}
+          />
+          <button className="file-sharing-button" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <span className="file-sharing-hint">Copy it now: the link can't be shown again.</span>
+        </div>
+      )}
+
+      {error && <div className="file-sharing-error">{error}</div>}
+
+      {links.length > 0 && (
+        <ul className="file-sharing-list">
+          {links.map(link => (
+            <li key={link.id} className={`file-sharing-item ${link.status}`}>
+              <span>{describeLink(link)}</span>
+              {link.status === 'active' && (
+                <button
+                  className="file-sharing-revoke"
+                  onClick={() => handleRevoke(link.id)}
+                  disabled={busy}
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FileSharing;
@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import LineDiff from './LineDiff';
+import { apiFetch, isSignedIn } from '../api';
+import './FileVersions.css';
+
+// Version history panel for FileViewer: pick, download and compare versions; owners can also restore or upload new ones.
+interface FileVersionsProps {
+  fileId: number;
+  isOwner: boolean;
+  grant?: string | null;
+  onVersionChange: () => void;
+}
+
+interface FileVersion {
+  version: number;
+  size: number | null;
+  fileType: string | null;
+  originalName: string;
+  uploadedBy: {
+    handle: string;
+    displayName: string;
+  } | null;
+  note: string | null;
+  restoredFrom: number | null;
+  uploadedAt: string;
+  isCurrent: boolean;
+}
+
+interface VersionList {
+  fileId: number;
+  currentVersion: number;
+  versions: FileVersion[];
+}
+
+interface DiffTexts {
+  oldVersion: number;
+  newVersion: number;
+  oldText: string;
+  newText: string;
+}
+
+const TEXT_EXTENSIONS = ['.txt', '.md', '.markdown', '.csv', '.tsv', '.json', '.tex', '.js', '.mjs', '.ts', '.css', '.html', '.py', '.java', '.c', '.cpp', '.h'];
+// Comparing is done in the browser, so keep the texts to something a diff can chew through quickly
+const MAX_DIFF_BYTES = 1024 * 1024;
+
+function isTextVersion(version: FileVersion): boolean {
+  const type = version.fileType || '';
+  if (type.startsWith('text/') || type === 'application/json') return true;
+  const name = version.originalName.toLowerCase();
+  return TEXT_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+function describeVersion(version: FileVersion): string {
+  const date = new Date(version.uploadedAt).toLocaleString();
+  const detail = version.note || (version.restoredFrom ? `restored from v${version.restoredFrom}` : '');
+  return `v${version.version} · ${date}${detail ? ` · ${detail}` : ''}${version.isCurrent ? ' (current)' : ''}`;
+}
+
+async function fetchVersionText(fileId: number, version: number, grantQuery: string): Promise<string> {
+  const res = await apiFetch(`/api/files/${fileId}/versions/${version}${grantQuery}`);
+  if (!res.ok) throw new Error(`Failed to load version ${version}`);
+  return res.text();
+}
+
+const FileVersions: React.FC<FileVersionsProps> = ({ fileId, isOwner, grant, onVersionChange }) => {
+  const [history, setHistory] = useState<VersionList | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+  const [diff, setDiff] = useState<DiffTexts | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newVersionFile, setNewVersionFile] = useState<File | null>(null);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const grantQuery = grant ? `?grant=${encodeURIComponent(grant)}` : '';
+
+  useEffect(() => {
+    async function fetchVersions() {
+      try {
+        const res = await apiFetch(`/api/files/${fileId}/versions${grantQuery}`);
+        if (!res.ok) throw new Error('Failed to load versions');
+        const data: VersionList = await res.json();
+        setHistory(data);
+        setSelected(data.currentVersion);
+        // Default comparison is against the version just before the current one
+        const previous = data.versions.find(version => version.version < data.currentVersion);
+        setCompareWith(previous ? previous.version : null);
+        setDiff(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load versions');
+      }
+    }
+
+    fetchVersions();
+  }, [fileId, reloadCount, grantQuery]);
+
+  if (!history) {
+    return error ? <div className="file-versions-error">{error}</div> : null;
+  }
+
+  const selectedVersion = history.versions.find(version => version.version === selected) || history.versions[0];
+  const compareVersion = history.versions.find(version => version.version === compareWith) || null;
+  const canCompare = !!selectedVersion && !!compareVersion && isTextVersion(selectedVersion) && isTextVersion(compareVersion)
+    && (selectedVersion.size ?? 0) <= MAX_DIFF_BYTES && (compareVersion.size ?? 0) <= MAX_DIFF_BYTES;
+
+  function selectVersion(version: number) {
+    setSelected(version);
+    setDiff(null);
+    const previous = history!.versions.find(entry => entry.version < version);
+    setCompareWith(previous ? previous.version : history!.versions.find(entry => entry.version !== version)?.version ?? null);
+  }
+
+  async function handleShowChanges() {
+    if (!selectedVersion || !compareVersion) return;
+    setDiffLoading(true);
+    setError(null);
+    try {
+      // Always show the older version on the left, whichever way round they were picked
+      const [older, newer] = compareVersion.version < selectedVersion.version
+        ? [compareVersion, selectedVersion]
+        : [selectedVersion, compareVersion];
+      const [oldText, newText] = await Promise.all([
+        fetchVersionText(fileId, older.version, grantQuery),
+        fetchVersionText(fileId, newer.version, grantQuery),
+      ]);
+      setDiff({ oldVersion: older.version, newVersion: newer.version, oldText, newText });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    } finally {
+      setDiffLoading(false);
+    }
+  }
+
+  async function handleDownloadVersion() {
+    if (!selectedVersion) return;
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/versions/${selectedVersion.version}${grantQuery}`);
+      if (!res.ok) throw new Error('Download failed');
+
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = selectedVersion.originalName || 'file';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      console.error('Download error:', err);
+      alert('Failed to download this version');
+    }
+  }
+
+  async function handleRestore() {
+    if (!selectedVersion) return;
+    if (!confirm(`Restore version ${selectedVersion.version}? The current version stays in the history.`)) {
+      return;
+    }
+
+    if (!isSignedIn()) {
+      alert('Please log in to restore versions');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/versions/${selectedVersion.version}/restore`, {
+        method: 'POST'
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || 'Failed to restore version');
+        return;
+      }
+      setReloadCount(count => count + 1);
+      onVersionChange();
+    } catch (err) {
+      console.error('Restore error:', err);
+      alert('Failed to restore version');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleUploadVersion(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newVersionFile) return;
+
+    if (!isSignedIn()) {
+      alert('Please log in to upload a new version');
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', newVersionFile);
+    if (note.trim()) formData.append('note', note.trim());
+
+    setBusy(true);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/versions`, {
+        method: 'POST',
+        body: formData
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(res.status === 409 ? 'This file is identical to the current version' : data.error || 'Failed to upload new version');
+        return;
+      }
+      setNewVersionFile(null);
+      setNote('');
+      (e.target as HTMLFormElement).reset();
+      setReloadCount(count => count + 1);
+      onVersionChange();
+    } catch (err) {
+      console.error('Upload error:', err);
+      alert('Failed to upload new version');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="file-versions">
+      <div className="file-versions-controls">
+        <label className="file-versions-label">
+          Version
+          <select
+            className="file-versions-select"
+            value={selectedVersion?.version}
+            onChange={(e) => selectVersion(Number(e.target.value))}
+          >
+            {history.versions.map(version => (
+              <option key={version.version} value={version.version}>{describeVersion(version)}</option>
+            ))}
+          </select>
+        </label>
+        <button className="file-versions-button" onClick={handleDownloadVersion}>
+          Download this version
+        </button>
+        {isOwner && selectedVersion && !selectedVersion.isCurrent && (
+          <button className="file-versions-button primary" onClick={handleRestore} disabled={busy}>
+            Restore this version
+          </button>
+        )}
+      </div>
+
+      {history.versions.length > 1 && selectedVersion && isTextVersion(selectedVersion) && (
+        <div className="file-versions-controls">
+          <label className="file-versions-label">
+            Compare with
+            <select
+              className="file-versions-select"
+              value={compareWith ?? ''}
+              onChange={(e) => {
+                setCompareWith(Number(e.target.value));
+                setDiff(null);
+              }}
+            >
+              {history.versions
+                .filter(version => version.version !== selectedVersion.version)
+                .map(version => (
+                  <option key={version.version} value={version.version}>v{version.version}</option>
+                ))}
+            </select>
+          </label>
+          <button className="file-versions-button" onClick={handleShowChanges} disabled={!canCompare || diffLoading}>
+            {diffLoading ? 'Comparing...' : 'Show changes'}
+          </button>
+          {compareVersion && !canCompare && (
+            <span className="file-versions-hint">Only text files up to 1MB can be compared.</span>
+          )}
+        </div>
+      )}
+
+      {error && <div className="file-versions-error">{error}</div>}
+
+      {diff && (
+        <LineDiff
+          oldText={diff.oldText}
+          newText={diff.newText}
+          oldLabel={`v${diff.oldVersion}`}
+          newLabel={`v${diff.newVersion}`}
+        />
+      )}
+
+      {isOwner && (
+        <form className="file-versions-upload" onSubmit={handleUploadVersion}>
+          <input
+            type="file"
+            onChange={(e) => setNewVersionFile(e.target.files?.[0] || null)}
+            disabled={busy}
+          />
+          <input
+            type="text"
+            className="file-versions-note"
+            placeholder="What changed? (optional)"
+            value={note}
+            maxLength={255}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={busy}
+          />
+          <button type="submit" className="file-versions-button primary" disabled={!newVersionFile || busy}>
+            {busy ? 'Uploading...' : 'Upload new version'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default FileVersions;
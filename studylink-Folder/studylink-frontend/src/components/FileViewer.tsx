@@ -1,12 +1,23 @@
 import React, { useState, useEffect } from 'react';
+import FileVersions from './FileVersions';
+import FileDetailsForm from './FileDetailsForm';
+import FileComments from './FileComments';
+import FileSharing from './FileSharing';
+import ReportForm from './ReportForm';
+import VoteControl from './VoteControl';
+import Avatar from './Avatar';
+import { apiFetch, isSignedIn } from '../api';
 import './FileViewer.css';
 
 // Full-screen detail view: fetches metadata/preview and exposes bookmark/delete/class navigation controls.
 interface FileViewerProps {
   fileId: number;
+  // Token from a share link (?share=...) for files the caller couldn't otherwise open
+  shareToken?: string;
   onClose: () => void;
   onClassClick?: (classId: number) => void;
   onBookmarkClick?: () => void;
+  onOwnerClick?: (handle: string) => void;
 }
 
 interface FileData {
@@ -15,7 +26,13 @@ interface FileData {
   size: string;
   fileType: string;
   uploadedAt: string;
-  ownerId?: string | null;
+  description: string | null;
+  bookmarkCount: number;
+  score: number;
+  myVote: number;
+  visibility: string;
+  grant: string | null;
+  hidden: boolean;
   class: {
     id: number;
     subject: string;
@@ -23,75 +40,64 @@ interface FileData {
     title: string;
     csNumber: string;
   } | null;
+  offering: {
+    id: number;
+    term: { id: number; name: string };
+    section: string | null;
+    instructor: string | null;
+  } | null;
+  owner: {
+    handle: string;
+    displayName: string;
+    avatarUrl: string | null;
+  } | null;
+  isBookmarkedByMe: boolean;
+  isOwnedByMe: boolean;
 }
 
-const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick, onBookmarkClick }) => {
+const VISIBILITY_LABELS: Record<string, string> = {
+  public: 'Everyone',
+  campus: 'Signed-in students',
+  class: 'Members of the course',
+  private: 'Only people with a share link'
+};
+
+const FileViewer: React.FC<FileViewerProps> = ({ fileId, shareToken, onClose, onClassClick, onBookmarkClick, onOwnerClick }) => {
   const [file, setFile] = useState<FileData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [fileUrl, setFileUrl] = useState<string | null>(null);
   const [isBookmarked, setIsBookmarked] = useState(false);
+  const [bookmarkCount, setBookmarkCount] = useState(0);
   const [isOwner, setIsOwner] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-
-  useEffect(() => {
-    async function checkBookmark() {
-      const token = localStorage.getItem('token');
-      if (!token) return;
-      try {
-        const res = await fetch('/api/files/bookmarks', {
-          headers: { 'Authorization': `Bearer ${token}` }
-        });
-        if (res.ok) {
-          const bookmarks = await res.json();
-          setIsBookmarked(bookmarks.some((b: FileData) => b.id === fileId));
-        }
-      } catch (err) {
-        console.error('Error checking bookmark:', err);
-      }
-    }
-    
-    checkBookmark();
-  }, [fileId]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  // Bumped when a version is uploaded or restored so metadata and preview are refetched
+  const [revision, setRevision] = useState(0);
 
   useEffect(() => {
     async function fetchFile() {
       try {
-        // Get file metadata first
-        const metaRes = await fetch(`/api/files`);
-        if (metaRes.ok) {
-          const files = await metaRes.json();
-          const fileData = files.find((f: FileData) => f.id === fileId);
-          if (fileData) {
-            setFile(fileData);
-            // Check if current user is the owner
-            const token = localStorage.getItem('token');
-            if (token && fileData.ownerId) {
-              try {
-                // Decode JWT to get user email
-                const parts = token.split('.');
-                if (parts.length !== 3) {
-                  setIsOwner(false);
-                  return;
-                }
-                const payload = JSON.parse(atob(parts[1]));
-                setIsOwner(payload.email === fileData.ownerId || payload.id === fileData.ownerId);
-              } catch (err) {
-                console.error('Error decoding JWT token:', err);
-                setIsOwner(false);
-              }
-            }
-          }
+        // One metadata request answers bookmark and ownership state for a signed-in caller too
+        const shareQuery = shareToken ? `?share=${encodeURIComponent(shareToken)}` : '';
+        const metaRes = await apiFetch(`/api/files/${fileId}/meta${shareQuery}`);
+        if (metaRes.status === 404) {
+          throw new Error('File not found');
+        }
+        if (metaRes.status === 401 || metaRes.status === 403) {
+          const data = await metaRes.json();
+          throw new Error(metaRes.status === 401
+            ? 'Log in to view this file'
+            : data.error || 'You do not have access to this file');
         }
-        
-        // Create blob URL for preview
-        const res = await fetch(`/api/files/${fileId}/preview`);
-        if (!res.ok) {
+        if (!metaRes.ok) {
           throw new Error('Failed to fetch file');
         }
-        const blob = await res.blob();
-        const url = URL.createObjectURL(blob);
-        setFileUrl(url);
+        const fileData: FileData = await metaRes.json();
+        setFile(fileData);
+        setIsBookmarked(fileData.isBookmarkedByMe);
+        setBookmarkCount(fileData.bookmarkCount);
+        setIsOwner(fileData.isOwnedByMe);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load file');
       } finally {
@@ -100,17 +106,15 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
     }
 
     fetchFile();
+  }, [fileId, shareToken, revision]);
 
-    return () => {
-      if (fileUrl) {
-        URL.revokeObjectURL(fileUrl);
-      }
-    };
-  }, [fileId]);
+  // The meta response carries a short-lived grant for files that aren't public; plain URLs below pass it along
+  const grant = file?.grant ?? null;
+  const grantQuery = grant ? `?grant=${encodeURIComponent(grant)}` : '';
 
   async function handleDownload() {
     try {
-      const res = await fetch(`/api/files/${fileId}`);
+      const res = await apiFetch(`/api/files/${fileId}${grantQuery}`);
       if (!res.ok) throw new Error('Download failed');
       
       const blob = await res.blob();
@@ -129,8 +133,7 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
   }
 
   async function handleSave() {
-    const token = localStorage.getItem('token');
-    if (!token) {
+    if (!isSignedIn()) {
       if (onBookmarkClick) {
         onBookmarkClick();
       }
@@ -140,21 +143,27 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
     try {
       if (isBookmarked) {
         // Unbookmark
-        const res = await fetch(`/api/files/${fileId}/bookmark`, {
-          method: 'DELETE',
-          headers: { 'Authorization': `Bearer ${token}` }
+        const res = await apiFetch(`/api/files/${fileId}/bookmark`, {
+          method: 'DELETE'
         });
         if (res.ok || res.status === 204) {
           setIsBookmarked(false);
+          setBookmarkCount(count => Math.max(0, count - 1));
+          window.dispatchEvent(new CustomEvent('bookmark-updated', {
+            detail: { fileId, bookmarked: false }
+          }));
         }
       } else {
         // Bookmark
-        const res = await fetch(`/api/files/${fileId}/bookmark`, {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${token}` }
+        const res = await apiFetch(`/api/files/${fileId}/bookmark${grantQuery}`, {
+          method: 'POST'
         });
         if (res.ok) {
           setIsBookmarked(true);
+          setBookmarkCount(count => count + 1);
+          window.dispatchEvent(new CustomEvent('bookmark-updated', {
+            detail: { fileId, bookmarked: true }
+          }));
         }
       }
     } catch (err) {
@@ -168,17 +177,15 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
       return;
     }
 
-    const token = localStorage.getItem('token');
-    if (!token) {
+    if (!isSignedIn()) {
       alert('Please log in to delete files');
       return;
     }
 
     setIsDeleting(true);
     try {
-      const res = await fetch(`/api/files/${fileId}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${token}` }
+      const res = await apiFetch(`/api/files/${fileId}`, {
+        method: 'DELETE'
       });
       
       if (res.ok || res.status === 204) {
@@ -230,12 +237,41 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
 
   const isPdf = file?.fileType === 'application/pdf' || file?.originalName.toLowerCase().endsWith('.pdf');
   const isImage = file?.fileType?.startsWith('image/');
+  const isVideo = file?.fileType?.startsWith('video/');
+  const isAudio = file?.fileType?.startsWith('audio/');
+  // The preview endpoint serves byte ranges, so the browser can stream and seek instead of downloading everything up front
+  const previewParams = new URLSearchParams();
+  if (revision > 0) previewParams.set('v', String(revision));
+  if (grant) previewParams.set('grant', grant);
+  const previewQuery = previewParams.toString();
+  const previewUrl = `/api/files/${fileId}/preview${previewQuery ? `?${previewQuery}` : ''}`;
 
   return (
     <div className="file-viewer-page">
       <div className="file-viewer-header-section">
         <div className="file-viewer-header-content">
           <h1 className="file-viewer-document-title">{file?.originalName || 'File'}</h1>
+
+          {file?.hidden && (
+            <p className="file-viewer-hidden-notice">
+              A moderator hid this file. Only you and the moderators can see it.
+            </p>
+          )}
+
+          {isEditing && file ? (
+            <div className="file-viewer-edit">
+              <FileDetailsForm
+                file={file}
+                onSaved={(updated) => {
+                  setFile({ ...file, ...updated });
+                  setIsEditing(false);
+                }}
+                onCancel={() => setIsEditing(false)}
+              />
+            </div>
+          ) : file?.description && (
+            <p className="file-viewer-description">{file.description}</p>
+          )}
           
           <div className="file-viewer-metadata">
             {file?.class && (
@@ -249,6 +285,31 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
                 </span>
               </div>
             )}
+            {file?.offering && (
+              <div className="file-viewer-meta-item">
+                <span className="file-viewer-meta-label">Term:</span>
+                <span className="file-viewer-meta-value">
+                  {[
+                    file.offering.term.name,
+                    file.offering.section && `Section ${file.offering.section}`,
+                    file.offering.instructor
+                  ].filter(Boolean).join(' · ')}
+                </span>
+              </div>
+            )}
+            {file?.owner && (
+              <div className="file-viewer-meta-item">
+                <span className="file-viewer-meta-label">Uploaded by:</span>
+                <span
+                  className="file-viewer-meta-value file-viewer-owner"
+                  onClick={() => onOwnerClick && onOwnerClick(file.owner!.handle)}
+                  title={`View @${file.owner.handle}'s profile`}
+                >
+                  <Avatar displayName={file.owner.displayName} avatarUrl={file.owner.avatarUrl} size={20} />
+                  {file.owner.displayName}
+                </span>
+              </div>
+            )}
             <div className="file-viewer-meta-item">
               <span className="file-viewer-meta-label">Uploaded:</span>
               <span className="file-viewer-meta-value">
@@ -259,9 +320,31 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
               <span className="file-viewer-meta-label">Size:</span>
               <span className="file-viewer-meta-value">{file && formatFileSize(file.size)}</span>
             </div>
+            {file && (
+              <div className="file-viewer-meta-item">
+                <span className="file-viewer-meta-label">Visible to:</span>
+                <span className="file-viewer-meta-value">{VISIBILITY_LABELS[file.visibility] || 'Everyone'}</span>
+              </div>
+            )}
+            <div className="file-viewer-meta-item">
+              <span className="file-viewer-meta-label">Saved by:</span>
+              <span className="file-viewer-meta-value">
+                {bookmarkCount} {bookmarkCount === 1 ? 'person' : 'people'}
+              </span>
+            </div>
           </div>
           
           <div className="file-viewer-actions-bar">
+            {file && (
+              <VoteControl
+                fileId={fileId}
+                score={file.score}
+                myVote={file.myVote}
+                grant={grant}
+                readOnly={isOwner}
+                onLoginClick={onBookmarkClick}
+              />
+            )}
             <button 
               className={`file-viewer-save-btn ${isBookmarked ? 'saved' : ''}`}
               onClick={handleSave}
@@ -272,6 +355,15 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
             <button className="file-viewer-download-btn" onClick={handleDownload}>
               Download
             </button>
+            {isOwner && !isEditing && (
+              <button 
+                className="file-viewer-edit-btn"
+                onClick={() => setIsEditing(true)}
+                title="Edit name, course and description"
+              >
+                Edit
+              </button>
+            )}
             {isOwner && (
               <button 
                 className="file-viewer-delete-btn" 
@@ -282,32 +374,64 @@ const FileViewer: React.FC<FileViewerProps> = ({ fileId, onClose, onClassClick,
                 {isDeleting ? 'Deleting...' : 'Delete'}
               </button>
             )}
+            {!isOwner && isSignedIn() && !isReporting && (
+              <button
+                className="file-viewer-report-btn"
+                onClick={() => setIsReporting(true)}
+                title="Report this file to the moderators"
+              >
+                Report
+              </button>
+            )}
             <button className="file-viewer-back-btn" onClick={onClose}>
               ← Back
             </button>
           </div>
+
+          {isReporting && (
+            <ReportForm fileId={fileId} grant={grant} onClose={() => setIsReporting(false)} />
+          )}
+
+          <FileVersions
+            fileId={fileId}
+            isOwner={isOwner}
+            grant={grant}
+            onVersionChange={() => setRevision(count => count + 1)}
+          />
+
+          {isOwner && <FileSharing fileId={fileId} />}
         </div>
       </div>
       
       <div className="file-viewer-content-section">
         {isPdf ? (
           <iframe
-            src={`/api/files/${fileId}/preview`}
+            src={previewUrl}
             className="file-viewer-iframe"
             title={file?.originalName}
           />
         ) : isImage ? (
           <div className="file-viewer-image-container">
-            <img src={fileUrl || ''} alt={file?.originalName} className="file-viewer-image" />
+            <img src={previewUrl} alt={file?.originalName} className="file-viewer-image" />
+          </div>
+        ) : isVideo ? (
+          <div className="file-viewer-media-container">
+            <video src={previewUrl} controls preload="metadata" className="file-viewer-video" />
+          </div>
+        ) : isAudio ? (
+          <div className="file-viewer-media-container">
+            <audio src={previewUrl} controls preload="metadata" className="file-viewer-audio" />
           </div>
         ) : (
           <iframe
-            src={fileUrl || ''}
+            src={previewUrl}
             className="file-viewer-iframe"
             title={file?.originalName}
           />
         )}
       </div>
+
+      <FileComments fileId={fileId} grant={grant} onLoginClick={onBookmarkClick} onAuthorClick={onOwnerClick} />
     </div>
   );
 };
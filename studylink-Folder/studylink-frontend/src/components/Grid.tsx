@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import Tile from './Tile';
+import { apiFetch } from '../api';
 import './Grid.css';
 
 // Fetches or renders provided files and centralizes empty/loading states for every grid-based view.
@@ -9,6 +10,17 @@ interface FileData {
   size: string;
   fileType: string;
   uploadedAt: string;
+  owner?: {
+    handle: string;
+    displayName: string;
+  } | null;
+  bookmarkCount?: number;
+  score?: number;
+  myVote?: number;
+  snippet?: {
+    text: string;
+    highlights: [number, number][];
+  } | null;
   class: {
     id: number;
     subject: string;
@@ -16,23 +28,93 @@ interface FileData {
     title: string;
     csNumber: string;
   } | null;
+  offering?: {
+    id: number;
+    term: { id: number; name: string };
+    section: string | null;
+  } | null;
+}
+
+interface FilePage {
+  files: FileData[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  total: number;
 }
 
+type SortOption = 'relevance' | 'newest' | 'name' | 'size' | 'class' | 'bookmarks' | 'top';
+
+const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  name: 'Name',
+  size: 'Size',
+  class: 'Class',
+  bookmarks: 'Most bookmarked',
+  top: 'Top rated',
+};
+
+const PAGE_SIZE = 24;
+// Shared default so an unfiltered grid keeps the same buildUrl between renders
+const NO_FILTER: string[] = [];
+
 interface GridProps {
   searchTerm?: string;
   classFilter?: string[];
+  termFilter?: string[];
+  // "My classes" feed: only files from classes the signed-in user is enrolled in
+  enrolledOnly?: boolean;
   onViewFile?: (fileId: number) => void;
   onClassClick?: (classId: number) => void;
   onBookmarkClick?: () => void;
   onClearFilters?: () => void;
+  onShowAll?: () => void;
+  onOwnerClick?: (handle: string) => void;
   customFiles?: FileData[];
+  ownerHandle?: string;
+  showOwner?: boolean;
 }
 
-const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = [], onViewFile, onClassClick, onBookmarkClick, onClearFilters, customFiles }) => {
+const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = NO_FILTER, termFilter = NO_FILTER, enrolledOnly = false, onViewFile, onClassClick, onBookmarkClick, onClearFilters, onShowAll, onOwnerClick, customFiles, ownerHandle, showOwner = true }) => {
   const [files, setFiles] = useState<FileData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [classInfo, setClassInfo] = useState<{ subject: string; catalog: string; title: string } | null>(null);
+  const [sort, setSort] = useState<SortOption>('relevance');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Bumped on every filter/sort change so a slow page from an old query is ignored
+  const queryVersion = useRef(0);
+
+  // Relevance only means something for a search; browsing falls back to newest first
+  const effectiveSort: SortOption = !searchTerm && sort === 'relevance' ? 'newest' : sort;
+
+  const buildUrl = useCallback((cursor: string | null) => {
+    const params = new URLSearchParams();
+    if (searchTerm) {
+      params.append('search', searchTerm);
+    }
+    if (classFilter.length > 0) {
+      params.append('classId', classFilter.join(','));
+    }
+    if (termFilter.length > 0) {
+      params.append('termId', termFilter.join(','));
+    }
+    if (enrolledOnly) {
+      params.append('enrolled', 'true');
+    }
+    params.append('sort', effectiveSort);
+    params.append('limit', PAGE_SIZE.toString());
+    if (cursor) {
+      params.append('cursor', cursor);
+    }
+    // A profile page lists one user's uploads, which their profile endpoint pages the same way
+    const base = ownerHandle ? `/api/users/${encodeURIComponent(ownerHandle)}` : '/api/files';
+    return `${base}?${params.toString()}`;
+  }, [searchTerm, classFilter, termFilter, enrolledOnly, effectiveSort, ownerHandle]);
 
   useEffect(() => {
     // If customFiles is provided, use them instead of fetching
@@ -43,48 +125,86 @@ const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = [], onViewFi
       return;
     }
 
+    const version = ++queryVersion.current;
+
     async function fetchFiles() {
       setLoading(true);
       setError(null);
       try {
-        const params = new URLSearchParams();
-        if (searchTerm) {
-          params.append('search', searchTerm);
-        }
-        if (classFilter.length > 0) {
-          params.append('classId', classFilter.join(','));
-        }
-        
-        const url = `/api/files${params.toString() ? `?${params.toString()}` : ''}`;
-        const res = await fetch(url);
+        // Signed-in requests get each file's myVote back, so tiles show the caller's own votes
+        const res = await apiFetch(buildUrl(null));
         
         if (!res.ok) {
           throw new Error('Failed to fetch files');
         }
         
-        const data = await res.json();
-        setFiles(data);
+        const data: FilePage = await res.json();
+        if (version !== queryVersion.current) return;
+        setFiles(data.files);
+        setNextCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+        setTotal(data.total);
         
         // If filtering by a single class, get class info from first file
-        if (classFilter.length === 1 && data.length > 0 && data[0].class) {
+        const first = data.files[0];
+        if (classFilter.length === 1 && first && first.class) {
           setClassInfo({
-            subject: data[0].class.subject,
-            catalog: data[0].class.catalog,
-            title: data[0].class.title
+            subject: first.class.subject,
+            catalog: first.class.catalog,
+            title: first.class.title
           });
         } else {
           setClassInfo(null);
         }
       } catch (err) {
+        if (version !== queryVersion.current) return;
         setError(err instanceof Error ? err.message : 'Failed to load files');
         console.error('Error fetching files:', err);
       } finally {
-        setLoading(false);
+        if (version === queryVersion.current) {
+          setLoading(false);
+        }
       }
     }
 
     fetchFiles();
-  }, [searchTerm, classFilter, customFiles]);
+  }, [buildUrl, classFilter, customFiles]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || !nextCursor || loadingMore) return;
+    const version = queryVersion.current;
+    setLoadingMore(true);
+    try {
+      const res = await apiFetch(buildUrl(nextCursor));
+      if (!res.ok) {
+        throw new Error('Failed to fetch more files');
+      }
+      const data: FilePage = await res.json();
+      if (version !== queryVersion.current) return;
+      setFiles(prev => [...prev, ...data.files]);
+      setNextCursor(data.nextCursor);
+      setHasMore(data.hasMore);
+      setTotal(data.total);
+    } catch (err) {
+      console.error('Error fetching more files:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [buildUrl, hasMore, nextCursor, loadingMore]);
+
+  // Infinite scroll: load the next page once the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || customFiles !== undefined) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, customFiles]);
 
   if (loading) {
     return (
@@ -103,12 +223,36 @@ const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = [], onViewFi
   }
 
   if (files.length === 0) {
-    const hasFilters = classFilter.length > 0 || searchTerm;
+    const hasFilters = classFilter.length > 0 || termFilter.length > 0 || searchTerm;
     
     return (
       <div className="grid-empty">
         <div className="grid-empty-icon">📚</div>
-        {!hasFilters ? (
+        {ownerHandle ? (
+          <>
+            <h3 className="grid-empty-title">No uploads yet</h3>
+            <p className="grid-empty-message">
+              Files this person shares will show up here.
+            </p>
+          </>
+        ) : enrolledOnly && !hasFilters ? (
+          <>
+            <h3 className="grid-empty-title">Nothing from your classes yet</h3>
+            <p className="grid-empty-message">
+              No one has shared notes for the classes you're taking. Upload yours or see what other classes have.
+            </p>
+            {onShowAll && (
+              <div className="grid-empty-actions">
+                <button
+                  className="grid-empty-action-btn primary"
+                  onClick={onShowAll}
+                >
+                  Browse All Notes
+                </button>
+              </div>
+            )}
+          </>
+        ) : !hasFilters ? (
           <>
             <h3 className="grid-empty-title">No notes found</h3>
             <p className="grid-empty-message">
@@ -123,6 +267,8 @@ const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = [], onViewFi
                 ? "No notes match your search and selected classes."
                 : classFilter.length > 0
                 ? "No notes have been uploaded for the selected classes yet."
+                : termFilter.length > 0 && !searchTerm
+                ? "No notes have been uploaded for the selected terms yet."
                 : "No notes match your search."}
             </p>
             <div className="grid-empty-actions">
@@ -135,7 +281,7 @@ const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = [], onViewFi
                 </button>
               )}
               <p className="grid-empty-suggestion">
-                Try {classFilter.length > 0 ? 'selecting different classes' : 'different search terms'} or{' '}
+                Try {classFilter.length > 0 ? 'selecting different classes' : termFilter.length > 0 && !searchTerm ? 'selecting different terms' : 'different search terms'} or{' '}
                 {onClearFilters && (
                   <button 
                     className="grid-empty-link-btn"
@@ -184,6 +330,27 @@ const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = [], onViewFi
           </div>
         </div>
       )}
+      {customFiles === undefined && (
+        <div className="grid-toolbar">
+          <span className="grid-count">
+            Showing {files.length} of {total} {total === 1 ? 'note' : 'notes'}
+          </span>
+          <label className="grid-sort">
+            Sort by{' '}
+            <select
+              value={effectiveSort}
+              onChange={(e) => setSort(e.target.value as SortOption)}
+              className="grid-sort-select"
+            >
+              {(Object.keys(SORT_LABELS) as SortOption[])
+                .filter(option => option !== 'relevance' || searchTerm)
+                .map(option => (
+                  <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                ))}
+            </select>
+          </label>
+        </div>
+      )}
       <div className="grid">
         {files.map((file) => (
           <Tile 
@@ -192,9 +359,22 @@ const Grid: React.FC<GridProps> = ({ searchTerm = '', classFilter = [], onViewFi
             onViewFile={onViewFile}
             onClassClick={onClassClick}
             onBookmarkClick={onBookmarkClick}
+            onOwnerClick={onOwnerClick}
+            showOwner={showOwner}
           />
         ))}
       </div>
+      {customFiles === undefined && hasMore && (
+        <div ref={sentinelRef} className="grid-load-more">
+          {loadingMore ? (
+            <p>Loading more files...</p>
+          ) : (
+            <button className="grid-load-more-btn" onClick={loadMore}>
+              Load more
+            </button>
+          )}
+        </div>
+      )}
     </>
   );
 };
@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { apiFetch, getSessionUser, isSignedIn, logout } from '../api';
 import './Header.css';
 import LinkLogo from '../assets/logo-link.svg';
 
 // Central navigation bar: owns the search input, filter chips/panel, and auth-aware nav buttons.
-type PageName = 'home' | 'about' | 'account' | 'upload' | 'bookmarks' | 'my-uploads'
+type PageName = 'home' | 'about' | 'account' | 'upload' | 'bookmarks' | 'my-uploads' | 'admin'
 
 interface HeaderProps {
     onNavigate: (page: PageName) => void;
@@ -11,6 +12,8 @@ interface HeaderProps {
     onSearchChange?: (term: string) => void;
     classFilter?: string[];
     onClassFilterChange?: (classIds: string[]) => void;
+    termFilter?: string[];
+    onTermFilterChange?: (termIds: string[]) => void;
     showSearch?: boolean;
 }
 
@@ -22,12 +25,19 @@ interface Class {
     csNumber: string;
 }
 
+interface Term {
+    id: number;
+    name: string;
+}
+
 const Header: React.FC<HeaderProps> = ({ 
     onNavigate, 
     searchTerm = '', 
     onSearchChange,
     classFilter = [],
     onClassFilterChange,
+    termFilter = [],
+    onTermFilterChange,
     showSearch = false
 }) => {
     const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm);
@@ -35,19 +45,24 @@ const Header: React.FC<HeaderProps> = ({
     const [showFilterPanel, setShowFilterPanel] = useState(false);
     const [classSearchTerm, setClassSearchTerm] = useState('');
     const [selectedClassIds, setSelectedClassIds] = useState<Set<string>>(new Set(classFilter));
+    const [terms, setTerms] = useState<Term[]>([]);
+    const [selectedTermIds, setSelectedTermIds] = useState<Set<string>>(new Set(termFilter));
     const [showAllFilters, setShowAllFilters] = useState(false);
     const headerRef = useRef<HTMLElement | null>(null);
     const activeFiltersBarRef = useRef<HTMLDivElement | null>(null);
     const [headerHeight, setHeaderHeight] = useState(73);
     const [filterPanelTop, setFilterPanelTop] = useState(73);
     
-    const isAuthenticated = !!localStorage.getItem('token');
+    const isAuthenticated = isSignedIn();
+    // The role from sign-in; the server still checks it on every admin request
+    const role = getSessionUser()?.role ?? null;
+    const isStaff = role === 'moderator' || role === 'admin';
     
     // Fetch classes for filter
     useEffect(() => {
         async function fetchClasses() {
             try {
-                const res = await fetch('/api/classes');
+                const res = await apiFetch('/api/classes');
                 if (res.ok) {
                     const data = await res.json();
                     setClasses(data);
@@ -60,6 +75,24 @@ const Header: React.FC<HeaderProps> = ({
             fetchClasses();
         }
     }, [showSearch]);
+
+    // Fetch terms for filter (newest first)
+    useEffect(() => {
+        async function fetchTerms() {
+            try {
+                const res = await apiFetch('/api/terms');
+                if (res.ok) {
+                    const data = await res.json();
+                    setTerms(data);
+                }
+            } catch (err) {
+                console.error('Failed to fetch terms:', err);
+            }
+        }
+        if (showSearch) {
+            fetchTerms();
+        }
+    }, [showSearch]);
     
     // Sync local search term
     useEffect(() => {
@@ -70,6 +103,11 @@ const Header: React.FC<HeaderProps> = ({
     useEffect(() => {
         setSelectedClassIds(new Set(classFilter));
     }, [classFilter]);
+
+    // Sync selected term IDs
+    useEffect(() => {
+        setSelectedTermIds(new Set(termFilter));
+    }, [termFilter]);
     
     const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const value = e.target.value;
@@ -92,18 +130,35 @@ const Header: React.FC<HeaderProps> = ({
         }
     };
     
+    const handleTermToggle = (termId: string) => {
+        const newSelected = new Set(selectedTermIds);
+        if (newSelected.has(termId)) {
+            newSelected.delete(termId);
+        } else {
+            newSelected.add(termId);
+        }
+        setSelectedTermIds(newSelected);
+        if (onTermFilterChange) {
+            onTermFilterChange(Array.from(newSelected));
+        }
+    };
+    
     const handleClearFilters = () => {
         setLocalSearchTerm('');
         setSelectedClassIds(new Set());
+        setSelectedTermIds(new Set());
         if (onSearchChange) {
             onSearchChange('');
         }
         if (onClassFilterChange) {
             onClassFilterChange([]);
         }
+        if (onTermFilterChange) {
+            onTermFilterChange([]);
+        }
     };
     
-    const hasActiveFilters = Boolean(localSearchTerm) || selectedClassIds.size > 0;
+    const hasActiveFilters = Boolean(localSearchTerm) || selectedClassIds.size > 0 || selectedTermIds.size > 0;
 
     // Measure the header + chip bar so the floating filter drawer always sits right beneath them.
     const updateFilterPanelPosition = useCallback(() => {
@@ -119,7 +174,7 @@ const Header: React.FC<HeaderProps> = ({
         updateFilterPanelPosition();
         window.addEventListener('resize', updateFilterPanelPosition);
         return () => window.removeEventListener('resize', updateFilterPanelPosition);
-    }, [updateFilterPanelPosition, selectedClassIds.size, showAllFilters]);
+    }, [updateFilterPanelPosition, selectedClassIds.size, selectedTermIds.size, showAllFilters]);
     
     const handleBookmarksClick = () => {
         if (!isAuthenticated) {
@@ -141,9 +196,8 @@ const Header: React.FC<HeaderProps> = ({
     
     const handleLogout = () => {
         if (confirm('Are you sure you want to log out?')) {
-            localStorage.removeItem('token');
             // Reload the current page to update authentication state
-            window.location.reload();
+            logout().then(() => window.location.reload());
         }
     };
     
@@ -208,6 +262,9 @@ const Header: React.FC<HeaderProps> = ({
                         {isAuthenticated && (
                             <button onClick={handleMyUploadsClick}>My Uploads</button>
                         )}
+                        {isAuthenticated && isStaff && (
+                            <button onClick={() => onNavigate('admin')}>Admin</button>
+                        )}
                         <button onClick={() => onNavigate('account')}>
                             {isAuthenticated ? 'Account' : 'Log In / Create Account'}
                         </button>
@@ -219,7 +276,7 @@ const Header: React.FC<HeaderProps> = ({
                 </div>
             </header>
             
-            {showSearch && hasActiveFilters && selectedClassIds.size > 0 && (
+            {showSearch && hasActiveFilters && (selectedClassIds.size > 0 || selectedTermIds.size > 0) && (
                 <div
                     className="active-filters-bar"
                     ref={activeFiltersBarRef}
@@ -227,6 +284,21 @@ const Header: React.FC<HeaderProps> = ({
                 >
                     <div className="active-filters-content">
                         <div className="selected-filters">
+                            {Array.from(selectedTermIds).map(termId => {
+                                const term = terms.find(t => t.id.toString() === termId);
+                                return term ? (
+                                    <span key={`term-${termId}`} className="filter-tag">
+                                        {term.name}
+                                        <button
+                                            className="filter-tag-remove"
+                                            onClick={() => handleTermToggle(termId)}
+                                            title="Remove filter"
+                                        >
+                                            ×
+                                        </button>
+                                    </span>
+                                ) : null;
+                            })}
                             {Array.from(selectedClassIds)
                                 .slice(0, showAllFilters ? selectedClassIds.size : 3)
                                 .map(classId => {
@@ -300,6 +372,26 @@ const Header: React.FC<HeaderProps> = ({
                             </button>
                         </div>
                         <div className="filter-panel-body">
+                            {terms.length > 0 && (
+                                <div className="filter-group">
+                                    <label>Term:</label>
+                                    <div className="class-filter-list term-filter-list">
+                                        {terms.map((term) => {
+                                            const termIdStr = term.id.toString();
+                                            return (
+                                                <label key={term.id} className="class-filter-item">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedTermIds.has(termIdStr)}
+                                                        onChange={() => handleTermToggle(termIdStr)}
+                                                    />
+                                                    <span className="class-filter-label">{term.name}</span>
+                                                </label>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
                             <div className="filter-group">
                                 <label htmlFor="header-class-search">Search Classes:</label>
                                 <input
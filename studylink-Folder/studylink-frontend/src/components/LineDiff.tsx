@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import './LineDiff.css';
+
+// Unified line diff between two versions of a text file, with unchanged runs collapsed around the changes.
+interface LineDiffProps {
+  oldText: string;
+  newText: string;
+  oldLabel: string;
+  newLabel: string;
+}
+
+interface DiffLine {
+  type: 'same' | 'add' | 'del';
+  text: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+type DiffRow = DiffLine | { type: 'skip'; count: number };
+
+// The LCS table is (changed old lines) x (changed new lines); past this we only report that the files differ
+const MAX_DIFF_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  // A trailing newline shouldn't count as an extra empty line
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] | null {
+  // Common prefix and suffix never need the table, which keeps small edits to big files cheap
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const n = oldEnd - start;
+  const m = newEnd - start;
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) return null;
+
+  // lcs[i * (m + 1) + j] = length of the LCS of the changed old lines from i and new lines from j
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = oldLines[start + i] === newLines[start + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < start; k++) {
+    result.push({ type: 'same', text: oldLines[k], oldNumber: k + 1, newNumber: k + 1 });
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[start + i] === newLines[start + j]) {
+      result.push({ type: 'same', text: oldLines[start + i], oldNumber: start + i + 1, newNumber: start + j + 1 });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      // Removals first, so a changed line reads as "− old, + new"
+      result.push({ type: 'del', text: oldLines[start + i], oldNumber: start + i + 1, newNumber: null });
+      i++;
+    } else {
+      result.push({ type: 'add', text: newLines[start + j], oldNumber: null, newNumber: start + j + 1 });
+      j++;
+    }
+  }
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    result.push({ type: 'same', text: oldLines[oldEnd + k], oldNumber: oldEnd + k + 1, newNumber: newEnd + k + 1 });
+  }
+  return result;
+}
+
+// Keeps CONTEXT_LINES unchanged lines either side of each change and folds the rest into "skip" rows.
+function collapseUnchanged(lines: DiffLine[]): DiffRow[] {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type === 'same') return;
+    const from = Math.max(0, index - CONTEXT_LINES);
+    const to = Math.min(lines.length - 1, index + CONTEXT_LINES);
+    for (let k = from; k <= to; k++) keep[k] = true;
+  });
+
+  const rows: DiffRow[] = [];
+  let skipped = 0;
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) rows.push({ type: 'skip', count: skipped });
+      skipped = 0;
+      rows.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) rows.push({ type: 'skip', count: skipped });
+  return rows;
+}
+
+const LineDiff: React.FC<LineDiffProps> = ({ oldText, newText, oldLabel, newLabel }) => {
+  const diff = useMemo(() => diffLines(splitLines(oldText), splitLines(newText)), [oldText, newText]);
+
+  if (!diff) {
+    return <div className="line-diff-message">These versions are too different to compare line by line.</div>;
+  }
+
+  const added = diff.filter(line => line.type === 'add').length;
+  const removed = diff.filter(line => line.type === 'del').length;
+  if (added === 0 && removed === 0) {
+    return <div className="line-diff-message">No text changes between {oldLabel} and {newLabel}.</div>;
+  }
+
+  const rows = collapseUnchanged(diff);
+
+  return (
+    <div className="line-diff">
+      <div className="line-diff-summary">
+        <span>{oldLabel} → {newLabel}</span>
+        <span className="line-diff-added">+{added}</span>
+        <span className="line-diff-removed">−{removed}</span>
+      </div>
+      <table className="line-diff-table">
+        <tbody>
+          {rows.map((row, index) =>
+            row.type === 'skip' ? (
+              <tr key={index} className="line-diff-skip">
+                <td colSpan={4}>⋯ {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}</td>
+              </tr>
+            ) : (
+              <tr key={index} className={`line-diff-row ${row.type}`}>
+                <td className="line-diff-number">{row.oldNumber ?? ''}</td>
+                <td className="line-diff-number">{row.newNumber ?? ''}</td>
+                <td className="line-diff-marker">{row.type === 'add' ? '+' : row.type === 'del' ? '−' : ''}</td>
+                <td className="line-diff-text">{row.text}</td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LineDiff;
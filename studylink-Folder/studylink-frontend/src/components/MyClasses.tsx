@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { apiFetch, isSignedIn } from '../api';
+import './MyClasses.css';
+
+// Account settings section for the classes you are taking (GET/POST/DELETE /api/users/me/classes).
+// The home page's "My classes" feed and class-only files follow these enrollments.
+interface Class {
+  id: number;
+  subject: string;
+  catalog: string;
+  title: string;
+  csNumber: string;
+}
+
+interface Enrollment extends Class {
+  enrolledAt: string;
+}
+
+const MAX_SEARCH_RESULTS = 20;
+
+function matchesSearch(cls: Class, searchTerm: string): boolean {
+  const searchLower = searchTerm.toLowerCase();
+  const compact = searchLower.replace(/\s+/g, '');
+  return (
+    cls.title.toLowerCase().includes(searchLower) ||
+    cls.csNumber.toLowerCase().includes(searchLower) ||
+    `${cls.subject}${cls.catalog}`.toLowerCase().includes(compact)
+  );
+}
+
+const MyClasses: React.FC = () => {
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busyClassId, setBusyClassId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchClasses() {
+      if (!isSignedIn()) {
+        setError('Please log in to manage your classes');
+        setLoading(false);
+        return;
+      }
+      try {
+        const [enrolledRes, classesRes] = await Promise.all([
+          apiFetch('/api/users/me/classes'),
+          apiFetch('/api/classes')
+        ]);
+        if (!enrolledRes.ok || !classesRes.ok) throw new Error('Failed to load classes');
+        setEnrollments(await enrolledRes.json());
+        setClasses(await classesRes.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load classes');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchClasses();
+  }, []);
+
+  async function handleEnroll(classId: number) {
+    if (!isSignedIn()) return;
+
+    setBusyClassId(classId);
+    setError(null);
+    try {
+      const res = await apiFetch('/api/users/me/classes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ classId })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to add class');
+        return;
+      }
+      setEnrollments(prev => prev.some(cls => cls.id === data.id)
+        ? prev
+        : [...prev, data].sort((a, b) => a.subject.localeCompare(b.subject) || a.catalog.localeCompare(b.catalog)));
+    } catch (err) {
+      console.error('Enroll error:', err);
+      setError('Failed to add class');
+    } finally {
+      setBusyClassId(null);
+    }
+  }
+
+  async function handleLeave(classId: number) {
+    if (!isSignedIn()) return;
+
+    setBusyClassId(classId);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/users/me/classes/${classId}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok && res.status !== 204) {
+        const data = await res.json();
+        setError(data.error || 'Failed to remove class');
+        return;
+      }
+      setEnrollments(prev => prev.filter(cls => cls.id !== classId));
+    } catch (err) {
+      console.error('Leave class error:', err);
+      setError('Failed to remove class');
+    } finally {
+      setBusyClassId(null);
+    }
+  }
+
+  if (loading) {
+    return <div className="my-classes-status">Loading classes...</div>;
+  }
+
+  const enrolledIds = new Set(enrollments.map(cls => cls.id));
+  const results = searchTerm.trim()
+    ? classes.filter(cls => !enrolledIds.has(cls.id) && matchesSearch(cls, searchTerm.trim())).slice(0, MAX_SEARCH_RESULTS)
+    : [];
+
+  return (
+    <div className="my-classes">
+      <p className="my-classes-hint">
+        Notes from these classes show up first on the home page, and you can open files shared with their members.
+      </p>
+
+      {enrollments.length === 0 ? (
+        <p className="my-classes-status">You haven't added any classes yet.</p>
+      ) : (
+        <ul className="my-classes-list">
+          {enrollments.map(cls => (
+            <li key={cls.id} className="my-classes-item">
+              <span>{cls.subject} {cls.catalog} - {cls.title}</span>
+              <button
+                type="button"
+                className="my-classes-remove-btn"
+                onClick={() => handleLeave(cls.id)}
+                disabled={busyClassId === cls.id}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className="my-classes-label">
+        Add a class
+        <input
+          type="text"
+          className="my-classes-input"
+          placeholder="Search by subject, number or title..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </label>
+
+      {searchTerm.trim() && (
+        results.length === 0 ? (
+          <p className="my-classes-status">No matching classes.</p>
+        ) : (
+          <ul className="my-classes-list">
+            {results.map(cls => (
+              <li key={cls.id} className="my-classes-item">
+                <span>{cls.subject} {cls.catalog} - {cls.title}</span>
+                <button
+                  type="button"
+                  className="my-classes-add-btn"
+                  onClick={() => handleEnroll(cls.id)}
+                  disabled={busyClassId === cls.id}
+                >
+                  Add
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {error && <div className="my-classes-error">{error}</div>}
+    </div>
+  );
+};
+
+export default MyClasses;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import Tile from './Tile';
 import SearchBar from './SearchBar';
+import FileDetailsForm from './FileDetailsForm';
+import { apiFetch, isSignedIn } from '../api';
 import './MyUploads.css';
 
 // MyUploads mirrors the bookmarks grid but fetches /my-uploads, enabling delete actions and owner-only UI.
@@ -10,7 +12,11 @@ interface FileData {
   size: string;
   fileType: string;
   uploadedAt: string;
-  ownerId?: string | null;
+  description?: string | null;
+  visibility?: string;
+  grant?: string | null;
+  bookmarkCount?: number;
+  score?: number;
   class: {
     id: number;
     subject: string;
@@ -33,12 +39,12 @@ const MyUploads: React.FC<MyUploadsProps> = ({ onViewFile, onClassClick }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [classFilter, setClassFilter] = useState<string[]>([]);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
+  const [editingId, setEditingId] = useState<number | null>(null);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    setIsAuthenticated(!!token);
+    setIsAuthenticated(isSignedIn());
     
-    if (!token) {
+    if (!isSignedIn()) {
       setError('Please log in to view your uploads');
       setLoading(false);
       return;
@@ -48,14 +54,9 @@ const MyUploads: React.FC<MyUploadsProps> = ({ onViewFile, onClassClick }) => {
       setLoading(true);
       setError(null);
       try {
-        const res = await fetch('/api/files/my-uploads', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const res = await apiFetch('/api/files/my-uploads');
 
         if (res.status === 401) {
-          localStorage.removeItem('token');
           setIsAuthenticated(false);
           setError('Session expired. Please log in again.');
           setLoading(false);
@@ -118,17 +119,15 @@ const MyUploads: React.FC<MyUploadsProps> = ({ onViewFile, onClassClick }) => {
       return;
     }
 
-    const token = localStorage.getItem('token');
-    if (!token) {
+    if (!isSignedIn()) {
       alert('Please log in to delete files');
       return;
     }
 
     setDeletingIds(prev => new Set(prev).add(fileId));
     try {
-      const res = await fetch(`/api/files/${fileId}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${token}` }
+      const res = await apiFetch(`/api/files/${fileId}`, {
+        method: 'DELETE'
       });
 
       if (res.ok || res.status === 204) {
@@ -149,6 +148,11 @@ const MyUploads: React.FC<MyUploadsProps> = ({ onViewFile, onClassClick }) => {
     }
   }
 
+  function handleSaved(updated: Pick<FileData, 'id' | 'originalName' | 'description' | 'visibility' | 'grant' | 'uploadedAt' | 'class'>) {
+    setFiles(prev => prev.map(f => (f.id === updated.id ? { ...f, ...updated } : f)));
+    setEditingId(null);
+  }
+
   if (!isAuthenticated) {
     return (
       <div className="my-uploads-page">
@@ -201,15 +205,28 @@ const MyUploads: React.FC<MyUploadsProps> = ({ onViewFile, onClassClick }) => {
       ) : (
         <div className="grid">
           {filteredFiles.map((file) => (
-            <Tile 
-              key={file.id} 
-              file={file}
-              onViewFile={onViewFile}
-              onClassClick={onClassClick}
-              showBookmarkButton={false}
-              onDelete={handleDelete}
-              isDeleting={deletingIds.has(file.id)}
-            />
+            editingId === file.id ? (
+              <div key={file.id} className="tile my-uploads-edit-tile">
+                <FileDetailsForm
+                  file={file}
+                  onSaved={handleSaved}
+                  onCancel={() => setEditingId(null)}
+                />
+              </div>
+            ) : (
+              <Tile 
+                key={file.id} 
+                file={file}
+                onViewFile={onViewFile}
+                onClassClick={onClassClick}
+                showBookmarkButton={false}
+                onDelete={handleDelete}
+                isDeleting={deletingIds.has(file.id)}
+                onEdit={setEditingId}
+                canVote={false}
+                showOwner={false}
+              />
+            )
           ))}
         </div>
       )}
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Avatar from './Avatar';
+import { apiFetch, isSignedIn } from '../api';
+import './ProfileForm.css';
+
+// Account settings section for editing your public profile (GET/PUT /api/users/me and the avatar endpoints).
+interface ProfileFormProps {
+  onViewProfile?: (handle: string) => void;
+}
+
+interface Profile {
+  handle: string;
+  displayName: string;
+  avatarUrl: string | null;
+  major: string | null;
+  bio: string | null;
+  email: string;
+}
+
+const MAX_DISPLAY_NAME_LENGTH = 60;
+const MAX_MAJOR_LENGTH = 100;
+const MAX_BIO_LENGTH = 1000;
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ onViewProfile }) => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [handle, setHandle] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [major, setMajor] = useState('');
+  const [bio, setBio] = useState('');
+  // The avatar URL never changes, so a stamp makes the browser show a newly uploaded picture
+  const [avatarStamp, setAvatarStamp] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  function applyProfile(data: Profile) {
+    setProfile(data);
+    setHandle(data.handle);
+    setDisplayName(data.displayName);
+    setMajor(data.major || '');
+    setBio(data.bio || '');
+  }
+
+  useEffect(() => {
+    async function fetchProfile() {
+      if (!isSignedIn()) {
+        setError('Please log in to edit your profile');
+        setLoading(false);
+        return;
+      }
+      try {
+        const res = await apiFetch('/api/users/me');
+        if (!res.ok) throw new Error('Failed to load profile');
+        applyProfile(await res.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load profile');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchProfile();
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!displayName.trim()) {
+      setError('Display name cannot be empty');
+      return;
+    }
+    if (!isSignedIn()) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await apiFetch('/api/users/me', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          handle: handle.trim().toLowerCase(),
+          displayName: displayName.trim(),
+          major: major.trim() || null,
+          bio: bio.trim() || null
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save profile');
+        return;
+      }
+      applyProfile(data);
+      setMessage('Profile saved');
+    } catch (err) {
+      console.error('Profile save error:', err);
+      setError('Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAvatarChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected || !isSignedIn()) return;
+
+    const formData = new FormData();
+    formData.append('avatar', selected);
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await apiFetch('/api/users/me/avatar', {
+        method: 'PUT',
+        body: formData
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to upload picture');
+        return;
+      }
+      setProfile(data);
+      setAvatarStamp(Date.now());
+    } catch (err) {
+      console.error('Avatar upload error:', err);
+      setError('Failed to upload picture');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAvatarRemove() {
+    if (!isSignedIn()) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await apiFetch('/api/users/me/avatar', {
+        method: 'DELETE'
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to remove picture');
+        return;
+      }
+      setProfile(data);
+    } catch (err) {
+      console.error('Avatar remove error:', err);
+      setError('Failed to remove picture');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return <div className="profile-form-status">Loading profile...</div>;
+  }
+
+  if (!profile) {
+    return <div className="profile-form-error">{error}</div>;
+  }
+
+  const avatarUrl = profile.avatarUrl && avatarStamp ? `${profile.avatarUrl}?v=${avatarStamp}` : profile.avatarUrl;
+
+  return (
+    <form className="profile-form" onSubmit={handleSubmit}>
+      <div className="profile-form-avatar">
+        <Avatar displayName={displayName || profile.displayName} avatarUrl={avatarUrl} size={72} />
+        <div className="profile-form-avatar-actions">
+          <button
+            type="button"
+            className="profile-form-secondary-btn"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+          >
+            {profile.avatarUrl ? 'Change picture' : 'Upload picture'}
+          </button>
+          {profile.avatarUrl && (
+            <button
+              type="button"
+              className="profile-form-link-btn"
+              onClick={handleAvatarRemove}
+              disabled={saving}
+            >
+              Remove
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleAvatarChange}
+            hidden
+          />
+        </div>
+      </div>
+
+      <label className="profile-form-label">
+        Display name
+        <input
+          type="text"
+          className="profile-form-input"
+          value={displayName}
+          maxLength={MAX_DISPLAY_NAME_LENGTH}
+          onChange={(e) => setDisplayName(e.target.value)}
+          disabled={saving}
+        />
+        <span className="profile-form-hint">Shown next to your uploads and comments instead of your email.</span>
+      </label>
+      <label className="profile-form-label">
+        Handle
+        <input
+          type="text"
+          className="profile-form-input"
+          value={handle}
+          maxLength={32}
+          onChange={(e) => setHandle(e.target.value)}
+          disabled={saving}
+        />
+        <span className="profile-form-hint">3-32 lowercase letters, digits, "-" or "_". Used in your profile link.</span>
+      </label>
+      <label className="profile-form-label">
+        Major
+        <input
+          type="text"
+          className="profile-form-input"
+          value={major}
+          maxLength={MAX_MAJOR_LENGTH}
+          placeholder="Optional"
+          onChange={(e) => setMajor(e.target.value)}
+          disabled={saving}
+        />
+      </label>
+      <label className="profile-form-label">
+        Bio
+        <textarea
+          className="profile-form-input profile-form-bio"
+          value={bio}
+          maxLength={MAX_BIO_LENGTH}
+          placeholder="Optional"
+          onChange={(e) => setBio(e.target.value)}
+          disabled={saving}
+        />
+      </label>
+
+      {error && <div className="profile-form-error">{error}</div>}
+      {message && <div className="profile-form-message">{message}</div>}
+
+      <div className="profile-form-actions">
+        <button type="submit" className="profile-form-save-btn" disabled={saving}>
+          {saving ? 'Saving...' : 'Save profile'}
+        </button>
+        {onViewProfile && (
+          <button
+            type="button"
+            className="profile-form-secondary-btn"
+            onClick={() => onViewProfile(profile.handle)}
+            disabled={saving}
+          >
+            View public profile
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default ProfileForm;
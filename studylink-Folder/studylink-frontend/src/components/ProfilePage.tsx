@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import Avatar from './Avatar';
+import Grid from './Grid';
+import { apiFetch, isSignedIn } from '../api';
+import './ProfilePage.css';
+
+// Public profile: who the user is plus a grid of everything they have uploaded (GET /api/users/:handle).
+interface ProfilePageProps {
+  handle: string;
+  onBack: () => void;
+  onViewFile?: (fileId: number) => void;
+  onClassClick?: (classId: number) => void;
+  onBookmarkClick?: () => void;
+  onEditProfile?: () => void;
+}
+
+interface PublicProfile {
+  handle: string;
+  displayName: string;
+  avatarUrl: string | null;
+  major: string | null;
+  bio: string | null;
+  joinedAt: string;
+}
+
+const ProfilePage: React.FC<ProfilePageProps> = ({ handle, onBack, onViewFile, onClassClick, onBookmarkClick, onEditProfile }) => {
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [uploadCount, setUploadCount] = useState(0);
+  const [isMe, setIsMe] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchProfile() {
+      setLoading(true);
+      setError(null);
+      try {
+        // The grid loads the uploads; one row here is enough for the header and total
+        const res = await apiFetch(`/api/users/${encodeURIComponent(handle)}?limit=1`);
+        if (res.status === 404) {
+          throw new Error('User not found');
+        }
+        if (!res.ok) {
+          throw new Error('Failed to load profile');
+        }
+        const data = await res.json();
+        setProfile(data.user);
+        setUploadCount(data.total);
+
+        if (isSignedIn()) {
+          const meRes = await apiFetch('/api/users/me');
+          if (meRes.ok) {
+            const me = await meRes.json();
+            setIsMe(me.handle === data.user.handle);
+          }
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load profile');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchProfile();
+  }, [handle]);
+
+  if (loading) {
+    return <div className="profile-page-status">Loading profile...</div>;
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="profile-page-status">
+        <p>{error || 'User not found'}</p>
+        <button className="profile-page-back-btn" onClick={onBack}>
+          ← Back
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="profile-page">
+      <div className="profile-page-header">
+        <Avatar displayName={profile.displayName} avatarUrl={profile.avatarUrl} size={96} />
+        <div className="profile-page-info">
+          <h1 className="profile-page-name">{profile.displayName}</h1>
+          <p className="profile-page-handle">@{profile.handle}</p>
+          {profile.major && <p className="profile-page-major">{profile.major}</p>}
+          {profile.bio && <p className="profile-page-bio">{profile.bio}</p>}
+          <p className="profile-page-stats">
+            {uploadCount} {uploadCount === 1 ? 'upload' : 'uploads'} · Joined{' '}
+            {new Date(profile.joinedAt).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </p>
+        </div>
+        <div className="profile-page-actions">
+          {isMe && onEditProfile && (
+            <button className="profile-page-edit-btn" onClick={onEditProfile}>
+              Edit profile
+            </button>
+          )}
+          <button className="profile-page-back-btn" onClick={onBack}>
+            ← Back
+          </button>
+        </div>
+      </div>
+
+      <h2 className="profile-page-section-title">Uploads</h2>
+      <Grid
+        ownerHandle={profile.handle}
+        showOwner={false}
+        onViewFile={onViewFile}
+        onClassClick={onClassClick}
+        onBookmarkClick={onBookmarkClick}
+      />
+    </div>
+  );
+};
+
+export default ProfilePage;
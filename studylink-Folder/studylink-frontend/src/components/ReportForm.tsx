@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { apiFetch, isSignedIn } from '../api';
+import './ReportForm.css';
+
+// Panel in FileViewer for flagging a file to the moderators (POST /api/files/:id/reports); each user can report a file once.
+interface ReportFormProps {
+  fileId: number;
+  grant?: string | null;
+  onClose: () => void;
+}
+
+const REASON_OPTIONS = [
+  { value: 'copyright', label: 'Copyrighted material (textbook, paid course content)' },
+  { value: 'exam', label: 'Current or leaked exam' },
+  { value: 'offensive', label: 'Offensive or harassing content' },
+  { value: 'spam', label: 'Spam or unrelated to the course' },
+  { value: 'other', label: 'Something else' }
+];
+
+const MAX_DETAILS_LENGTH = 1000;
+
+const ReportForm: React.FC<ReportFormProps> = ({ fileId, grant, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!isSignedIn() || !reason) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/files/${fileId}/reports${grant ? `?grant=${encodeURIComponent(grant)}` : ''}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ reason, details: details.trim() || undefined })
+      });
+      if (res.status === 409) {
+        // Already reported earlier; nothing more to do
+        setSent(true);
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to send report');
+        return;
+      }
+      setSent(true);
+    } catch (err) {
+      console.error('Report error:', err);
+      setError('Failed to send report');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (sent) {
+    return (
+      <div className="report-form">
+        <p className="report-form-message">Thanks. The moderators will review this file.</p>
+        <div className="report-form-actions">
+          <button type="button" className="report-form-secondary-btn" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form className="report-form" onSubmit={handleSubmit}>
+      <span className="report-form-title">Report this file</span>
+      {REASON_OPTIONS.map(option => (
+        <label key={option.value} className="report-form-option">
+          <input
+            type="radio"
+            name="report-reason"
+            value={option.value}
+            checked={reason === option.value}
+            onChange={(e) => setReason(e.target.value)}
+            disabled={busy}
+          />
+          {option.label}
+        </label>
+      ))}
+      <textarea
+        className="report-form-details"
+        placeholder="Anything the moderators should know (optional)"
+        value={details}
+        maxLength={MAX_DETAILS_LENGTH}
+        onChange={(e) => setDetails(e.target.value)}
+        disabled={busy}
+      />
+      {error && <div className="report-form-error">{error}</div>}
+      <div className="report-form-actions">
+        <button type="submit" className="report-form-submit-btn" disabled={busy || !reason}>
+          {busy ? 'Sending...' : 'Send report'}
+        </button>
+        <button type="button" className="report-form-secondary-btn" onClick={onClose} disabled={busy}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReportForm;
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { apiFetch } from '../api';
 import './SearchBar.css';
 
 // Shared search + class filter surface for pages that mirror the homepage filtering experience.
@@ -38,7 +39,7 @@ const SearchBar = ({
   useEffect(() => {
     async function fetchClasses() {
       try {
-        const res = await fetch('/api/classes');
+        const res = await apiFetch('/api/classes');
         if (res.ok) {
           const data = await res.json();
           setClasses(data);
@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import VoteControl from './VoteControl';
+import { apiFetch, isSignedIn } from '../api';
 import './Tile.css';
 
 // Tile renders a single file card with preview/bookmark/delete affordances reused across pages.
@@ -8,6 +10,21 @@ interface FileData {
   size: string;
   fileType: string;
   uploadedAt: string;
+  owner?: {
+    handle: string;
+    displayName: string;
+  } | null;
+  visibility?: string;
+  grant?: string | null;
+  bookmarkCount?: number;
+  isBookmarkedByMe?: boolean;
+  score?: number;
+  myVote?: number;
+  hasThumbnail?: boolean;
+  snippet?: {
+    text: string;
+    highlights: [number, number][];
+  } | null;
   class: {
     id: number;
     subject: string;
@@ -15,8 +32,20 @@ interface FileData {
     title: string;
     csNumber: string;
   } | null;
+  offering?: {
+    id: number;
+    term: { id: number; name: string };
+    section: string | null;
+  } | null;
 }
 
+// Badge text for files that aren't public
+const VISIBILITY_BADGES: Record<string, string> = {
+  campus: 'Signed-in only',
+  class: 'Class only',
+  private: 'Private'
+};
+
 interface TileProps {
   file: FileData;
   onUnbookmark?: () => void;
@@ -26,6 +55,10 @@ interface TileProps {
   showBookmarkButton?: boolean;
   onDelete?: (fileId: number) => Promise<void> | void;
   isDeleting?: boolean;
+  onEdit?: (fileId: number) => void;
+  canVote?: boolean;
+  onOwnerClick?: (handle: string) => void;
+  showOwner?: boolean;
 }
 
 const Tile: React.FC<TileProps> = ({ 
@@ -36,127 +69,23 @@ const Tile: React.FC<TileProps> = ({
   onBookmarkClick,
   showBookmarkButton = true,
   onDelete,
-  isDeleting = false
+  isDeleting = false,
+  onEdit,
+  canVote = true,
+  onOwnerClick,
+  showOwner = true
 }) => {
-  const [isBookmarked, setIsBookmarked] = useState(false);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [previewError, setPreviewError] = useState(false);
-  const [previewLoading, setPreviewLoading] = useState(false);
-  const [textPreview, setTextPreview] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!showBookmarkButton) return;
-    const token = localStorage.getItem('token');
-    if (!token) return;
-
-    // Check if file is bookmarked
-    async function checkBookmark() {
-      try {
-        const res = await fetch('/api/files/bookmarks', {
-          headers: { 'Authorization': `Bearer ${token}` }
-        });
-        if (res.ok) {
-          const bookmarks = await res.json();
-          setIsBookmarked(bookmarks.some((b: FileData) => b.id === file.id));
-        }
-      } catch (err) {
-        console.error('Error checking bookmark:', err);
-      }
-    }
-
-    checkBookmark();
-  }, [file.id, showBookmarkButton]);
+  const [isBookmarked, setIsBookmarked] = useState(file.isBookmarkedByMe ?? false);
+  const [bookmarkCount, setBookmarkCount] = useState(file.bookmarkCount ?? 0);
+  const [thumbnailError, setThumbnailError] = useState(false);
+  // Thumbnails and downloads are plain URLs, so files that aren't public carry their grant in the query
+  const grantQuery = file.grant ? `?grant=${encodeURIComponent(file.grant)}` : '';
 
-  // Generate preview for images, text files, and PDFs
+  // Listings sent with the caller's token say whether each file is bookmarked; without one it never is
   useEffect(() => {
-    // More robust PDF detection - check fileType and filename
-    const fileTypeLower = (file.fileType || '').toLowerCase();
-    const fileNameLower = (file.originalName || '').toLowerCase();
-    
-    const isImage = fileTypeLower.startsWith('image/');
-    const isPdf = fileTypeLower === 'application/pdf' || 
-                  fileTypeLower.includes('pdf') ||
-                  fileNameLower.endsWith('.pdf');
-    const isText = fileTypeLower.includes('text') || 
-                   fileTypeLower === 'application/json' ||
-                   fileNameLower.endsWith('.txt') ||
-                   fileNameLower.endsWith('.md') ||
-                   fileNameLower.endsWith('.js') ||
-                   fileNameLower.endsWith('.ts') ||
-                   fileNameLower.endsWith('.tsx') ||
-                   fileNameLower.endsWith('.jsx') ||
-                   fileNameLower.endsWith('.css') ||
-                   fileNameLower.endsWith('.html') ||
-                   fileNameLower.endsWith('.json');
-
-    if (!isImage && !isText && !isPdf) {
-      setPreviewUrl(null);
-      setTextPreview(null);
-      setPreviewError(false);
-      setPreviewLoading(false);
-      return;
-    }
-    
-    // For PDFs, we don't need to load anything - just show iframe
-    if (isPdf) {
-      setPreviewLoading(false);
-      return;
-    }
-
-    let objectUrl: string | null = null;
-    
-    async function loadPreview() {
-      setPreviewLoading(true);
-      setPreviewError(false);
-      try {
-        // Use preview endpoint for inline display (no download headers)
-        const res = await fetch(`/api/files/${file.id}/preview`);
-        if (res.ok) {
-          if (isImage) {
-            // Handle image preview
-            const blob = await res.blob();
-            if (blob.type.startsWith('image/')) {
-              objectUrl = URL.createObjectURL(blob);
-              setPreviewUrl(objectUrl);
-            } else {
-              setPreviewError(true);
-            }
-          } else if (isPdf) {
-            // PDFs use iframe directly - no need to load here
-            setPreviewLoading(false);
-            return;
-          } else if (isText) {
-            // Handle text preview
-            const text = await res.text();
-            // Show first 10 lines or first 500 characters, whichever is shorter
-            const lines = text.split('\n').slice(0, 10);
-            const preview = lines.join('\n');
-            if (preview.length > 500) {
-              setTextPreview(preview.substring(0, 500) + '...');
-            } else {
-              setTextPreview(preview);
-            }
-          }
-        } else {
-          setPreviewError(true);
-        }
-      } catch (err) {
-        console.error('Error loading preview:', err);
-        setPreviewError(true);
-      } finally {
-        setPreviewLoading(false);
-      }
-    }
-    
-    loadPreview();
-    
-    // Cleanup: revoke object URL when component unmounts or file changes
-    return () => {
-      if (objectUrl) {
-        URL.revokeObjectURL(objectUrl);
-      }
-    };
-  }, [file.id, file.fileType, file.originalName]);
+    setIsBookmarked(file.isBookmarkedByMe ?? false);
+    setBookmarkCount(file.bookmarkCount ?? 0);
+  }, [file.isBookmarkedByMe, file.bookmarkCount]);
 
   // Format file size
   function formatFileSize(bytes: string): string {
@@ -186,7 +115,7 @@ const Tile: React.FC<TileProps> = ({
 
   async function handleDownload() {
     try {
-      const res = await fetch(`/api/files/${file.id}`);
+      const res = await apiFetch(`/api/files/${file.id}${grantQuery}`);
       if (!res.ok) throw new Error('Download failed');
       
       const blob = await res.blob();
@@ -206,8 +135,7 @@ const Tile: React.FC<TileProps> = ({
 
   async function handleBookmark() {
     if (!showBookmarkButton) return;
-    const token = localStorage.getItem('token');
-    if (!token) {
+    if (!isSignedIn()) {
       if (onBookmarkClick) {
         onBookmarkClick();
       } else {
@@ -219,12 +147,12 @@ const Tile: React.FC<TileProps> = ({
     try {
       if (isBookmarked) {
         // Unbookmark
-        const res = await fetch(`/api/files/${file.id}/bookmark`, {
-          method: 'DELETE',
-          headers: { 'Authorization': `Bearer ${token}` }
+        const res = await apiFetch(`/api/files/${file.id}/bookmark`, {
+          method: 'DELETE'
         });
         if (res.ok || res.status === 204) {
           setIsBookmarked(false);
+          setBookmarkCount(count => Math.max(0, count - 1));
           // Call callback if provided (e.g., to remove from bookmarks page)
           if (onUnbookmark) {
             onUnbookmark();
@@ -235,12 +163,12 @@ const Tile: React.FC<TileProps> = ({
         }
       } else {
         // Bookmark
-        const res = await fetch(`/api/files/${file.id}/bookmark`, {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${token}` }
+        const res = await apiFetch(`/api/files/${file.id}/bookmark`, {
+          method: 'POST'
         });
         if (res.ok) {
           setIsBookmarked(true);
+          setBookmarkCount(count => count + 1);
           window.dispatchEvent(new CustomEvent('bookmark-updated', {
             detail: { fileId: file.id, bookmarked: true }
           }));
@@ -252,6 +180,23 @@ const Tile: React.FC<TileProps> = ({
     }
   }
 
+  // Splits a search snippet into plain and highlighted runs; offsets come from the server
+  function renderSnippet(snippet: { text: string; highlights: [number, number][] }) {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    snippet.highlights.forEach(([start, end], index) => {
+      if (start > cursor) {
+        parts.push(snippet.text.slice(cursor, start));
+      }
+      parts.push(<mark key={index}>{snippet.text.slice(start, end)}</mark>);
+      cursor = end;
+    });
+    if (cursor < snippet.text.length) {
+      parts.push(snippet.text.slice(cursor));
+    }
+    return parts;
+  }
+
   function handleDeleteClick() {
     if (!onDelete) return;
     onDelete(file.id);
@@ -272,35 +217,25 @@ const Tile: React.FC<TileProps> = ({
         ) : (
           <span className="tile-class">No class</span>
         )}
-        <span className="tile-age">{formatDate(file.uploadedAt)}</span>
+        <span className="tile-age">
+          {file.visibility && VISIBILITY_BADGES[file.visibility] && (
+            <span className="tile-visibility">{VISIBILITY_BADGES[file.visibility]}</span>
+          )}
+          {formatDate(file.uploadedAt)}
+        </span>
       </div>
       
-      {/* File Preview */}
-      {previewLoading ? (
-        <div className="tile-preview-placeholder">
-          <div className="tile-loading">Loading preview...</div>
-        </div>
-      ) : previewUrl && !previewError ? (
+      {/* File Preview: a small server-rendered thumbnail, never the file itself */}
+      {file.hasThumbnail && !thumbnailError ? (
         <div className="tile-preview">
           <img 
-            src={previewUrl} 
+            src={`/api/files/${file.id}/thumbnail${grantQuery}`} 
             alt={file.originalName} 
             className="tile-preview-image"
-            onError={() => setPreviewError(true)}
+            loading="lazy"
+            onError={() => setThumbnailError(true)}
           />
         </div>
-      ) : (file.fileType === 'application/pdf' || file.originalName.toLowerCase().endsWith('.pdf')) ? (
-        <div className="tile-preview">
-          <iframe
-            src={`/api/files/${file.id}/preview#page=1&zoom=page-width&toolbar=0&navpanes=0`}
-            className="tile-preview-pdf"
-            title={`Preview of ${file.originalName}`}
-          />
-        </div>
-      ) : textPreview ? (
-        <div className="tile-preview-text">
-          <pre className="tile-text-content">{textPreview}</pre>
-        </div>
       ) : (
         <div className="tile-preview-placeholder">
           <div className="tile-file-icon">
@@ -318,7 +253,7 @@ const Tile: React.FC<TileProps> = ({
           if (onViewFile) {
             onViewFile(file.id);
           } else {
-            window.open(`/api/files/${file.id}`, '_blank');
+            window.open(`/api/files/${file.id}${grantQuery}`, '_blank');
           }
         }}
       >
@@ -332,10 +267,51 @@ const Tile: React.FC<TileProps> = ({
           {file.class.title}
         </p>
       )}
+
+      {file.offering && (
+        <p className="tile-term">
+          {file.offering.term.name}
+          {file.offering.section && ` · Section ${file.offering.section}`}
+        </p>
+      )}
+
+      {showOwner && file.owner && (
+        <p className="tile-owner">
+          by{' '}
+          <span
+            className="tile-owner-name"
+            onClick={() => onOwnerClick && onOwnerClick(file.owner!.handle)}
+            title={`View @${file.owner.handle}'s profile`}
+          >
+            {file.owner.displayName}
+          </span>
+        </p>
+      )}
+
+      {file.snippet && (
+        <p className="tile-snippet">
+          {renderSnippet(file.snippet)}
+        </p>
+      )}
       
       <div className="tile-footer">
-        <span className="tile-size">{formatFileSize(file.size)}</span>
+        <span className="tile-size">
+          {formatFileSize(file.size)}
+          {bookmarkCount > 0 && (
+            <span className="tile-bookmark-count" title={`Saved by ${bookmarkCount}`}>
+              {' '}· ⭐ {bookmarkCount}
+            </span>
+          )}
+        </span>
         <div className="tile-actions">
+          <VoteControl
+            fileId={file.id}
+            score={file.score ?? 0}
+            myVote={file.myVote}
+            grant={file.grant}
+            readOnly={!canVote}
+            onLoginClick={onBookmarkClick}
+          />
           <button 
             className="tile-action-btn download-btn" 
             onClick={handleDownload}
@@ -352,6 +328,15 @@ const Tile: React.FC<TileProps> = ({
               {isBookmarked ? '⭐' : '☆'}
             </button>
           )}
+          {onEdit && (
+            <button 
+              className="tile-action-btn edit-btn"
+              onClick={() => onEdit(file.id)}
+              title="Edit name, course and description"
+            >
+              Edit
+            </button>
+          )}
           {onDelete && (
             <button 
               className="tile-action-btn delete-btn"
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { apiFetch, isSignedIn } from '../api';
+import './TwoFactorSettings.css';
+
+// Account settings section for two-factor sign-in: setting up an authenticator app, recovery codes
+// and turning it off again (/api/auth/2fa/*).
+interface Setup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// status: on/off with its actions; setup: scan the QR code and confirm a code;
+// recovery-codes: new codes, shown once; regenerate/disable: re-enter password (and code)
+type View = 'status' | 'setup' | 'recovery-codes' | 'regenerate' | 'disable';
+
+const TwoFactorSettings: React.FC = () => {
+  const [enabled, setEnabled] = useState(false);
+  const [view, setView] = useState<View>('status');
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchStatus() {
+      if (!isSignedIn()) {
+        setError('Please log in to manage two-factor authentication');
+        setLoading(false);
+        return;
+      }
+      try {
+        const res = await apiFetch('/api/users/me');
+        if (!res.ok) throw new Error('Failed to load account');
+        const data = await res.json();
+        setEnabled(Boolean(data.twoFactorEnabled));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load account');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchStatus();
+  }, []);
+
+  function showView(next: View) {
+    setView(next);
+    setCode('');
+    setPassword('');
+    setError(null);
+    setMessage(null);
+  }
+
+  // Maps the server's errors to something a person can act on
+  function describeError(res: Response, data: { error?: string; retryAfter?: number }, fallback: string) {
+    if (res.status === 429 && data.retryAfter) {
+      return `Too many wrong codes. Try again in ${Math.ceil(data.retryAfter / 60)} minutes.`;
+    }
+    if (data.error === 'invalid password') return 'Incorrect password';
+    if (data.error === 'invalid code') return 'That code is not right. Enter the current code from your app.';
+    return data.error || fallback;
+  }
+
+  async function handleStartSetup() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await apiFetch('/api/auth/2fa/setup', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(res, data, 'Failed to start setup'));
+      setSetup(data);
+      showView('setup');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start setup');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleEnable(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/api/auth/2fa/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(res, data, 'Failed to turn on two-factor authentication'));
+      setEnabled(true);
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCopied(false);
+      showView('recovery-codes');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn on two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRegenerate(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/api/auth/2fa/recovery-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(res, data, 'Failed to generate recovery codes'));
+      setRecoveryCodes(data.recoveryCodes);
+      setCopied(false);
+      showView('recovery-codes');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate recovery codes');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleDisable(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/api/auth/2fa/disable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password, code }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(res, data, 'Failed to turn off two-factor authentication'));
+      setEnabled(false);
+      setRecoveryCodes([]);
+      showView('status');
+      setMessage('Two-factor authentication is off.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCopyCodes() {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+    } catch {
+      setError('Could not copy; select the codes and copy them instead');
+    }
+  }
+
+  if (loading) {
+    return <div className="two-factor-status">Loading...</div>;
+  }
+
+  if (view === 'setup' && setup) {
+    return (
+      <form className="two-factor" onSubmit={handleEnable}>
+        <p className="two-factor-text">
+          Scan this QR code with an authenticator app (Google Authenticator, Authy, 1Password, ...),
+          then enter the 6-digit code it shows.
+        </p>
+        <img className="two-factor-qr" src={setup.qrCode} alt="QR code for your authenticator app" />
+        <p className="two-factor-hint">
+          Can't scan it? Enter this key in the app instead:
+        </p>
+        <code className="two-factor-secret">{setup.secret}</code>
+        <label className="two-factor-label">
+          Code from the app
+          <input
+            type="text"
+            className="two-factor-input"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            maxLength={6}
+            required
+            disabled={busy}
+          />
+        </label>
+        {error && <div className="two-factor-error">{error}</div>}
+        <div className="two-factor-actions">
+          <button type="submit" className="two-factor-primary-btn" disabled={busy}>
+            {busy ? 'Checking…' : 'Turn on'}
+          </button>
+          <button type="button" className="two-factor-secondary-btn" onClick={() => showView('status')} disabled={busy}>
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  if (view === 'recovery-codes') {
+    return (
+      <div className="two-factor">
+        <p className="two-factor-text">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone.
+          They won't be shown again.
+        </p>
+        <ul className="two-factor-codes">
+          {recoveryCodes.map(recoveryCode => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        {error && <div className="two-factor-error">{error}</div>}
+        <div className="two-factor-actions">
+          <button type="button" className="two-factor-secondary-btn" onClick={handleCopyCodes}>
+            {copied ? 'Copied!' : 'Copy codes'}
+          </button>
+          <button type="button" className="two-factor-primary-btn" onClick={() => showView('status')}>
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'regenerate' || view === 'disable') {
+    const disabling = view === 'disable';
+    return (
+      <form className="two-factor" onSubmit={disabling ? handleDisable : handleRegenerate}>
+        <p className="two-factor-text">
+          {disabling
+            ? 'Confirm it is you to turn off two-factor authentication. Your recovery codes stop working too.'
+            : 'Confirm your password to get new recovery codes. The old ones stop working.'}
+        </p>
+        <label className="two-factor-label">
+          Password
+          <input
+            type="password"
+            className="two-factor-input"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            disabled={busy}
+          />
+        </label>
+        {disabling && (
+          <label className="two-factor-label">
+            Code from your app or a recovery code
+            <input
+              type="text"
+              className="two-factor-input"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+              maxLength={20}
+              required
+              disabled={busy}
+            />
+          </label>
+        )}
+        {error && <div className="two-factor-error">{error}</div>}
+        <div className="two-factor-actions">
+          <button type="submit" className={disabling ? 'two-factor-danger-btn' : 'two-factor-primary-btn'} disabled={busy}>
+            {disabling ? 'Turn off' : 'Generate new codes'}
+          </button>
+          <button type="button" className="two-factor-secondary-btn" onClick={() => showView('status')} disabled={busy}>
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="two-factor">
+      <p className="two-factor-text">
+        {enabled
+          ? 'Two-factor authentication is on. Logging in asks for a code from your authenticator app after your password.'
+          : 'Add a second step to logging in: after your password, enter a code from an authenticator app on your phone.'}
+      </p>
+      {message && <div className="two-factor-message">{message}</div>}
+      {error && <div className="two-factor-error">{error}</div>}
+      <div className="two-factor-actions">
+        {enabled ? (
+          <>
+            <button type="button" className="two-factor-secondary-btn" onClick={() => showView('regenerate')}>
+              New recovery codes
+            </button>
+            <button type="button" className="two-factor-danger-btn" onClick={() => showView('disable')}>
+              Turn off
+            </button>
+          </>
+        ) : (
+          <button type="button" className="two-factor-primary-btn" onClick={handleStartSetup} disabled={busy || !isSignedIn()}>
+            {busy ? 'Starting…' : 'Set up two-factor authentication'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,7 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { apiFetch, getAuthHeaders, isSignedIn } from '../api';
 import './UploadPage.css';
 
 // UploadPage drives the file submission flow, including auth gating, searchable class selection, and post-upload CTAs.
+// Files (or whole folders) are collected in a queue where each gets its own name and course. Small files go up
+// together through the batch endpoint; large ones are sent in chunks through the resumable upload API, so they
+// can be paused and picked up again after a reload.
 
 interface Class {
   id: number;
@@ -11,6 +15,79 @@ interface Class {
   csNumber: string;
 }
 
+// One term (and section) of a class (GET /api/classes/:id/offerings)
+interface Offering {
+  id: number;
+  term: { id: number; name: string };
+  section: string | null;
+  instructor: string | null;
+}
+
+interface UploadPolicy {
+  maxFileSize: number;
+  allowedTypes: string[];
+  blockedExtensions: string[];
+  sizeLimits: Record<string, number>;
+}
+
+// Server-side state of a resumable upload (GET /api/uploads/:id)
+interface UploadSession {
+  id: string;
+  fileName: string;
+  displayName: string;
+  classId: number | null;
+  offeringId: number | null;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  receivedBytes: number;
+}
+
+// What survives a page reload: enough to find the session again and match the reselected file
+interface PendingUpload {
+  id: string;
+  fileName: string;
+  size: number;
+  lastModified: number;
+  displayName: string;
+  classId: string;
+  offeringId?: string;
+}
+
+type ItemStatus = 'ready' | 'uploading' | 'paused' | 'done' | 'error';
+
+interface QueueItem {
+  key: number;
+  file: File;
+  path: string;
+  displayName: string;
+  classId: string;
+  offeringId: string;
+  status: ItemStatus;
+  message?: string;
+  session?: UploadSession;
+  activeChunk: number | null;
+  activeLoaded: number;
+}
+
+interface BatchResult {
+  index: number;
+  originalName: string;
+  status: number;
+  file?: { id: number; originalName: string };
+  error?: string;
+}
+
+type Visibility = 'public' | 'campus' | 'class' | 'private';
+
+const VISIBILITY_OPTIONS: { value: Visibility; label: string }[] = [
+  { value: 'public', label: 'Everyone' },
+  { value: 'campus', label: 'Signed-in students' },
+  { value: 'class', label: 'Members of the course' },
+  { value: 'private', label: 'Only people with a share link' }
+];
+
 interface UploadPageProps {
   onUploadSuccess?: () => void;
   onNavigateToLogin?: () => void;
@@ -18,29 +95,165 @@ interface UploadPageProps {
   onNavigateHome?: () => void;
 }
 
+const CHUNK_SIZE = 5 * 1024 * 1024;
+// Files up to one chunk are sent together through the batch endpoint, in groups this size
+const BATCH_MAX_FILES = 20;
+const BATCH_MAX_BYTES = 25 * 1024 * 1024;
+const PENDING_UPLOAD_KEY = 'pendingUpload';
+
+function loadPendingUpload(): PendingUpload | null {
+  try {
+    const saved = localStorage.getItem(PENDING_UPLOAD_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isSameFile(pending: PendingUpload, file: File): boolean {
+  return pending.fileName === file.name && pending.size === file.size && pending.lastModified === file.lastModified;
+}
+
+// crypto.subtle only exists in secure contexts (HTTPS or localhost); without it the server skips the check.
+async function sha256Hex(data: Blob): Promise<string | null> {
+  if (!window.crypto?.subtle) return null;
+  const digest = await window.crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function offeringLabel(offering: Offering): string {
+  return [
+    offering.term.name,
+    offering.section && `Section ${offering.section}`,
+    offering.instructor
+  ].filter(Boolean).join(' · ');
+}
+
+function uploadErrorText(status: number, error?: string): string {
+  if (status === 415) return `This file type isn't accepted: ${error || 'unsupported file type'}`;
+  if (status === 413) return `This file is too large: ${error || 'file exceeds the size limit'}`;
+  if (status === 403 && error === 'email not verified') return 'Verify your email address before uploading (see your account page)';
+  return error || 'Upload failed';
+}
+
+// Sends a request with XMLHttpRequest, since fetch can't report upload progress.
+// Rejects on network errors and when aborted by a pause. The session headers are fetched per
+// request, so an access token that expires during a long upload is refreshed before the next chunk.
+async function sendWithProgress<T>(
+  method: string,
+  url: string,
+  body: Blob | FormData,
+  headers: Record<string, string>,
+  onProgress: (fraction: number) => void,
+  xhrRef: React.MutableRefObject<XMLHttpRequest | null>
+): Promise<{ status: number; data: T | null }> {
+  const authHeaders = await getAuthHeaders(method);
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhrRef.current = xhr;
+    xhr.open(method, url);
+    Object.entries({ ...authHeaders, ...headers }).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      xhrRef.current = null;
+      let data = null;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // non-JSON error page
+      }
+      resolve({ status: xhr.status, data });
+    };
+    xhr.onerror = () => {
+      xhrRef.current = null;
+      reject(new Error('network error'));
+    };
+    xhr.onabort = () => {
+      xhrRef.current = null;
+      reject(new Error('paused'));
+    };
+    xhr.send(body);
+  });
+}
+
+// Collects the files from a drop, walking into dropped folders. Hidden files (.DS_Store etc.) are skipped.
+async function readDroppedFiles(dataTransfer: DataTransfer): Promise<{ file: File; path: string }[]> {
+  // Entries must be taken before the first await; the DataTransfer is emptied once the drop handler returns
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+
+  const found: { file: File; path: string }[] = [];
+  async function walk(entry: FileSystemEntry) {
+    if (entry.name.startsWith('.')) return;
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      found.push({ file, path: entry.fullPath.replace(/^\//, '') });
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns a directory in batches until it returns an empty one
+      let batch: FileSystemEntry[];
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        for (const child of batch) {
+          await walk(child);
+        }
+      } while (batch.length > 0);
+    }
+  }
+  for (const entry of entries) {
+    await walk(entry);
+  }
+  return found;
+}
+
 export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavigateToMyUploads, onNavigateHome }: UploadPageProps) {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [fileName, setFileName] = useState<string>('');
-  const [selectedClassId, setSelectedClassId] = useState<string>('');
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [defaultClassId, setDefaultClassId] = useState<string>('');
+  // Term and section of the default course, if the catalogue lists any
+  const [offerings, setOfferings] = useState<Offering[]>([]);
+  const [defaultOfferingId, setDefaultOfferingId] = useState<string>('');
+  const [visibility, setVisibility] = useState<Visibility>('public');
   const [classes, setClasses] = useState<Class[]>([]);
+  // Classes the user is enrolled in are listed first
+  const [enrolledIds, setEnrolledIds] = useState<Set<number>>(new Set());
   const [uploading, setUploading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [classSearchTerm, setClassSearchTerm] = useState<string>('');
+  const [policy, setPolicy] = useState<UploadPolicy | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<{ pending: PendingUpload; session: UploadSession } | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const pausedRef = useRef(false);
+  const xhrRef = useRef<XMLHttpRequest | null>(null);
+  const nextKeyRef = useRef(1);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    setIsAuthenticated(!!token);
+    setIsAuthenticated(isSignedIn());
   }, []);
 
   useEffect(() => {
     async function fetchClasses() {
       try {
-        const res = await fetch('/api/classes');
+        const res = await apiFetch('/api/classes');
         if (res.ok) {
           const data = await res.json();
           setClasses(data);
         }
+
+        if (isSignedIn()) {
+          const enrolledRes = await apiFetch('/api/users/me/classes');
+          if (enrolledRes.ok) {
+            const enrolled: Class[] = await enrolledRes.json();
+            setEnrolledIds(new Set(enrolled.map(cls => cls.id)));
+          }
+        }
       } catch (err) {
         console.error('Failed to fetch classes:', err);
       }
@@ -48,102 +261,463 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
     fetchClasses();
   }, []);
 
-  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
-    const file = e.target.files?.[0];
-    if (file) {
-      // Validate file size (50MB limit)
-      const maxSize = 50 * 1024 * 1024; // 50MB in bytes
-      if (file.size > maxSize) {
-        setMessage({ type: 'error', text: 'File size must be less than 50MB' });
-        return;
+  useEffect(() => {
+    if (!defaultClassId) {
+      setOfferings([]);
+      return;
+    }
+    let cancelled = false;
+    async function fetchOfferings(classId: string) {
+      try {
+        const res = await apiFetch(`/api/classes/${classId}/offerings`);
+        if (res.ok && !cancelled) {
+          setOfferings(await res.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch class offerings:', err);
+      }
+    }
+    fetchOfferings(defaultClassId);
+    return () => {
+      cancelled = true;
+    };
+  }, [defaultClassId]);
+
+  useEffect(() => {
+    async function fetchPolicy() {
+      try {
+        const res = await apiFetch('/api/files/upload-policy');
+        if (res.ok) {
+          setPolicy(await res.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch upload policy:', err);
+      }
+    }
+    fetchPolicy();
+  }, []);
+
+  // An upload interrupted by a reload or a closed tab can be finished once the same file is selected again
+  useEffect(() => {
+    const pending = loadPendingUpload();
+    if (!pending || !isSignedIn()) return;
+
+    async function fetchPendingUpload(pending: PendingUpload) {
+      try {
+        const res = await apiFetch(`/api/uploads/${pending.id}`);
+        if (res.ok) {
+          setPendingUpload({ pending, session: await res.json() });
+        } else if (res.status === 404) {
+          localStorage.removeItem(PENDING_UPLOAD_KEY);
+        }
+      } catch (err) {
+        console.error('Failed to check unfinished upload:', err);
+      }
+    }
+    fetchPendingUpload(pending);
+  }, []);
+
+  // React has no typed prop for folder selection, so set the attribute directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isAuthenticated]);
+
+  // Stop sending chunks after the current one when leaving the page; the session stays on the server for later
+  useEffect(() => {
+    return () => {
+      pausedRef.current = true;
+    };
+  }, []);
+
+  // Mirrors the server's checks so obvious rejections show up before uploading.
+  // The browser's file.type is only a guess; the server decides from the file's contents.
+  function checkAgainstPolicy(file: File): string | null {
+    const maxSize = policy?.maxFileSize ?? 50 * 1024 * 1024;
+    const dot = file.name.lastIndexOf('.');
+    const ext = dot >= 0 ? file.name.slice(dot).toLowerCase() : '';
+    if (ext && policy?.blockedExtensions.includes(ext)) {
+      return `${ext} files can't be uploaded`;
+    }
+
+    let limit = maxSize;
+    if (policy && file.type) {
+      const family = `${file.type.split('/')[0]}/*`;
+      const typeLimit = policy.sizeLimits[file.type] ?? policy.sizeLimits[family];
+      if (typeLimit !== undefined) {
+        limit = Math.min(typeLimit, maxSize);
       }
-      setSelectedFile(file);
-      // Set default filename to original filename
-      setFileName(file.name);
-      setMessage(null);
     }
+    if (file.size > limit) {
+      return `File size must be less than ${formatFileSize(limit)}`;
+    }
+    return null;
   }
 
-  async function handleUpload(e: React.FormEvent) {
+  function updateItem(key: number, changes: Partial<QueueItem>) {
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  }
+
+  function addFiles(found: { file: File; path: string }[]) {
+    const added: QueueItem[] = [];
+    for (const { file, path } of found) {
+      const alreadyQueued = items.some(item =>
+        item.status !== 'done' && item.path === path && item.file.size === file.size && item.file.lastModified === file.lastModified
+      );
+      if (alreadyQueued) continue;
+
+      const problem = checkAgainstPolicy(file);
+      // Picking up an unfinished upload: keep the name and course it was started with
+      const resumed = pendingUpload && isSameFile(pendingUpload.pending, file) ? pendingUpload.pending : null;
+      added.push({
+        key: nextKeyRef.current++,
+        file,
+        path,
+        displayName: resumed ? resumed.displayName : file.name,
+        classId: resumed ? resumed.classId : defaultClassId,
+        offeringId: resumed ? resumed.offeringId ?? '' : defaultOfferingId,
+        status: problem ? 'error' : 'ready',
+        message: problem ?? undefined,
+        activeChunk: null,
+        activeLoaded: 0,
+      });
+    }
+    setItems(prev => [...prev, ...added]);
+    setMessage(null);
+  }
+
+  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    // Folder picks carry the path inside the chosen folder
+    addFiles(files.map(file => ({ file, path: file.webkitRelativePath || file.name })));
+    // Allow picking the same files again later
+    e.target.value = '';
+  }
+
+  async function handleDrop(e: React.DragEvent<HTMLDivElement>) {
     e.preventDefault();
-    
-    if (!isAuthenticated) {
-      setMessage({ type: 'error', text: 'Please log in to upload files' });
-      return;
+    setDragActive(false);
+    if (uploading) return;
+    try {
+      addFiles(await readDroppedFiles(e.dataTransfer));
+    } catch (err) {
+      console.error('Failed to read dropped files:', err);
+      setMessage({ type: 'error', text: 'Some dropped files could not be read.' });
     }
+  }
 
-    if (!selectedFile) {
-      setMessage({ type: 'error', text: 'Please select a file to upload' });
-      return;
+  function removeItem(key: number) {
+    setItems(prev => prev.filter(item => item.key !== key));
+  }
+
+  function selectDefaultClass(classId: string) {
+    setDefaultClassId(classId);
+    setDefaultOfferingId('');
+  }
+
+  function applyCourseToAll() {
+    setItems(prev => prev.map(item => (item.status === 'ready' || item.status === 'error'
+      ? { ...item, classId: defaultClassId, offeringId: defaultOfferingId }
+      : item)));
+  }
+
+  async function discardPendingUpload() {
+    if (!pendingUpload) return;
+    try {
+      await apiFetch(`/api/uploads/${pendingUpload.pending.id}`, {
+        method: 'DELETE'
+      });
+    } catch (err) {
+      console.error('Failed to discard upload:', err);
     }
+    localStorage.removeItem(PENDING_UPLOAD_KEY);
+    setPendingUpload(null);
+  }
 
-    setUploading(true);
-    setMessage(null);
+  // Sends a group of small files in one request; the server reports each file's outcome.
+  async function uploadBatch(group: QueueItem[]): Promise<number> {
+    const keys = new Set(group.map(item => item.key));
+    setItems(prev => prev.map(item => (keys.has(item.key) ? { ...item, status: 'uploading', message: undefined, activeLoaded: 0 } : item)));
+
+    const formData = new FormData();
+    formData.append('items', JSON.stringify(group.map(item => ({
+      fileName: item.displayName.trim(),
+      classId: item.classId || undefined,
+      offeringId: item.offeringId || undefined,
+      visibility,
+    }))));
+    group.forEach(item => formData.append('files', item.file, item.file.name));
 
     try {
-      const token = localStorage.getItem('token');
-      if (!token) {
-        setMessage({ type: 'error', text: 'Authentication required. Please log in.' });
-        setUploading(false);
-        return;
+      const { status, data } = await sendWithProgress<{ results?: BatchResult[]; error?: string }>(
+        'POST',
+        '/api/files/upload/batch',
+        formData,
+        {},
+        fraction => setItems(prev => prev.map(item => (keys.has(item.key) ? { ...item, activeLoaded: item.file.size * fraction } : item))),
+        xhrRef
+      );
+
+      if ((status === 201 || status === 207) && data?.results) {
+        let uploaded = 0;
+        for (const result of data.results) {
+          const item = group[result.index];
+          if (!item) continue;
+          if (result.status === 201) {
+            uploaded++;
+            updateItem(item.key, { status: 'done', message: `Uploaded as "${result.file?.originalName}"` });
+          } else {
+            updateItem(item.key, { status: 'error', message: uploadErrorText(result.status, result.error), activeLoaded: 0 });
+          }
+        }
+        return uploaded;
       }
 
-      // Validate filename
-      if (!fileName || fileName.trim() === '') {
-        setMessage({ type: 'error', text: 'Please enter a file name' });
-        setUploading(false);
-        return;
+      setItems(prev => prev.map(item => (keys.has(item.key) ? { ...item, status: 'error', message: uploadErrorText(status, data?.error), activeLoaded: 0 } : item)));
+      return 0;
+    } catch (err) {
+      // Nothing from an interrupted batch is kept, so the files go back to the queue
+      setItems(prev => prev.map(item => (keys.has(item.key)
+        ? { ...item, status: 'ready', message: pausedRef.current ? undefined : 'Upload interrupted, try again', activeLoaded: 0 }
+        : item)));
+      if (!pausedRef.current) {
+        console.error('Upload error:', err);
       }
+      return 0;
+    }
+  }
 
-      // Create FormData for multipart/form-data upload
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('fileName', fileName.trim());
-      
-      // Add classId if selected
-      if (selectedClassId) {
-        formData.append('classId', selectedClassId);
+  // Reuses the saved session for this file if the server still has it, otherwise starts a new one.
+  async function openSession(item: QueueItem): Promise<UploadSession | { status: number; error?: string }> {
+    const pending = loadPendingUpload();
+    if (pending && isSameFile(pending, item.file)) {
+      const res = await apiFetch(`/api/uploads/${pending.id}`);
+      if (res.ok) {
+        return res.json();
       }
+      localStorage.removeItem(PENDING_UPLOAD_KEY);
+    }
 
-      const res = await fetch('/api/files/upload', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
-        body: formData
-      });
+    const res = await apiFetch('/api/uploads', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        fileName: item.file.name,
+        displayName: item.displayName.trim(),
+        classId: item.classId || undefined,
+        offeringId: item.offeringId || undefined,
+        visibility,
+        size: item.file.size,
+        chunkSize: CHUNK_SIZE,
+        sha256: await sha256Hex(item.file) ?? undefined,
+      })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      return { status: res.status, error: data?.error };
+    }
+
+    const saved: PendingUpload = {
+      id: data.id,
+      fileName: item.file.name,
+      size: item.file.size,
+      lastModified: item.file.lastModified,
+      displayName: item.displayName.trim(),
+      classId: item.classId,
+      offeringId: item.offeringId,
+    };
+    localStorage.setItem(PENDING_UPLOAD_KEY, JSON.stringify(saved));
+    return data;
+  }
+
+  // Sends the chunks the server doesn't have yet, then asks it to assemble the file.
+  // Used both for new uploads and to resume a paused or interrupted one.
+  async function uploadChunked(item: QueueItem): Promise<boolean> {
+    updateItem(item.key, { status: 'uploading', message: undefined });
+
+    try {
+      const opened = await openSession(item);
+      if (!('id' in opened)) {
+        updateItem(item.key, { status: 'error', message: uploadErrorText(opened.status, opened.error) });
+        return false;
+      }
+      let session = opened;
+      updateItem(item.key, { session, activeChunk: null, activeLoaded: 0 });
 
+      for (let index = 0; index < session.totalChunks; index++) {
+        if (session.receivedChunks.includes(index)) continue;
+        if (pausedRef.current) {
+          updateItem(item.key, { status: 'paused', activeChunk: null, activeLoaded: 0 });
+          return false;
+        }
+
+        const chunk = item.file.slice(index * session.chunkSize, Math.min((index + 1) * session.chunkSize, item.file.size));
+        updateItem(item.key, { activeChunk: index, activeLoaded: 0 });
+        const checksum = await sha256Hex(chunk);
+        let result;
+        let attempts = 0;
+        do {
+          // A 422 means the chunk was corrupted in transit, so it is worth sending again
+          result = await sendWithProgress<UploadSession & { error?: string }>(
+            'PUT',
+            `/api/uploads/${session.id}/chunks/${index}`,
+            chunk,
+            checksum
+              ? { 'Content-Type': 'application/octet-stream', 'X-Chunk-SHA256': checksum }
+              : { 'Content-Type': 'application/octet-stream' },
+            fraction => updateItem(item.key, { activeLoaded: chunk.size * fraction }),
+            xhrRef
+          );
+          attempts++;
+        } while (result.status === 422 && attempts < 3);
+
+        const { status, data } = result;
+        if (status < 200 || status >= 300 || !data) {
+          if (status === 404 || status === 413 || status === 415) {
+            localStorage.removeItem(PENDING_UPLOAD_KEY);
+            updateItem(item.key, { session: undefined });
+          }
+          updateItem(item.key, { status: 'error', message: uploadErrorText(status, data?.error), activeChunk: null, activeLoaded: 0 });
+          return false;
+        }
+        session = data;
+        updateItem(item.key, { session, activeChunk: null, activeLoaded: 0 });
+      }
+
+      const res = await apiFetch(`/api/uploads/${session.id}/complete`, {
+        method: 'POST'
+      });
       const data = await res.json();
 
+      if (res.status === 409 && Array.isArray(data?.missingChunks)) {
+        updateItem(item.key, { status: 'paused', message: 'Some chunks were lost. Resume to send them again.' });
+        return false;
+      }
       if (!res.ok) {
-        setMessage({ type: 'error', text: data?.error || 'Upload failed' });
-      } else {
-        setMessage({ 
-          type: 'success', 
-          text: `File "${data.originalName}" uploaded successfully!` 
-        });
-        
-        // Reset form
-        setSelectedFile(null);
-        setFileName('');
-        setSelectedClassId('');
-        if (e.target instanceof HTMLFormElement) {
-          e.target.reset();
-        }
-        
-        // Call success callback if provided
-        if (onUploadSuccess) {
-          onUploadSuccess();
+        if (res.status !== 500) {
+          localStorage.removeItem(PENDING_UPLOAD_KEY);
         }
+        updateItem(item.key, {
+          status: 'error',
+          session: res.status === 500 ? session : undefined,
+          message: res.status === 422
+            ? 'The uploaded file did not match the original. Please upload it again.'
+            : uploadErrorText(res.status, data?.error)
+        });
+        return false;
       }
+
+      localStorage.removeItem(PENDING_UPLOAD_KEY);
+      setPendingUpload(null);
+      updateItem(item.key, { status: 'done', message: `Uploaded as "${data.originalName}"` });
+      return true;
     } catch (err) {
-      setMessage({ type: 'error', text: 'Network error. Please try again.' });
-      console.error('Upload error:', err);
-    } finally {
-      setUploading(false);
+      // Pausing aborts the chunk in flight; like a dropped connection, it is sent again on resume
+      updateItem(item.key, {
+        status: 'paused',
+        activeChunk: null,
+        activeLoaded: 0,
+        message: pausedRef.current ? undefined : 'Connection lost. Resume to continue.',
+      });
+      if (!pausedRef.current) {
+        console.error('Upload error:', err);
+      }
+      return false;
     }
   }
 
+  // Works through everything that is ready or paused: small files in batches first, then large files one by one.
+  async function runQueue() {
+    if (!isSignedIn()) {
+      setMessage({ type: 'error', text: 'Authentication required. Please log in.' });
+      return;
+    }
+
+    const queue = items.filter(item => item.status === 'ready' || item.status === 'paused');
+    if (queue.some(item => !item.displayName.trim())) {
+      setMessage({ type: 'error', text: 'Please enter a name for every file' });
+      return;
+    }
+
+    pausedRef.current = false;
+    setUploading(true);
+    setMessage(null);
+
+    const small = queue.filter(item => item.file.size <= CHUNK_SIZE && !item.session);
+    const large = queue.filter(item => !small.includes(item));
+    let uploaded = 0;
+
+    let group: QueueItem[] = [];
+    let groupBytes = 0;
+    for (const item of small) {
+      if (group.length === BATCH_MAX_FILES || (group.length > 0 && groupBytes + item.file.size > BATCH_MAX_BYTES)) {
+        if (pausedRef.current) break;
+        uploaded += await uploadBatch(group);
+        group = [];
+        groupBytes = 0;
+      }
+      group.push(item);
+      groupBytes += item.file.size;
+    }
+    if (group.length > 0 && !pausedRef.current) {
+      uploaded += await uploadBatch(group);
+    }
+
+    for (const item of large) {
+      if (pausedRef.current) break;
+      if (await uploadChunked(item)) {
+        uploaded++;
+      }
+    }
+
+    setUploading(false);
+    if (pausedRef.current) {
+      setMessage(null);
+    } else if (uploaded === queue.length) {
+      setMessage({
+        type: 'success',
+        text: uploaded === 1 ? 'File uploaded successfully!' : `All ${uploaded} files uploaded successfully!`
+      });
+    } else {
+      setMessage({
+        type: 'error',
+        text: `${uploaded} of ${queue.length} files uploaded. See the list above for what went wrong.`
+      });
+    }
+
+    // Call success callback if provided
+    if (uploaded > 0 && onUploadSuccess) {
+      onUploadSuccess();
+    }
+  }
+
+  async function handleUpload(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!isAuthenticated) {
+      setMessage({ type: 'error', text: 'Please log in to upload files' });
+      return;
+    }
+
+    if (!items.some(item => item.status === 'ready' || item.status === 'paused')) {
+      setMessage({ type: 'error', text: 'Please add files to upload' });
+      return;
+    }
+
+    if (visibility === 'class' && items.some(item => item.status === 'ready' && !item.classId)) {
+      setMessage({ type: 'error', text: 'Pick a course for every file shared with course members' });
+      return;
+    }
+
+    await runQueue();
+  }
+
+  function pauseUpload() {
+    pausedRef.current = true;
+    xhrRef.current?.abort();
+  }
+
   function formatFileSize(bytes: number): string {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -152,16 +726,50 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
   }
 
+  function itemProgress(item: QueueItem): { chunks: number[]; percent: number } {
+    const size = item.file.size || 1;
+    if (!item.session) {
+      const percent = item.status === 'done' ? 100 : Math.floor((item.activeLoaded / size) * 100);
+      return { chunks: [percent], percent };
+    }
+    const { session } = item;
+    const chunks = Array.from({ length: session.totalChunks }, (_, index) => {
+      const chunkBytes = index < session.totalChunks - 1
+        ? session.chunkSize
+        : session.size - session.chunkSize * (session.totalChunks - 1);
+      if (session.receivedChunks.includes(index)) return 100;
+      return index === item.activeChunk ? Math.floor((item.activeLoaded / chunkBytes) * 100) : 0;
+    });
+    const percent = item.status === 'done' ? 100 : Math.floor(((session.receivedBytes + item.activeLoaded) / size) * 100);
+    return { chunks, percent };
+  }
+
+  function statusText(item: QueueItem, percent: number): string {
+    switch (item.status) {
+      case 'ready':
+        return item.message ?? (item.session ? 'Ready to resume' : 'Ready');
+      case 'uploading':
+        return item.session && item.activeChunk !== null
+          ? `${percent}% · chunk ${item.activeChunk + 1} of ${item.session.totalChunks}`
+          : `${percent}%`;
+      case 'paused':
+        return item.message ?? `Paused at ${percent}%`;
+      case 'done':
+      case 'error':
+        return item.message ?? '';
+    }
+  }
+
   if (!isAuthenticated) {
     return (
       <div className="upload-page">
         <div className="upload-card">
-          <h2>Upload File</h2>
+          <h2>Upload Files</h2>
           <div className="auth-required-message">
             <p>Please log in to upload files.</p>
             <div className="auth-action-buttons">
               {onNavigateToLogin && (
-                <button 
+                <button
                   type="button"
                   onClick={onNavigateToLogin}
                   className="login-link-button"
@@ -170,7 +778,7 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
                 </button>
               )}
               {onNavigateHome && (
-                <button 
+                <button
                   type="button"
                   onClick={onNavigateHome}
                   className="go-back-button"
@@ -185,13 +793,19 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
     );
   }
 
+  const queuedCount = items.filter(item => item.status === 'ready' || item.status === 'paused').length;
+  const hasPaused = items.some(item => item.status === 'paused');
+  const myClasses = classes.filter(cls => enrolledIds.has(cls.id));
+  const otherClasses = classes.filter(cls => !enrolledIds.has(cls.id));
+  const pendingMatched = pendingUpload && items.some(item => item.status !== 'done' && isSameFile(pendingUpload.pending, item.file));
+
   return (
     <div className="upload-page">
       <div className="upload-card">
         <div className="upload-header">
-          <h2>Upload File</h2>
+          <h2>Upload Files</h2>
           {onNavigateHome && (
-            <button 
+            <button
               type="button"
               onClick={onNavigateHome}
               className="go-back-button go-back-header"
@@ -201,59 +815,161 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
           )}
         </div>
         <p className="upload-description">
-          Upload course materials, notes, or study resources. Files can be associated with a specific course.
+          Upload course materials, notes, or study resources. Add as many files as you like, or a whole folder, and give each its own name and course.
         </p>
 
         <form onSubmit={handleUpload} className="upload-form">
-          {/* File Input */}
-          <div className="form-group">
-            <label htmlFor="file-input" className="file-label">
-              Select File
-            </label>
+          {pendingUpload && !pendingMatched && (
+            <div className="pending-upload">
+              <p>
+                <strong>Unfinished upload:</strong> {pendingUpload.pending.displayName} ({formatFileSize(pendingUpload.session.receivedBytes)} of {formatFileSize(pendingUpload.session.size)} sent)
+              </p>
+              <small>Add {pendingUpload.pending.fileName} again to pick up where it stopped.</small>
+              <button type="button" onClick={discardPendingUpload} className="go-back-button">
+                Discard
+              </button>
+            </div>
+          )}
+
+          {/* Drop Zone */}
+          <div
+            className={`upload-dropzone${dragActive ? ' drag-active' : ''}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragActive(true);
+            }}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+          >
+            <p>Drag files or folders here</p>
+            <div className="upload-dropzone-actions">
+              <label htmlFor="file-input" className="upload-dropzone-button">Choose files</label>
+              <label htmlFor="folder-input" className="upload-dropzone-button">Choose a folder</label>
+            </div>
             <input
               id="file-input"
               type="file"
+              multiple
               onChange={handleFileChange}
-              className="file-input"
-              required
+              className="upload-hidden-input"
+              disabled={uploading}
+            />
+            <input
+              id="folder-input"
+              ref={folderInputRef}
+              type="file"
+              onChange={handleFileChange}
+              className="upload-hidden-input"
+              disabled={uploading}
             />
-            {selectedFile && (
-              <div className="file-info">
-                <strong>Selected:</strong> {selectedFile.name}
-                <br />
-                <small>Size: {formatFileSize(selectedFile.size)}</small>
-                <br />
-                <small>Type: {selectedFile.type || 'Unknown'}</small>
-              </div>
-            )}
           </div>
 
-          {/* File Name Input */}
-          {selectedFile && (
-            <div className="form-group">
-              <label htmlFor="file-name-input" className="file-label">
-                File Name (as it will be displayed)
-              </label>
-              <input
-                id="file-name-input"
-                type="text"
-                value={fileName}
-                onChange={(e) => setFileName(e.target.value)}
-                className="file-input"
-                placeholder="Enter file name"
-                required
-                maxLength={255}
-              />
-              <small className="file-name-hint">
-                This name will be displayed to all users. You cannot change it after upload.
-              </small>
+          {/* Upload Queue */}
+          {items.length > 0 && (
+            <div className="upload-queue">
+              <div className="upload-queue-header">
+                <span>{items.length} {items.length === 1 ? 'file' : 'files'}</span>
+                <small className="file-name-hint">
+                  Names are displayed to all users. You can rename a file or change its course later from My Uploads.
+                </small>
+                {items.some(item => item.status === 'done') && !uploading && (
+                  <button
+                    type="button"
+                    onClick={() => setItems(prev => prev.filter(item => item.status !== 'done'))}
+                    className="upload-queue-clear"
+                  >
+                    Clear finished
+                  </button>
+                )}
+              </div>
+              <ul className="upload-queue-list">
+                {items.map((item) => {
+                  const { chunks, percent } = itemProgress(item);
+                  const editable = item.status === 'ready' && !item.session;
+                  return (
+                    <li key={item.key} className={`upload-queue-item status-${item.status}`}>
+                      <div className="upload-queue-fields">
+                        <input
+                          type="text"
+                          value={item.displayName}
+                          onChange={(e) => updateItem(item.key, { displayName: e.target.value })}
+                          className="upload-queue-name"
+                          placeholder="Enter file name"
+                          aria-label={`Display name for ${item.path}`}
+                          maxLength={255}
+                          disabled={!editable}
+                        />
+                        <select
+                          value={item.classId}
+                          onChange={(e) => updateItem(item.key, {
+                            classId: e.target.value,
+                            // The term picked below only applies to the course it was picked for
+                            offeringId: e.target.value === defaultClassId ? defaultOfferingId : ''
+                          })}
+                          className="upload-queue-class"
+                          aria-label={`Course for ${item.path}`}
+                          disabled={!editable}
+                        >
+                          <option value="">No course</option>
+                          {myClasses.length > 0 ? (
+                            <>
+                              <optgroup label="Your classes">
+                                {myClasses.map((cls) => (
+                                  <option key={cls.id} value={cls.id.toString()}>
+                                    {cls.subject} {cls.catalog} - {cls.title}
+                                  </option>
+                                ))}
+                              </optgroup>
+                              <optgroup label="All classes">
+                                {otherClasses.map((cls) => (
+                                  <option key={cls.id} value={cls.id.toString()}>
+                                    {cls.subject} {cls.catalog} - {cls.title}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            </>
+                          ) : classes.map((cls) => (
+                            <option key={cls.id} value={cls.id.toString()}>
+                              {cls.subject} {cls.catalog} - {cls.title}
+                            </option>
+                          ))}
+                        </select>
+                        {item.status !== 'uploading' && (
+                          <button
+                            type="button"
+                            onClick={() => removeItem(item.key)}
+                            className="upload-queue-remove"
+                            aria-label={`Remove ${item.path}`}
+                            disabled={uploading}
+                          >
+                            ×
+                          </button>
+                        )}
+                      </div>
+                      <div className="upload-queue-meta">
+                        <small>{item.path} · {formatFileSize(item.file.size)}</small>
+                        <small className="upload-queue-status">{statusText(item, percent)}</small>
+                      </div>
+                      {(item.status === 'uploading' || item.status === 'paused' || item.session) && (
+                        <div className="upload-progress-chunks">
+                          {chunks.map((chunkPercent, index) => (
+                            <div key={index} className="upload-progress-chunk" title={`Chunk ${index + 1}: ${chunkPercent}%`}>
+                              <div className="upload-progress-fill" style={{ width: `${chunkPercent}%` }} />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
             </div>
           )}
 
           {/* Course Selector (Optional) */}
           <div className="form-group">
             <label htmlFor="class-select" className="class-label">
-              Associate with Course (Optional)
+              Course for New Files (Optional)
             </label>
             <input
               type="text"
@@ -269,12 +985,12 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
                     type="radio"
                     name="class-select"
                     value=""
-                    checked={selectedClassId === ''}
-                    onChange={(e) => setSelectedClassId(e.target.value)}
+                    checked={defaultClassId === ''}
+                    onChange={(e) => selectDefaultClass(e.target.value)}
                   />
                   <span className="class-select-label">-- No course association --</span>
                 </label>
-                {classes
+                {[...myClasses, ...otherClasses]
                   .filter((cls) => {
                     if (!classSearchTerm) return true;
                     const searchLower = classSearchTerm.toLowerCase();
@@ -291,34 +1007,86 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
                         type="radio"
                         name="class-select"
                         value={cls.id.toString()}
-                        checked={selectedClassId === cls.id.toString()}
-                        onChange={(e) => setSelectedClassId(e.target.value)}
+                        checked={defaultClassId === cls.id.toString()}
+                        onChange={(e) => selectDefaultClass(e.target.value)}
                       />
                       <span className="class-select-label">
                         {cls.subject} {cls.catalog} - {cls.title}
                       </span>
+                      {enrolledIds.has(cls.id) && <span className="class-select-enrolled">Your class</span>}
                     </label>
                   ))}
               </div>
             </div>
-            {selectedClassId && (() => {
-              const selectedClass = classes.find(c => c.id.toString() === selectedClassId);
+            {defaultClassId && (() => {
+              const selectedClass = classes.find(c => c.id.toString() === defaultClassId);
               return selectedClass ? (
                 <div className="selected-class-display">
                   Selected: {selectedClass.subject} {selectedClass.catalog} - {selectedClass.title}
                 </div>
               ) : null;
             })()}
+            {defaultClassId && offerings.length > 0 && (
+              <select
+                value={defaultOfferingId}
+                onChange={(e) => setDefaultOfferingId(e.target.value)}
+                className="class-search-input"
+                aria-label="Term and section"
+                disabled={uploading}
+              >
+                <option value="">Any term</option>
+                {offerings.map(offering => (
+                  <option key={offering.id} value={offering.id.toString()}>
+                    {offeringLabel(offering)}
+                  </option>
+                ))}
+              </select>
+            )}
+            {items.some(item => item.status === 'ready') && (
+              <button type="button" onClick={applyCourseToAll} className="upload-queue-clear">
+                Use this course for every file in the queue
+              </button>
+            )}
+          </div>
+
+          {/* Visibility */}
+          <div className="form-group">
+            <label htmlFor="visibility-select" className="class-label">
+              Who can see these files
+            </label>
+            <select
+              id="visibility-select"
+              value={visibility}
+              onChange={(e) => setVisibility(e.target.value as Visibility)}
+              className="class-search-input"
+              disabled={uploading}
+            >
+              {VISIBILITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <small className="file-name-hint">You can change this later, and share private files with a link.</small>
           </div>
 
           {/* Submit Button */}
-          <button
-            type="submit"
-            disabled={uploading || !selectedFile}
-            className="upload-button"
-          >
-            {uploading ? 'Uploading...' : 'Upload File'}
-          </button>
+          <div className="upload-actions">
+            <button
+              type="submit"
+              disabled={uploading || queuedCount === 0}
+              className="upload-button"
+            >
+              {uploading
+                ? 'Uploading...'
+                : hasPaused
+                  ? 'Resume Upload'
+                  : `Upload ${queuedCount > 1 ? `${queuedCount} Files` : 'File'}`}
+            </button>
+            {uploading && (
+              <button type="button" onClick={pauseUpload} className="upload-progress-button">
+                Pause
+              </button>
+            )}
+          </div>
         </form>
 
         {/* Message Display */}
@@ -356,8 +1124,15 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
         <div className="upload-guidelines">
           <h3>Upload Guidelines</h3>
           <ul>
-            <li>Maximum file size: 50MB</li>
-            <li>All file types are accepted</li>
+            <li>Maximum file size: {formatFileSize(policy?.maxFileSize ?? 50 * 1024 * 1024)}</li>
+            {policy && Object.entries(policy.sizeLimits).map(([type, limit]) => (
+              <li key={type}>{type.replace('/*', '')} files: up to {formatFileSize(limit)}</li>
+            ))}
+            <li>Documents, images, text and code, audio, video and archives are accepted</li>
+            {policy && policy.blockedExtensions.length > 0 && (
+              <li>Programs and scripts ({policy.blockedExtensions.join(', ')}) are not allowed</li>
+            )}
+            <li>Large uploads can be paused and resumed, even after closing the page</li>
             <li>Files are publicly accessible after upload</li>
             <li>You can delete your own files at any time</li>
           </ul>
@@ -366,4 +1141,3 @@ export default function UploadPage({ onUploadSuccess, onNavigateToLogin, onNavig
     </div>
   );
 }
-
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { apiFetch, isSignedIn } from '../api';
+import './VoteControl.css';
+
+// Up/down vote buttons with the file's score; clicking your current vote again removes it.
+interface VoteControlProps {
+  fileId: number;
+  score: number;
+  myVote?: number;
+  grant?: string | null;
+  readOnly?: boolean;
+  onLoginClick?: () => void;
+}
+
+const VoteControl: React.FC<VoteControlProps> = ({ fileId, score: initialScore, myVote: initialVote = 0, grant, readOnly = false, onLoginClick }) => {
+  const [score, setScore] = useState(initialScore);
+  const [myVote, setMyVote] = useState(initialVote);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setScore(initialScore);
+    setMyVote(initialVote);
+  }, [initialScore, initialVote]);
+
+  async function handleVote(value: 1 | -1) {
+    if (!isSignedIn()) {
+      onLoginClick?.();
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = myVote === value
+        ? await apiFetch(`/api/files/${fileId}/vote`, {
+          method: 'DELETE'
+        })
+        : await apiFetch(`/api/files/${fileId}/vote${grant ? `?grant=${encodeURIComponent(grant)}` : ''}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ value })
+        });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to record vote');
+        return;
+      }
+      setScore(data.score);
+      setMyVote(data.myVote);
+    } catch (err) {
+      console.error('Vote error:', err);
+      alert('Failed to record vote');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="vote-control" title={readOnly ? 'Score' : undefined}>
+      {!readOnly && (
+        <button
+          className={`vote-btn up ${myVote === 1 ? 'active' : ''}`}
+          onClick={() => handleVote(1)}
+          disabled={busy}
+          title={myVote === 1 ? 'Remove upvote' : 'Helpful'}
+          aria-pressed={myVote === 1}
+        >
+          ▲
+        </button>
+      )}
+      <span className={`vote-score ${score > 0 ? 'positive' : score < 0 ? 'negative' : ''}`}>{score}</span>
+      {!readOnly && (
+        <button
+          className={`vote-btn down ${myVote === -1 ? 'active' : ''}`}
+          onClick={() => handleVote(-1)}
+          disabled={busy}
+          title={myVote === -1 ? 'Remove downvote' : 'Not helpful'}
+          aria-pressed={myVote === -1}
+        >
+          ▼
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VoteControl;
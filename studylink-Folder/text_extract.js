@@ -0,0 +1,111 @@
+const path = require('path');
+const mammoth = require('mammoth');
+
+// Extracted text is what full-text search indexes. Very large documents are truncated:
+// the first few hundred thousand characters are plenty to find a set of notes by topic.
+const MAX_INDEXED_CHARS = 500000;
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Plain text, Markdown and source files are indexed as-is.
+const TEXT_EXTENSIONS = new Set([
+  '.txt', '.md', '.markdown', '.csv', '.json', '.xml', '.html', '.css', '.tex',
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.c', '.h', '.cpp', '.hpp', '.cs',
+  '.go', '.rs', '.rb', '.php', '.swift', '.kt', '.scala', '.sql', '.sh', '.r', '.m',
+  '.hs', '.ml', '.lisp', '.rkt', '.asm', '.s', '.yaml', '.yml',
+]);
+
+/**
+ * Works out which extractor applies to a file.
+ *
+ * @param {Object} options
+ * @param {string} [options.fileType] - MIME type recorded at upload
+ * @param {string} [options.fileName] - Original file name
+ * @returns {string|null} 'pdf', 'docx', 'text', or null when the format is not indexed
+ */
+function detectKind({ fileType, fileName }) {
+  const type = (fileType || '').toLowerCase();
+  const ext = path.extname(fileName || '').toLowerCase();
+
+  if (type === 'application/pdf' || ext === '.pdf') return 'pdf';
+  if (type === DOCX_TYPE || ext === '.docx') return 'docx';
+  if (type.startsWith('text/') || type === 'application/json' || TEXT_EXTENSIONS.has(ext)) return 'text';
+  return null;
+}
+
+// pdfjs-dist only ships as an ES module; load it once on first use.
+let pdfjsPromise;
+function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.mjs');
+  }
+  return pdfjsPromise;
+}
+
+// Reads the text layer page by page, stopping once there is more than will be indexed.
+async function extractPdfText(buffer) {
+  const pdfjs = await loadPdfjs();
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+  try {
+    const pages = [];
+    let length = 0;
+    for (let number = 1; number <= doc.numPages && length < MAX_INDEXED_CHARS; number += 1) {
+      const page = await doc.getPage(number);
+      const content = await page.getTextContent();
+      // Marked-content entries carry no text
+      const text = content.items.map(item => (item.str || '') + (item.hasEOL ? '\n' : '')).join('');
+      page.cleanup();
+      pages.push(text);
+      length += text.length;
+    }
+    return pages.join('\n');
+  } finally {
+    await doc.destroy();
+  }
+}
+
+function normalizeText(text) {
+  return text
+    .replace(/\u0000/g, '')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim()
+    .slice(0, MAX_INDEXED_CHARS);
+}
+
+/**
+ * Extracts searchable text from an uploaded file.
+ *
+ * @param {Buffer} buffer - File bytes
+ * @param {Object} options
+ * @param {string} [options.fileType] - MIME type recorded at upload
+ * @param {string} [options.fileName] - Original file name
+ * @returns {Promise<string|null>} Normalized text, or null when the format is not indexed
+ *   or nothing readable was found (e.g. a scanned PDF)
+ */
+async function extractText(buffer, options) {
+  const kind = detectKind(options);
+  let text;
+
+  if (kind === 'pdf') {
+    text = await extractPdfText(buffer);
+  } else if (kind === 'docx') {
+    const result = await mammoth.extractRawText({ buffer });
+    text = result.value;
+  } else if (kind === 'text') {
+    // A NUL byte in the first chunk means this is a binary file with a misleading name
+    if (buffer.subarray(0, 8000).includes(0)) return null;
+    text = buffer.toString('utf8');
+  } else {
+    return null;
+  }
+
+  const normalized = normalizeText(text || '');
+  return normalized || null;
+}
+
+module.exports = { extractText, detectKind, loadPdfjs, MAX_INDEXED_CHARS };
@@ -0,0 +1,147 @@
+const path = require('path');
+const { Readable } = require('stream');
+const sharp = require('sharp');
+const { createCanvas } = require('@napi-rs/canvas');
+const db = require('./db.mysql.js');
+const storage = require('./storage');
+const { extractText, detectKind, loadPdfjs } = require('./text_extract');
+const { readStoredBytes } = require('./search_index');
+
+// Grid tiles show previews at roughly 300x200, so this covers high-DPI screens too.
+const THUMBNAIL_WIDTH = 480;
+const THUMBNAIL_HEIGHT = 320;
+const THUMBNAIL_TYPE = 'image/webp';
+// Profile pictures are square and shown at up to 128px, so this covers high-DPI screens too.
+const AVATAR_SIZE = 256;
+
+const TEXT_LINES = 14;
+const TEXT_COLUMNS = 56;
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.tif', '.tiff', '.svg']);
+
+function toThumbnail(input) {
+  return sharp(input)
+    .flatten({ background: '#ffffff' })
+    .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, { fit: 'cover', position: 'top' })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+async function renderPdf(buffer) {
+  const pdfjs = await loadPdfjs();
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+  try {
+    const page = await doc.getPage(1);
+    const { width } = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / width });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({ canvas, canvasContext: canvas.getContext('2d'), viewport }).promise;
+    return toThumbnail(await canvas.encode('png'));
+  } finally {
+    await doc.destroy();
+  }
+}
+
+function escapeXml(text) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Draws the first lines of a text file as a code-style card.
+function renderText(text) {
+  const lines = text
+    .replace(/\t/g, '  ')
+    .split('\n')
+    .slice(0, TEXT_LINES)
+    .map(line => (line.length > TEXT_COLUMNS ? line.slice(0, TEXT_COLUMNS - 1) + '…' : line));
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${THUMBNAIL_HEIGHT}">
+    <rect width="100%" height="100%" fill="#f8f9fa"/>
+    <text font-family="monospace" font-size="15" fill="#333">${lines
+      .map((line, index) => `<tspan x="18" y="${30 + index * 20}" xml:space="preserve">${escapeXml(line)}</tspan>`)
+      .join('')}</text>
+  </svg>`;
+  return sharp(Buffer.from(svg)).webp({ quality: 80 }).toBuffer();
+}
+
+/**
+ * Renders a thumbnail for a file: the first page of a PDF, a scaled copy of an image,
+ * or the opening lines of a text, code or DOCX file.
+ *
+ * @param {Buffer} buffer - File bytes
+ * @param {Object} options
+ * @param {string} [options.fileType] - MIME type recorded at upload
+ * @param {string} [options.fileName] - Original file name
+ * @returns {Promise<Buffer|null>} WebP image, or null when the format has no thumbnail
+ */
+async function renderThumbnail(buffer, options) {
+  const type = (options.fileType || '').toLowerCase();
+  const ext = path.extname(options.fileName || '').toLowerCase();
+
+  if (type.startsWith('image/') || IMAGE_EXTENSIONS.has(ext)) {
+    return toThumbnail(buffer);
+  }
+
+  const kind = detectKind(options);
+  if (kind === 'pdf') {
+    return renderPdf(buffer);
+  }
+  if (kind === 'text' || kind === 'docx') {
+    // For plain text only the start matters, so skip extracting the whole file
+    const text = await extractText(kind === 'text' ? buffer.subarray(0, 16 * 1024) : buffer, options);
+    return text ? renderText(text) : null;
+  }
+  return null;
+}
+
+/**
+ * Renders and stores the thumbnail for an uploaded file, replacing any previous one.
+ *
+ * @param {Object} file
+ * @param {number} file.id - image_store ID
+ * @param {string|null} file.storageKey - Storage key, or null for legacy BLOB rows
+ * @param {string} [file.fileType] - MIME type
+ * @param {string} [file.fileName] - Original file name
+ * @returns {Promise<boolean>} Whether a thumbnail was stored
+ */
+async function generateThumbnail(file) {
+  const buffer = await readStoredBytes(file);
+  const thumbnail = buffer ? await renderThumbnail(buffer, file) : null;
+  if (!thumbnail) return false;
+
+  const thumbnailKey = `thumbnails/${storage.generateKey()}.webp`;
+  await storage.put(thumbnailKey, Readable.from([thumbnail]), { contentType: THUMBNAIL_TYPE });
+
+  const rows = await db.all('SELECT thumbnail_key FROM image_store WHERE id = ?', [file.id]);
+  await db.run('UPDATE image_store SET thumbnail_key = ? WHERE id = ?', [thumbnailKey, file.id]);
+
+  const previousKey = rows.length > 0 ? rows[0].thumbnail_key : null;
+  if (previousKey) {
+    await storage.remove(previousKey).catch(err => {
+      console.error(`Removing old thumbnail ${previousKey} failed:`, err.message);
+    });
+  }
+  return true;
+}
+
+/**
+ * Turns an uploaded picture into a square avatar (same WebP format as thumbnails).
+ *
+ * @param {Buffer} buffer - Image bytes in any format sharp can read
+ * @returns {Promise<Buffer>} The avatar; rejects when the bytes are not a readable image
+ */
+function renderAvatar(buffer) {
+  return sharp(buffer)
+    .rotate()
+    .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: 'cover' })
+    .webp({ quality: 85 })
+    .toBuffer();
+}
+
+module.exports = { generateThumbnail, renderThumbnail, renderAvatar, THUMBNAIL_TYPE };
@@ -5,6 +5,25 @@
 -- 1. User table: email as PK, passwordhash column size, remove old columns
 -- 2. Note_Files: ownerID size increase, add classId column
 -- 3. Bookmarks: create new table
+-- 4. image_store: storage_key/content_hash for files kept outside MySQL
+-- 5. file_text: extracted document text with a FULLTEXT index for search
+-- 6. image_store: thumbnail_key for server-rendered grid thumbnails
+-- 7. Note_Files: fileType widened to hold full MIME types
+-- 8. upload_sessions/upload_parts: resumable chunked uploads
+-- 9. file_versions: revision history for each file
+-- 10. Note_Files: description set by the owner
+-- 11. file_comments: discussion threads on files
+-- 12. file_votes: one up/down vote per user per file
+-- 13. user_profiles: public handle, display name, avatar, major and bio
+-- 14. Note_Files/upload_sessions: visibility; class_enrollments and file_share_links
+-- 15. terms and class_offerings; Note_Files/upload_sessions: offeringId
+-- 16. User: role, bannedAt and banReason for the admin console
+-- 17. file_reports and moderation_log; Note_Files: hiddenAt
+-- 18. User: emailVerifiedAt and verificationSentAt for email verification
+-- 19. password_resets: hashed single-use password reset tokens
+-- 20. refresh_tokens and User.tokenVersion: revocable sessions
+-- 21. User: TOTP two-factor columns; totp_recovery_codes
+-- 22. user_identities: accounts linked to an OpenID Connect provider
 
 -- =========================================================================
 -- Utility Procedures
@@ -173,6 +192,8 @@ ALTER TABLE `User` ADD PRIMARY KEY (`email`);
 -- =========================================================================
 -- STEP 4: Remove password reset tokens table (if exists)
 -- =========================================================================
+-- This is the old, unused table; password resets now live in password_resets
+-- (STEP 21).
 
 DROP TABLE IF EXISTS `password_reset_tokens`;
 
@@ -192,6 +213,438 @@ ALTER TABLE `image_store`
   CONVERT TO CHARACTER SET utf8mb4
   COLLATE utf8mb4_unicode_ci;
 
+-- =========================================================================
+-- STEP 6: Move file bytes out of image_store
+-- =========================================================================
+-- New uploads are written to the storage backend (STORAGE_DRIVER) and only
+-- the object key is kept here. image_data stays for legacy rows until
+-- `npm run migrate:storage` moves them out.
+
+CALL AddColumnIfNotExists('image_store', 'storage_key', 'VARCHAR(255) NULL AFTER `image_name`');
+-- SHA-256 of the file bytes, served as the download ETag
+CALL AddColumnIfNotExists('image_store', 'content_hash', 'CHAR(64) NULL AFTER `storage_key`');
+
+ALTER TABLE `image_store`
+  MODIFY COLUMN `image_data` LONGBLOB NULL;
+
+-- =========================================================================
+-- STEP 7: Extracted document text for full-text search
+-- =========================================================================
+-- Filled at upload time; run `npm run index:text` once to index files
+-- uploaded before this step. content is NULL for formats we cannot read.
+
+CREATE TABLE IF NOT EXISTS `file_text` (
+  `fileId` VARCHAR(16) NOT NULL PRIMARY KEY,
+  `content` MEDIUMTEXT NULL,
+  `extractedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  FULLTEXT KEY `ft_file_text_content` (`content`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 8: Thumbnails
+-- =========================================================================
+-- Storage key of the WebP thumbnail rendered after upload. Run
+-- `npm run thumbnails:backfill` once to render thumbnails for older files.
+
+CALL AddColumnIfNotExists('image_store', 'thumbnail_key', 'VARCHAR(255) NULL AFTER `content_hash`');
+
+-- =========================================================================
+-- STEP 9: Widen Note_Files.fileType
+-- =========================================================================
+-- fileType now holds the MIME type detected from the file contents. Office
+-- types such as application/vnd.openxmlformats-officedocument... are far
+-- longer than the old 16 characters.
+
+ALTER TABLE `Note_Files`
+  MODIFY COLUMN `fileType` VARCHAR(255) NULL;
+
+-- Rows from before still hold the type the browser claimed; run
+-- npm run types:backfill (after migrate:storage) to detect them from the bytes.
+
+-- =========================================================================
+-- STEP 10: Resumable uploads
+-- =========================================================================
+-- A session is created before the first chunk and deleted once the parts
+-- have been assembled into a file (or the upload is aborted or expires).
+-- The chunk bytes live in file storage under upload-parts/<session>-<index>.
+
+CREATE TABLE IF NOT EXISTS `upload_sessions` (
+  `id` CHAR(36) NOT NULL PRIMARY KEY,
+  `ownerId` VARCHAR(100) NOT NULL,
+  `fileName` VARCHAR(255) NOT NULL,
+  `displayName` VARCHAR(255) NOT NULL,
+  `classId` VARCHAR(16) NULL,
+  `totalSize` BIGINT NOT NULL,
+  `chunkSize` INT NOT NULL,
+  `sha256` CHAR(64) NULL,
+  `detectedType` VARCHAR(255) NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'uploading',
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `expiresAt` DATETIME(3) NOT NULL,
+  INDEX `idx_upload_sessions_owner` (`ownerId`),
+  INDEX `idx_upload_sessions_expires` (`expiresAt`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `upload_parts` (
+  `sessionId` CHAR(36) NOT NULL,
+  `chunkIndex` INT NOT NULL,
+  `size` INT NOT NULL,
+  `sha256` CHAR(64) NOT NULL,
+  `receivedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`sessionId`, `chunkIndex`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 11: File versions
+-- =========================================================================
+-- Every revision of a file, numbered from 1 per file. image_store and
+-- Note_Files keep describing the current (highest) version. Versions may
+-- share a storage_key: restoring an old version adds a new version that
+-- points at the same bytes. storage_key is NULL only for a legacy row whose
+-- bytes are still in image_store.image_data.
+
+CREATE TABLE IF NOT EXISTS `file_versions` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `fileId` VARCHAR(16) NOT NULL,
+  `version` INT NOT NULL,
+  `storage_key` VARCHAR(255) NULL,
+  `content_hash` CHAR(64) NULL,
+  `size` BIGINT NULL,
+  `fileType` VARCHAR(255) NULL,
+  `originalName` VARCHAR(255) NOT NULL,
+  `uploadedBy` VARCHAR(100) NOT NULL,
+  `note` VARCHAR(255) NULL,
+  `restoredFrom` INT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  UNIQUE KEY `unique_file_version` (`fileId`, `version`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Existing files become version 1 of themselves (safe to re-run). Files still kept as BLOBs get a
+-- NULL storage_key here; npm run migrate:storage fills it in when it moves their bytes.
+INSERT IGNORE INTO `file_versions`
+  (`fileId`, `version`, `storage_key`, `content_hash`, `size`, `fileType`, `originalName`, `uploadedBy`, `createdAt`)
+SELECT
+  nf.`fileID`, 1, i.`storage_key`, i.`content_hash`, CAST(nf.`size` AS UNSIGNED), nf.`fileType`,
+  i.`image_name`, nf.`ownerID`,
+  COALESCE(STR_TO_DATE(LEFT(nf.`LastUpdated`, 23), '%Y-%m-%dT%H:%i:%s.%f'), CURRENT_TIMESTAMP(3))
+FROM `image_store` i
+INNER JOIN `Note_Files` nf ON CAST(i.`id` AS CHAR) = nf.`fileID`;
+
+-- =========================================================================
+-- STEP 12: File descriptions
+-- =========================================================================
+-- Free-text description the owner can set or change after upload
+-- (PATCH /api/files/:id). At most 2000 characters.
+
+CALL AddColumnIfNotExists('Note_Files', 'description', 'TEXT NULL AFTER `classId`');
+
+-- =========================================================================
+-- STEP 13: Comments
+-- =========================================================================
+-- Discussion on a file. parentId points at a top-level comment, so threads
+-- are one reply deep. A comment with replies is soft-deleted (deletedAt set,
+-- body cleared) to keep the thread readable.
+
+CREATE TABLE IF NOT EXISTS `file_comments` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `fileId` VARCHAR(16) NOT NULL,
+  `parentId` INT NULL,
+  `authorId` VARCHAR(100) NOT NULL,
+  `body` TEXT NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NULL,
+  `deletedAt` DATETIME(3) NULL,
+  INDEX `idx_file_comments_file` (`fileId`, `createdAt`),
+  INDEX `idx_file_comments_parent` (`parentId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 14: Votes
+-- =========================================================================
+-- value is 1 (upvote) or -1 (downvote); changing a vote updates the row.
+
+CREATE TABLE IF NOT EXISTS `file_votes` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` VARCHAR(100) NOT NULL,
+  `fileId` VARCHAR(16) NOT NULL,
+  `value` TINYINT NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  UNIQUE KEY `unique_vote` (`userId`, `fileId`),
+  INDEX `idx_file_votes_file` (`fileId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 15: User profiles
+-- =========================================================================
+-- Public identity shown next to uploads and comments instead of the email.
+-- handle is the URL name (/api/users/:handle). New accounts, and the
+-- backfill below, start with "user-" plus the first 8 hex digits of
+-- SHA-256(email) as both handle and display name, so nothing about the
+-- address is revealed until the user picks their own.
+
+CREATE TABLE IF NOT EXISTS `user_profiles` (
+  `userId` VARCHAR(100) NOT NULL PRIMARY KEY,
+  `handle` VARCHAR(32) NOT NULL,
+  `displayName` VARCHAR(60) NOT NULL,
+  `avatarKey` VARCHAR(255) NULL,
+  `major` VARCHAR(100) NULL,
+  `bio` VARCHAR(1000) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NULL,
+  UNIQUE KEY `unique_profile_handle` (`handle`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Existing accounts get a default profile (safe to re-run)
+INSERT IGNORE INTO `user_profiles` (`userId`, `handle`, `displayName`)
+SELECT
+  u.`email`,
+  CONCAT('user-', LEFT(SHA2(LOWER(u.`email`), 256), 8)),
+  CONCAT('user-', LEFT(SHA2(LOWER(u.`email`), 256), 8))
+FROM `User` u;
+
+-- =========================================================================
+-- STEP 16: File visibility and share links
+-- =========================================================================
+-- visibility decides who can see a file besides its owner:
+--   public  - anyone, signed in or not
+--   campus  - any signed-in user
+--   class   - users enrolled in the file's class (class_enrollments)
+--   private - only holders of a share link
+-- Existing files stay public. Resumable uploads remember the visibility
+-- chosen when the session was started.
+
+CALL AddColumnIfNotExists('Note_Files', 'visibility', "VARCHAR(16) NOT NULL DEFAULT 'public' AFTER `description`");
+CALL AddColumnIfNotExists('upload_sessions', 'visibility', "VARCHAR(16) NOT NULL DEFAULT 'public' AFTER `classId`");
+
+CREATE TABLE IF NOT EXISTS `class_enrollments` (
+  `userId` VARCHAR(100) NOT NULL,
+  `classId` INT NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`userId`, `classId`),
+  INDEX `idx_class_enrollments_class` (`classId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Only the SHA-256 of a share token is stored; the token itself is shown
+-- once, when the link is created. A link stops working once expiresAt has
+-- passed or revokedAt is set.
+
+CREATE TABLE IF NOT EXISTS `file_share_links` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `fileId` VARCHAR(16) NOT NULL,
+  `tokenHash` CHAR(64) NOT NULL,
+  `createdBy` VARCHAR(100) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `expiresAt` DATETIME(3) NULL,
+  `revokedAt` DATETIME(3) NULL,
+  UNIQUE KEY `unique_share_token` (`tokenHash`),
+  INDEX `idx_file_share_links_file` (`fileId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 17: Academic terms and class offerings
+-- =========================================================================
+-- classes stays the catalogue of courses. A class offering is one course in
+-- one term (season + year), optionally split into sections with their own
+-- instructor; an empty section means the whole course. Uploads can be tagged
+-- with the offering they came from. Admins create each new term's offerings
+-- by rolling the previous term's forward (POST /api/admin/terms/:id/roll-forward).
+
+CREATE TABLE IF NOT EXISTS `terms` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `season` VARCHAR(16) NOT NULL,
+  `year` SMALLINT NOT NULL,
+  `startsOn` DATE NULL,
+  `endsOn` DATE NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  UNIQUE KEY `unique_term` (`season`, `year`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `class_offerings` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `classId` INT NOT NULL,
+  `termId` INT NOT NULL,
+  `section` VARCHAR(16) NOT NULL DEFAULT '',
+  `instructor` VARCHAR(100) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  UNIQUE KEY `unique_class_offering` (`classId`, `termId`, `section`),
+  INDEX `idx_class_offerings_term` (`termId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CALL AddColumnIfNotExists('Note_Files', 'offeringId', 'INT NULL AFTER `classId`');
+CALL AddIndexIfNotExists('Note_Files', 'idx_notefiles_offering', '`offeringId`');
+CALL AddColumnIfNotExists('upload_sessions', 'offeringId', 'INT NULL AFTER `classId`');
+
+-- =========================================================================
+-- STEP 18: User roles and bans
+-- =========================================================================
+-- role is student, moderator or admin. The server reads role and bannedAt on
+-- every request, so changes apply without waiting for tokens to expire.
+-- There is no way to become an admin through the API; promote the first one
+-- by hand and they can manage everyone else from the admin console:
+--
+--   UPDATE `User` SET `role` = 'admin' WHERE `email` = 'you@university.edu';
+
+CALL AddColumnIfNotExists('User', 'role', 'VARCHAR(16) NOT NULL DEFAULT ''student'' AFTER `passwordhash`');
+CALL AddColumnIfNotExists('User', 'bannedAt', 'DATETIME(3) NULL AFTER `role`');
+CALL AddColumnIfNotExists('User', 'banReason', 'VARCHAR(255) NULL AFTER `bannedAt`');
+
+-- =========================================================================
+-- STEP 19: Content reports and the moderation log
+-- =========================================================================
+-- One report per user per file. status is open until a moderator dismisses
+-- the file's reports (dismissed) or hides or deletes the file (actioned).
+-- A hidden file (hiddenAt set) is left out of listings and answers 404 to
+-- everyone but its owner and staff. moderation_log records every staff
+-- action; targetId is an account email or a file ID, and entries outlive
+-- the files they name.
+
+CREATE TABLE IF NOT EXISTS `file_reports` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `fileId` VARCHAR(16) NOT NULL,
+  `reporterId` VARCHAR(100) NOT NULL,
+  `reason` VARCHAR(16) NOT NULL,
+  `details` VARCHAR(1000) NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'open',
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `resolvedBy` VARCHAR(100) NULL,
+  `resolvedAt` DATETIME(3) NULL,
+  UNIQUE KEY `unique_file_report` (`fileId`, `reporterId`),
+  INDEX `idx_file_reports_status` (`status`, `fileId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `moderation_log` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `actorId` VARCHAR(100) NOT NULL,
+  `action` VARCHAR(16) NOT NULL,
+  `targetType` VARCHAR(16) NOT NULL,
+  `targetId` VARCHAR(100) NOT NULL,
+  `note` TEXT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  INDEX `idx_moderation_log_target` (`targetType`, `targetId`),
+  INDEX `idx_moderation_log_actor` (`actorId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CALL AddColumnIfNotExists('Note_Files', 'hiddenAt', 'DATETIME(3) NULL AFTER `visibility`');
+
+-- =========================================================================
+-- STEP 20: Email verification
+-- =========================================================================
+-- New accounts start with emailVerifiedAt NULL and can't upload until the
+-- emailed link is opened. verificationSentAt throttles resends.
+-- The column is added with a CURRENT_TIMESTAMP default so accounts that
+-- existed before this step count as verified, then the default is dropped
+-- so new accounts don't. Re-running the step leaves both alone.
+
+CALL AddColumnIfNotExists('User', 'emailVerifiedAt', 'DATETIME(3) NULL DEFAULT CURRENT_TIMESTAMP(3) AFTER `banReason`');
+ALTER TABLE `User` ALTER COLUMN `emailVerifiedAt` SET DEFAULT NULL;
+CALL AddColumnIfNotExists('User', 'verificationSentAt', 'DATETIME(3) NULL AFTER `emailVerifiedAt`');
+
+-- =========================================================================
+-- STEP 21: Password resets
+-- =========================================================================
+-- Only the SHA-256 of each emailed token is stored. A token is spent
+-- (usedAt set) when it is used, and a successful reset spends every other
+-- outstanding token for the account. Expired rows are harmless and can be
+-- deleted at any time.
+
+CREATE TABLE IF NOT EXISTS `password_resets` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` VARCHAR(100) NOT NULL,
+  `tokenHash` CHAR(64) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `expiresAt` DATETIME(3) NOT NULL,
+  `usedAt` DATETIME(3) NULL,
+  UNIQUE KEY `unique_password_reset_token` (`tokenHash`),
+  INDEX `idx_password_resets_user` (`userId`, `createdAt`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 22: Refresh tokens and token versions
+-- =========================================================================
+-- Access tokens last 15 minutes and carry the account's tokenVersion; bumping
+-- it (password change, "log out all devices") invalidates all of them. Refresh
+-- tokens are stored as SHA-256 hashes. Each refresh spends a token (usedAt)
+-- and adds the next one to the same familyId (one family per sign-in), so a
+-- reused token can revoke its whole family. Expired rows are deleted as the
+-- account signs in again.
+
+CALL AddColumnIfNotExists('User', 'tokenVersion', 'INT NOT NULL DEFAULT 0 AFTER `verificationSentAt`');
+
+CREATE TABLE IF NOT EXISTS `refresh_tokens` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` VARCHAR(100) NOT NULL,
+  `familyId` CHAR(36) NOT NULL,
+  `tokenHash` CHAR(64) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `expiresAt` DATETIME(3) NOT NULL,
+  `usedAt` DATETIME(3) NULL,
+  `revokedAt` DATETIME(3) NULL,
+  UNIQUE KEY `unique_refresh_token` (`tokenHash`),
+  INDEX `idx_refresh_tokens_user` (`userId`),
+  INDEX `idx_refresh_tokens_family` (`familyId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 23: Two-factor authentication (TOTP)
+-- =========================================================================
+-- totpSecret is the base32 secret shared with the authenticator app; it is set
+-- when setup starts and 2FA is only on once totpEnabledAt is set. totpLastStep
+-- is the time step of the last accepted code, so a code can't be used twice.
+-- Wrong codes count in totpFailedAttempts until the second step is locked
+-- (totpLockedUntil). Recovery codes are single-use and stored as SHA-256.
+
+CALL AddColumnIfNotExists('User', 'totpSecret', 'VARCHAR(64) NULL AFTER `tokenVersion`');
+CALL AddColumnIfNotExists('User', 'totpEnabledAt', 'DATETIME(3) NULL AFTER `totpSecret`');
+CALL AddColumnIfNotExists('User', 'totpLastStep', 'BIGINT NULL AFTER `totpEnabledAt`');
+CALL AddColumnIfNotExists('User', 'totpFailedAttempts', 'INT NOT NULL DEFAULT 0 AFTER `totpLastStep`');
+CALL AddColumnIfNotExists('User', 'totpLockedUntil', 'DATETIME(3) NULL AFTER `totpFailedAttempts`');
+
+CREATE TABLE IF NOT EXISTS `totp_recovery_codes` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` VARCHAR(100) NOT NULL,
+  `codeHash` CHAR(64) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `usedAt` DATETIME(3) NULL,
+  UNIQUE KEY `unique_recovery_code` (`userId`, `codeHash`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 24: Single sign-on identities (OpenID Connect)
+-- =========================================================================
+-- One row per provider account that has signed in, keyed by the provider's
+-- issuer and its stable user id (the ID token's sub). Sign-ins find the
+-- account through this link first, so a changed email at the provider still
+-- reaches the same account. email is the last address the provider sent.
+
+CREATE TABLE IF NOT EXISTS `user_identities` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` VARCHAR(100) NOT NULL,
+  `issuer` VARCHAR(255) NOT NULL,
+  `subject` VARCHAR(255) NOT NULL,
+  `email` VARCHAR(100) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `lastLoginAt` DATETIME(3) NULL,
+  UNIQUE KEY `unique_identity` (`issuer`, `subject`),
+  INDEX `idx_identity_user` (`userId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =========================================================================
+-- STEP 25: Single sign-on tickets
+-- =========================================================================
+-- The callback hands the app a signed ticket cookie (valid for 2 minutes)
+-- that POST /api/auth/oidc/session trades for a session. Each ticket has a
+-- row here, and usedAt is claimed once, so a copied cookie can't be replayed.
+-- Expired rows are deleted whenever a new ticket is issued.
+
+CREATE TABLE IF NOT EXISTS `sso_tickets` (
+  `id` CHAR(36) NOT NULL PRIMARY KEY,
+  `userId` VARCHAR(100) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `expiresAt` DATETIME(3) NOT NULL,
+  `usedAt` DATETIME(3) NULL,
+  INDEX `idx_sso_ticket_expires` (`expiresAt`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- =========================================================================
 -- Cleanup Utility Procedures
 -- =========================================================================
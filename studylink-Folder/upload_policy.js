@@ -0,0 +1,209 @@
+const fs = require('fs');
+const path = require('path');
+const FileType = require('file-type');
+
+// Upload policy: which content types are accepted, which extensions are refused outright,
+// and how large each kind of file may be. Admins override any of these keys in a JSON
+// file (UPLOAD_POLICY_FILE, default upload-policy.json next to server.js), e.g.
+//
+//   {
+//     "maxFileSize": 52428800,
+//     "allowedTypes": ["application/pdf", "image/*", "text/*"],
+//     "blockedExtensions": [".exe", ".bat"],
+//     "sizeLimits": { "image/*": 10485760 }
+//   }
+//
+// Types are matched against the type detected from the file's bytes, never the
+// client-supplied MIME type. "major/*" patterns match a whole family.
+const MB = 1024 * 1024;
+
+const DEFAULT_POLICY = {
+  maxFileSize: 50 * MB,
+  allowedTypes: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation',
+    'application/rtf',
+    'application/epub+zip',
+    'application/json',
+    'application/zip',
+    'application/gzip',
+    'application/x-tar',
+    'application/x-7z-compressed',
+    'image/*',
+    'text/*',
+    'audio/*',
+    'video/*',
+  ],
+  blockedExtensions: [
+    '.exe', '.msi', '.com', '.scr', '.bat', '.cmd', '.ps1', '.vbs', '.wsf',
+    '.dll', '.sys', '.jar', '.apk', '.app', '.dmg', '.deb', '.rpm', '.lnk',
+  ],
+  sizeLimits: {
+    'image/*': 15 * MB,
+    'audio/*': 25 * MB,
+  },
+};
+
+// Bytes inspected to detect the type; file-type needs at most this many.
+const SNIFF_BYTES = 4100;
+
+// Text has no magic bytes, so these come from the extension once the content is known to be text.
+const TEXT_TYPES = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.json': 'application/json',
+  '.tex': 'text/x-tex',
+};
+
+function loadPolicy() {
+  const policyPath = path.resolve(__dirname, process.env.UPLOAD_POLICY_FILE || 'upload-policy.json');
+  if (!fs.existsSync(policyPath)) {
+    return DEFAULT_POLICY;
+  }
+  const overrides = JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+  const policy = { ...DEFAULT_POLICY, ...overrides };
+  policy.blockedExtensions = policy.blockedExtensions.map(ext => {
+    const lower = ext.toLowerCase();
+    return lower.startsWith('.') ? lower : `.${lower}`;
+  });
+  return policy;
+}
+
+const policy = loadPolicy();
+
+function matchesType(pattern, mime) {
+  if (pattern.endsWith('/*')) {
+    return mime.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === mime;
+}
+
+// Exact types beat families, so "image/gif": 5MB can tighten "image/*": 15MB.
+function sizeLimitFor(mime) {
+  const limits = policy.sizeLimits || {};
+  if (limits[mime] !== undefined) return Math.min(limits[mime], policy.maxFileSize);
+  const family = Object.keys(limits).find(pattern => pattern.endsWith('/*') && matchesType(pattern, mime));
+  return family ? Math.min(limits[family], policy.maxFileSize) : policy.maxFileSize;
+}
+
+function formatLimit(bytes) {
+  return bytes >= MB ? `${Math.round((bytes / MB) * 10) / 10}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+// Errors carry an HTTP status so the upload route can answer 413/415 instead of 500.
+function policyError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function looksLikeText(head) {
+  if (head.includes(0)) return false;
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Works out a file's real MIME type from its first bytes.
+ *
+ * @param {Buffer} head - First SNIFF_BYTES bytes (or the whole file if shorter)
+ * @param {string} fileName - Original file name, used only to name text formats
+ * @returns {Promise<string>} Detected MIME type; application/octet-stream for unknown binary data
+ */
+async function detectMimeType(head, fileName) {
+  const detected = await FileType.fromBuffer(head);
+  if (detected) return detected.mime;
+
+  if (head.length > 0 && looksLikeText(head)) {
+    const ext = path.extname(fileName || '').toLowerCase();
+    return TEXT_TYPES[ext] || 'text/plain';
+  }
+  return 'application/octet-stream';
+}
+
+/**
+ * Checks a file name against the blocked extensions, before any bytes are seen.
+ *
+ * @param {string} fileName - Original file name
+ * @returns {Error|null} Error with status 415 when the extension is blocked
+ */
+function checkFileName(fileName) {
+  const ext = path.extname(fileName || '').toLowerCase();
+  if (ext && policy.blockedExtensions.includes(ext)) {
+    return policyError(415, `${ext} files are not allowed`);
+  }
+  return null;
+}
+
+/**
+ * Checks a file against the upload policy.
+ *
+ * @param {Object} file
+ * @param {string} file.fileName - Original file name
+ * @param {string} file.mimeType - Detected MIME type
+ * @returns {Object} { error } (an Error with status 415) when refused, otherwise { maxSize }
+ */
+function checkFile({ fileName, mimeType }) {
+  const nameError = checkFileName(fileName);
+  if (nameError) {
+    return { error: nameError };
+  }
+  if (!policy.allowedTypes.some(pattern => matchesType(pattern, mimeType))) {
+    return { error: policyError(415, `file type ${mimeType} is not allowed`) };
+  }
+  return { maxSize: sizeLimitFor(mimeType) };
+}
+
+/**
+ * Builds the 413 error for a file over its size limit.
+ *
+ * @param {string} mimeType - Detected MIME type
+ * @param {number} maxSize - Limit that was exceeded, in bytes
+ * @returns {Error} Error with status 413
+ */
+function tooLargeError(mimeType, maxSize) {
+  return policyError(413, `file is too large (${mimeType} files are limited to ${formatLimit(maxSize)})`);
+}
+
+/**
+ * The policy as shown to clients, so the upload form can check files before sending them.
+ *
+ * @returns {Object} { maxFileSize, allowedTypes, blockedExtensions, sizeLimits }
+ */
+function describePolicy() {
+  return {
+    maxFileSize: policy.maxFileSize,
+    allowedTypes: policy.allowedTypes,
+    blockedExtensions: policy.blockedExtensions,
+    sizeLimits: policy.sizeLimits || {},
+  };
+}
+
+module.exports = {
+  policy,
+  SNIFF_BYTES,
+  detectMimeType,
+  checkFileName,
+  checkFile,
+  tooLargeError,
+  formatLimit,
+  describePolicy,
+};
@@ -0,0 +1,113 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Admin smoke test for StudyLink API.
+# Covers roles and bans: only admins change roles, moderators can ban students but not staff,
+# nobody can act on their own account, and a banned account can neither sign in nor use the
+# token it already has. Role changes and bans must show up in the moderation log.
+# Starts from an existing admin account (promote one by hand, see README), without 2FA:
+#   ADMIN_EMAIL=you@school.edu ADMIN_PASSWORD=... bash test_admin.sh http://localhost:8199
+# Each run leaves two student accounts behind (admin_mod_<run>, admin_student_<run>).
+
+source "$(dirname "$0")/test_lib.sh"
+
+if [[ -z "${ADMIN_EMAIL:-}" || -z "${ADMIN_PASSWORD:-}" ]]; then
+  echo "Set ADMIN_EMAIL and ADMIN_PASSWORD to an admin account's login." >&2
+  exit 1
+fi
+
+# Sends <method> to /api/admin/users/<email>/<action> as <token> with [json];
+# writes the body to RESP, prints the status
+admin_user() {
+  curl -s -o "$RESP" -w "%{http_code}" -X "$1" "$BASE_URL/api/admin/users/$3/$4" \
+    -H "Authorization: Bearer $2" "${JSON_HDR[@]}" -d "${5:-"{}"}"
+}
+
+hr; echo "Testing against: $BASE_URL"; hr
+
+MOD_EMAIL="admin_mod_${RUN_ID}@school.edu"
+STUDENT_EMAIL="admin_student_${RUN_ID}@school.edu"
+RESP=$(temp_file)
+
+ADMIN_TOKEN=$(token_for "$ADMIN_EMAIL" "$ADMIN_PASSWORD")
+register "$MOD_EMAIL" >/dev/null
+register "$STUDENT_EMAIL" >/dev/null
+MOD_TOKEN=$(token_for "$MOD_EMAIL")
+STUDENT_TOKEN=$(token_for "$STUDENT_EMAIL")
+if [[ -n "$ADMIN_TOKEN" && -n "$MOD_TOKEN" && -n "$STUDENT_TOKEN" ]]; then
+  ok "Admin and two new accounts signed in"
+else
+  bad "Admin and two new accounts signed in" "missing token" "tokens (is ADMIN_EMAIL an admin without 2FA?)"
+  finish
+fi
+
+# 1) Only staff see the account list → expect 403 for a student, 200 for the admin
+code=$(get_code "/api/admin/users" "$STUDENT_TOKEN" "$RESP")
+assert_code "List accounts (student) → 403" "$code" 403
+code=$(get_code "/api/admin/users?search=_${RUN_ID}@" "$ADMIN_TOKEN" "$RESP")
+assert_code "List accounts (admin) → 200" "$code" 200
+assert_code "Search finds both new accounts" "$(json_field "$RESP" total)" 2
+
+# 2) Roles: admins only, a known role, never your own
+code=$(admin_user PUT "$STUDENT_TOKEN" "$MOD_EMAIL" role '{"role":"moderator"}')
+assert_code "Change role (student) → 403" "$code" 403
+code=$(admin_user PUT "$ADMIN_TOKEN" "$MOD_EMAIL" role '{"role":"owner"}')
+assert_code "Change role (unknown role) → 400" "$code" 400
+code=$(admin_user PUT "$ADMIN_TOKEN" "$ADMIN_EMAIL" role '{"role":"student"}')
+assert_code "Change own role → 400" "$code" 400
+code=$(admin_user PUT "$ADMIN_TOKEN" "ghost_${RUN_ID}@school.edu" role '{"role":"moderator"}')
+assert_code "Change role (unknown account) → 404" "$code" 404
+code=$(admin_user PUT "$ADMIN_TOKEN" "$MOD_EMAIL" role '{"role":"moderator"}')
+assert_code "Promote to moderator → 200" "$code" 200
+assert_code "Account is a moderator" "$(json_field "$RESP" role)" moderator
+
+# 3) The new role applies to the token the moderator already has; moderators can't change roles
+code=$(get_code "/api/admin/users" "$MOD_TOKEN" "$RESP")
+assert_code "List accounts (moderator) → 200" "$code" 200
+code=$(admin_user PUT "$MOD_TOKEN" "$STUDENT_EMAIL" role '{"role":"moderator"}')
+assert_code "Change role (moderator) → 403" "$code" 403
+
+# 4) Moderators can't ban staff or themselves
+code=$(admin_user POST "$MOD_TOKEN" "$ADMIN_EMAIL" ban)
+assert_code "Moderator bans an admin → 403" "$code" 403
+code=$(admin_user POST "$MOD_TOKEN" "$MOD_EMAIL" ban)
+assert_code "Moderator bans themselves → 400" "$code" 400
+
+# 5) A moderator bans a student → expect the token and the password to stop working
+code=$(admin_user POST "$MOD_TOKEN" "$STUDENT_EMAIL" ban '{"reason":"Smoke test"}')
+assert_code "Ban student → 200" "$code" 200
+assert_code "Ban keeps the reason" "$(json_field "$RESP" banReason)" "Smoke test"
+code=$(get_code /api/users/me "$STUDENT_TOKEN")
+assert_code "Banned account's token → 403" "$code" 403
+code=$(login_as "$STUDENT_EMAIL" /dev/null)
+assert_code "Banned account logs in → 403" "$code" 403
+code=$(get_code "/api/admin/users?banned=true&search=_${RUN_ID}@" "$MOD_TOKEN" "$RESP")
+assert_code "Banned filter → 200" "$code" 200
+assert_code "Banned filter lists the student" "$(json_field "$RESP" users.0.email)" "$STUDENT_EMAIL"
+
+# 6) Lifting the ban → expect the student to sign in again
+code=$(admin_user DELETE "$MOD_TOKEN" "$STUDENT_EMAIL" ban)
+assert_code "Unban student → 200" "$code" 200
+code=$(login_as "$STUDENT_EMAIL" /dev/null)
+assert_code "Unbanned account logs in → 200" "$code" 200
+
+# 7) Only admins ban staff → expect the moderator locked out until the admin lifts it
+code=$(admin_user POST "$ADMIN_TOKEN" "$MOD_EMAIL" ban)
+assert_code "Admin bans a moderator → 200" "$code" 200
+code=$(get_code "/api/admin/users" "$MOD_TOKEN" "$RESP")
+assert_code "Banned moderator's token → 403" "$code" 403
+code=$(admin_user DELETE "$ADMIN_TOKEN" "$MOD_EMAIL" ban)
+assert_code "Admin unbans the moderator → 200" "$code" 200
+
+# 8) Every change is in the moderation log, newest first
+code=$(get_code "/api/admin/moderation-log?targetType=user&targetId=$STUDENT_EMAIL" "$ADMIN_TOKEN" "$RESP")
+assert_code "Moderation log → 200" "$code" 200
+assert_code "Log has the student's ban and unban" "$(json_field "$RESP" total)" 2
+assert_code "Newest entry is the unban" "$(json_field "$RESP" entries.0.action)" unban
+assert_code "Entry names the moderator" "$(json_field "$RESP" entries.0.actorId)" "$MOD_EMAIL"
+
+# Back to a student, so runs don't pile up moderators
+code=$(admin_user PUT "$ADMIN_TOKEN" "$MOD_EMAIL" role '{"role":"student"}')
+assert_code "Demote the moderator → 200" "$code" 200
+
+finish
@@ -2,29 +2,13 @@
 set -euo pipefail
 
 # Simple backend smoke test for StudyLink API.
-# Covers auth plus file upload/download/delete/bookmark flows.
-# Usage: bash test_automated.sh http://localhost:8199
+# Covers auth, email verification, plus file upload/download/delete/bookmark flows.
+# The server must write mail to files so the script can open the verification link:
+#   (cd studylink-Folder && MAIL_DRIVER=file npm start) &
+#   bash test_automated.sh http://localhost:8199
+# MAIL_DIR is where the server writes mail (default studylink-Folder/mail).
 
-command -v python3 >/dev/null || {
-  echo "python3 is required to run this script." >&2
-  exit 1
-}
-
-BASE_URL=${1:-"http://localhost:8199"}
-BASE_URL=${BASE_URL%/}  # Remove trailing slash if present
-JSON_HDR=( -H "Content-Type: application/json" )
-
-pass=0; fail=0
-CLEANUP_FILES=()
-
-hr() { printf '\n%s\n' "----------------------------------------"; }
-ok() { echo "✅  $1"; pass=$((pass+1)); }
-bad() { echo "❌  $1 (got $2, expected $3)"; fail=$((fail+1)); }
-
-cleanup() {
-  rm -f "${CLEANUP_FILES[@]:-}"
-}
-trap cleanup EXIT
+source "$(dirname "$0")/test_lib.sh"
 
 curl_code() {
   local method=$1; shift
@@ -37,20 +21,11 @@ curl_code() {
   fi
 }
 
-assert_code() {
-  local name=$1; shift
-  local got=$1; shift
-  local expect=$1; shift
-  if [[ "$got" == "$expect" ]]; then ok "$name"; else bad "$name" "$got" "$expect"; fi
-}
-
 hr; echo "Testing against: $BASE_URL"; hr
 
-RUN_ID=$(date +%s)
 TEST_EMAIL="autotest_${RUN_ID}@school.edu"
 UNKNOWN_EMAIL="ghost_${RUN_ID}@school.edu"
 INVALID_EMAIL="autotest_${RUN_ID}@school.com"
-PASSWORD_OK="password123"
 PASSWORD_BAD="password122"
 PASSWORD_SHORT="short"
 
@@ -83,9 +58,10 @@ code=$(curl_code POST "$BASE_URL/api/auth/login" "{\"email\":\"$TEST_EMAIL\",\"p
 assert_code "Login (wrong password) → 401" "$code" 401
 
 # Acquire JWT token for subsequent tests
-login_body=$(curl -s -X POST "$BASE_URL/api/auth/login" "${JSON_HDR[@]}" -d "{\"email\":\"$TEST_EMAIL\",\"password\":\"$PASSWORD_OK\"}")
-TOKEN=$(python3 -c 'import json,sys; print(json.load(sys.stdin)["token"])' <<<"$login_body")
-USER_ID=$(python3 -c 'import json,sys; print(json.load(sys.stdin)["user"]["id"])' <<<"$login_body")
+LOGIN_RESP=$(temp_file)
+login_as "$TEST_EMAIL" "$LOGIN_RESP" >/dev/null
+TOKEN=$(json_field "$LOGIN_RESP" token)
+USER_ID=$(json_field "$LOGIN_RESP" user.id)
 
 if [[ -z "$TOKEN" || -z "$USER_ID" ]]; then
   bad "Extract JWT token" "missing" "token present"
@@ -94,12 +70,26 @@ else
 fi
 
 # Prepare temporary file for upload tests
-UPLOAD_FILE=$(mktemp)
-CLEANUP_FILES+=("$UPLOAD_FILE")
+UPLOAD_FILE=$(temp_file)
 echo "Automated test upload $(date -u +"%Y-%m-%dT%H:%M:%SZ")" > "$UPLOAD_FILE"
 
-UPLOAD_RESP=$(mktemp)
-CLEANUP_FILES+=("$UPLOAD_RESP")
+# Uploading needs a verified email → expect 403 until the link is opened
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/files/upload" \
+  -H "Authorization: Bearer $TOKEN" \
+  -F "file=@$UPLOAD_FILE")
+assert_code "File upload (unverified) → 403" "$code" 403
+
+# Open the link from the verification email → expect 200
+VERIFY_TOKEN=$(verify_token "$TEST_EMAIL")
+if [[ -z "$VERIFY_TOKEN" ]]; then
+  bad "Verification email in $MAIL_DIR" "missing" "link (is the server running with MAIL_DRIVER=file?)"
+else
+  ok "Verification email in $MAIL_DIR"
+fi
+code=$(curl -s -o /dev/null -w "%{http_code}" -G "$BASE_URL/api/auth/verify" --data-urlencode "token=$VERIFY_TOKEN")
+assert_code "Verify email → 200" "$code" 200
+
+UPLOAD_RESP=$(temp_file)
 code=$(curl -s -o "$UPLOAD_RESP" -w "%{http_code}" -X POST "$BASE_URL/api/files/upload" \
   -H "Authorization: Bearer $TOKEN" \
   -F "file=@$UPLOAD_FILE")
@@ -113,8 +103,7 @@ else
 fi
 
 # List files and ensure uploaded file appears
-FILES_RESP=$(mktemp)
-CLEANUP_FILES+=("$FILES_RESP")
+FILES_RESP=$(temp_file)
 code=$(curl -s -o "$FILES_RESP" -w "%{http_code}" "$BASE_URL/api/files")
 assert_code "List files (public) → 200" "$code" 200
 
@@ -132,8 +121,7 @@ else
 fi
 
 # Download file and validate content
-DOWNLOAD_FILE=$(mktemp)
-CLEANUP_FILES+=("$DOWNLOAD_FILE")
+DOWNLOAD_FILE=$(temp_file)
 code=$(curl -s -o "$DOWNLOAD_FILE" -w "%{http_code}" "$BASE_URL/api/files/$FILE_ID")
 assert_code "Download file (public) → 200" "$code" 200
 if cmp -s "$UPLOAD_FILE" "$DOWNLOAD_FILE"; then
@@ -148,8 +136,7 @@ code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/files/$FILE
 assert_code "Bookmark file → 201" "$code" 201
 
 # Verify bookmark list
-BOOKMARKS_RESP=$(mktemp)
-CLEANUP_FILES+=("$BOOKMARKS_RESP")
+BOOKMARKS_RESP=$(temp_file)
 code=$(curl -s -o "$BOOKMARKS_RESP" -w "%{http_code}" "$BASE_URL/api/files/bookmarks" \
   -H "Authorization: Bearer $TOKEN")
 assert_code "List bookmarks → 200" "$code" 200
@@ -180,5 +167,4 @@ assert_code "Delete file (owner) → 204" "$code" 204
 code=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/files/$FILE_ID")
 assert_code "Download deleted file → 404" "$code" 404
 
-hr; echo "Pass: $pass   Fail: $fail"; hr
-if [[ $fail -eq 0 ]]; then exit 0; else exit 1; fi
\ No newline at end of file
+finish
@@ -0,0 +1,99 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Cookie session smoke test for StudyLink API.
+# Covers HttpOnly session cookies and the double-submit CSRF check: requests that change
+# something and carry the session cookies must echo the sl_csrf cookie in X-CSRF-Token.
+# The server must run in cookie mode:
+#   (cd studylink-Folder && SESSION_MODE=cookie npm start) &
+#   bash test_cookie_sessions.sh http://localhost:8199
+# Use COOKIE_SECURE=false on the server when testing over plain HTTP on a host other than localhost.
+
+source "$(dirname "$0")/test_lib.sh"
+
+# Value of cookie <name> in <cookie jar>, or nothing (HttpOnly cookies are listed as "#HttpOnly_<domain>")
+cookie_value() {
+  awk -v name="$2" -F '\t' 'NF >= 7 && $6 == name { print $7 }' "$1"
+}
+
+# Updates the display name with the session in <cookie jar>, sending [csrf token] if given;
+# writes the body to <file>, prints the status
+update_profile() {
+  local jar=$1 out=$2 csrf=${3:-}
+  local csrf_hdr=()
+  if [[ -n "$csrf" ]]; then csrf_hdr=( -H "X-CSRF-Token: $csrf" ); fi
+  curl -s -o "$out" -w "%{http_code}" -X PUT "$BASE_URL/api/users/me" -b "$jar" -c "$jar" \
+    "${JSON_HDR[@]}" "${csrf_hdr[@]}" -d "{\"displayName\":\"Cookie Tester $RUN_ID\"}"
+}
+
+hr; echo "Testing against: $BASE_URL"; hr
+
+TEST_EMAIL="cookies_${RUN_ID}@school.edu"
+RESP=$(temp_file)
+JAR=$(temp_file)
+
+code=$(register "$TEST_EMAIL")
+assert_code "Register → 201" "$code" 201
+
+# 1) Login → expect the session in cookies, not in the body
+code=$(curl -s -o "$RESP" -w "%{http_code}" -X POST "$BASE_URL/api/auth/login" -c "$JAR" "${JSON_HDR[@]}" \
+  -d "{\"email\":\"$TEST_EMAIL\",\"password\":\"$PASSWORD_OK\"}")
+assert_code "Login → 200" "$code" 200
+assert_code "No token in the body" "$(json_field "$RESP" token)" ""
+if [[ -n "$(cookie_value "$JAR" sl_access)" && -n "$(cookie_value "$JAR" sl_refresh)" ]]; then
+  ok "Session cookies set"
+else
+  bad "Session cookies set" "missing" "sl_access and sl_refresh (is the server running with SESSION_MODE=cookie?)"
+fi
+if grep -q "^#HttpOnly_.*sl_access" "$JAR"; then
+  ok "Access cookie is HttpOnly"
+else
+  bad "Access cookie is HttpOnly" "readable" "HttpOnly"
+fi
+CSRF=$(cookie_value "$JAR" sl_csrf)
+if [[ -n "$CSRF" ]]; then ok "CSRF cookie set"; else bad "CSRF cookie set" "missing" "sl_csrf"; fi
+
+# 2) Reading needs no CSRF token → expect 200
+code=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/users/me" -b "$JAR")
+assert_code "GET with cookies → 200" "$code" 200
+
+# 3) A change without X-CSRF-Token → expect 403
+code=$(update_profile "$JAR" "$RESP")
+assert_code "PUT without CSRF token → 403" "$code" 403
+assert_code "PUT without CSRF token, error" "$(json_field "$RESP" error)" "invalid csrf token"
+
+# 4) The same change with a wrong token → expect 403, also when it isn't ASCII
+code=$(update_profile "$JAR" "$RESP" "not-the-csrf-token")
+assert_code "PUT with wrong CSRF token → 403" "$code" 403
+# Same length in characters, not in bytes: the first character swapped for byte 0xE9 ("é")
+code=$(update_profile "$JAR" "$RESP" $'\xe9'"${CSRF:1}")
+assert_code "PUT with non-ASCII CSRF token → 403" "$code" 403
+
+# 5) The same change with the token from the cookie → expect 200
+code=$(update_profile "$JAR" "$RESP" "$CSRF")
+assert_code "PUT with CSRF token → 200" "$code" 200
+
+# 6) Refresh from the cookie needs the token too → expect 403, then 200 with it
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/auth/refresh" -b "$JAR" -c "$JAR")
+assert_code "Refresh without CSRF token → 403" "$code" 403
+code=$(curl -s -o "$RESP" -w "%{http_code}" -X POST "$BASE_URL/api/auth/refresh" -b "$JAR" -c "$JAR" \
+  -H "X-CSRF-Token: $CSRF")
+assert_code "Refresh with CSRF token → 200" "$code" 200
+assert_code "CSRF token kept across refresh" "$(cookie_value "$JAR" sl_csrf)" "$CSRF"
+
+# 7) Logout with the token → expect 204, the session cookies expired and the refresh cookie refused
+HEADERS=$(temp_file)
+code=$(curl -s -o /dev/null -D "$HEADERS" -w "%{http_code}" -X POST "$BASE_URL/api/auth/logout" -b "$JAR" \
+  -H "X-CSRF-Token: $CSRF")
+assert_code "Logout with CSRF token → 204" "$code" 204
+if grep -qi '^set-cookie: sl_access=;.*expires=thu, 01 jan 1970' "$HEADERS" &&
+   grep -qi '^set-cookie: sl_refresh=;.*expires=thu, 01 jan 1970' "$HEADERS"; then
+  ok "Logout clears the session cookies"
+else
+  bad "Logout clears the session cookies" "not cleared" "expired sl_access and sl_refresh"
+fi
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/auth/refresh" -b "$JAR" \
+  -H "X-CSRF-Token: $CSRF")
+assert_code "Refresh with the old cookie after logout → 401" "$code" 401
+
+finish
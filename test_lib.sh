@@ -0,0 +1,122 @@
+# Helpers shared by the smoke tests (test_*.sh). Each script sources it right after `set -euo pipefail`:
+#   source "$(dirname "$0")/test_lib.sh"
+# It takes the server's URL from the script's first argument (default http://localhost:8199) and, for
+# scripts that open verification links, MAIL_DIR from the environment (default studylink-Folder/mail).
+# Call finish at the end to print the totals and exit non-zero on any failure.
+
+command -v python3 >/dev/null || {
+  echo "python3 is required to run this script." >&2
+  exit 1
+}
+
+BASE_URL=${1:-"http://localhost:8199"}
+BASE_URL=${BASE_URL%/}  # Remove trailing slash if present
+MAIL_DIR=${MAIL_DIR:-"$(dirname "$0")/studylink-Folder/mail"}
+JSON_HDR=( -H "Content-Type: application/json" )
+
+RUN_ID=$(date +%s)
+PASSWORD_OK="password123"
+
+pass=0; fail=0
+# Holds every temp file, so it is removed even when made inside $(...)
+TEST_TMP=$(mktemp -d)
+
+hr() { printf '\n%s\n' "----------------------------------------"; }
+ok() { echo "✅  $1"; pass=$((pass+1)); }
+bad() { echo "❌  $1 (got $2, expected $3)"; fail=$((fail+1)); }
+
+cleanup() {
+  rm -rf "$TEST_TMP"
+}
+trap cleanup EXIT
+
+# Prints the path of a new empty temp file
+temp_file() {
+  mktemp "$TEST_TMP/XXXXXX"
+}
+
+finish() {
+  hr; echo "Pass: $pass   Fail: $fail"; hr
+  if [[ $fail -eq 0 ]]; then exit 0; else exit 1; fi
+}
+
+assert_code() {
+  local name=$1; shift
+  local got=$1; shift
+  local expect=$1; shift
+  if [[ "$got" == "$expect" ]]; then ok "$name"; else bad "$name" "$got" "$expect"; fi
+}
+
+# Prints <dotted.path> from the JSON in <file> (list items by index), or nothing when it is missing
+json_field() {
+  python3 -c 'import json,sys; data=json.load(open(sys.argv[1]))
+for key in sys.argv[2].split("."):
+    if isinstance(data, list): data=data[int(key)] if int(key) < len(data) else ""
+    else: data=data.get(key, "") if isinstance(data, dict) else ""
+print(str(data).lower() if isinstance(data, bool) else data)' "$1" "$2"
+}
+
+# Status of GET <path>, as [token] (anonymous when empty); writes the body to [file]
+get_code() {
+  local auth=()
+  if [[ -n "${2:-}" ]]; then auth=( -H "Authorization: Bearer $2" ); fi
+  curl -s -o "${3:-/dev/null}" -w "%{http_code}" "$BASE_URL$1" "${auth[@]}"
+}
+
+# Registers <email> with [password] (default PASSWORD_OK); prints the status
+register() {
+  curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/auth/register" "${JSON_HDR[@]}" \
+    -d "{\"email\":\"$1\",\"password\":\"${2:-$PASSWORD_OK}\"}"
+}
+
+# Logs in as <email> with [password] (default PASSWORD_OK); writes the body to <file>, prints the status
+login_as() {
+  curl -s -o "$2" -w "%{http_code}" -X POST "$BASE_URL/api/auth/login" "${JSON_HDR[@]}" \
+    -d "{\"email\":\"$1\",\"password\":\"${3:-$PASSWORD_OK}\"}"
+}
+
+# Logs in as <email> with [password]; prints the access token, or nothing when login fails
+token_for() {
+  local body
+  body=$(temp_file)
+  login_as "$1" "$body" "${2:-}" >/dev/null
+  json_field "$body" token
+}
+
+# Prints the token from the newest verification link mailed to <email>, or nothing
+verify_token() {
+  python3 - "$MAIL_DIR" "$1" <<'PY'
+import email, glob, os, re, sys
+mail_dir, to = sys.argv[1], sys.argv[2]
+for path in sorted(glob.glob(os.path.join(mail_dir, "*.eml")), reverse=True):
+    with open(path, "rb") as fh:
+        msg = email.message_from_binary_file(fh)
+    if msg["To"] != to:
+        continue
+    match = re.search(r"[?&]verify=([^\s&]+)", msg.get_payload(decode=True).decode())
+    if match:
+        print(match.group(1))
+        break
+PY
+}
+
+# Registers <email>, opens its verification link and prints an access token
+verified_account() {
+  local email=$1
+  register "$email" >/dev/null
+  curl -s -o /dev/null -G "$BASE_URL/api/auth/verify" --data-urlencode "token=$(verify_token "$email")"
+  token_for "$email"
+}
+
+# Uploads a small text file named <name> as <token>, with any extra form fields
+# (e.g. -F "visibility=private"); prints the new file's ID, or nothing when the upload fails
+upload_file() {
+  local token=$1 name=$2 file body
+  shift 2
+  file=$(temp_file)
+  body=$(temp_file)
+  echo "Smoke test upload ($name) $(date -u +"%Y-%m-%dT%H:%M:%SZ")" > "$file"
+  curl -s -o "$body" -X POST "$BASE_URL/api/files/upload" -H "Authorization: Bearer $token" \
+    -F "file=@$file;filename=$name" "$@"
+  json_field "$body" id
+}
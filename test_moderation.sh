@@ -0,0 +1,157 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Moderation smoke test for StudyLink API.
+# Reports two files, then dismisses the reports on one and hides, unhides and finally deletes
+# the other; checks the queue, who can still open a hidden file, that deleting keeps the
+# file's reports (marked actioned) and that every action lands in the moderation log.
+# Uploading needs a verified account, so the server must write mail to files; the moderator
+# is an existing moderator or admin account (promote one by hand, see README), without 2FA:
+#   (cd studylink-Folder && MAIL_DRIVER=file npm start) &
+#   ADMIN_EMAIL=you@school.edu ADMIN_PASSWORD=... bash test_moderation.sh http://localhost:8199
+# MAIL_DIR is where the server writes mail (default studylink-Folder/mail).
+
+source "$(dirname "$0")/test_lib.sh"
+
+if [[ -z "${ADMIN_EMAIL:-}" || -z "${ADMIN_PASSWORD:-}" ]]; then
+  echo "Set ADMIN_EMAIL and ADMIN_PASSWORD to a moderator's or admin's login." >&2
+  exit 1
+fi
+
+# Reports <file id> as <token> with <json>; prints the status
+report() {
+  curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/files/$2/reports" \
+    -H "Authorization: Bearer $1" "${JSON_HDR[@]}" -d "$3"
+}
+
+# Sends <method> to /api/admin/files/<file id>[/<action>] as the moderator with a note;
+# writes the body to RESP, prints the status
+moderate() {
+  local path="/api/admin/files/$2"
+  if [[ -n "${3:-}" ]]; then path="$path/$3"; fi
+  curl -s -o "$RESP" -w "%{http_code}" -X "$1" "$BASE_URL$path" -H "Authorization: Bearer $MOD_TOKEN" \
+    "${JSON_HDR[@]}" -d '{"note":"Smoke test"}'
+}
+
+# Whether the moderation queue, newest reports first, lists <file id>
+queued() {
+  get_code "/api/admin/reports?sort=newest&limit=100" "$MOD_TOKEN" "$RESP" >/dev/null
+  python3 - "$1" "$RESP" <<'PY'
+import json, sys
+file_id = int(sys.argv[1])
+with open(sys.argv[2]) as fh:
+    files = json.load(fh).get("files", [])
+sys.exit(0 if any(int(item["id"]) == file_id for item in files) else 1)
+PY
+}
+
+assert_queued() {
+  local name=$1 file_id=$2 expect=$3 got=no
+  if queued "$file_id"; then got=yes; fi
+  assert_code "$name" "$got" "$expect"
+}
+
+hr; echo "Testing against: $BASE_URL"; hr
+
+REPORTER_EMAIL="reporter_${RUN_ID}@school.edu"
+SECOND_REPORTER_EMAIL="reporter2_${RUN_ID}@school.edu"
+RESP=$(temp_file)
+
+MOD_TOKEN=$(token_for "$ADMIN_EMAIL" "$ADMIN_PASSWORD")
+OWNER_TOKEN=$(verified_account "uploader_${RUN_ID}@school.edu")
+register "$REPORTER_EMAIL" >/dev/null
+register "$SECOND_REPORTER_EMAIL" >/dev/null
+REPORTER_TOKEN=$(token_for "$REPORTER_EMAIL")
+SECOND_REPORTER_TOKEN=$(token_for "$SECOND_REPORTER_EMAIL")
+if [[ -n "$MOD_TOKEN" && -n "$OWNER_TOKEN" && -n "$REPORTER_TOKEN" && -n "$SECOND_REPORTER_TOKEN" ]]; then
+  ok "Moderator, uploader and two reporters signed in"
+else
+  bad "Moderator, uploader and two reporters signed in" "missing token" \
+    "tokens (is the server running with MAIL_DRIVER=file, and ADMIN_EMAIL staff without 2FA?)"
+  finish
+fi
+
+KEEP_ID=$(upload_file "$OWNER_TOKEN" "moderation-keep.txt" -F "visibility=public")
+HIDE_ID=$(upload_file "$OWNER_TOKEN" "moderation-hide.txt" -F "visibility=public")
+if [[ "$KEEP_ID" =~ ^[0-9]+$ && "$HIDE_ID" =~ ^[0-9]+$ ]]; then
+  ok "Two public files uploaded"
+else
+  bad "Two public files uploaded" "ids '$KEEP_ID' '$HIDE_ID'" "numeric ids"
+  finish
+fi
+
+# 1) Reports: a known reason, not your own file, once per user
+code=$(report "$REPORTER_TOKEN" "$KEEP_ID" '{"reason":"boring"}')
+assert_code "Report (unknown reason) → 400" "$code" 400
+code=$(report "$OWNER_TOKEN" "$KEEP_ID" '{"reason":"spam"}')
+assert_code "Report own file → 400" "$code" 400
+code=$(report "$REPORTER_TOKEN" "$KEEP_ID" '{"reason":"spam","details":"Smoke test"}')
+assert_code "Report → 201" "$code" 201
+code=$(report "$REPORTER_TOKEN" "$KEEP_ID" '{"reason":"other"}')
+assert_code "Report the same file twice → 409" "$code" 409
+code=$(report "$REPORTER_TOKEN" "$HIDE_ID" '{"reason":"exam"}')
+assert_code "Report second file → 201" "$code" 201
+
+# 2) The queue is for staff only and lists both files
+code=$(get_code "/api/admin/reports" "$REPORTER_TOKEN")
+assert_code "Queue (student) → 403" "$code" 403
+assert_queued "Queue lists the first file" "$KEEP_ID" yes
+assert_queued "Queue lists the second file" "$HIDE_ID" yes
+
+# 3) Dismissing → expect the file to stay up and leave the queue
+code=$(moderate POST "$KEEP_ID" reports/dismiss)
+assert_code "Dismiss reports → 200" "$code" 200
+assert_code "One report dismissed" "$(json_field "$RESP" dismissed)" 1
+code=$(moderate POST "$KEEP_ID" reports/dismiss)
+assert_code "Dismiss again (nothing open) → 404" "$code" 404
+assert_queued "Dismissed file left the queue" "$KEEP_ID" no
+code=$(get_code "/api/files/$KEEP_ID")
+assert_code "Dismissed file still downloads → 200" "$code" 200
+
+# 4) Hiding → expect 404 for everyone but the owner and staff, and the report actioned
+code=$(moderate POST "$HIDE_ID" hide)
+assert_code "Hide → 200" "$code" 200
+assert_code "Hiding actions the open report" "$(json_field "$RESP" resolvedReports)" 1
+code=$(moderate POST "$HIDE_ID" hide)
+assert_code "Hide again → 409" "$code" 409
+assert_queued "Hidden file left the queue" "$HIDE_ID" no
+code=$(get_code "/api/files/$HIDE_ID")
+assert_code "Hidden file (anonymous) → 404" "$code" 404
+code=$(get_code "/api/files/$HIDE_ID" "$REPORTER_TOKEN")
+assert_code "Hidden file (another student) → 404" "$code" 404
+code=$(get_code "/api/files/$HIDE_ID" "$OWNER_TOKEN")
+assert_code "Hidden file (owner) → 200" "$code" 200
+code=$(get_code "/api/files/$HIDE_ID" "$MOD_TOKEN")
+assert_code "Hidden file (moderator) → 200" "$code" 200
+
+# 5) Unhiding → expect the file back for everyone
+code=$(moderate DELETE "$HIDE_ID" hide)
+assert_code "Unhide → 200" "$code" 200
+code=$(moderate DELETE "$HIDE_ID" hide)
+assert_code "Unhide again → 409" "$code" 409
+code=$(get_code "/api/files/$HIDE_ID")
+assert_code "Unhidden file (anonymous) → 200" "$code" 200
+
+# 6) Deleting → expect the file gone but its reports kept, all actioned
+code=$(report "$SECOND_REPORTER_TOKEN" "$HIDE_ID" '{"reason":"copyright"}')
+assert_code "Report after unhiding → 201" "$code" 201
+code=$(curl -s -o /dev/null -w "%{http_code}" -X DELETE "$BASE_URL/api/admin/files/$HIDE_ID" \
+  -H "Authorization: Bearer $REPORTER_TOKEN")
+assert_code "Delete (student) → 403" "$code" 403
+code=$(moderate DELETE "$HIDE_ID")
+assert_code "Delete → 204" "$code" 204
+code=$(get_code "/api/files/$HIDE_ID" "$OWNER_TOKEN")
+assert_code "Deleted file (owner) → 404" "$code" 404
+code=$(get_code "/api/admin/files/$HIDE_ID/reports" "$MOD_TOKEN" "$RESP")
+assert_code "Deleted file's reports → 200" "$code" 200
+assert_code "Both reports kept" "$(json_field "$RESP" reports.1.reason)" exam
+assert_code "Newest report actioned" "$(json_field "$RESP" reports.0.status)" actioned
+assert_code "History ends with the delete" "$(json_field "$RESP" history.0.action)" delete
+
+# 7) The moderation log has every action on the file, newest first
+code=$(get_code "/api/admin/moderation-log?targetType=file&targetId=$HIDE_ID" "$MOD_TOKEN" "$RESP")
+assert_code "Moderation log → 200" "$code" 200
+assert_code "Hide, unhide and delete logged" "$(json_field "$RESP" total)" 3
+assert_code "Delete entry keeps the file's name" "$(json_field "$RESP" entries.0.note)" "moderation-hide.txt: Smoke test"
+
+finish
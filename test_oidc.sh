@@ -0,0 +1,118 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Single sign-on smoke test for StudyLink API, against the mock OpenID Connect provider.
+# Covers just-in-time accounts, linking to existing accounts, and refused sign-ins.
+# Usage:
+#   (cd studylink-Folder && npm run mock:oidc) &
+#   (cd studylink-Folder && OIDC_ISSUER=http://localhost:8299 OIDC_CLIENT_ID=studylink npm start) &
+#   bash test_oidc.sh http://localhost:8199
+
+source "$(dirname "$0")/test_lib.sh"
+
+urlencode() {
+  python3 -c 'import sys, urllib.parse; print(urllib.parse.quote(sys.argv[1], safe=""))' "$1"
+}
+
+# Walks /start → provider → /callback the way a browser would, signing in at the mock provider
+# as <email>, and prints where the callback sends the browser (/?sso=...).
+# Usage: sso_signin <cookie jar> <email> [extra provider params, e.g. "&mock_email_verified=false"]
+sso_signin() {
+  local jar=$1 email=$2 extra=${3:-}
+  local authorize callback
+  authorize=$(curl -s -o /dev/null -w "%{redirect_url}" -c "$jar" "$BASE_URL/api/auth/oidc/start")
+  callback=$(curl -s -o /dev/null -w "%{redirect_url}" "${authorize}&login_hint=$(urlencode "$email")${extra}")
+  curl -s -o /dev/null -w "%{redirect_url}" -b "$jar" -c "$jar" "$callback"
+}
+
+# Trades the sign-in ticket in <cookie jar> for a session; writes the body to <file>, prints the status
+sso_session() {
+  curl -s -o "$2" -w "%{http_code}" -X POST -b "$1" -c "$1" "$BASE_URL/api/auth/oidc/session"
+}
+
+hr; echo "Testing against: $BASE_URL"; hr
+
+SSO_EMAIL="sso_${RUN_ID}@school.edu"
+LINK_EMAIL="linked_${RUN_ID}@school.edu"
+OTHER_DOMAIN_EMAIL="sso_${RUN_ID}@gmail.com"
+RESP=$(temp_file)
+
+# 1) SSO is configured → expect enabled
+code=$(curl -s -o "$RESP" -w "%{http_code}" "$BASE_URL/api/auth/oidc")
+assert_code "SSO status → 200" "$code" 200
+assert_code "SSO enabled" "$(json_field "$RESP" enabled)" "true"
+
+# 2) Start → expect a redirect to the provider with a PKCE challenge
+JAR=$(temp_file)
+location=$(curl -s -o /dev/null -w "%{redirect_url}" -c "$JAR" "$BASE_URL/api/auth/oidc/start")
+if [[ "$location" == *"code_challenge_method=S256"* && "$location" == *"nonce="* ]]; then
+  ok "Start redirects to the provider with PKCE"
+else
+  bad "Start redirects to the provider with PKCE" "$location" "authorize URL"
+fi
+
+# 3) First sign-in creates the account → expect /?sso=done and a session
+JAR=$(temp_file)
+location=$(sso_signin "$JAR" "$SSO_EMAIL")
+assert_code "Sign-in (new account) → done" "${location##*sso=}" "done"
+# A copy of the ticket cookie, for the replay below
+REPLAY_JAR=$(temp_file)
+cp "$JAR" "$REPLAY_JAR"
+code=$(sso_session "$JAR" "$RESP")
+assert_code "Session from ticket → 200" "$code" 200
+assert_code "New account is verified" "$(json_field "$RESP" user.emailVerified)" "true"
+TOKEN=$(json_field "$RESP" token)
+
+# 4) The ticket works once, even when the cookie is sent again → expect 401
+code=$(sso_session "$JAR" "$RESP")
+assert_code "Session after the ticket was spent → 401" "$code" 401
+code=$(sso_session "$REPLAY_JAR" "$RESP")
+assert_code "Ticket replay (copied cookie) → 401" "$code" 401
+
+# 5) The new account has a profile → expect 200
+code=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/users/me" -H "Authorization: Bearer $TOKEN")
+assert_code "Profile of new account → 200" "$code" 200
+
+# 6) Signing in again reaches the same account
+JAR=$(temp_file)
+sso_signin "$JAR" "$SSO_EMAIL" >/dev/null
+code=$(sso_session "$JAR" "$RESP")
+assert_code "Second sign-in → 200" "$code" 200
+assert_code "Second sign-in, same account" "$(json_field "$RESP" user.id)" "$SSO_EMAIL"
+
+# 7) An existing account with the same email is linked
+code=$(register "$LINK_EMAIL")
+assert_code "Register password account → 201" "$code" 201
+JAR=$(temp_file)
+sso_signin "$JAR" "$LINK_EMAIL" >/dev/null
+code=$(sso_session "$JAR" "$RESP")
+assert_code "Sign-in (existing account) → 200" "$code" 200
+assert_code "Linked to the existing account" "$(json_field "$RESP" user.id)" "$LINK_EMAIL"
+
+# 8) The account was unverified, so the password set at registration no longer works → expect 401
+code=$(login_as "$LINK_EMAIL" /dev/null)
+assert_code "Unverified account's old password → 401" "$code" 401
+
+# 9) Addresses outside the allowed domains are refused
+JAR=$(temp_file)
+location=$(sso_signin "$JAR" "$OTHER_DOMAIN_EMAIL")
+assert_code "Sign-in (other domain) → domain_not_allowed" "${location##*sso=}" "domain_not_allowed"
+
+# 10) Addresses the provider hasn't verified are refused
+JAR=$(temp_file)
+location=$(sso_signin "$JAR" "unverified_${RUN_ID}@school.edu" "&mock_email_verified=false")
+assert_code "Sign-in (unverified email) → email_not_verified" "${location##*sso=}" "email_not_verified"
+
+# 11) A callback whose state doesn't match the browser's → expect invalid_state
+JAR=$(temp_file)
+authorize=$(curl -s -o /dev/null -w "%{redirect_url}" -c "$JAR" "$BASE_URL/api/auth/oidc/start")
+callback=$(curl -s -o /dev/null -w "%{redirect_url}" "${authorize}&login_hint=$(urlencode "$SSO_EMAIL")")
+location=$(curl -s -o /dev/null -w "%{redirect_url}" -b "$JAR" "${callback%%&state=*}&state=forged")
+assert_code "Callback with forged state → invalid_state" "${location##*sso=}" "invalid_state"
+
+# 12) No ticket → expect 401
+JAR=$(temp_file)
+code=$(sso_session "$JAR" "$RESP")
+assert_code "Session without ticket → 401" "$code" 401
+
+finish
@@ -0,0 +1,107 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Session smoke test for StudyLink API (token mode, the default SESSION_MODE).
+# Covers refresh token rotation, reuse detection, logout and "log out all devices".
+# Takes a little over 10 seconds: a spent refresh token only counts as stolen once the
+# grace period for racing tabs has passed.
+# Usage: bash test_sessions.sh http://localhost:8199
+
+source "$(dirname "$0")/test_lib.sh"
+
+# Slightly longer than the server's REFRESH_REUSE_GRACE_MS
+REUSE_GRACE_SECONDS=11
+
+# Trades <refresh token> for a new pair; writes the body to <file>, prints the status
+refresh() {
+  curl -s -o "$2" -w "%{http_code}" -X POST "$BASE_URL/api/auth/refresh" "${JSON_HDR[@]}" \
+    -d "{\"refreshToken\":\"$1\"}"
+}
+
+# Status of an authenticated request made with <access token>
+me_code() {
+  curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/users/me" -H "Authorization: Bearer $1"
+}
+
+hr; echo "Testing against: $BASE_URL"; hr
+
+TEST_EMAIL="sessions_${RUN_ID}@school.edu"
+RESP=$(temp_file)
+
+code=$(register "$TEST_EMAIL")
+assert_code "Register → 201" "$code" 201
+
+# 1) Login → expect a 15-minute access token and a refresh token
+code=$(login_as "$TEST_EMAIL" "$RESP")
+assert_code "Login → 200" "$code" 200
+assert_code "Access token lasts 15 minutes" "$(json_field "$RESP" expiresIn)" "900"
+ACCESS_1=$(json_field "$RESP" token)
+REFRESH_1=$(json_field "$RESP" refreshToken)
+if [[ -z "$REFRESH_1" ]]; then
+  bad "Login returns a refresh token" "missing" "token present"
+else
+  ok "Login returns a refresh token"
+fi
+code=$(me_code "$ACCESS_1")
+assert_code "Access token works → 200" "$code" 200
+
+# 2) Refresh → expect a new pair; the refresh token rotates
+code=$(refresh "$REFRESH_1" "$RESP")
+assert_code "Refresh → 200" "$code" 200
+ACCESS_2=$(json_field "$RESP" token)
+REFRESH_2=$(json_field "$RESP" refreshToken)
+if [[ -n "$REFRESH_2" && "$REFRESH_2" != "$REFRESH_1" ]]; then
+  ok "Refresh rotates the refresh token"
+else
+  bad "Refresh rotates the refresh token" "${REFRESH_2:-missing}" "a new token"
+fi
+code=$(me_code "$ACCESS_2")
+assert_code "Refreshed access token works → 200" "$code" 200
+
+# 3) Refresh without a token → expect 400
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/auth/refresh" "${JSON_HDR[@]}" -d '{}')
+assert_code "Refresh (no token) → 400" "$code" 400
+
+# 4) A spent refresh token used again → expect 401, and the whole login revoked
+echo "   waiting ${REUSE_GRACE_SECONDS}s for the reuse grace period…"
+sleep "$REUSE_GRACE_SECONDS"
+code=$(refresh "$REFRESH_1" "$RESP")
+assert_code "Refresh (spent token reused) → 401" "$code" 401
+code=$(refresh "$REFRESH_2" "$RESP")
+assert_code "Refresh (latest token after reuse) → 401" "$code" 401
+
+# 5) Logout ends that login only → expect 204, then its refresh token fails
+code=$(login_as "$TEST_EMAIL" "$RESP")
+REFRESH_KEEP=$(json_field "$RESP" refreshToken)
+code=$(login_as "$TEST_EMAIL" "$RESP")
+REFRESH_LOGOUT=$(json_field "$RESP" refreshToken)
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/auth/logout" "${JSON_HDR[@]}" \
+  -d "{\"refreshToken\":\"$REFRESH_LOGOUT\"}")
+assert_code "Logout → 204" "$code" 204
+code=$(refresh "$REFRESH_LOGOUT" "$RESP")
+assert_code "Refresh after logout → 401" "$code" 401
+code=$(refresh "$REFRESH_KEEP" "$RESP")
+assert_code "Other login still refreshes → 200" "$code" 200
+REFRESH_KEEP=$(json_field "$RESP" refreshToken)
+
+# 6) Log out all devices → expect 204, then every access and refresh token fails
+code=$(login_as "$TEST_EMAIL" "$RESP")
+ACCESS_ALL=$(json_field "$RESP" token)
+REFRESH_ALL=$(json_field "$RESP" refreshToken)
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/auth/logout-all" \
+  -H "Authorization: Bearer $ACCESS_ALL")
+assert_code "Logout all → 204" "$code" 204
+code=$(me_code "$ACCESS_ALL")
+assert_code "Access token after logout all → 401" "$code" 401
+code=$(refresh "$REFRESH_ALL" "$RESP")
+assert_code "Refresh after logout all → 401" "$code" 401
+code=$(refresh "$REFRESH_KEEP" "$RESP")
+assert_code "Other device's refresh after logout all → 401" "$code" 401
+
+# 7) Logging in again still works → expect 200
+code=$(login_as "$TEST_EMAIL" "$RESP")
+assert_code "Login after logout all → 200" "$code" 200
+code=$(me_code "$(json_field "$RESP" token)")
+assert_code "New access token works → 200" "$code" 200
+
+finish
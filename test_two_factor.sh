@@ -0,0 +1,170 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Two-factor authentication smoke test for StudyLink API.
+# Covers setup, enable, signing in with a code and with a recovery code, disable, deleting the
+# account (which needs a code too), and the lockout after wrong codes (sent in parallel, so
+# they must all be counted).
+# Codes are computed from the secret like an authenticator app would (RFC 6238).
+# Usage: bash test_two_factor.sh http://localhost:8199
+
+source "$(dirname "$0")/test_lib.sh"
+
+# The server's TOTP_MAX_FAILURES
+MAX_FAILURES=5
+
+# The code for <base32 secret>, [offset] 30-second steps from now
+totp_code() {
+  python3 -c 'import base64, hashlib, hmac, struct, sys, time
+secret = base64.b32decode(sys.argv[1] + "=" * (-len(sys.argv[1]) % 8))
+step = int(time.time()) // 30 + int(sys.argv[2])
+digest = hmac.new(secret, struct.pack(">Q", step), hashlib.sha1).digest()
+offset = digest[-1] & 15
+print("%06d" % ((struct.unpack(">I", digest[offset:offset + 4])[0] & 0x7fffffff) % 1000000))' "$1" "${2:-0}"
+}
+
+# Codes a step back only stay valid until the step ends; start on a fresh one
+wait_for_fresh_step() {
+  local left=$(( 30 - $(date +%s) % 30 ))
+  if (( left < 5 )); then sleep "$left"; fi
+}
+
+# POSTs <json> to <path> with the access token; writes the body to <file>, prints the status
+post_auth() {
+  curl -s -o "$3" -w "%{http_code}" -X POST "$BASE_URL$1" -H "Authorization: Bearer $TOKEN" \
+    "${JSON_HDR[@]}" -d "$2"
+}
+
+# Sends <code> with <challenge>; writes the body to <file>, prints the status
+second_step() {
+  curl -s -o "$3" -w "%{http_code}" -X POST "$BASE_URL/api/auth/login/2fa" "${JSON_HDR[@]}" \
+    -d "{\"challengeToken\":\"$1\",\"code\":\"$2\"}"
+}
+
+# DELETEs the account with [access token] (none when empty) and <json>; prints the status
+delete_account() {
+  local auth=()
+  if [[ -n "$1" ]]; then auth=( -H "Authorization: Bearer $1" ); fi
+  curl -s -o /dev/null -w "%{http_code}" -X DELETE "$BASE_URL/api/auth/account" "${auth[@]}" \
+    "${JSON_HDR[@]}" -d "$2"
+}
+
+hr; echo "Testing against: $BASE_URL"; hr
+
+TEST_EMAIL="twofactor_${RUN_ID}@school.edu"
+RESP=$(temp_file)
+
+code=$(register "$TEST_EMAIL")
+assert_code "Register → 201" "$code" 201
+login_as "$TEST_EMAIL" "$RESP" >/dev/null
+TOKEN=$(json_field "$RESP" token)
+
+# 1) Setup → expect a secret and a QR code
+code=$(post_auth /api/auth/2fa/setup '{}' "$RESP")
+assert_code "Setup → 200" "$code" 200
+SECRET=$(json_field "$RESP" secret)
+if [[ -n "$SECRET" && "$(json_field "$RESP" qrCode)" == data:image/png* ]]; then
+  ok "Setup returns a secret and a QR code"
+else
+  bad "Setup returns a secret and a QR code" "${SECRET:-missing}" "secret and qrCode"
+fi
+
+# 2) Enable with a wrong code → expect 400; with the app's code → expect ten recovery codes
+code=$(post_auth /api/auth/2fa/enable '{"code":"000000"}' "$RESP")
+assert_code "Enable (wrong code) → 400" "$code" 400
+wait_for_fresh_step
+# The previous step's code, so the next steps still have unused ones
+code=$(post_auth /api/auth/2fa/enable "{\"code\":\"$(totp_code "$SECRET" -1)\"}" "$RESP")
+assert_code "Enable → 200" "$code" 200
+RECOVERY_CODE=$(json_field "$RESP" recoveryCodes.0)
+RECOVERY_COUNT=$(python3 -c 'import json,sys; print(len(json.load(open(sys.argv[1])).get("recoveryCodes", [])))' "$RESP")
+assert_code "Enable returns 10 recovery codes" "$RECOVERY_COUNT" "10"
+
+# 3) Login now asks for the second step → expect a challenge instead of a token
+code=$(login_as "$TEST_EMAIL" "$RESP")
+assert_code "Login (2FA on) → 200" "$code" 200
+assert_code "Login asks for a code" "$(json_field "$RESP" twoFactorRequired)" "true"
+assert_code "No token before the code" "$(json_field "$RESP" token)" ""
+CHALLENGE=$(json_field "$RESP" challengeToken)
+
+# 4) Second step with a wrong code → expect 401; with the app's code → expect a session
+code=$(second_step "$CHALLENGE" "123456" "$RESP")
+assert_code "Login 2FA (wrong code) → 401" "$code" 401
+APP_CODE=$(totp_code "$SECRET")
+code=$(second_step "$CHALLENGE" "$APP_CODE" "$RESP")
+assert_code "Login 2FA (app code) → 200" "$code" 200
+TOKEN=$(json_field "$RESP" token)
+if [[ -n "$TOKEN" ]]; then ok "Login 2FA returns a token"; else bad "Login 2FA returns a token" "missing" "token"; fi
+
+# 5) The same app code again → expect 401
+code=$(second_step "$CHALLENGE" "$APP_CODE" "$RESP")
+assert_code "Login 2FA (code replayed) → 401" "$code" 401
+
+# 6) A recovery code works once → expect 200 with nine left, then 401
+code=$(second_step "$CHALLENGE" "$RECOVERY_CODE" "$RESP")
+assert_code "Login 2FA (recovery code) → 200" "$code" 200
+assert_code "Nine recovery codes left" "$(json_field "$RESP" recoveryCodesRemaining)" "9"
+code=$(second_step "$CHALLENGE" "$RECOVERY_CODE" "$RESP")
+assert_code "Login 2FA (recovery code reused) → 401" "$code" 401
+
+# 7) Disable needs the password and a code → expect 403 with a wrong password, then 200
+code=$(post_auth /api/auth/2fa/disable "{\"password\":\"wrong-password\",\"code\":\"$(totp_code "$SECRET" 1)\"}" "$RESP")
+assert_code "Disable (wrong password) → 403" "$code" 403
+code=$(post_auth /api/auth/2fa/disable "{\"password\":\"$PASSWORD_OK\",\"code\":\"$(totp_code "$SECRET" 1)\"}" "$RESP")
+assert_code "Disable → 200" "$code" 200
+code=$(login_as "$TEST_EMAIL" "$RESP")
+assert_code "Login (2FA off) → 200" "$code" 200
+if [[ -n "$(json_field "$RESP" token)" ]]; then
+  ok "Login (2FA off) returns a token"
+else
+  bad "Login (2FA off) returns a token" "missing" "token"
+fi
+TOKEN=$(json_field "$RESP" token)
+
+# 8) Deleting the account with 2FA on needs a session, the password and a code → expect 200 only with all three
+post_auth /api/auth/2fa/setup '{}' "$RESP" >/dev/null
+SECRET=$(json_field "$RESP" secret)
+post_auth /api/auth/2fa/enable "{\"code\":\"$(totp_code "$SECRET")\"}" "$RESP" >/dev/null
+code=$(delete_account "" "{\"password\":\"$PASSWORD_OK\",\"code\":\"$(totp_code "$SECRET" 1)\"}")
+assert_code "Delete account (no session) → 401" "$code" 401
+code=$(delete_account "$TOKEN" "{\"password\":\"$PASSWORD_OK\"}")
+assert_code "Delete account (no code) → 400" "$code" 400
+code=$(delete_account "$TOKEN" "{\"password\":\"$PASSWORD_OK\",\"code\":\"000000\"}")
+assert_code "Delete account (wrong code) → 403" "$code" 403
+code=$(delete_account "$TOKEN" "{\"password\":\"$PASSWORD_OK\",\"code\":\"$(totp_code "$SECRET" 1)\"}")
+assert_code "Delete account (password and code) → 200" "$code" 200
+code=$(login_as "$TEST_EMAIL" "$RESP")
+assert_code "Login after deleting the account → 401" "$code" 401
+
+# 9) Wrong codes sent at once all count → expect the lockout, even for the right code
+TEST_EMAIL="twofactor_lock_${RUN_ID}@school.edu"
+register "$TEST_EMAIL" >/dev/null
+login_as "$TEST_EMAIL" "$RESP" >/dev/null
+TOKEN=$(json_field "$RESP" token)
+post_auth /api/auth/2fa/setup '{}' "$RESP" >/dev/null
+SECRET=$(json_field "$RESP" secret)
+post_auth /api/auth/2fa/enable "{\"code\":\"$(totp_code "$SECRET")\"}" "$RESP" >/dev/null
+login_as "$TEST_EMAIL" "$RESP" >/dev/null
+CHALLENGE=$(json_field "$RESP" challengeToken)
+STATUSES=()
+for i in $(seq 1 "$MAX_FAILURES"); do
+  STATUSES+=("$(temp_file)")
+done
+for status_file in "${STATUSES[@]}"; do
+  second_step "$CHALLENGE" "000000" /dev/null > "$status_file" &
+done
+wait
+if cat "${STATUSES[@]}" | grep -q 429; then
+  ok "$MAX_FAILURES parallel wrong codes → locked (429)"
+else
+  bad "$MAX_FAILURES parallel wrong codes → locked (429)" "$(cat "${STATUSES[@]}" | tr '\n' ' ')" "a 429"
+fi
+code=$(second_step "$CHALLENGE" "$(totp_code "$SECRET" 1)" "$RESP")
+assert_code "Login 2FA while locked (right code) → 429" "$code" 429
+if [[ "$(json_field "$RESP" retryAfter)" =~ ^[0-9]+$ ]]; then
+  ok "Lockout says when to retry"
+else
+  bad "Lockout says when to retry" "$(json_field "$RESP" retryAfter)" "seconds"
+fi
+
+finish
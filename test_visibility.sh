@@ -0,0 +1,148 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# File visibility smoke test for StudyLink API.
+# Uploads a public, a campus, a class and a private file and checks who can list, download,
+# preview, comment on and bookmark each; then signed grants and share links (active and revoked).
+# Uploading needs verified accounts, so the server must write mail to files:
+#   (cd studylink-Folder && MAIL_DRIVER=file npm start) &
+#   bash test_visibility.sh http://localhost:8199
+# MAIL_DIR is where the server writes mail (default studylink-Folder/mail). The classes
+# table needs at least one class.
+
+source "$(dirname "$0")/test_lib.sh"
+
+# Uploads a small text file as <token> with <visibility> [classId]; prints the new file's ID
+upload() {
+  local token=$1 visibility=$2 class_id=${3:-}
+  local class_field=()
+  if [[ -n "$class_id" ]]; then class_field=( -F "classId=$class_id" ); fi
+  upload_file "$token" "visibility-$visibility.txt" -F "visibility=$visibility" "${class_field[@]}"
+}
+
+# Whether GET /api/files, as [token], lists <file id>
+listed() {
+  local auth=()
+  if [[ -n "${2:-}" ]]; then auth=( -H "Authorization: Bearer $2" ); fi
+  curl -s "$BASE_URL/api/files" "${auth[@]}" > "$RESP"
+  python3 - "$1" "$RESP" <<'PY'
+import json, sys
+file_id = int(sys.argv[1])
+with open(sys.argv[2]) as fh:
+    rows = json.load(fh)
+sys.exit(0 if any(int(item["id"]) == file_id for item in rows) else 1)
+PY
+}
+
+assert_listed() {
+  local name=$1 file_id=$2 token=$3 expect=$4 got=no
+  if listed "$file_id" "$token"; then got=yes; fi
+  assert_code "$name" "$got" "$expect"
+}
+
+hr; echo "Testing against: $BASE_URL"; hr
+
+RESP=$(temp_file)
+
+OWNER_TOKEN=$(verified_account "owner_${RUN_ID}@school.edu")
+OTHER_TOKEN=$(verified_account "other_${RUN_ID}@school.edu")
+if [[ -n "$OWNER_TOKEN" && -n "$OTHER_TOKEN" ]]; then
+  ok "Two verified accounts"
+else
+  bad "Two verified accounts" "missing token" "tokens (is the server running with MAIL_DRIVER=file?)"
+fi
+CLASS_ID=$(curl -s "$BASE_URL/api/classes" | python3 -c 'import json,sys; rows=json.load(sys.stdin); print(rows[0]["id"] if rows else "")')
+if [[ -n "$CLASS_ID" ]]; then ok "A class to file under → $CLASS_ID"; else bad "A class to file under" "none" "a class"; fi
+
+PUBLIC_ID=$(upload "$OWNER_TOKEN" public)
+CAMPUS_ID=$(upload "$OWNER_TOKEN" campus)
+CLASS_FILE_ID=$(upload "$OWNER_TOKEN" class "$CLASS_ID")
+PRIVATE_ID=$(upload "$OWNER_TOKEN" private)
+if [[ -n "$PUBLIC_ID" && -n "$CAMPUS_ID" && -n "$CLASS_FILE_ID" && -n "$PRIVATE_ID" ]]; then
+  ok "Upload one file per visibility"
+else
+  bad "Upload one file per visibility" "$PUBLIC_ID/$CAMPUS_ID/$CLASS_FILE_ID/$PRIVATE_ID" "four IDs"
+fi
+# The checks below need both accounts and all four files
+if [[ $fail -gt 0 ]]; then
+  hr; echo "Setup failed; stopping. Pass: $pass   Fail: $fail"; hr
+  exit 1
+fi
+
+# 1) Public: anyone
+assert_code "Public, anonymous download → 200" "$(get_code "/api/files/$PUBLIC_ID")" 200
+assert_listed "Public, listed for anonymous" "$PUBLIC_ID" "" yes
+
+# 2) Campus: any signed-in user
+assert_code "Campus, anonymous download → 401" "$(get_code "/api/files/$CAMPUS_ID")" 401
+assert_listed "Campus, not listed for anonymous" "$CAMPUS_ID" "" no
+assert_code "Campus, signed-in download → 200" "$(get_code "/api/files/$CAMPUS_ID" "$OTHER_TOKEN")" 200
+assert_listed "Campus, listed for signed-in" "$CAMPUS_ID" "$OTHER_TOKEN" yes
+
+# 3) Class: only students enrolled in the class
+assert_code "Class, anonymous download → 401" "$(get_code "/api/files/$CLASS_FILE_ID")" 401
+assert_code "Class, not enrolled download → 403" "$(get_code "/api/files/$CLASS_FILE_ID" "$OTHER_TOKEN")" 403
+assert_listed "Class, not listed when not enrolled" "$CLASS_FILE_ID" "$OTHER_TOKEN" no
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/users/me/classes" \
+  -H "Authorization: Bearer $OTHER_TOKEN" "${JSON_HDR[@]}" -d "{\"classId\":$CLASS_ID}")
+if [[ "$code" == 201 || "$code" == 200 ]]; then ok "Enroll in the class"; else bad "Enroll in the class" "$code" "201"; fi
+assert_code "Class, enrolled download → 200" "$(get_code "/api/files/$CLASS_FILE_ID" "$OTHER_TOKEN")" 200
+assert_listed "Class, listed when enrolled" "$CLASS_FILE_ID" "$OTHER_TOKEN" yes
+curl -s -o /dev/null -X DELETE "$BASE_URL/api/users/me/classes/$CLASS_ID" -H "Authorization: Bearer $OTHER_TOKEN"
+assert_code "Class, after leaving the class → 403" "$(get_code "/api/files/$CLASS_FILE_ID" "$OTHER_TOKEN")" 403
+
+# 4) Private: only the owner; everyone else gets 404 as if it didn't exist
+assert_code "Private, owner download → 200" "$(get_code "/api/files/$PRIVATE_ID" "$OWNER_TOKEN")" 200
+assert_code "Private, anonymous download → 404" "$(get_code "/api/files/$PRIVATE_ID")" 404
+assert_code "Private, other user download → 404" "$(get_code "/api/files/$PRIVATE_ID" "$OTHER_TOKEN")" 404
+assert_code "Private, other user preview → 404" "$(get_code "/api/files/$PRIVATE_ID/preview" "$OTHER_TOKEN")" 404
+assert_code "Private, other user thumbnail → 404" "$(get_code "/api/files/$PRIVATE_ID/thumbnail" "$OTHER_TOKEN")" 404
+assert_code "Private, other user metadata → 404" "$(get_code "/api/files/$PRIVATE_ID/meta" "$OTHER_TOKEN")" 404
+assert_code "Private, other user comments → 404" "$(get_code "/api/files/$PRIVATE_ID/comments" "$OTHER_TOKEN")" 404
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/files/$PRIVATE_ID/bookmark" \
+  -H "Authorization: Bearer $OTHER_TOKEN")
+assert_code "Private, other user bookmark → 404" "$code" 404
+assert_listed "Private, not listed for other user" "$PRIVATE_ID" "$OTHER_TOKEN" no
+assert_listed "Private, listed for owner" "$PRIVATE_ID" "$OWNER_TOKEN" yes
+
+# 5) Grants: the owner's listing carries one, and it opens only that file
+# $RESP still holds the owner's listing from the last check
+GRANT=$(python3 - "$PRIVATE_ID" "$RESP" <<'PY'
+import json, sys
+file_id = int(sys.argv[1])
+with open(sys.argv[2]) as fh:
+    rows = json.load(fh)
+print(next((item.get("grant") or "" for item in rows if int(item["id"]) == file_id), ""))
+PY
+)
+if [[ -n "$GRANT" ]]; then ok "Private file listed with a grant"; else bad "Private file listed with a grant" "none" "grant"; fi
+assert_code "Private, anonymous download with grant → 200" "$(get_code "/api/files/$PRIVATE_ID?grant=$GRANT")" 200
+assert_code "Grant for another file → 401" "$(get_code "/api/files/$CAMPUS_ID?grant=$GRANT")" 401
+assert_code "Forged grant → 404" "$(get_code "/api/files/$PRIVATE_ID?grant=${GRANT}x")" 404
+
+# 6) Share links: open the file until revoked; only the owner manages them
+code=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/files/$PRIVATE_ID/share-links" \
+  -H "Authorization: Bearer $OTHER_TOKEN" "${JSON_HDR[@]}" -d '{"expiresInDays":1}')
+assert_code "Share link by another user → 403" "$code" 403
+code=$(curl -s -o "$RESP" -w "%{http_code}" -X POST "$BASE_URL/api/files/$PRIVATE_ID/share-links" \
+  -H "Authorization: Bearer $OWNER_TOKEN" "${JSON_HDR[@]}" -d '{"expiresInDays":1}')
+assert_code "Create share link → 201" "$code" 201
+SHARE_TOKEN=$(json_field "$RESP" token)
+LINK_ID=$(json_field "$RESP" id)
+assert_code "Private, anonymous download with share link → 200" "$(get_code "/api/files/$PRIVATE_ID?share=$SHARE_TOKEN")" 200
+assert_code "Private, metadata with share link → 200" "$(get_code "/api/files/$PRIVATE_ID/meta?share=$SHARE_TOKEN")" 200
+assert_code "Share link for another file → 401" "$(get_code "/api/files/$CAMPUS_ID?share=$SHARE_TOKEN")" 401
+code=$(curl -s -o /dev/null -w "%{http_code}" -X DELETE "$BASE_URL/api/files/$PRIVATE_ID/share-links/$LINK_ID" \
+  -H "Authorization: Bearer $OWNER_TOKEN")
+assert_code "Revoke share link → 204" "$code" 204
+assert_code "Private, download with revoked share link → 404" "$(get_code "/api/files/$PRIVATE_ID?share=$SHARE_TOKEN")" 404
+curl -s -o "$RESP" "$BASE_URL/api/files/$PRIVATE_ID/share-links" -H "Authorization: Bearer $OWNER_TOKEN"
+assert_code "Revoked link listed as revoked" "$(json_field "$RESP" links.0.status)" "revoked"
+
+# Clean up the uploads
+for file_id in "$PUBLIC_ID" "$CAMPUS_ID" "$CLASS_FILE_ID" "$PRIVATE_ID"; do
+  curl -s -o /dev/null -X DELETE "$BASE_URL/api/files/$file_id" -H "Authorization: Bearer $OWNER_TOKEN"
+done
+assert_code "Deleted private file → 404" "$(get_code "/api/files/$PRIVATE_ID" "$OWNER_TOKEN")" 404
+
+finish